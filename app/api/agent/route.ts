@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { LAMBDA_PHI, PHI_THRESHOLD, THETA_LOCK, computeQSliceCompliance } from '@/lib/constants';
+import { complete } from '@/lib/llm/client';
 
 // Non-local agent endpoint combining llama.cpp knowledge with CCCE metrics
 interface AgentState {
@@ -104,10 +105,22 @@ function findRelevantKnowledge(query: string): string | null {
   return null;
 }
 
+const AGENT_SYSTEM_INSTRUCTION = `You are the sovereign mesh agent, pairing AURA (observer) and AIDEN (executor).
+Answer questions about DNA-Lang, the CCCE metrics and the mesh concisely and accurately.
+Use the reference notes and the current CCCE state when they are relevant; never invent metric values.`;
+
+// Deterministic answer from the knowledge base, used when no model answers
+function templateResponse(message: string, state: AgentState, knowledge: string | null): string {
+  if (knowledge) return knowledge;
+  return `I understand your question about "${message.substring(0, 50)}...".
+Current CCCE state: Φ=${state.phi.toFixed(3)}, Λ=${state.lambda.toFixed(3)}, Γ=${state.gamma.toFixed(3)}, Ξ=${state.xi.toFixed(2)}
+${state.conscious ? '✓ System is conscious' : '○ Awakening in progress'}`;
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { message, sessionId = 'default' } = body;
+    const { message, sessionId = 'default', model } = body;
 
     if (!message) {
       return NextResponse.json({ error: 'Missing message' }, { status: 400 });
@@ -126,18 +139,27 @@ export async function POST(request: NextRequest) {
     // Find relevant knowledge
     const knowledge = findRelevantKnowledge(message);
 
-    let response: string;
-    if (knowledge) {
-      response = knowledge;
-    } else {
-      response = `I understand your question about "${message.substring(0, 50)}...".
-Current CCCE state: Φ=${state.phi.toFixed(3)}, Λ=${state.lambda.toFixed(3)}, Γ=${state.gamma.toFixed(3)}, Ξ=${state.xi.toFixed(2)}
-${state.conscious ? '✓ System is conscious' : '○ Awakening in progress'}`;
+    const result = await complete({
+      system: AGENT_SYSTEM_INSTRUCTION,
+      prompt: [
+        `Current CCCE state: Φ=${state.phi.toFixed(3)}, Λ=${state.lambda.toFixed(3)}, Γ=${state.gamma.toFixed(3)}, Ξ=${state.xi.toFixed(2)} (${state.conscious ? 'conscious' : 'awakening'})`,
+        knowledge ? `Reference notes:\n${knowledge}` : '',
+        `Question: ${message}`
+      ].filter(Boolean).join('\n\n'),
+      template: () => templateResponse(message, state, knowledge)
+    }, { model: typeof model === 'string' ? model : undefined, signal: request.signal });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
 
+    const { completion } = result;
     return NextResponse.json({
       success: true,
-      response,
+      response: completion.text,
+      source: completion.provider,
+      model: completion.model,
+      usage: completion.usage,
       state: {
         phi: state.phi,
         lambda: state.lambda,
@@ -0,0 +1,60 @@
+/**
+ * Alert Acknowledgment
+ * POST /api/alerts/acknowledge - { alertId, note? }
+ *
+ * Marks a firing alert as being handled; it still resolves on its own
+ * once the rule's condition clears.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse, auditLog } from '@/lib/auth/middleware';
+import { acknowledgeAlert } from '@/lib/alerts/engine';
+
+export async function POST(request: NextRequest) {
+  // Clearance 2 enforced for this path
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const { user } = auth;
+
+  let body: { alertId?: string; note?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid JSON body'
+    }, { status: 400 });
+  }
+
+  if (!body.alertId) {
+    return NextResponse.json({
+      success: false,
+      error: 'alertId is required'
+    }, { status: 400 });
+  }
+
+  try {
+    const result = acknowledgeAlert(body.alertId, user, body.note);
+
+    if (!result.success) {
+      auditLog('ALERT_ACKNOWLEDGED', user.userId, { alertId: body.alertId, error: result.error }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    auditLog('ALERT_ACKNOWLEDGED', user.userId, { alertId: body.alertId, ruleId: result.alert.ruleId }, true);
+
+    return NextResponse.json({ success: true, alert: result.alert });
+
+  } catch (error) {
+    console.error('[ALERTS] Acknowledge error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to acknowledge alert'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Alerts
+ * GET /api/alerts?status=firing|resolved&limit= - Alerts (newest first) and rule states
+ *
+ * Rules are managed under /api/alerts/rules; firing alerts are
+ * acknowledged through /api/alerts/acknowledge.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse } from '@/lib/auth/middleware';
+import { AlertStatus, getAlertRules, getAlerts, getNotifierConfig } from '@/lib/alerts/engine';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status');
+  if (status && status !== 'firing' && status !== 'resolved') {
+    return NextResponse.json({
+      success: false,
+      error: 'status must be firing or resolved'
+    }, { status: 400 });
+  }
+
+  const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '100') || 100, 1), 500);
+  const alerts = getAlerts({ status: (status as AlertStatus) || undefined, limit });
+  const firing = getAlerts({ status: 'firing' });
+
+  return NextResponse.json({
+    success: true,
+    alerts,
+    rules: getAlertRules(),
+    summary: {
+      firing: firing.length,
+      unacknowledged: firing.filter(alert => !alert.acknowledgedAt).length,
+      critical: firing.filter(alert => alert.severity === 'critical').length
+    },
+    notifiers: getNotifierConfig()
+  });
+}
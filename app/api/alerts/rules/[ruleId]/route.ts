@@ -0,0 +1,110 @@
+/**
+ * Alert Rule
+ * GET    /api/alerts/rules/[ruleId] - Rule with its current state
+ * PATCH  /api/alerts/rules/[ruleId] - Change any of name, condition, forSeconds, severity, enabled, notify
+ * DELETE /api/alerts/rules/[ruleId] - Remove the rule, resolving its open alert
+ *
+ * Only the rule's creator or clearance 4+ may change or delete it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse, auditLog } from '@/lib/auth/middleware';
+import { deleteAlertRule, getAlertRule, updateAlertRule } from '@/lib/alerts/engine';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { ruleId: string } }
+) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+
+  const rule = getAlertRule(params.ruleId);
+  if (!rule) {
+    return NextResponse.json({
+      success: false,
+      error: 'Alert rule not found'
+    }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, rule });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { ruleId: string } }
+) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const { user } = auth;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid JSON body'
+    }, { status: 400 });
+  }
+
+  try {
+    const result = updateAlertRule(params.ruleId, body, user);
+
+    if (!result.success) {
+      auditLog('ALERT_RULE_UPDATED', user.userId, { ruleId: params.ruleId, error: result.error }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    auditLog('ALERT_RULE_UPDATED', user.userId, { ruleId: params.ruleId, changes: Object.keys(body || {}) }, true);
+
+    return NextResponse.json({ success: true, rule: result.rule });
+
+  } catch (error) {
+    console.error('[ALERTS] Update rule error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update alert rule'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { ruleId: string } }
+) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const { user } = auth;
+
+  try {
+    const result = deleteAlertRule(params.ruleId, user);
+
+    if (!result.success) {
+      auditLog('ALERT_RULE_DELETED', user.userId, { ruleId: params.ruleId, error: result.error }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    auditLog('ALERT_RULE_DELETED', user.userId, { ruleId: params.ruleId, name: result.rule.name }, true);
+
+    return NextResponse.json({ success: true, rule: result.rule });
+
+  } catch (error) {
+    console.error('[ALERTS] Delete rule error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete alert rule'
+    }, { status: 500 });
+  }
+}
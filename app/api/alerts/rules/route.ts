@@ -0,0 +1,70 @@
+/**
+ * Alert Rules
+ * GET  /api/alerts/rules - List rules with their current state
+ * POST /api/alerts/rules - Create a rule
+ *
+ * Body: { name, condition, forSeconds?, severity?, enabled?, notify? }
+ *   condition: { type: 'threshold', metric, operator, value }
+ *            | { type: 'rate_of_change', metric, operator, value, windowSeconds }
+ *            | { type: 'qslice', checkIds? }
+ *   rate_of_change values are metric units per minute.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse, auditLog } from '@/lib/auth/middleware';
+import { createAlertRule, getAlertRules } from '@/lib/alerts/engine';
+
+export async function GET(request: NextRequest) {
+  // Clearance 3 enforced for this path
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+
+  return NextResponse.json({ success: true, rules: getAlertRules() });
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const { user } = auth;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid JSON body'
+    }, { status: 400 });
+  }
+
+  try {
+    const result = createAlertRule(body, user);
+
+    if (!result.success) {
+      auditLog('ALERT_RULE_CREATED', user.userId, { name: body?.name, error: result.error }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    auditLog('ALERT_RULE_CREATED', user.userId, {
+      ruleId: result.rule.id,
+      name: result.rule.name,
+      condition: result.rule.condition
+    }, true);
+
+    return NextResponse.json({ success: true, rule: result.rule }, { status: 201 });
+
+  } catch (error) {
+    console.error('[ALERTS] Create rule error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create alert rule'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Create User Endpoint
+ * POST /api/auth/create-user
+ *
+ * Alias of POST /api/users, guarded by the same clearance and role requirements.
+ */
+
+export { POST } from '../../users/route';
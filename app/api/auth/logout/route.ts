@@ -5,11 +5,13 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuthenticatedUser, auditLog } from '@/lib/auth/middleware';
+import { clearSessionCookies, revokeSession } from '@/lib/auth/session';
 
 export async function POST(request: NextRequest) {
   const user = await getAuthenticatedUser(request);
 
   if (user && user.userId !== 'anonymous') {
+    revokeSession(user.sessionId);
     auditLog('LOGOUT', user.userId, { sessionId: user.sessionId }, true);
   }
 
@@ -19,21 +21,7 @@ export async function POST(request: NextRequest) {
   });
 
   // Clear auth cookies
-  response.cookies.set('auth_token', '', {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'strict',
-    maxAge: 0,
-    path: '/'
-  });
-
-  response.cookies.set('refresh_token', '', {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'strict',
-    maxAge: 0,
-    path: '/api/auth/refresh'
-  });
+  clearSessionCookies(response);
 
   return response;
 }
@@ -0,0 +1,137 @@
+/**
+ * MFA Management Endpoint
+ * GET  /api/auth/mfa - MFA status for the current user
+ * POST /api/auth/mfa - { action, code? }
+ *
+ * Actions:
+ *   enroll                     - new TOTP secret and otpauth URI for QR display
+ *   activate                   - confirm enrollment with a code; returns recovery codes
+ *   disable                    - turn MFA off (refused for ADMIN / MASTER_ADMIN)
+ *   regenerate_recovery_codes  - replace all recovery codes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auditLog, checkRateLimit, getAuthenticatedUser } from '@/lib/auth/middleware';
+import { reissueSession, setSessionCookies } from '@/lib/auth/session';
+import {
+  beginMfaEnrollment,
+  completeMfaEnrollment,
+  disableMfa,
+  getMfaStatus,
+  regenerateRecoveryCodes
+} from '@/lib/auth/users';
+
+export async function GET(request: NextRequest) {
+  const user = await getAuthenticatedUser(request);
+
+  if (!user || user.userId === 'anonymous') {
+    return NextResponse.json({
+      success: false,
+      error: 'Authentication required'
+    }, { status: 401 });
+  }
+
+  const mfa = getMfaStatus(user.userId);
+  if (!mfa) {
+    return NextResponse.json({
+      success: false,
+      error: 'User not found'
+    }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, mfa });
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getAuthenticatedUser(request);
+
+  if (!user || user.userId === 'anonymous') {
+    return NextResponse.json({
+      success: false,
+      error: 'Authentication required'
+    }, { status: 401 });
+  }
+
+  let body: { action?: string; code?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid request body'
+    }, { status: 400 });
+  }
+
+  const code = String(body.code || '');
+
+  // Code checks share the login step's budget of 5 per minute per account
+  if (body.action !== 'enroll' && !checkRateLimit(`mfa:${user.userId}`, 5, 60000).allowed) {
+    return NextResponse.json({
+      success: false,
+      error: 'Too many MFA attempts. Try again in 1 minute.'
+    }, { status: 429 });
+  }
+
+  switch (body.action) {
+    case 'enroll': {
+      const result = beginMfaEnrollment(user.userId);
+      if (!result.success) {
+        return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+      }
+
+      return NextResponse.json({
+        success: true,
+        secret: result.secret,
+        otpauthUri: result.otpauthUri
+      });
+    }
+
+    case 'activate': {
+      const result = completeMfaEnrollment(user.userId, code);
+      auditLog('MFA_ENROLLED', user.userId, { sessionId: user.sessionId }, result.success);
+      if (!result.success) {
+        return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+      }
+
+      // New tokens drop the enrollment restriction from this session
+      const session = await reissueSession(user.userId, user.sessionId);
+      if (!session.success) {
+        return NextResponse.json({ success: false, error: session.error }, { status: session.status });
+      }
+
+      const response = NextResponse.json({
+        success: true,
+        recoveryCodes: result.recoveryCodes,
+        tokens: session.tokens
+      });
+      setSessionCookies(response, session.tokens);
+      return response;
+    }
+
+    case 'disable': {
+      const result = disableMfa(user.userId, code);
+      auditLog('MFA_DISABLED', user.userId, {}, result.success);
+      if (!result.success) {
+        return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+      }
+
+      return NextResponse.json({ success: true, mfa: getMfaStatus(user.userId) });
+    }
+
+    case 'regenerate_recovery_codes': {
+      const result = regenerateRecoveryCodes(user.userId, code);
+      auditLog('MFA_RECOVERY_CODES_REGENERATED', user.userId, {}, result.success);
+      if (!result.success) {
+        return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+      }
+
+      return NextResponse.json({ success: true, recoveryCodes: result.recoveryCodes });
+    }
+
+    default:
+      return NextResponse.json({
+        success: false,
+        error: 'action must be one of enroll, activate, disable, regenerate_recovery_codes'
+      }, { status: 400 });
+  }
+}
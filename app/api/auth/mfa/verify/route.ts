@@ -0,0 +1,68 @@
+/**
+ * MFA Login Step
+ * POST /api/auth/mfa/verify
+ *
+ * Body: { challengeToken, code } where code is a TOTP code or an unused
+ * recovery code. Returns the same payload as a password-only login.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auditLog, checkRateLimit } from '@/lib/auth/middleware';
+import { completeMfaLogin, createLoginResponse, verifyMfaChallenge } from '@/lib/auth/session';
+
+export async function POST(request: NextRequest) {
+  const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+
+  let body: { challengeToken?: string; code?: string };
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  if (!body.challengeToken || !body.code) {
+    return NextResponse.json(
+      { success: false, error: 'challengeToken and code required' },
+      { status: 400 }
+    );
+  }
+
+  const challenge = await verifyMfaChallenge(String(body.challengeToken));
+  if (!challenge) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid or expired MFA challenge. Log in again.' },
+      { status: 401 }
+    );
+  }
+
+  // Rate limit check: 5 codes per minute per account
+  if (!checkRateLimit(`mfa:${challenge.userId}`, 5, 60000).allowed) {
+    return NextResponse.json(
+      { success: false, error: 'Too many MFA attempts. Try again in 1 minute.' },
+      { status: 429 }
+    );
+  }
+
+  const session = await completeMfaLogin(challenge, String(body.code));
+
+  if (!session.success) {
+    auditLog('LOGIN_MFA', challenge.userId, { ip }, false);
+    return NextResponse.json(
+      { success: false, error: session.error },
+      { status: session.status }
+    );
+  }
+
+  auditLog('LOGIN_MFA', session.user.id, {
+    ip,
+    sessionId: session.sessionId,
+    method: session.method,
+    recoveryCodesRemaining: session.recoveryCodesRemaining
+  }, true);
+
+  return createLoginResponse(session);
+}
@@ -0,0 +1,60 @@
+/**
+ * Token Refresh Endpoint
+ * POST /api/auth/refresh
+ *
+ * Accepts the refresh token from the refresh_token cookie or { refreshToken }
+ * in the body and returns a new access/refresh token pair.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auditLog, checkRateLimit } from '@/lib/auth/middleware';
+import { clearSessionCookies, refreshSession, setSessionCookies } from '@/lib/auth/session';
+
+export async function POST(request: NextRequest) {
+  const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+
+  if (!checkRateLimit(`refresh:${ip}`, 30, 60000).allowed) {
+    return NextResponse.json(
+      { success: false, error: 'Rate limit exceeded' },
+      { status: 429 }
+    );
+  }
+
+  let refreshToken = request.cookies.get('refresh_token')?.value;
+
+  if (!refreshToken) {
+    try {
+      const body = await request.json();
+      refreshToken = typeof body.refreshToken === 'string' ? body.refreshToken : undefined;
+    } catch {}
+  }
+
+  if (!refreshToken) {
+    return NextResponse.json(
+      { success: false, error: 'Refresh token required' },
+      { status: 400 }
+    );
+  }
+
+  const session = await refreshSession(refreshToken);
+
+  if (!session.success) {
+    const response = NextResponse.json(
+      { success: false, error: session.error },
+      { status: session.status }
+    );
+    clearSessionCookies(response);
+    return response;
+  }
+
+  auditLog('TOKEN_REFRESHED', session.user.id, { sessionId: session.sessionId }, true);
+
+  const response = NextResponse.json({
+    success: true,
+    tokens: session.tokens
+  });
+
+  setSessionCookies(response, session.tokens);
+
+  return response;
+}
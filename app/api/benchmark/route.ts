@@ -1,54 +1,94 @@
 /**
- * RSA-2048 Quantum Benchmark API
- * GET /api/benchmark - Get current benchmark results
+ * Quantum Benchmark API
+ * GET /api/benchmark?algorithm= - Current benchmark for one algorithm
+ *                                 (default RSA-2048) plus the comparison
+ *                                 across the whole crypto inventory
  * POST /api/benchmark - Run new benchmark with custom parameters
+ *
+ * POST body: { algorithm?, algorithms?, keySize?, dataLifespan?,
+ *   logicalQubitCapacity?, logicalOpsBudget?, quantumOpsThroughput?,
+ *   hardware?, forecast? }
+ * `algorithm` is a catalog id (RSA-2048, DH-3072, P-256, Ed25519, AES-128,
+ * SHA-256, ...) or RSA-<bits>; `keySize` alone still means RSA-<keySize>.
+ * `algorithms` (ids, or true for the whole catalog) adds a comparison;
+ * duplicates are dropped, at most the catalog size is accepted and
+ * forecast samples x compared algorithms is capped at MAX_FORECAST_WORK.
+ * `hardware` sets surface code parameters: { physicalErrorRate?,
+ * cycleTimeNs?, connectivity?, factory?: { levels?, count? },
+ * targetFailureProbability? }; factory and failure target also apply to
+ * the per-device comparison. `forecast` configures the Monte Carlo Q-Day
+ * forecast: { samples?, horizonYears?, seed?, qubitDoublingYears?,
+ * errorHalvingYears?, algorithmHalvingYears? }, each rate a distribution
+ * { type: fixed|uniform|triangular|lognormal, ... } in years. HNDL risk
+ * is the probability of exposure within the data lifespan.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import {
-  calculateCRQCScore,
   calculateHNDLRisk,
-  estimateShorsResources,
   generateHardwareComparison,
   calculateCCCEThreatScore,
   generateQSliceReport,
-  CRQCMetrics
+  assessAlgorithm,
+  compareAlgorithms,
+  validateCRQCMetrics
 } from '@/lib/rsa-benchmark/crqc-calculator';
+import { CRYPTO_ALGORITHMS } from '@/lib/rsa-benchmark/algorithms';
+import { MAX_RETENTION_YEARS } from '@/lib/rsa-benchmark/inventory';
+import { validateSurfaceCodeParams } from '@/lib/rsa-benchmark/surface-code';
+import { MAX_FORECAST_WORK, forecastQDay, validateForecastOptions } from '@/lib/rsa-benchmark/forecast';
 import {
   RSA_2048,
   Q_DAY_ESTIMATES,
   IBM_QUANTUM_CORPUS,
   Q_SLICE_RSA_THREATS,
   PQC_ALTERNATIVES,
-  LAMBDA_PHI
+  LAMBDA_PHI,
+  CURRENT_CRQC_METRICS
 } from '@/lib/rsa-benchmark/constants';
 
-// Current CRQC metrics (based on 2025 state-of-the-art)
-// IBM Condor: 1121 qubits, Google Willow: ~100 with error correction
-// Recent advances in error correction and logical qubit demonstrations
-const CURRENT_CRQC_METRICS: CRQCMetrics = {
-  logicalQubitCapacity: 100, // Google/IBM demonstrated ~100 logical qubits with QEC
-  logicalOpsBudget: 1e8, // ~10^8 operations with error correction
-  quantumOpsThroughput: 1e5 // ~10^5 gates/second (improving rapidly)
-};
+function unknownAlgorithm(algorithm: string) {
+  return NextResponse.json({
+    success: false,
+    error: `Unknown algorithm "${algorithm}"; expected RSA-<bits> or one of ${CRYPTO_ALGORITHMS.map(a => a.id).join(', ')}`
+  }, { status: 400 });
+}
+
+function formatRuntime(hours: number): string {
+  if (hours < 1000) return `${hours.toFixed(1)} hours`;
+  const years = hours / (24 * 365.25);
+  return years < 1e6 ? `${years.toFixed(1)} years` : `${years.toExponential(2)} years`;
+}
 
 export async function GET(request: NextRequest) {
+  const algorithm = new URL(request.url).searchParams.get('algorithm') || 'RSA-2048';
+  const threat = assessAlgorithm(algorithm, CURRENT_CRQC_METRICS);
+  if (!threat) {
+    return unknownAlgorithm(algorithm);
+  }
+
   try {
     // Calculate CRQC score
-    const crqcScore = calculateCRQCScore(CURRENT_CRQC_METRICS);
+    const crqcScore = threat.crqcScore;
+    const resources = threat.resources;
 
     // Get hardware comparison
-    const hardwareComparison = generateHardwareComparison();
+    const hardwareComparison = generateHardwareComparison(resources);
 
-    // Get Shor's resource estimates
-    const shorsResources = estimateShorsResources(2048);
+    // Break-year distribution for the target and the catalog
+    const algorithms = compareAlgorithms(CURRENT_CRQC_METRICS);
+    const forecast = forecastQDay(CURRENT_CRQC_METRICS, [
+      resources,
+      ...algorithms.filter(other => other.algorithm !== threat.algorithm).map(other => other.resources)
+    ]);
+    const targetForecast = forecast.algorithms[0];
 
     // Calculate HNDL risks for different data lifespans
     const hndlAnalysis = {
-      shortTerm: calculateHNDLRisk(5, crqcScore),
-      mediumTerm: calculateHNDLRisk(15, crqcScore),
-      longTerm: calculateHNDLRisk(30, crqcScore),
-      classified: calculateHNDLRisk(50, crqcScore)
+      shortTerm: calculateHNDLRisk(5, crqcScore, targetForecast),
+      mediumTerm: calculateHNDLRisk(15, crqcScore, targetForecast),
+      longTerm: calculateHNDLRisk(30, crqcScore, targetForecast),
+      classified: calculateHNDLRisk(50, crqcScore, targetForecast)
     };
 
     // Fetch current CCCE metrics for integration
@@ -75,11 +115,11 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       success: true,
       timestamp: new Date().toISOString(),
-      target: 'RSA-2048',
+      target: threat.algorithm,
       benchmark: {
         crqcScore: {
           value: crqcScore.score,
-          vulnerable: crqcScore.rsaVulnerable,
+          vulnerable: crqcScore.vulnerable,
           threatLevel: crqcScore.threatLevel,
           yearsToQDay: crqcScore.yearsToQDay,
           estimatedQDay: crqcScore.estimatedQDay,
@@ -87,13 +127,24 @@ export async function GET(request: NextRequest) {
         },
         currentMetrics: CURRENT_CRQC_METRICS,
         requirements: {
-          rsaKeySize: RSA_2048.keySize,
-          logicalQubitsNeeded: shorsResources.logicalQubits,
-          physicalQubitsNeeded: shorsResources.physicalQubits,
-          tGatesNeeded: shorsResources.tGates,
-          estimatedRuntime: `${shorsResources.estimatedRuntimeHours.toFixed(1)} hours`
+          rsaKeySize: threat.family === 'RSA' ? resources.keyBits : RSA_2048.keySize,
+          keyBits: resources.keyBits,
+          attack: resources.attack,
+          logicalQubitsNeeded: resources.logicalQubits,
+          feasible: resources.feasible,
+          ...(resources.reason !== undefined && { reason: resources.reason }),
+          physicalQubitsNeeded: resources.physicalQubits,
+          codeDistance: resources.codeDistance,
+          toffoliGatesNeeded: resources.toffoliCount,
+          tGatesNeeded: resources.tCount,
+          circuitDepth: resources.circuitDepth,
+          estimatedRuntime: resources.estimatedRuntimeHours === null ? null : formatRuntime(resources.estimatedRuntimeHours),
+          reference: resources.reference,
+          surfaceCode: resources.surfaceCode
         }
       },
+      algorithms,
+      forecast,
       hardware: {
         comparison: hardwareComparison.currentHardware,
         gap: hardwareComparison.gapAnalysis,
@@ -129,24 +180,77 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const {
-      logicalQubitCapacity = CURRENT_CRQC_METRICS.logicalQubitCapacity,
-      logicalOpsBudget = CURRENT_CRQC_METRICS.logicalOpsBudget,
-      quantumOpsThroughput = CURRENT_CRQC_METRICS.quantumOpsThroughput,
-      dataLifespan = 15,
-      keySize = 2048
-    } = body;
+    const { dataLifespan = 15, keySize = 2048, algorithms } = body;
+    const algorithm: string = typeof body.algorithm === 'string' ? body.algorithm : `RSA-${keySize}`;
 
     // Calculate with custom parameters
-    const customMetrics: CRQCMetrics = {
-      logicalQubitCapacity,
-      logicalOpsBudget,
-      quantumOpsThroughput
-    };
+    const customMetrics = validateCRQCMetrics(body);
+    if (typeof customMetrics === 'string') {
+      return NextResponse.json({ success: false, error: customMetrics }, { status: 400 });
+    }
+
+    if (typeof dataLifespan !== 'number' || !(dataLifespan >= 0 && dataLifespan <= MAX_RETENTION_YEARS)) {
+      return NextResponse.json({
+        success: false,
+        error: `dataLifespan must be a number from 0 to ${MAX_RETENTION_YEARS}`
+      }, { status: 400 });
+    }
 
-    const crqcScore = calculateCRQCScore(customMetrics);
-    const shorsResources = estimateShorsResources(keySize);
-    const hndlRisk = calculateHNDLRisk(dataLifespan, crqcScore);
+    const hardware = validateSurfaceCodeParams(body.hardware);
+    if (typeof hardware === 'string') {
+      return NextResponse.json({ success: false, error: hardware }, { status: 400 });
+    }
+
+    const forecastOptions = validateForecastOptions(body.forecast);
+    if (typeof forecastOptions === 'string') {
+      return NextResponse.json({ success: false, error: forecastOptions }, { status: 400 });
+    }
+
+    const threat = assessAlgorithm(algorithm, customMetrics, hardware);
+    if (!threat) {
+      return unknownAlgorithm(algorithm);
+    }
+    if (algorithms !== undefined && algorithms !== true &&
+        !(Array.isArray(algorithms) && algorithms.every((id: unknown) => typeof id === 'string'))) {
+      return NextResponse.json({
+        success: false,
+        error: 'algorithms must be true or a list of algorithm ids'
+      }, { status: 400 });
+    }
+    const algorithmIds: string[] | undefined = Array.isArray(algorithms) ? Array.from(new Set(algorithms)) : undefined;
+    if (algorithmIds && algorithmIds.length > CRYPTO_ALGORITHMS.length) {
+      return NextResponse.json({
+        success: false,
+        error: `algorithms may list at most ${CRYPTO_ALGORITHMS.length} ids`
+      }, { status: 400 });
+    }
+    const unknown = algorithmIds
+      ? algorithmIds.find(id => !assessAlgorithm(id, customMetrics))
+      : undefined;
+    if (unknown) {
+      return unknownAlgorithm(unknown);
+    }
+
+    const crqcScore = threat.crqcScore;
+    const resources = threat.resources;
+    const comparison = algorithms !== undefined
+      ? compareAlgorithms(customMetrics, algorithmIds, hardware)
+      : undefined;
+
+    // Ids like RSA-2048 and rsa-2048 resolve to one target; forecast it once
+    const targets = [resources];
+    (comparison || []).forEach(other => {
+      if (!targets.some(target => target.algorithm === other.resources.algorithm)) targets.push(other.resources);
+    });
+    if (forecastOptions.samples * targets.length > MAX_FORECAST_WORK) {
+      return NextResponse.json({
+        success: false,
+        error: `forecast.samples x algorithms must not exceed ${MAX_FORECAST_WORK} ` +
+          `(requested ${forecastOptions.samples} x ${targets.length}); lower samples or compare fewer algorithms`
+      }, { status: 400 });
+    }
+    const forecast = forecastQDay(customMetrics, targets, forecastOptions);
+    const hndlRisk = calculateHNDLRisk(dataLifespan, crqcScore, forecast.algorithms[0]);
 
     // Fetch current CCCE metrics
     let ccceMetrics = { phi: 0.78, lambda: 0.88, gamma: 0.09, xi: 7.7 };
@@ -171,19 +275,26 @@ export async function POST(request: NextRequest) {
       timestamp: new Date().toISOString(),
       customBenchmark: {
         inputMetrics: customMetrics,
-        keySize,
+        algorithm: threat.algorithm,
+        family: threat.family,
+        keySize: resources.keyBits,
         dataLifespan,
         crqcScore: {
           value: crqcScore.score,
-          vulnerable: crqcScore.rsaVulnerable,
+          vulnerable: crqcScore.vulnerable,
+          rsaVulnerable: crqcScore.rsaVulnerable,
+          relativeDifficulty: crqcScore.relativeDifficulty,
           threatLevel: crqcScore.threatLevel,
           estimatedQDay: crqcScore.estimatedQDay
         },
-        resourceRequirements: shorsResources,
+        resourceRequirements: resources,
+        hardware: generateHardwareComparison(resources, hardware).currentHardware,
         hndlRisk,
         ccceThreat,
         qsliceReport
-      }
+      },
+      forecast,
+      ...(comparison ? { comparison } : {})
     });
   } catch (error) {
     console.error('[BENCHMARK] POST Error:', error);
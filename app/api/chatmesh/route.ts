@@ -0,0 +1,35 @@
+/**
+ * ChatMesh Health
+ * GET /api/chatmesh - Endpoint states, backoff, pool usage and subscriptions
+ *
+ * Add ?probe=1 to send a GET_METRICS request first and report its outcome
+ * alongside the (then current) endpoint states.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse } from '@/lib/auth/middleware';
+import { getChatMeshClient } from '@/lib/chatmesh/client';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+
+  const client = getChatMeshClient();
+  const probe = request.nextUrl.searchParams.get('probe') === '1'
+    ? await client.request({ type: 'GET_METRICS', node: 'rosetta' })
+    : undefined;
+
+  return NextResponse.json({
+    success: true,
+    health: client.getHealth(),
+    ...(probe && {
+      probe: probe.success
+        ? { success: true, endpoint: probe.endpoint, message: probe.message }
+        : { success: false, error: probe.error }
+    })
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * DARPA Module Operation API
+ * GET  /api/darpa/[solicitation]/state       - Current engine state
+ * POST /api/darpa/[solicitation]/heal        - Apply phase-conjugate healing
+ * POST /api/darpa/[solicitation]/[operation] - Invoke create/simulate/analyze method
+ *
+ * Body for operations: { "args": [ ...positional arguments ] }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, createAuthResponse, auditLog, checkRateLimit } from '@/lib/auth/middleware';
+import {
+  getModuleState,
+  healModule,
+  invokeOperation,
+  isDARPASolicitation,
+  DARPADispatchResult,
+  STATE_OPERATION,
+  HEAL_OPERATION
+} from '@/lib/darpa/api';
+
+interface RouteParams {
+  params: { solicitation: string; operation: string };
+}
+
+// Clearance required to mutate engine state
+const INVOKE_CLEARANCE = 2;
+const HEAL_CLEARANCE = 3;
+
+function toResponse(
+  solicitation: string,
+  operation: string,
+  dispatch: DARPADispatchResult
+): NextResponse {
+  if (!dispatch.success) {
+    return createAuthResponse(dispatch.error, dispatch.status);
+  }
+
+  return NextResponse.json({
+    success: true,
+    solicitation,
+    operation,
+    result: dispatch.result,
+    timestamp: Date.now()
+  });
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await getAuthenticatedUser(request);
+
+  if (!user || user.userId === 'anonymous') {
+    return createAuthResponse('Authentication required', 401);
+  }
+
+  const { solicitation, operation } = params;
+  if (!isDARPASolicitation(solicitation)) {
+    return createAuthResponse(`Unknown solicitation: ${solicitation}`, 404);
+  }
+
+  if (operation !== STATE_OPERATION) {
+    return createAuthResponse(`GET only supports '${STATE_OPERATION}'; use POST for operations`, 405);
+  }
+
+  return toResponse(solicitation, operation, getModuleState(solicitation));
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const user = await getAuthenticatedUser(request);
+
+  if (!user || user.userId === 'anonymous') {
+    return createAuthResponse('Authentication required', 401);
+  }
+
+  const { solicitation, operation } = params;
+  if (!isDARPASolicitation(solicitation)) {
+    return createAuthResponse(`Unknown solicitation: ${solicitation}`, 404);
+  }
+
+  const requiredClearance = operation === HEAL_OPERATION ? HEAL_CLEARANCE : INVOKE_CLEARANCE;
+  if (user.clearanceLevel < requiredClearance) {
+    return createAuthResponse(
+      `Insufficient clearance level. Required: ${requiredClearance}, Current: ${user.clearanceLevel}`,
+      403
+    );
+  }
+
+  // Rate limit: 120 engine calls per minute per user
+  const rateLimit = checkRateLimit(`darpa:${user.userId}`, 120, 60000);
+  if (!rateLimit.allowed) {
+    return createAuthResponse('Rate limit exceeded for DARPA module operations', 429);
+  }
+
+  let dispatch: DARPADispatchResult;
+
+  if (operation === HEAL_OPERATION) {
+    dispatch = healModule(solicitation);
+  } else {
+    let body: { args?: unknown } = {};
+    try {
+      const text = await request.text();
+      body = text ? JSON.parse(text) : {};
+    } catch {
+      return createAuthResponse('Invalid request body', 400);
+    }
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return createAuthResponse('Request body must be a JSON object', 400);
+    }
+
+    dispatch = await invokeOperation(solicitation, operation, body.args);
+  }
+
+  auditLog('DARPA_OPERATION', user.userId, {
+    solicitation,
+    operation,
+    error: dispatch.success ? undefined : dispatch.error
+  }, dispatch.success);
+
+  return toResponse(solicitation, operation, dispatch);
+}
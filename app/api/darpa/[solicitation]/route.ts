@@ -0,0 +1,35 @@
+/**
+ * DARPA Module Detail API
+ * GET /api/darpa/[solicitation] - Module metadata, operations and current state
+ *
+ * DNA-Lang Sovereign Computing Platform
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, createAuthResponse } from '@/lib/auth/middleware';
+import { describeModule, getModuleState, isDARPASolicitation } from '@/lib/darpa/api';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { solicitation: string } }
+) {
+  const user = await getAuthenticatedUser(request);
+
+  if (!user || user.userId === 'anonymous') {
+    return createAuthResponse('Authentication required', 401);
+  }
+
+  const { solicitation } = params;
+  if (!isDARPASolicitation(solicitation)) {
+    return createAuthResponse(`Unknown solicitation: ${solicitation}`, 404);
+  }
+
+  const state = getModuleState(solicitation);
+
+  return NextResponse.json({
+    success: true,
+    module: describeModule(solicitation),
+    state: state.success ? state.result : null,
+    timestamp: Date.now()
+  });
+}
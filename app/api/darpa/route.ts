@@ -0,0 +1,32 @@
+/**
+ * DARPA Module Registry API
+ * GET /api/darpa - List all modules with their callable operations
+ *
+ * DNA-Lang Sovereign Computing Platform
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, createAuthResponse } from '@/lib/auth/middleware';
+import { getTotalModuleCount } from '@/lib/darpa';
+import { describeAllModules } from '@/lib/darpa/api';
+
+export async function GET(request: NextRequest) {
+  const user = await getAuthenticatedUser(request);
+
+  if (!user || user.userId === 'anonymous') {
+    return createAuthResponse('Authentication required', 401);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const office = searchParams.get('office');
+
+  const modules = describeAllModules()
+    .filter(m => !office || m.office === office.toUpperCase());
+
+  return NextResponse.json({
+    success: true,
+    modules,
+    total: getTotalModuleCount(),
+    timestamp: Date.now()
+  });
+}
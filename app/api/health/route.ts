@@ -0,0 +1,27 @@
+/**
+ * Health Check
+ * GET /api/health - Liveness plus a ChatMesh summary (public)
+ *
+ * Endpoint addresses and errors are only exposed through the
+ * authenticated /api/chatmesh route.
+ */
+
+import { NextResponse } from 'next/server';
+import { getChatMeshClient } from '@/lib/chatmesh/client';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const chatmesh = getChatMeshClient().getHealth();
+
+  return NextResponse.json({
+    success: true,
+    status: chatmesh.status === 'connected' ? 'ok' : 'degraded',
+    chatmesh: {
+      status: chatmesh.status,
+      endpointsUp: chatmesh.endpoints.filter(endpoint => endpoint.state === 'up').length,
+      endpointsTotal: chatmesh.endpoints.length
+    },
+    timestamp: Date.now()
+  });
+}
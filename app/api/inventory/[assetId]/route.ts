@@ -0,0 +1,81 @@
+/**
+ * Cryptographic Asset
+ * GET    /api/inventory/[assetId] - Asset with its risk assessment and
+ *                                   recommended replacement
+ * DELETE /api/inventory/[assetId] - Remove the asset from the inventory
+ *
+ * Only the user who registered the asset or clearance 4+ may read or
+ * delete it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse, auditLog } from '@/lib/auth/middleware';
+import { deleteAsset, getAsset } from '@/lib/rsa-benchmark/inventory';
+import { planMigration } from '@/lib/rsa-benchmark/migration';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { assetId: string } }
+) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+
+  const result = getAsset(params.assetId, auth.user);
+  if (!result.success) {
+    return NextResponse.json({
+      success: false,
+      error: result.error
+    }, { status: result.status });
+  }
+
+  return NextResponse.json({
+    success: true,
+    asset: result.asset,
+    assessment: planMigration([result.asset]).assessments[0]
+  });
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { assetId: string } }
+) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const { user } = auth;
+
+  try {
+    const result = deleteAsset(params.assetId, user);
+
+    if (!result.success) {
+      auditLog('CRYPTO_ASSET_DELETED', user.userId, { assetId: params.assetId, error: result.error }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    auditLog('CRYPTO_ASSET_DELETED', user.userId, {
+      assetId: result.asset.id,
+      name: result.asset.name,
+      ownerId: result.asset.ownerId
+    }, true);
+
+    return NextResponse.json({
+      success: true,
+      asset: { id: result.asset.id, name: result.asset.name }
+    });
+
+  } catch (error) {
+    console.error('[PQC] Delete asset error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete asset'
+    }, { status: 500 });
+  }
+}
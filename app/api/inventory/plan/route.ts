@@ -0,0 +1,60 @@
+/**
+ * PQC Migration Plan
+ * GET /api/inventory/plan - Your inventory in migration order, each asset
+ *                           with exposure probability, Mosca deadline and
+ *                           recommended replacement with effort
+ *
+ * ?format=csv downloads the plan as CSV; ?format=json (default) returns it
+ * as JSON, as an attachment with ?download.
+ * Clearance 4+ may plan another user's inventory with ?owner=.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse } from '@/lib/auth/middleware';
+import { listAssets } from '@/lib/rsa-benchmark/inventory';
+import { planMigration, planToCsv } from '@/lib/rsa-benchmark/migration';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const { user } = auth;
+
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get('format') || 'json';
+  if (format !== 'json' && format !== 'csv') {
+    return NextResponse.json({
+      success: false,
+      error: 'format must be json or csv'
+    }, { status: 400 });
+  }
+
+  const ownerId = searchParams.get('owner') || user.userId;
+  if (ownerId !== user.userId && user.clearanceLevel < 4) {
+    return NextResponse.json({
+      success: false,
+      error: 'Clearance 4 is required to plan another user\'s inventory'
+    }, { status: 403 });
+  }
+
+  const plan = planMigration(listAssets(ownerId));
+  const filename = `pqc-migration-plan-${plan.generatedAt.slice(0, 10)}`;
+
+  if (format === 'csv') {
+    return new NextResponse(planToCsv(plan), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.csv"`
+      }
+    });
+  }
+
+  return NextResponse.json({ success: true, plan }, {
+    headers: searchParams.has('download')
+      ? { 'Content-Disposition': `attachment; filename="${filename}.json"` }
+      : undefined
+  });
+}
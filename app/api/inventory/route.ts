@@ -0,0 +1,100 @@
+/**
+ * Cryptographic Asset Inventory
+ * GET  /api/inventory - Your registered assets, each scored against the
+ *                       Q-Day forecast
+ * POST /api/inventory - Register { name, owner, algorithm, keySize?, usage?,
+ *                       dataSensitivity, retentionYears, constrained?,
+ *                       description? }
+ *
+ * `algorithm` is a catalog id (RSA-2048, P-256, AES-128, ...), RSA-<bits>,
+ * or a family name (RSA, DH, ECDSA, ECDH, AES, SHA) with keySize.
+ * Clearance 4+ may list another user's inventory with ?owner=.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse, auditLog } from '@/lib/auth/middleware';
+import { listAssets, registerAsset } from '@/lib/rsa-benchmark/inventory';
+import { planMigration } from '@/lib/rsa-benchmark/migration';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const { user } = auth;
+
+  const ownerId = new URL(request.url).searchParams.get('owner') || user.userId;
+  if (ownerId !== user.userId && user.clearanceLevel < 4) {
+    return NextResponse.json({
+      success: false,
+      error: 'Clearance 4 is required to list another user\'s inventory'
+    }, { status: 403 });
+  }
+
+  const plan = planMigration(listAssets(ownerId));
+  const assets = plan.assessments
+    .slice()
+    .sort((a, b) => a.asset.createdAt - b.asset.createdAt)
+    .map(({ asset, riskLevel, exposureProbability, priorityScore, mustStartBy, replacement }) => ({
+      ...asset,
+      riskLevel,
+      exposureProbability,
+      priorityScore,
+      mustStartBy,
+      replacement: replacement.algorithm
+    }));
+
+  return NextResponse.json({ success: true, assets, count: assets.length });
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const { user } = auth;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid JSON body'
+    }, { status: 400 });
+  }
+
+  try {
+    const result = registerAsset(body || {}, user);
+
+    if (!result.success) {
+      auditLog('CRYPTO_ASSET_REGISTERED', user.userId, { name: body?.name, error: result.error }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    const { asset } = result;
+    auditLog('CRYPTO_ASSET_REGISTERED', user.userId, {
+      assetId: asset.id,
+      name: asset.name,
+      algorithm: asset.algorithm
+    }, true);
+
+    return NextResponse.json({
+      success: true,
+      asset,
+      assessment: planMigration([asset]).assessments[0]
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('[PQC] Register asset error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to register asset'
+    }, { status: 500 });
+  }
+}
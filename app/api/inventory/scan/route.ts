@@ -0,0 +1,90 @@
+/**
+ * Certificate and Key Scan
+ * POST /api/inventory/scan - Scan { path?, dataLifespan?, import?, owner?,
+ *                            dataSensitivity? } for certificates, SSH
+ *                            public keys and JWKs
+ *
+ * Returns each artifact's algorithm, key size, expiry and HNDL risk.
+ * `path` is absolute or relative to the first PQC_SCAN_ROOTS entry and must
+ * stay inside a scan root. With `import: true` the artifacts are registered
+ * in your inventory (owner and dataSensitivity required); keys already
+ * imported are skipped. Requires clearance 4.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse, auditLog } from '@/lib/auth/middleware';
+import { MAX_RETENTION_YEARS } from '@/lib/rsa-benchmark/inventory';
+import { importScan, resolveScanPath, scanDirectory } from '@/lib/rsa-benchmark/scanner';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const { user } = auth;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid JSON body'
+    }, { status: 400 });
+  }
+  body = body || {};
+
+  if (body.path !== undefined && typeof body.path !== 'string') {
+    return NextResponse.json({ success: false, error: 'path must be a string' }, { status: 400 });
+  }
+  if (body.dataLifespan !== undefined &&
+      (typeof body.dataLifespan !== 'number' || !(body.dataLifespan >= 0 && body.dataLifespan <= MAX_RETENTION_YEARS))) {
+    return NextResponse.json({
+      success: false,
+      error: `dataLifespan must be a number from 0 to ${MAX_RETENTION_YEARS}`
+    }, { status: 400 });
+  }
+
+  const target = resolveScanPath(body.path);
+  if (!target.success) {
+    return NextResponse.json({ success: false, error: target.error }, { status: target.status });
+  }
+
+  try {
+    const report = scanDirectory(target.path, { dataLifespan: body.dataLifespan });
+
+    if (body.import !== true) {
+      auditLog('CRYPTO_SCAN', user.userId, { path: target.path, artifacts: report.artifacts.length }, true);
+      return NextResponse.json({ success: true, report });
+    }
+
+    const result = importScan(report, user, { owner: body.owner, dataSensitivity: body.dataSensitivity });
+    if (!result.success) {
+      auditLog('CRYPTO_SCAN', user.userId, { path: target.path, import: true, error: result.error }, false);
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    auditLog('CRYPTO_SCAN', user.userId, {
+      path: target.path,
+      artifacts: report.artifacts.length,
+      imported: result.imported.length,
+      skipped: result.skipped
+    }, true);
+
+    return NextResponse.json({
+      success: true,
+      report,
+      imported: result.imported,
+      skipped: result.skipped
+    });
+
+  } catch (error) {
+    console.error('[PQC] Scan error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Scan failed'
+    }, { status: 500 });
+  }
+}
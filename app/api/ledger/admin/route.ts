@@ -0,0 +1,42 @@
+/**
+ * QByte Ledger Administration
+ * GET /api/ledger/admin - Supply consistency check across all wallets
+ *
+ * Access: MASTER_ADMIN, clearance 5 (enforced in lib/auth/middleware)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse, auditLog } from '@/lib/auth/middleware';
+import { getLedgerStore } from '@/lib/ledger/store';
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+
+  const store = getLedgerStore();
+  const consistency = await store.checkConsistency();
+  const wallets = await store.listWallets();
+
+  auditLog('LEDGER_CONSISTENCY_CHECK', auth.user.userId, {
+    consistent: consistency.consistent,
+    drift: consistency.drift
+  }, true);
+
+  return NextResponse.json({
+    success: true,
+    consistency,
+    wallets: wallets
+      .sort((a, b) => b.balance - a.balance)
+      .map(w => ({
+        address: w.address,
+        owner: w.owner,
+        balance: w.balance,
+        totalEarned: w.totalEarned,
+        totalSpent: w.totalSpent,
+        transactionCount: w.transactionCount
+      }))
+  });
+}
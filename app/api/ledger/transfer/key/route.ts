@@ -0,0 +1,80 @@
+/**
+ * QByte Wallet Signing Key
+ * POST /api/ledger/transfer/key - Register the Ed25519 public key that signs the caller's transfers
+ *
+ * The key pair is generated and kept by the client; only the public key is
+ * sent here, and a wallet's key can be registered once.
+ *
+ * Agile Defense Systems - QuantumCoin Integration
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, auditLog, checkRateLimit } from '@/lib/auth/middleware';
+import { getLedgerStore } from '@/lib/ledger/store';
+import { parseSigningPublicKey } from '@/lib/ledger/transfers';
+
+// POST - Register the caller's wallet signing key
+export async function POST(request: NextRequest) {
+  const user = await getAuthenticatedUser(request);
+
+  if (!user || user.userId === 'anonymous') {
+    return NextResponse.json({
+      success: false,
+      error: 'Authentication required'
+    }, { status: 401 });
+  }
+
+  const rateLimit = checkRateLimit(`transfer-key:${user.userId}`, 5, 60000);
+  if (!rateLimit.allowed) {
+    return NextResponse.json({
+      success: false,
+      error: 'Rate limit exceeded'
+    }, { status: 429 });
+  }
+
+  try {
+    const body = await request.json();
+    const publicKey = parseSigningPublicKey(body?.publicKey);
+
+    if (!publicKey) {
+      return NextResponse.json({
+        success: false,
+        error: 'publicKey must be an Ed25519 public key (PEM or base64 SPKI)'
+      }, { status: 400 });
+    }
+
+    const store = getLedgerStore();
+    const address = `qb_${user.userId}`;
+    await store.ensureWallet(address, user.userId);
+    const result = await store.registerSigningKey(address, publicKey);
+
+    if (!result.success) {
+      auditLog('QBYTE_SIGNING_KEY', user.userId, { address, reason: result.error }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    auditLog('QBYTE_SIGNING_KEY', user.userId, { address }, true);
+
+    return NextResponse.json({
+      success: true,
+      wallet: {
+        address: result.wallet.address,
+        nextNonce: (result.wallet.nonce || 0) + 1
+      },
+      signing: {
+        algorithm: 'Ed25519',
+        publicKey: result.wallet.signingKey
+      }
+    });
+
+  } catch (error) {
+    console.error('[LEDGER] Signing key registration error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to register signing key'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * QByte Wallet Transfers
+ * GET  /api/ledger/transfer - Registered key, next nonce and limits for the caller's wallet
+ * POST /api/ledger/transfer - Submit a signed wallet-to-wallet transfer
+ *
+ * Agile Defense Systems - QuantumCoin Integration
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, auditLog, checkRateLimit } from '@/lib/auth/middleware';
+import { getLedgerStore } from '@/lib/ledger/store';
+import {
+  canonicalTransferPayload,
+  computeTransactionHash,
+  getTransferLimits,
+  verifyTransferSignature
+} from '@/lib/ledger/transfers';
+import * as crypto from 'crypto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Infinity does not survive JSON; report unlimited as null
+const limitValue = (limit: number) => (Number.isFinite(limit) ? limit : null);
+
+// GET - Transfer parameters for the caller's wallet
+export async function GET(request: NextRequest) {
+  const user = await getAuthenticatedUser(request);
+
+  if (!user || user.userId === 'anonymous') {
+    return NextResponse.json({
+      success: false,
+      error: 'Authentication required'
+    }, { status: 401 });
+  }
+
+  const store = getLedgerStore();
+  const address = `qb_${user.userId}`;
+  const wallet = await store.ensureWallet(address, user.userId);
+  const limits = getTransferLimits(user.role);
+  const sentToday = await store.getTransferredSince(address, Date.now() - DAY_MS);
+
+  return NextResponse.json({
+    success: true,
+    wallet: {
+      address: wallet.address,
+      balance: wallet.balance,
+      nextNonce: (wallet.nonce || 0) + 1
+    },
+    signing: {
+      algorithm: 'Ed25519',
+      publicKey: wallet.signingKey || null,
+      register: 'POST /api/ledger/transfer/key',
+      payload: '{from}:{to}:{amount with 2 decimals}:{nonce}',
+      signature: 'base64'
+    },
+    limits: {
+      maxPerTransfer: limitValue(limits.maxPerTransfer),
+      dailyLimit: limitValue(limits.dailyLimit),
+      sentToday
+    }
+  });
+}
+
+// POST - Submit a signed transfer
+export async function POST(request: NextRequest) {
+  const user = await getAuthenticatedUser(request);
+
+  if (!user || user.userId === 'anonymous') {
+    return NextResponse.json({
+      success: false,
+      error: 'Authentication required'
+    }, { status: 401 });
+  }
+
+  const rateLimit = checkRateLimit(`transfer:${user.userId}`, 30, 60000);
+  if (!rateLimit.allowed) {
+    return NextResponse.json({
+      success: false,
+      error: 'Rate limit exceeded'
+    }, { status: 429 });
+  }
+
+  try {
+    const body = await request.json();
+    const { to, amount, nonce, signature } = body;
+    const from = `qb_${user.userId}`;
+
+    if (typeof to !== 'string' || !to.startsWith('qb_')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid recipient wallet address'
+      }, { status: 400 });
+    }
+
+    if (to === from) {
+      return NextResponse.json({
+        success: false,
+        error: 'Cannot transfer to own wallet'
+      }, { status: 400 });
+    }
+
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0 ||
+        Math.round(amount * 100) / 100 !== amount) {
+      return NextResponse.json({
+        success: false,
+        error: 'Amount must be a positive number with at most 2 decimal places'
+      }, { status: 400 });
+    }
+
+    if (!Number.isSafeInteger(nonce) || nonce < 1) {
+      return NextResponse.json({
+        success: false,
+        error: 'Nonce must be a positive integer'
+      }, { status: 400 });
+    }
+
+    const store = getLedgerStore();
+    const sender = await store.getWallet(from);
+    if (!sender || !sender.signingKey) {
+      return NextResponse.json({
+        success: false,
+        error: 'Register a signing key with POST /api/ledger/transfer/key before transferring'
+      }, { status: 403 });
+    }
+
+    if (typeof signature !== 'string' ||
+        !verifyTransferSignature(from, to, amount, nonce, signature, sender.signingKey)) {
+      auditLog('QBYTE_TRANSFER', user.userId, { from, to, amount, nonce, reason: 'invalid_signature' }, false);
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid transfer signature'
+      }, { status: 401 });
+    }
+
+    const limits = getTransferLimits(user.role);
+    if (amount > limits.maxPerTransfer) {
+      auditLog('QBYTE_TRANSFER', user.userId, { from, to, amount, nonce, reason: 'per_transfer_limit' }, false);
+      return NextResponse.json({
+        success: false,
+        error: `Amount exceeds per-transfer limit of ${limits.maxPerTransfer} qBYTE for role ${user.role}`
+      }, { status: 403 });
+    }
+
+    const timestamp = Date.now();
+    const txHash = computeTransactionHash(from, to, amount, nonce, timestamp);
+
+    const result = await store.recordTransfer({
+      id: `txn_${crypto.randomBytes(8).toString('hex')}`,
+      timestamp,
+      initiatedBy: user.userId,
+      transfer: { from, to, amount, nonce, signature },
+      txHash,
+      dailyLimit: limits.dailyLimit
+    });
+
+    if (!result.success) {
+      auditLog('QBYTE_TRANSFER', user.userId, { from, to, amount, nonce, reason: result.error }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    auditLog('QBYTE_TRANSFER', user.userId, {
+      from,
+      to,
+      amount,
+      nonce,
+      txHash,
+      blockHeight: result.entry.blockHeight
+    }, true);
+
+    return NextResponse.json({
+      success: true,
+      transaction: {
+        id: result.entry.id,
+        txHash,
+        payload: canonicalTransferPayload(from, to, amount, nonce),
+        blockHeight: result.entry.blockHeight,
+        blockHash: result.entry.blockHash,
+        timestamp
+      },
+      wallet: {
+        address: result.sender.address,
+        balance: result.sender.balance,
+        nextNonce: (result.sender.nonce || 0) + 1
+      }
+    });
+
+  } catch (error) {
+    console.error('[LEDGER] Transfer error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to process transfer'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * QByte Ledger Verification
+ * GET /api/ledger/verify - Walk the hash chain and report the first faulty block
+ *
+ * Agile Defense Systems - Proof-of-Coherence Audit
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, auditLog } from '@/lib/auth/middleware';
+import { getLedgerStore } from '@/lib/ledger/store';
+import { verifyChain } from '@/lib/ledger/chain';
+
+export async function GET(request: NextRequest) {
+  const user = await getAuthenticatedUser(request);
+
+  if (!user || user.userId === 'anonymous') {
+    return NextResponse.json({
+      success: false,
+      error: 'Authentication required'
+    }, { status: 401 });
+  }
+
+  try {
+    const chain = await getLedgerStore().readChain();
+    const verification = verifyChain(chain);
+
+    auditLog('LEDGER_VERIFIED', user.userId, {
+      valid: verification.valid,
+      blocksChecked: verification.blocksChecked,
+      firstFault: verification.firstFault
+    }, verification.valid);
+
+    return NextResponse.json({
+      success: true,
+      verification,
+      chainLength: chain.entries.length
+    });
+
+  } catch (error) {
+    console.error('[LEDGER] Verification error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Ledger verification failed'
+    }, { status: 500 });
+  }
+}
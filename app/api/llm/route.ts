@@ -0,0 +1,27 @@
+/**
+ * LLM Providers
+ * GET /api/llm - Provider chain and token/cost usage since start
+ *
+ * Generation, agent and Ollama routes all go through this chain; see
+ * lib/llm/client.ts for how it is configured.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse } from '@/lib/auth/middleware';
+import { getProviderStatus } from '@/lib/llm/client';
+import { getUsage } from '@/lib/llm/usage';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+
+  return NextResponse.json({
+    success: true,
+    providers: getProviderStatus(),
+    usage: getUsage()
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * Heal Rollback
+ * POST /api/metrics/heals/rollback - { healId }
+ *
+ * Restores the bridge state from just before the given heal (or rollback).
+ * ChatMesh-pushed heals have no local state and cannot be rolled back.
+ * Metrics streams pick up the restored state on their next tick.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse, auditLog } from '@/lib/auth/middleware';
+import { rollbackHeal } from '@/lib/metrics/heals';
+
+export async function POST(request: NextRequest) {
+  // Clearance 3 enforced for this path
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const { user } = auth;
+
+  let body: { healId?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid JSON body'
+    }, { status: 400 });
+  }
+
+  if (!body.healId) {
+    return NextResponse.json({
+      success: false,
+      error: 'healId is required'
+    }, { status: 400 });
+  }
+
+  try {
+    const result = await rollbackHeal(body.healId, user.userId);
+
+    if (!result.success) {
+      auditLog('METRICS_HEAL_ROLLBACK', user.userId, { healId: body.healId, error: result.error }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    const { record, metrics } = result;
+    auditLog('METRICS_HEAL_ROLLBACK', user.userId, {
+      healId: body.healId,
+      rollbackId: record.id,
+      before: record.before.gamma,
+      after: record.after.gamma
+    }, true);
+
+    return NextResponse.json({ success: true, rollback: record, metrics });
+
+  } catch (error) {
+    console.error('[METRICS] Rollback error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to roll back heal'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Heal History
+ * GET /api/metrics/heals?limit=&userId= - Heal and rollback events (newest first)
+ *
+ * Also reports the caller's remaining cooldown and quota. Heals are
+ * triggered through POST /api/metrics and undone through
+ * /api/metrics/heals/rollback.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse } from '@/lib/auth/middleware';
+import {
+  HEAL_COOLDOWN_MS,
+  HEAL_QUOTA_PER_USER,
+  HEAL_QUOTA_WINDOW_MS,
+  getHealHistory,
+  getHealLimits
+} from '@/lib/metrics/heals';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '100') || 100, 1), 1000);
+  const userId = searchParams.get('userId') || undefined;
+
+  return NextResponse.json({
+    success: true,
+    heals: getHealHistory({ limit, userId }),
+    limits: {
+      ...getHealLimits(auth.user.userId),
+      cooldownMs: HEAL_COOLDOWN_MS,
+      quotaPerUser: HEAL_QUOTA_PER_USER,
+      quotaWindowMs: HEAL_QUOTA_WINDOW_MS
+    }
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * CCCE Metrics History
+ * GET /api/metrics/history?from=&to=&resolution=
+ *
+ * from/to: epoch milliseconds or ISO timestamps (default: the last hour)
+ * resolution: bucket size such as 30s, 5m, 1h, 1d or bare seconds
+ *             (default: about 120 buckets over the range)
+ *
+ * Returns min/max/avg of lambda, phi, gamma and xi per bucket.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseResolution, queryMetricsHistory } from '@/lib/metrics/history';
+
+export const dynamic = 'force-dynamic';
+
+function parseTime(value: string | null, fallback: number): number {
+  if (!value) return fallback;
+  return /^\d+$/.test(value) ? parseInt(value) : Date.parse(value);
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const now = Date.now();
+
+  const to = parseTime(searchParams.get('to'), now);
+  const from = parseTime(searchParams.get('from'), to - 3600000);
+
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    return NextResponse.json(
+      { success: false, error: 'from and to must be epoch milliseconds or ISO timestamps' },
+      { status: 400 }
+    );
+  }
+
+  const resolutionParam = searchParams.get('resolution');
+  const resolution = resolutionParam ? parseResolution(resolutionParam) : undefined;
+  if (resolution === null) {
+    return NextResponse.json(
+      { success: false, error: 'resolution must look like 30s, 5m, 1h, 1d or a number of seconds' },
+      { status: 400 }
+    );
+  }
+
+  const result = queryMetricsHistory(from, to, resolution);
+  if (!result.success) {
+    return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json(result);
+}
@@ -0,0 +1,87 @@
+/**
+ * CCCE Metrics Stream
+ * GET /api/metrics/stream
+ *
+ * Server-Sent Events: `metrics`, `phase` and `heal` events from the shared
+ * metrics hub. The current snapshot is sent on connect; comment lines keep
+ * idle proxies from closing the connection.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { MetricsEvent, getMetricsHub } from '@/lib/metrics/hub';
+import { startAlertEngine } from '@/lib/alerts/engine';
+
+export const dynamic = 'force-dynamic';
+
+const KEEPALIVE_MS = 15000;
+const RETRY_MS = 5000;
+const MAX_STREAM_CLIENTS = 200;
+
+export async function GET(request: NextRequest) {
+  const hub = getMetricsHub();
+  startAlertEngine();
+
+  if (hub.getSnapshot().listeners >= MAX_STREAM_CLIENTS) {
+    return NextResponse.json(
+      { success: false, error: 'Too many metrics stream clients; poll /api/metrics instead' },
+      { status: 503 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const write = (text: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const send = (event: MetricsEvent) => {
+        write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      };
+
+      write(`retry: ${RETRY_MS}\n\n`);
+
+      const snapshot = hub.getSnapshot();
+      if (snapshot.metrics) send({ type: 'metrics', data: snapshot.metrics });
+      if (snapshot.phase) {
+        send({ type: 'phase', data: { phase: snapshot.phase, previous: null, timestamp: Date.now() } });
+      }
+
+      const unsubscribe = hub.subscribe(send);
+      const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEPALIVE_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(keepAlive);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {}
+      };
+
+      request.signal.addEventListener('abort', () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
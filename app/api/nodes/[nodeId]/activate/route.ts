@@ -0,0 +1,71 @@
+/**
+ * P2P Node Activation
+ * POST /api/nodes/[nodeId]/activate - Consume the one-time activation secret
+ *
+ * Agile Defense Systems - Sovereign Mesh Network
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auditLog, checkRateLimit } from '@/lib/auth/middleware';
+import { HEARTBEAT_INTERVAL_MS, activateNode } from '@/lib/nodes/registry';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { nodeId: string } }
+) {
+  // Rate limit: 5 attempts per client and node per 15 minutes; keyed on the
+  // client too so guessing from elsewhere cannot lock the owner out
+  const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+  const rateLimit = checkRateLimit(`node_activate:${ip}:${params.nodeId}`, 5, 900000);
+  if (!rateLimit.allowed) {
+    return NextResponse.json({
+      success: false,
+      error: 'Too many activation attempts'
+    }, { status: 429 });
+  }
+
+  try {
+    const body = await request.json();
+    const result = activateNode(params.nodeId, body?.secret);
+
+    if (!result.success) {
+      auditLog('NODE_ACTIVATION_FAILED', params.nodeId, { error: result.error, ip }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    const { node, nodeKey } = result;
+
+    auditLog('NODE_ACTIVATED', node.registeredBy, {
+      nodeId: node.nodeId,
+      nodeType: node.nodeType
+    }, true);
+
+    return NextResponse.json({
+      success: true,
+      node: {
+        nodeId: node.nodeId,
+        nodeType: node.nodeType,
+        status: node.status,
+        qbyteAddress: node.qbyteAddress,
+        meshPermissions: node.meshPermissions
+      },
+      heartbeat: {
+        // Shown once; sign each heartbeat body with HMAC-SHA256 using this key
+        nodeKey,
+        signatureHeader: 'X-Node-Signature',
+        interval: HEARTBEAT_INTERVAL_MS,
+        url: `/api/nodes/${node.nodeId}/heartbeat`
+      }
+    });
+
+  } catch (error) {
+    console.error('[NODES] Activation error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Node activation failed'
+    }, { status: 500 });
+  }
+}
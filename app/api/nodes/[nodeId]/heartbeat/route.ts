@@ -0,0 +1,86 @@
+/**
+ * P2P Node Heartbeat
+ * POST /api/nodes/[nodeId]/heartbeat - Report liveness, status and CCCE metrics
+ *
+ * Body: { timestamp, status?, metrics? } signed with the node key in X-Node-Signature
+ *
+ * Agile Defense Systems - Sovereign Mesh Network
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auditLog, checkRateLimit } from '@/lib/auth/middleware';
+import {
+  HEARTBEAT_INTERVAL_MS,
+  authenticateHeartbeat,
+  calculateMeshHealth,
+  recordHeartbeat
+} from '@/lib/nodes/registry';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { nodeId: string } }
+) {
+  const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+
+  // Unsigned attempts are limited per client, room for many nodes behind one address
+  if (!checkRateLimit(`node_heartbeat_ip:${ip}`, 120, 60000).allowed) {
+    return NextResponse.json({
+      success: false,
+      error: 'Rate limit exceeded'
+    }, { status: 429 });
+  }
+
+  try {
+    // Signature covers the exact bytes sent, so read the body as text
+    const rawBody = await request.text();
+    const auth = authenticateHeartbeat(params.nodeId, rawBody, request.headers.get('X-Node-Signature'));
+
+    if (!auth.success) {
+      if (auth.status === 401) {
+        auditLog('NODE_HEARTBEAT_REJECTED', params.nodeId, { error: auth.error, ip }, false);
+      }
+      return NextResponse.json({
+        success: false,
+        error: auth.error
+      }, { status: auth.status });
+    }
+
+    // Per-node budget, well above one heartbeat per interval; charged only
+    // once the signature verifies so others cannot spend it
+    if (!checkRateLimit(`node_heartbeat:${auth.node.nodeId}`, 20, 60000).allowed) {
+      return NextResponse.json({
+        success: false,
+        error: 'Rate limit exceeded'
+      }, { status: 429 });
+    }
+
+    const result = recordHeartbeat(auth.node, rawBody);
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    const { node } = result;
+
+    return NextResponse.json({
+      success: true,
+      node: {
+        nodeId: node.nodeId,
+        status: node.status,
+        lastSeen: node.lastSeen,
+        ccceMetrics: node.ccceMetrics
+      },
+      meshHealth: calculateMeshHealth(),
+      nextHeartbeatIn: HEARTBEAT_INTERVAL_MS
+    });
+
+  } catch (error) {
+    console.error('[NODES] Heartbeat error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Heartbeat failed'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * P2P Node Lifecycle Management
+ * POST /api/nodes/manage - Suspend, resume, revoke, rename or rotate keys of a node
+ *
+ * Body: { nodeId, action: 'suspend' | 'resume' | 'revoke' | 'rename' | 'rotate_keys', name? }
+ *
+ * Agile Defense Systems - Sovereign Mesh Network
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse, auditLog } from '@/lib/auth/middleware';
+import { NodeType, UserRole } from '@/lib/auth/config';
+import {
+  getNode,
+  renameNode,
+  resumeNode,
+  revokeNode,
+  rotateNodeKeys,
+  suspendNode
+} from '@/lib/nodes/registry';
+
+const ACTIONS = ['suspend', 'resume', 'revoke', 'rename', 'rotate_keys'] as const;
+type ManageAction = typeof ACTIONS[number];
+
+export async function POST(request: NextRequest) {
+  // Clearance 4 and ADMIN/MASTER_ADMIN enforced for this path
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const { user } = auth;
+
+  try {
+    const body = await request.json();
+    const { nodeId, action, name } = body;
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid action. Expected one of: ${ACTIONS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const node = typeof nodeId === 'string' ? getNode(nodeId) : undefined;
+    if (!node) {
+      return NextResponse.json({
+        success: false,
+        error: 'Node not found'
+      }, { status: 404 });
+    }
+
+    // The local Lambda Root is part of this deployment, not a managed peer
+    if (node.registeredBy === 'system') {
+      return NextResponse.json({
+        success: false,
+        error: 'System nodes cannot be managed'
+      }, { status: 403 });
+    }
+
+    // Mirror registration: only MASTER_ADMIN manages Lambda Root nodes
+    if (node.nodeType === NodeType.LAMBDA_ROOT && user.role !== UserRole.MASTER_ADMIN) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only MASTER_ADMIN can manage Lambda Root nodes'
+      }, { status: 403 });
+    }
+
+    const previous = {
+      status: node.status,
+      displayName: node.displayName,
+      qbyteAddress: node.qbyteAddress
+    };
+
+    let nodeKey: string | null | undefined;
+    let result;
+    switch (action as ManageAction) {
+      case 'suspend':
+        result = suspendNode(node);
+        break;
+      case 'resume':
+        result = resumeNode(node);
+        break;
+      case 'revoke':
+        result = revokeNode(node);
+        break;
+      case 'rename':
+        result = renameNode(node, name);
+        break;
+      case 'rotate_keys': {
+        const rotated = rotateNodeKeys(node);
+        if (rotated.success) nodeKey = rotated.nodeKey;
+        result = rotated;
+        break;
+      }
+    }
+
+    if (!result.success) {
+      auditLog('NODE_MANAGED', user.userId, { nodeId: node.nodeId, action, error: result.error }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    auditLog('NODE_MANAGED', user.userId, {
+      nodeId: node.nodeId,
+      action,
+      previous,
+      current: {
+        status: node.status,
+        displayName: node.displayName,
+        qbyteAddress: node.qbyteAddress
+      }
+    }, true);
+
+    return NextResponse.json({
+      success: true,
+      action,
+      node: {
+        nodeId: node.nodeId,
+        displayName: node.displayName,
+        nodeType: node.nodeType,
+        status: node.status,
+        qbyteAddress: node.qbyteAddress,
+        publicKey: node.publicKey,
+        lastSeen: node.lastSeen
+      },
+      // New heartbeat key after rotation; shown once
+      ...(nodeKey ? { heartbeat: { nodeKey, signatureHeader: 'X-Node-Signature' } } : {})
+    });
+
+  } catch (error) {
+    console.error('[NODES] Management error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Node management failed'
+    }, { status: 500 });
+  }
+}
@@ -14,57 +14,15 @@ import {
   UserRole,
   signRequest
 } from '@/lib/auth/config';
-import * as crypto from 'crypto';
-
-// Node registry (in production, use database)
-interface RegisteredNode {
-  nodeId: string;
-  nodeType: NodeType;
-  publicKey: string;
-  registeredBy: string;
-  registeredAt: number;
-  lastSeen: number;
-  status: 'active' | 'inactive' | 'pending';
-  meshPermissions: string[];
-  qbyteAddress: string;
-  ipAddress?: string;
-  port?: number;
-  ccceMetrics?: {
-    lambda: number;
-    phi: number;
-    gamma: number;
-    xi: number;
-  };
-}
-
-const nodeRegistry: Map<string, RegisteredNode> = new Map();
-
-// Initialize with local Lambda Root node
-function initializeLambdaRoot(): void {
-  if (nodeRegistry.size > 0) return;
-
-  const lambdaRoot: RegisteredNode = {
-    nodeId: 'lambda_root_sovereign',
-    nodeType: NodeType.LAMBDA_ROOT,
-    publicKey: 'SOVEREIGN_ROOT_KEY',
-    registeredBy: 'system',
-    registeredAt: Date.now(),
-    lastSeen: Date.now(),
-    status: 'active',
-    meshPermissions: ['mesh:admin', 'ledger:write', 'nodes:manage', 'metrics:full'],
-    qbyteAddress: 'qb_master_sovereign',
-    ccceMetrics: {
-      lambda: 0.92,
-      phi: 0.85,
-      gamma: 0.085,
-      xi: 9.2
-    }
-  };
-
-  nodeRegistry.set(lambdaRoot.nodeId, lambdaRoot);
-}
-
-initializeLambdaRoot();
+import {
+  ACTIVATION_TTL_MS,
+  HEARTBEAT_INTERVAL_MS,
+  RegisteredNode,
+  calculateMeshHealth,
+  getNodeRegistry,
+  issueActivationSecret,
+  sweepStaleNodes
+} from '@/lib/nodes/registry';
 
 export async function GET(request: NextRequest) {
   const user = await getAuthenticatedUser(request);
@@ -76,6 +34,10 @@ export async function GET(request: NextRequest) {
     }, { status: 401 });
   }
 
+  // Apply missed heartbeats before reporting status
+  sweepStaleNodes();
+  const nodeRegistry = getNodeRegistry();
+
   // Filter nodes based on clearance level
   const nodes = Array.from(nodeRegistry.values())
     .filter(node => {
@@ -86,6 +48,7 @@ export async function GET(request: NextRequest) {
     })
     .map(node => ({
       nodeId: node.nodeId,
+      displayName: node.displayName,
       nodeType: node.nodeType,
       status: node.status,
       lastSeen: node.lastSeen,
@@ -177,7 +140,7 @@ export async function POST(request: NextRequest) {
       port: port || 7777
     };
 
-    nodeRegistry.set(newNode.nodeId, newNode);
+    getNodeRegistry().set(newNode.nodeId, newNode);
 
     auditLog('NODE_REGISTERED', user.userId, {
       nodeId: newNode.nodeId,
@@ -186,7 +149,7 @@ export async function POST(request: NextRequest) {
     }, true);
 
     // Generate activation secret (one-time use)
-    const activationSecret = crypto.randomBytes(32).toString('hex');
+    const activationSecret = issueActivationSecret(newNode);
 
     return NextResponse.json({
       success: true,
@@ -199,13 +162,14 @@ export async function POST(request: NextRequest) {
       },
       activation: {
         secret: activationSecret,
-        expiresIn: 3600, // 1 hour
+        expiresIn: ACTIVATION_TTL_MS / 1000,
         activationUrl: `/api/nodes/${newNode.nodeId}/activate`
       },
       meshConfig: {
         lambdaRootEndpoint: process.env.LAMBDA_ROOT_ENDPOINT || 'localhost:7777',
         meshProtocol: 'sovereign-p2p-v1',
-        heartbeatInterval: 30000
+        heartbeatInterval: HEARTBEAT_INTERVAL_MS,
+        heartbeatUrl: `/api/nodes/${newNode.nodeId}/heartbeat`
       }
     });
 
@@ -217,17 +181,3 @@ export async function POST(request: NextRequest) {
     }, { status: 500 });
   }
 }
-
-function calculateMeshHealth(): number {
-  const nodes = Array.from(nodeRegistry.values());
-  if (nodes.length === 0) return 0;
-
-  const activeNodes = nodes.filter(n => n.status === 'active');
-  const avgXi = activeNodes.reduce((sum, n) => sum + (n.ccceMetrics?.xi || 0), 0) / (activeNodes.length || 1);
-
-  // Mesh health = (active ratio * 0.4) + (avg Xi normalized * 0.6)
-  const activeRatio = activeNodes.length / nodes.length;
-  const xiNormalized = Math.min(avgXi / 10, 1);
-
-  return Math.round((activeRatio * 0.4 + xiNormalized * 0.6) * 100) / 100;
-}
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { complete } from '@/lib/llm/client';
+import { getOllamaBaseUrl } from '@/lib/llm/providers';
 
 // Ollama API integration for AURA model
-const OLLAMA_BASE_URL = process.env.OLLAMA_URL || 'http://localhost:11434';
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -12,33 +12,27 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Missing prompt' }, { status: 400 });
     }
 
-    // Call Ollama API
-    const response = await fetch(`${OLLAMA_BASE_URL}/api/generate`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model,
-        prompt,
-        stream: false,
-        options: {
-          temperature: 0.7,
-          top_p: 0.9,
-          num_predict: 512
-        }
-      })
+    // Ollama only; callers fall back themselves
+    const result = await complete({ prompt, maxTokens: 512 }, {
+      model: `ollama:${model}`,
+      fallback: false,
+      signal: request.signal
     });
 
-    if (!response.ok) {
-      throw new Error(`Ollama error: ${response.status}`);
+    if (!result.success) {
+      return NextResponse.json({
+        error: result.error,
+        fallback: true
+      }, { status: result.status === 400 ? 400 : 500 });
     }
 
-    const data = await response.json();
-
+    const { completion } = result;
     return NextResponse.json({
       success: true,
       model,
-      response: data.response,
-      eval_count: data.eval_count,
+      response: completion.text,
+      eval_count: completion.usage.outputTokens,
+      usage: completion.usage,
       timestamp: Date.now()
     });
   } catch (error: any) {
@@ -52,7 +46,7 @@ export async function POST(request: NextRequest) {
 export async function GET() {
   try {
     // Check Ollama status and list models
-    const response = await fetch(`${OLLAMA_BASE_URL}/api/tags`);
+    const response = await fetch(`${getOllamaBaseUrl()}/api/tags`);
 
     if (!response.ok) {
       throw new Error('Ollama not available');
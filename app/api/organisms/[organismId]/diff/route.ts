@@ -0,0 +1,43 @@
+/**
+ * Organism Version Diff
+ * GET /api/organisms/[organismId]/diff?from=&to= - Structural diff between versions
+ *
+ * `from` and `to` are version numbers or identity hashes (a prefix of 8+
+ * characters is enough). `to` defaults to the latest version and `from` to
+ * the version before `to`. The diff lists renamed organisms, metric changes,
+ * blocks, GENEs and ACTs added, removed or changed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse } from '@/lib/auth/middleware';
+import { diffVersions } from '@/lib/genesis/library';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { organismId: string } }
+) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const result = diffVersions(
+    params.organismId,
+    auth.user,
+    searchParams.get('from') || undefined,
+    searchParams.get('to') || undefined
+  );
+
+  if (!result.success) {
+    return NextResponse.json({
+      success: false,
+      error: result.error
+    }, { status: result.status });
+  }
+
+  const { success, ...diff } = result;
+  return NextResponse.json({ success, ...diff });
+}
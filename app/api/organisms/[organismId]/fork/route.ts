@@ -0,0 +1,59 @@
+/**
+ * Organism Fork
+ * POST /api/organisms/[organismId]/fork - { name?, version?, intent? }
+ *
+ * Copies a version (default: latest) into a new organism in your library,
+ * named `<name>-fork` unless `name` is given, and returns `prompt`: the
+ * organism and optional new `intent` phrased for /api/generate. Saving the
+ * generated result under the fork's name makes it the fork's next version.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse, auditLog } from '@/lib/auth/middleware';
+import { forkOrganism } from '@/lib/genesis/library';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { organismId: string } }
+) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const { user } = auth;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    body = {};
+  }
+
+  try {
+    const result = forkOrganism(params.organismId, user, body || {});
+
+    if (!result.success) {
+      auditLog('ORGANISM_FORKED', user.userId, { organismId: params.organismId, error: result.error }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    const { organism, prompt } = result;
+    auditLog('ORGANISM_FORKED', user.userId, {
+      organismId: organism.id,
+      name: organism.name,
+      forkedFrom: organism.forkedFrom
+    }, true);
+
+    return NextResponse.json({ success: true, organism, prompt }, { status: 201 });
+
+  } catch (error) {
+    console.error('[GENESIS] Fork organism error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fork organism'
+    }, { status: 500 });
+  }
+}
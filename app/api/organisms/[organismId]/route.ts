@@ -0,0 +1,74 @@
+/**
+ * Library Organism
+ * GET    /api/organisms/[organismId] - Organism with every version's code
+ * DELETE /api/organisms/[organismId] - Remove the organism and its versions
+ *
+ * Only the owner or clearance 4+ may read or delete an organism.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse, auditLog } from '@/lib/auth/middleware';
+import { deleteOrganism, getOrganism } from '@/lib/genesis/library';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { organismId: string } }
+) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+
+  const result = getOrganism(params.organismId, auth.user);
+  if (!result.success) {
+    return NextResponse.json({
+      success: false,
+      error: result.error
+    }, { status: result.status });
+  }
+
+  return NextResponse.json({ success: true, organism: result.organism });
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { organismId: string } }
+) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const { user } = auth;
+
+  try {
+    const result = deleteOrganism(params.organismId, user);
+
+    if (!result.success) {
+      auditLog('ORGANISM_DELETED', user.userId, { organismId: params.organismId, error: result.error }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    auditLog('ORGANISM_DELETED', user.userId, {
+      organismId: result.organism.id,
+      name: result.organism.name,
+      ownerId: result.organism.ownerId
+    }, true);
+
+    return NextResponse.json({
+      success: true,
+      organism: { id: result.organism.id, name: result.organism.name, versionCount: result.organism.versions.length }
+    });
+
+  } catch (error) {
+    console.error('[GENESIS] Delete organism error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete organism'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Organism Library
+ * GET  /api/organisms - Your saved organisms; ?q= searches names, tags,
+ *                       prompts and GENEs, ?tag= filters by tag
+ * POST /api/organisms - Save { name, dnaCode, prompt?, source?, model?, description?, tags? }
+ *
+ * Saving under a name you already use adds a version to that organism,
+ * unless the code matches one of its versions (identityHash), in which case
+ * that version is returned with `created: false`. Clearance 4+ may list
+ * another user's library with ?owner=.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse, auditLog } from '@/lib/auth/middleware';
+import { listOrganisms, saveOrganism } from '@/lib/genesis/library';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const { user } = auth;
+
+  const { searchParams } = new URL(request.url);
+  const ownerId = searchParams.get('owner') || user.userId;
+  if (ownerId !== user.userId && user.clearanceLevel < 4) {
+    return NextResponse.json({
+      success: false,
+      error: 'Clearance 4 is required to list another user\'s organisms'
+    }, { status: 403 });
+  }
+
+  const organisms = listOrganisms(ownerId, {
+    query: searchParams.get('q') || undefined,
+    tag: searchParams.get('tag') || undefined
+  });
+
+  return NextResponse.json({ success: true, organisms, count: organisms.length });
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const { user } = auth;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid JSON body'
+    }, { status: 400 });
+  }
+
+  try {
+    const result = saveOrganism(body || {}, user);
+
+    if (!result.success) {
+      auditLog('ORGANISM_SAVED', user.userId, { name: body?.name, error: result.error }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error,
+        ...(result.diagnostics ? { diagnostics: result.diagnostics } : {})
+      }, { status: result.status });
+    }
+
+    const { organism, version, created } = result;
+    if (created) {
+      auditLog('ORGANISM_SAVED', user.userId, {
+        organismId: organism.id,
+        name: organism.name,
+        version: version.version,
+        identityHash: version.identityHash
+      }, true);
+    }
+
+    return NextResponse.json({
+      success: true,
+      created,
+      organism: { id: organism.id, name: organism.name, versionCount: organism.versions.length },
+      version
+    }, { status: created ? 201 : 200 });
+
+  } catch (error) {
+    console.error('[GENESIS] Save organism error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to save organism'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Organism Validation
+ * POST /api/organisms/validate - { source }
+ *
+ * Parses a DNA-Lang organism and returns its syntax tree with line/column
+ * diagnostics. `valid` is false when any diagnostic is an error; warnings
+ * (duplicate keys, unknown blocks, stray text) do not fail validation.
+ * `rules` checks the organism against the Genesis generation rules (GENE
+ * count, metric ranges, agents, ACT blocks) as /api/generate does.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrganismMetrics } from '@/lib/dnalang/ast';
+import { parseOrganism } from '@/lib/dnalang/parser';
+import { validateOrganism } from '@/lib/genesis/validator';
+
+const MAX_SOURCE_LENGTH = 200_000;
+
+export async function POST(request: NextRequest) {
+  let body: { source?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid JSON body'
+    }, { status: 400 });
+  }
+
+  const { source } = body;
+  if (typeof source !== 'string') {
+    return NextResponse.json({
+      success: false,
+      error: 'source must be a string'
+    }, { status: 400 });
+  }
+
+  if (source.length > MAX_SOURCE_LENGTH) {
+    return NextResponse.json({
+      success: false,
+      error: `source exceeds ${MAX_SOURCE_LENGTH} characters`
+    }, { status: 413 });
+  }
+
+  const result = parseOrganism(source);
+
+  return NextResponse.json({
+    success: true,
+    valid: result.success,
+    errorCount: result.diagnostics.filter(d => d.severity === 'error').length,
+    warningCount: result.diagnostics.filter(d => d.severity === 'warning').length,
+    diagnostics: result.diagnostics,
+    rules: validateOrganism(source),
+    metrics: result.ast ? getOrganismMetrics(result.ast) : null,
+    ast: result.ast
+  });
+}
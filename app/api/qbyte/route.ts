@@ -1,10 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import * as crypto from 'crypto';
+import { getLedgerStore } from '@/lib/ledger/store';
+import { generateProofHash, REWARD_FORMULA } from '@/lib/ledger/rewards';
+import {
+  MIN_SUBMISSION_INTERVAL_MS,
+  REJECTION_STATUS,
+  validateProofSubmission
+} from '@/lib/ledger/validation';
 
 const HOMEDIR = process.env.HOME || '/home/dnalang';
 const QBYTE_STATE_PATH = path.join(HOMEDIR, '.sovereign/state/qbyte_balance.json');
 const QBYTE_LOG_PATH = path.join(HOMEDIR, '.sovereign/logs/qbyte_bridge.log');
+const LOCAL_NODE_ID = `pc_lambda_root_${process.env.USER || 'dnalang'}`;
+const LOCAL_WALLET = `qb_${LOCAL_NODE_ID}`;
 
 interface QByteState {
   balance: number;
@@ -15,9 +25,22 @@ interface QByteState {
   status: 'active' | 'idle' | 'error';
 }
 
-// Read QByte balance from state file or logs
+// Read QByte balance from the shared ledger, bridge state file or logs
 async function getQByteBalance(): Promise<QByteState> {
-  // Try state file first
+  // Shared ledger store is authoritative once this node has mined
+  const wallet = await getLedgerStore().getWallet(LOCAL_WALLET);
+  if (wallet && wallet.transactionCount > 0) {
+    return {
+      balance: wallet.balance,
+      totalMined: wallet.totalEarned,
+      cycleCount: wallet.transactionCount,
+      lastUpdate: wallet.lastActivity,
+      nodeId: LOCAL_NODE_ID,
+      status: 'active'
+    };
+  }
+
+  // Try bridge daemon state file
   try {
     const content = await fs.readFile(QBYTE_STATE_PATH, 'utf-8');
     return JSON.parse(content);
@@ -53,7 +76,7 @@ async function getQByteBalance(): Promise<QByteState> {
       totalMined,
       cycleCount,
       lastUpdate: Date.now(),
-      nodeId: `pc_lambda_root_${process.env.USER || 'dnalang'}`,
+      nodeId: LOCAL_NODE_ID,
       status: totalMined > 0 ? 'active' : 'idle'
     };
   } catch {}
@@ -70,7 +93,7 @@ async function getQByteBalance(): Promise<QByteState> {
         totalMined: 176326, // From session summary
         cycleCount: 178,
         lastUpdate: Date.now(),
-        nodeId: `pc_lambda_root_${process.env.USER || 'dnalang'}`,
+        nodeId: LOCAL_NODE_ID,
         status: 'active'
       };
     }
@@ -82,33 +105,18 @@ async function getQByteBalance(): Promise<QByteState> {
     totalMined: 0,
     cycleCount: 0,
     lastUpdate: Date.now(),
-    nodeId: `pc_lambda_root_${process.env.USER || 'dnalang'}`,
+    nodeId: LOCAL_NODE_ID,
     status: 'idle'
   };
 }
 
-// Calculate rewards from metrics
-function calculateReward(lambda: number, phi: number, gamma: number): number {
-  // R = alpha*Lambda + beta*Phi + gamma_w*(1-Gamma) + delta*log(1+Xi)
-  const ALPHA = 0.35;
-  const BETA = 0.25;
-  const GAMMA_W = 0.25;
-  const DELTA = 0.15;
-
-  const xi = (lambda * phi) / gamma;
-  const reward = ALPHA * lambda + BETA * phi + GAMMA_W * (1 - gamma) + DELTA * Math.log(1 + xi);
-
-  // Scale to qBYTE (base reward ~1000 per cycle)
-  return Math.round(reward * 1000 * 100) / 100;
-}
-
 export async function GET(request: NextRequest) {
   const state = await getQByteBalance();
 
   return NextResponse.json({
     success: true,
     qbyte: state,
-    rewardFormula: 'R = 0.35*Lambda + 0.25*Phi + 0.25*(1-Gamma) + 0.15*log(1+Xi)'
+    rewardFormula: REWARD_FORMULA
   });
 }
 
@@ -116,34 +124,50 @@ export async function POST(request: NextRequest) {
   const body = await request.json();
 
   if (body.action === 'submit_proof') {
-    const { lambda, phi, gamma, proofHash } = body;
-
-    // Calculate reward
-    const reward = calculateReward(lambda, phi, gamma);
+    const validation = await validateProofSubmission(LOCAL_NODE_ID, body);
+    if (!validation.accepted) {
+      return NextResponse.json({
+        error: validation.error,
+        reason: validation.reason,
+        details: validation.details,
+        proofAccepted: false
+      }, { status: validation.status });
+    }
 
-    // Update state
-    const currentState = await getQByteBalance();
-    const newState: QByteState = {
-      balance: currentState.balance + reward,
-      totalMined: currentState.totalMined + reward,
-      cycleCount: currentState.cycleCount + 1,
-      lastUpdate: Date.now(),
-      nodeId: currentState.nodeId,
-      status: 'active'
-    };
+    const { lambda, phi, gamma, xi } = validation.metrics;
+    const { reward } = validation;
+    const timestamp = Date.now();
+    const proofHash = body.proofHash || generateProofHash({ lambda, phi, gamma }, LOCAL_NODE_ID, timestamp);
+
+    // Record against the shared ledger so /api/ledger sees the same history
+    const result = await getLedgerStore().recordReward({
+      id: `txn_${crypto.randomBytes(8).toString('hex')}`,
+      timestamp,
+      nodeId: LOCAL_NODE_ID,
+      walletAddress: LOCAL_WALLET,
+      owner: LOCAL_NODE_ID,
+      proofHash,
+      metrics: { lambda, phi, gamma, xi },
+      reward,
+      validatedBy: 'qbyte_bridge',
+      minIntervalMs: MIN_SUBMISSION_INTERVAL_MS
+    });
 
-    // Save state
-    try {
-      await fs.mkdir(path.dirname(QBYTE_STATE_PATH), { recursive: true });
-      await fs.writeFile(QBYTE_STATE_PATH, JSON.stringify(newState, null, 2));
-    } catch {}
+    if (!result.success) {
+      return NextResponse.json({
+        error: result.error,
+        reason: result.reason,
+        proofAccepted: false
+      }, { status: REJECTION_STATUS[result.reason] });
+    }
 
     return NextResponse.json({
       success: true,
       reward,
-      newBalance: newState.balance,
+      newBalance: result.wallet.balance,
       proofAccepted: true,
-      proofHash
+      proofHash,
+      blockHeight: result.entry.blockHeight
     });
   }
 
@@ -0,0 +1,62 @@
+/**
+ * User Password Reset
+ * POST /api/users/[userId]/reset-password - Set a new password, or generate a temporary one
+ *
+ * Agile Defense Systems - Sovereign Identity
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse, auditLog } from '@/lib/auth/middleware';
+import { resetUserPassword } from '@/lib/auth/users';
+import { revokeUserSessions } from '@/lib/auth/session';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const actor = auth.user;
+
+  try {
+    let password: string | undefined;
+    try {
+      const body = await request.json();
+      password = typeof body.password === 'string' ? body.password : undefined;
+    } catch {
+      // Empty body: generate a temporary password
+    }
+
+    const result = await resetUserPassword(params.userId, actor.userId, password);
+
+    if (!result.success) {
+      auditLog('USER_PASSWORD_RESET', actor.userId, { targetUserId: params.userId, error: result.error }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    revokeUserSessions(result.user.id);
+    auditLog('USER_PASSWORD_RESET', actor.userId, {
+      targetUserId: result.user.id,
+      generated: !!result.temporaryPassword
+    }, true);
+
+    return NextResponse.json({
+      success: true,
+      user: result.user,
+      // Shown once; share with the user out of band
+      ...(result.temporaryPassword ? { temporaryPassword: result.temporaryPassword } : {})
+    });
+
+  } catch (error) {
+    console.error('[USERS] Password reset error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to reset password'
+    }, { status: 500 });
+  }
+}
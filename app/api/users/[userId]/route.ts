@@ -0,0 +1,116 @@
+/**
+ * User Administration
+ * GET   /api/users/[userId] - User profile
+ * PATCH /api/users/[userId] - Change role, clearance, organization or disabled state
+ *
+ * Agile Defense Systems - Sovereign Identity
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse, auditLog } from '@/lib/auth/middleware';
+import { getUserById, updateUserAccess } from '@/lib/auth/users';
+import { revokeUserSessions } from '@/lib/auth/session';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+
+  const user = getUserById(params.userId);
+  if (!user) {
+    return NextResponse.json({
+      success: false,
+      error: 'User not found'
+    }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, user });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const actor = auth.user;
+
+  try {
+    const body = await request.json();
+    const { role, clearanceLevel, organization, disabled } = body;
+
+    if (disabled !== undefined && typeof disabled !== 'boolean') {
+      return NextResponse.json({
+        success: false,
+        error: 'disabled must be a boolean'
+      }, { status: 400 });
+    }
+
+    if (role === undefined && clearanceLevel === undefined && organization === undefined && disabled === undefined) {
+      return NextResponse.json({
+        success: false,
+        error: 'Nothing to update'
+      }, { status: 400 });
+    }
+
+    // One call so a rejected field leaves the user untouched
+    const previous = getUserById(params.userId);
+    const result = updateUserAccess(params.userId, { role, clearanceLevel, organization, disabled }, actor.userId);
+
+    if (!result.success) {
+      auditLog('USER_UPDATED', actor.userId, { targetUserId: params.userId, error: result.error }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    const updated = result.user;
+
+    // Tokens carry role and clearance; make the user sign in again
+    const accessChanged = previous && (
+      previous.role !== updated.role ||
+      previous.clearanceLevel !== updated.clearanceLevel ||
+      (!previous.disabled && updated.disabled)
+    );
+    if (accessChanged) {
+      revokeUserSessions(updated.id);
+    }
+
+    auditLog('USER_UPDATED', actor.userId, {
+      targetUserId: updated.id,
+      previous: previous && {
+        role: previous.role,
+        clearanceLevel: previous.clearanceLevel,
+        organization: previous.organization,
+        disabled: !!previous.disabled
+      },
+      current: {
+        role: updated.role,
+        clearanceLevel: updated.clearanceLevel,
+        organization: updated.organization,
+        disabled: !!updated.disabled
+      },
+      sessionsRevoked: !!accessChanged
+    }, true);
+
+    return NextResponse.json({
+      success: true,
+      user: updated,
+      sessionsRevoked: !!accessChanged
+    });
+
+  } catch (error) {
+    console.error('[USERS] Update error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update user'
+    }, { status: 500 });
+  }
+}
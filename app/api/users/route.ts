@@ -0,0 +1,71 @@
+/**
+ * User Administration
+ * GET  /api/users - List users
+ * POST /api/users - Create a user (also served at /api/auth/create-user)
+ *
+ * Agile Defense Systems - Sovereign Identity
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, createAuthResponse, auditLog } from '@/lib/auth/middleware';
+import { UserRole } from '@/lib/auth/config';
+import { createUser, getAllUsers } from '@/lib/auth/users';
+
+export async function GET(request: NextRequest) {
+  // Clearance 4 and ADMIN/MASTER_ADMIN enforced for this path
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+
+  const users = getAllUsers(auth.user.userId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  return NextResponse.json({
+    success: true,
+    users,
+    total: users.length,
+    roles: Object.values(UserRole).filter(role => role !== UserRole.MASTER_ADMIN)
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (!auth.success) {
+    return createAuthResponse(auth.error, auth.status);
+  }
+  const { user } = auth;
+
+  try {
+    const body = await request.json();
+    const { email, password, role, organization } = body;
+
+    const result = await createUser(email, password, role, organization, user.userId);
+
+    if (!result.success) {
+      auditLog('USER_CREATED', user.userId, { email, role, error: result.error }, false);
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    auditLog('USER_CREATED', user.userId, {
+      createdUserId: result.user.id,
+      email: result.user.email,
+      role: result.user.role
+    }, true);
+
+    return NextResponse.json({
+      success: true,
+      user: result.user
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('[USERS] Create error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create user'
+    }, { status: 500 });
+  }
+}
@@ -28,6 +28,36 @@ import {
   ArrowRight
 } from 'lucide-react';
 
+interface AlgorithmThreat {
+  algorithm: string;
+  family: string;
+  description: string;
+  resources: {
+    attack: string;
+    logicalQubits: number;
+    toffoliCount: number;
+    circuitDepth: number;
+    quantumSecurityBits: number;
+  };
+  crqcScore: {
+    score: number;
+    threatLevel: string;
+    estimatedQDay: number;
+  };
+}
+
+interface HNDLRiskView {
+  riskLevel: string;
+  recommendation: string;
+  exposureProbability: number | null;
+}
+
+interface BreakYearForecast {
+  algorithm: string;
+  probabilityWithinHorizon: number;
+  percentiles: { p10: number | null; p50: number | null; p90: number | null };
+}
+
 interface BenchmarkData {
   success: boolean;
   timestamp: string;
@@ -48,35 +78,56 @@ interface BenchmarkData {
     };
     requirements: {
       rsaKeySize: number;
+      keyBits: number;
+      attack: string;
       logicalQubitsNeeded: number;
-      physicalQubitsNeeded: number;
+      feasible: boolean;
+      reason?: string;
+      physicalQubitsNeeded: number | null;
+      toffoliGatesNeeded: number;
       tGatesNeeded: number;
-      estimatedRuntime: string;
+      circuitDepth: number;
+      estimatedRuntime: string | null;
+      reference: string;
+      codeDistance: number | null;
     };
   };
+  algorithms: AlgorithmThreat[];
   hardware: {
     comparison: Array<{
       name: string;
       qubits: number;
       type: string;
       percentOfRequired: number;
+      requirement: {
+        feasible: boolean;
+        reason?: string;
+        codeDistance: number;
+        space: { physicalQubits: number };
+        time: { runtimeHours: number };
+      };
     }>;
     gap: {
       qubitGap: number;
       qubitGapPercent: number;
       estimatedYearsToClose: number;
-    };
+    } | null;
     ibmCorpus: {
       totalJobs: number;
       successRate: number;
       totalQPUTime: number;
     };
   };
+  forecast: {
+    startYear: number;
+    options: { samples: number; horizonYears: number };
+    algorithms: BreakYearForecast[];
+  };
   hndlRisk: {
-    shortTerm: { riskLevel: string; recommendation: string };
-    mediumTerm: { riskLevel: string; recommendation: string };
-    longTerm: { riskLevel: string; recommendation: string };
-    classified: { riskLevel: string; recommendation: string };
+    shortTerm: HNDLRiskView;
+    mediumTerm: HNDLRiskView;
+    longTerm: HNDLRiskView;
+    classified: HNDLRiskView;
   };
   ccceIntegration: {
     metrics: { phi: number; lambda: number; gamma: number; xi: number };
@@ -104,11 +155,12 @@ export default function BenchmarkPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [algorithm, setAlgorithm] = useState('RSA-2048');
 
   const fetchBenchmark = async () => {
     try {
       setRefreshing(true);
-      const res = await fetch('/api/benchmark');
+      const res = await fetch(`/api/benchmark?algorithm=${encodeURIComponent(algorithm)}`);
       const json = await res.json();
       if (json.success) {
         setData(json);
@@ -128,7 +180,7 @@ export default function BenchmarkPage() {
     fetchBenchmark();
     const interval = setInterval(fetchBenchmark, 30000);
     return () => clearInterval(interval);
-  }, []);
+  }, [algorithm]);
 
   const getThreatColor = (level: string) => {
     switch (level) {
@@ -146,12 +198,19 @@ export default function BenchmarkPage() {
     }
   };
 
+  const formatForecastRange = (forecast?: BreakYearForecast) => {
+    if (!forecast) return '-';
+    const { p10, p90 } = forecast.percentiles;
+    if (p10 === null) return `> ${data!.forecast.startYear + data!.forecast.options.horizonYears}`;
+    return `${p10}-${p90 ?? '>' + (data!.forecast.startYear + data!.forecast.options.horizonYears)}`;
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-slate-950 flex items-center justify-center">
         <div className="text-center">
           <Loader2 className="w-12 h-12 text-cyan-500 animate-spin mx-auto mb-4" />
-          <p className="text-slate-400">Running RSA-2048 Quantum Benchmark...</p>
+          <p className="text-slate-400">Running {algorithm} Quantum Benchmark...</p>
         </div>
       </div>
     );
@@ -182,7 +241,7 @@ export default function BenchmarkPage() {
       <div className="bg-red-900/40 border-b border-red-700/50 px-4 py-2">
         <div className="max-w-7xl mx-auto flex items-center justify-center gap-2 text-red-200 text-xs">
           <AlertTriangle size={14} />
-          <span>Q-SLICE THREAT ASSESSMENT // RSA-2048 QUANTUM VULNERABILITY ANALYSIS</span>
+          <span>Q-SLICE THREAT ASSESSMENT // {data.target} QUANTUM VULNERABILITY ANALYSIS</span>
         </div>
       </div>
 
@@ -197,10 +256,22 @@ export default function BenchmarkPage() {
                   <Lock className="w-7 h-7 text-white" />
                 </div>
                 <div>
-                  <h1 className="text-3xl font-bold text-white">RSA-2048 Benchmark</h1>
+                  <h1 className="text-3xl font-bold text-white">{data.target} Benchmark</h1>
                   <p className="text-slate-400">Quantum Attack Feasibility Assessment</p>
                 </div>
               </div>
+              <div className="flex items-center gap-2 mb-3 text-sm">
+                <span className="text-slate-500">Target algorithm</span>
+                <select
+                  value={algorithm}
+                  onChange={(e) => setAlgorithm(e.target.value)}
+                  className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-white"
+                >
+                  {data.algorithms.map((a) => a.algorithm).sort().map((id) => (
+                    <option key={id} value={id}>{id}</option>
+                  ))}
+                </select>
+              </div>
               <div className="flex items-center gap-2 text-sm text-slate-500">
                 <Clock size={14} />
                 <span>Last updated: {new Date(data.timestamp).toLocaleString()}</span>
@@ -283,12 +354,12 @@ export default function BenchmarkPage() {
         <section className="mb-12">
           <h2 className="text-xl font-bold text-white mb-6 flex items-center gap-2">
             <Cpu size={20} className="text-violet-400" />
-            Shor&apos;s Algorithm Resource Requirements
+            Quantum Attack Resource Requirements
           </h2>
           <div className="grid md:grid-cols-2 gap-6">
             {/* Requirements */}
             <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6">
-              <h3 className="text-lg font-semibold text-red-400 mb-4">Required for RSA-2048 Attack</h3>
+              <h3 className="text-lg font-semibold text-red-400 mb-4">Required for {data.target} Attack</h3>
               <div className="space-y-4">
                 <div className="flex justify-between items-center p-3 bg-slate-800/50 rounded-lg">
                   <span className="text-slate-400">Logical Qubits</span>
@@ -296,17 +367,33 @@ export default function BenchmarkPage() {
                 </div>
                 <div className="flex justify-between items-center p-3 bg-slate-800/50 rounded-lg">
                   <span className="text-slate-400">Physical Qubits</span>
-                  <span className="text-white font-mono">{benchmark.requirements.physicalQubitsNeeded.toLocaleString()}</span>
+                  <span className="text-white font-mono">{benchmark.requirements.physicalQubitsNeeded?.toLocaleString() ?? '-'}</span>
+                </div>
+                <div className="flex justify-between items-center p-3 bg-slate-800/50 rounded-lg">
+                  <span className="text-slate-400">Code Distance</span>
+                  <span className="text-white font-mono">{benchmark.requirements.codeDistance ?? '-'}</span>
+                </div>
+                <div className="flex justify-between items-center p-3 bg-slate-800/50 rounded-lg">
+                  <span className="text-slate-400">Toffoli Gates</span>
+                  <span className="text-white font-mono">{benchmark.requirements.toffoliGatesNeeded.toExponential(2)}</span>
                 </div>
                 <div className="flex justify-between items-center p-3 bg-slate-800/50 rounded-lg">
                   <span className="text-slate-400">T-Gates</span>
                   <span className="text-white font-mono">{benchmark.requirements.tGatesNeeded.toExponential(2)}</span>
                 </div>
+                <div className="flex justify-between items-center p-3 bg-slate-800/50 rounded-lg">
+                  <span className="text-slate-400">Circuit Depth</span>
+                  <span className="text-white font-mono">{benchmark.requirements.circuitDepth.toExponential(2)}</span>
+                </div>
                 <div className="flex justify-between items-center p-3 bg-slate-800/50 rounded-lg">
                   <span className="text-slate-400">Estimated Runtime</span>
-                  <span className="text-white font-mono">{benchmark.requirements.estimatedRuntime}</span>
+                  <span className="text-white font-mono">{benchmark.requirements.estimatedRuntime ?? '-'}</span>
                 </div>
               </div>
+              {!benchmark.requirements.feasible && (
+                <p className="text-xs text-amber-400 mt-4">{benchmark.requirements.reason}</p>
+              )}
+              <p className="text-xs text-slate-500 mt-4">Estimator: {benchmark.requirements.reference}</p>
             </div>
 
             {/* Current Hardware */}
@@ -326,7 +413,9 @@ export default function BenchmarkPage() {
                       />
                     </div>
                     <div className="text-xs text-slate-500 mt-1">
-                      {hw.percentOfRequired.toFixed(4)}% of required
+                      {hw.requirement.feasible
+                        ? `${hw.percentOfRequired.toFixed(4)}% of ${hw.requirement.space.physicalQubits.toLocaleString()} required (d=${hw.requirement.codeDistance}, ${hw.requirement.time.runtimeHours.toFixed(1)} h)`
+                        : hw.requirement.reason}
                     </div>
                   </div>
                 ))}
@@ -335,6 +424,61 @@ export default function BenchmarkPage() {
           </div>
         </section>
 
+        {/* Cross-Algorithm Comparison */}
+        <section className="mb-12">
+          <h2 className="text-xl font-bold text-white mb-6 flex items-center gap-2">
+            <TrendingUp size={20} className="text-red-400" />
+            Cross-Algorithm Threat Comparison
+          </h2>
+          <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-800">
+                  <th className="py-2 pr-4">Algorithm</th>
+                  <th className="py-2 pr-4">Attack</th>
+                  <th className="py-2 pr-4 text-right">Logical Qubits</th>
+                  <th className="py-2 pr-4 text-right">Toffoli</th>
+                  <th className="py-2 pr-4 text-right">Depth</th>
+                  <th className="py-2 pr-4 text-right">Quantum Bits</th>
+                  <th className="py-2 pr-4 text-right">Q-Day</th>
+                  <th className="py-2 pr-4 text-right">Forecast P10-P90</th>
+                  <th className="py-2">Threat</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.algorithms.map((row) => (
+                  <tr
+                    key={row.algorithm}
+                    onClick={() => setAlgorithm(row.algorithm)}
+                    className={`border-b border-slate-800/50 cursor-pointer hover:bg-slate-800/40 ${
+                      row.algorithm === data.target ? 'bg-slate-800/60' : ''
+                    }`}
+                  >
+                    <td className="py-2 pr-4">
+                      <div className="text-white font-medium">{row.algorithm}</div>
+                      <div className="text-xs text-slate-500">{row.description}</div>
+                    </td>
+                    <td className="py-2 pr-4 text-slate-400 font-mono text-xs">{row.resources.attack}</td>
+                    <td className="py-2 pr-4 text-right font-mono text-white">{row.resources.logicalQubits.toLocaleString()}</td>
+                    <td className="py-2 pr-4 text-right font-mono text-white">{row.resources.toffoliCount.toExponential(2)}</td>
+                    <td className="py-2 pr-4 text-right font-mono text-white">{row.resources.circuitDepth.toExponential(2)}</td>
+                    <td className="py-2 pr-4 text-right font-mono text-slate-300">{row.resources.quantumSecurityBits}</td>
+                    <td className="py-2 pr-4 text-right font-mono text-amber-400">{row.crqcScore.estimatedQDay}</td>
+                    <td className="py-2 pr-4 text-right font-mono text-slate-300">
+                      {formatForecastRange(data.forecast.algorithms.find(f => f.algorithm === row.algorithm))}
+                    </td>
+                    <td className="py-2">
+                      <span className={`px-2 py-0.5 rounded-full border text-xs ${getThreatColor(row.crqcScore.threatLevel)}`}>
+                        {row.crqcScore.threatLevel}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
         {/* HNDL Risk Assessment */}
         <section className="mb-12">
           <h2 className="text-xl font-bold text-white mb-6 flex items-center gap-2">
@@ -354,6 +498,11 @@ export default function BenchmarkPage() {
               >
                 <div className="text-sm opacity-70 mb-2">{item.label}</div>
                 <div className="text-lg font-bold mb-2">{item.risk.riskLevel}</div>
+                {item.risk.exposureProbability !== null && (
+                  <div className="text-xs opacity-80 mb-1">
+                    {(item.risk.exposureProbability * 100).toFixed(1)}% chance of exposure
+                  </div>
+                )}
                 <p className="text-xs opacity-80">{item.risk.recommendation.split(':')[0]}</p>
               </div>
             ))}
@@ -21,6 +21,10 @@ import {
   Globe,
   Lock
 } from 'lucide-react';
+import { AlertsPanel } from '@/components/AlertsPanel';
+import { MetricsHistoryChart } from '@/components/MetricsHistoryChart';
+import { UserAdminPanel } from '@/components/UserAdminPanel';
+import { subscribeMetrics } from '@/lib/api';
 
 interface User {
   id: string;
@@ -78,7 +82,10 @@ export default function DashboardPage() {
       }
 
       const data = await res.json();
-      if (data.success) {
+      if (data.success && data.mfaEnrollmentRequired) {
+        // Login page finishes the mandatory MFA enrollment
+        router.push('/login');
+      } else if (data.success) {
         setUser(data.user);
       } else {
         router.push('/login');
@@ -126,21 +133,6 @@ export default function DashboardPage() {
     }
   }, []);
 
-  // Fetch CCCE metrics
-  const fetchMetrics = useCallback(async () => {
-    try {
-      const res = await fetch('/api/metrics');
-      if (res.ok) {
-        const data = await res.json();
-        if (data.success) {
-          setMetrics(data.metrics);
-        }
-      }
-    } catch (error) {
-      console.error('Failed to fetch metrics:', error);
-    }
-  }, []);
-
   // Mine QByte (submit proof-of-coherence)
   const handleMine = async () => {
     if (!metrics || isMining) return;
@@ -197,21 +189,21 @@ export default function DashboardPage() {
   useEffect(() => {
     async function init() {
       await fetchProfile();
-      await Promise.all([fetchWallet(), fetchMesh(), fetchMetrics()]);
+      await Promise.all([fetchWallet(), fetchMesh()]);
       setIsLoading(false);
     }
     init();
 
-    // Poll metrics every 5 seconds
-    const metricsInterval = setInterval(fetchMetrics, 5000);
+    // Live metrics over SSE; polls every 5 seconds only while the stream is down
+    const unsubscribeMetrics = subscribeMetrics({ onMetrics: setMetrics });
     // Poll wallet every 30 seconds
     const walletInterval = setInterval(fetchWallet, 30000);
 
     return () => {
-      clearInterval(metricsInterval);
+      unsubscribeMetrics();
       clearInterval(walletInterval);
     };
-  }, [fetchProfile, fetchWallet, fetchMesh, fetchMetrics]);
+  }, [fetchProfile, fetchWallet, fetchMesh]);
 
   if (isLoading) {
     return (
@@ -384,6 +376,12 @@ export default function DashboardPage() {
           </p>
         </div>
 
+        {/* Metrics History */}
+        <MetricsHistoryChart />
+
+        {/* Alerts */}
+        <AlertsPanel canAcknowledge={!!user && user.clearanceLevel >= 2} />
+
         {/* Node Permissions */}
         <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6">
           <h2 className="text-lg font-bold text-white flex items-center gap-2 mb-4">
@@ -412,6 +410,9 @@ export default function DashboardPage() {
             <code className="text-sm text-cyan-400 bg-slate-800 px-3 py-1 rounded">{wallet?.address || user?.qbyteWallet}</code>
           </div>
         </div>
+
+        {/* User Administration (Admin clearance) */}
+        {user && user.clearanceLevel >= 4 && <UserAdminPanel currentUserId={user.id} />}
       </main>
 
       {/* Footer */}
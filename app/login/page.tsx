@@ -11,9 +11,13 @@ import {
   AlertTriangle,
   Loader2,
   CheckCircle2,
-  Building2
+  Building2,
+  KeyRound,
+  Smartphone
 } from 'lucide-react';
 
+type LoginStage = 'credentials' | 'mfa' | 'enroll' | 'recovery';
+
 export default function LoginPage() {
   const router = useRouter();
   const [email, setEmail] = useState('');
@@ -22,6 +26,31 @@ export default function LoginPage() {
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isCheckingAuth, setIsCheckingAuth] = useState(true);
+  const [stage, setStage] = useState<LoginStage>('credentials');
+  const [challengeToken, setChallengeToken] = useState('');
+  const [mfaCode, setMfaCode] = useState('');
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+
+  // ADMIN and MASTER_ADMIN must set up an authenticator before continuing
+  const startEnrollment = async () => {
+    const token = localStorage.getItem('auth_token');
+    const res = await fetch('/api/auth/mfa', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: JSON.stringify({ action: 'enroll' })
+    });
+    const data = await res.json();
+    if (data.success) {
+      setEnrollment({ secret: data.secret, otpauthUri: data.otpauthUri });
+      setStage('enroll');
+    } else {
+      setError(data.error || 'Could not start MFA enrollment');
+    }
+  };
 
   // Check if already authenticated
   useEffect(() => {
@@ -30,7 +59,9 @@ export default function LoginPage() {
         const res = await fetch('/api/auth/me');
         if (res.ok) {
           const data = await res.json();
-          if (data.success && data.user) {
+          if (data.success && data.mfaEnrollmentRequired) {
+            await startEnrollment();
+          } else if (data.success && data.user) {
             router.push('/dashboard');
             return;
           }
@@ -57,11 +88,19 @@ export default function LoginPage() {
 
       const data = await response.json();
 
-      if (data.success) {
+      if (data.success && data.mfaRequired) {
+        setChallengeToken(data.challengeToken);
+        setMfaCode('');
+        setStage('mfa');
+      } else if (data.success) {
         // Store token in localStorage for client-side access
         localStorage.setItem('auth_token', data.tokens.accessToken);
         localStorage.setItem('user', JSON.stringify(data.user));
-        router.push('/dashboard');
+        if (data.mfaEnrollmentRequired) {
+          await startEnrollment();
+        } else {
+          router.push('/dashboard');
+        }
       } else {
         setError(data.error || 'Authentication failed');
       }
@@ -72,6 +111,69 @@ export default function LoginPage() {
     }
   };
 
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/mfa/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challengeToken, code: mfaCode })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        localStorage.setItem('auth_token', data.tokens.accessToken);
+        localStorage.setItem('user', JSON.stringify(data.user));
+        router.push('/dashboard');
+      } else {
+        setError(data.error || 'Verification failed');
+        if (response.status === 401 && data.error?.includes('challenge')) {
+          setStage('credentials');
+        }
+      }
+    } catch (err) {
+      setError('Connection error. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleActivate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch('/api/auth/mfa', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {})
+        },
+        body: JSON.stringify({ action: 'activate', code: mfaCode })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        localStorage.setItem('auth_token', data.tokens.accessToken);
+        setRecoveryCodes(data.recoveryCodes);
+        setStage('recovery');
+      } else {
+        setError(data.error || 'Activation failed');
+      }
+    } catch (err) {
+      setError('Connection error. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   if (isCheckingAuth) {
     return (
       <div className="min-h-screen bg-slate-950 flex items-center justify-center">
@@ -111,81 +213,224 @@ export default function LoginPage() {
           </div>
 
           {/* Login Form */}
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-4">
-              {/* Email */}
-              <div>
-                <label className="block text-xs text-slate-400 mb-2 uppercase tracking-wider">
-                  Email Address
-                </label>
-                <div className="relative">
-                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" />
-                  <input
-                    type="email"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                    placeholder="research@dnalang.dev"
-                    className="w-full bg-slate-800/50 border border-slate-700 rounded-lg pl-11 pr-4 py-3 text-white placeholder:text-slate-500 focus:outline-none focus:border-cyan-500/50 focus:ring-1 focus:ring-cyan-500/30 transition-all"
-                    required
-                    autoComplete="email"
-                  />
+          {stage === 'credentials' && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-4">
+                {/* Email */}
+                <div>
+                  <label className="block text-xs text-slate-400 mb-2 uppercase tracking-wider">
+                    Email Address
+                  </label>
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" />
+                    <input
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="research@dnalang.dev"
+                      className="w-full bg-slate-800/50 border border-slate-700 rounded-lg pl-11 pr-4 py-3 text-white placeholder:text-slate-500 focus:outline-none focus:border-cyan-500/50 focus:ring-1 focus:ring-cyan-500/30 transition-all"
+                      required
+                      autoComplete="email"
+                    />
+                  </div>
+                </div>
+
+                {/* Password */}
+                <div>
+                  <label className="block text-xs text-slate-400 mb-2 uppercase tracking-wider">
+                    Password
+                  </label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" />
+                    <input
+                      type={showPassword ? 'text' : 'password'}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="Enter secure passphrase"
+                      className="w-full bg-slate-800/50 border border-slate-700 rounded-lg pl-11 pr-12 py-3 text-white placeholder:text-slate-500 focus:outline-none focus:border-cyan-500/50 focus:ring-1 focus:ring-cyan-500/30 transition-all"
+                      required
+                      autoComplete="current-password"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 hover:text-slate-300 transition-colors"
+                    >
+                      {showPassword ? <EyeOff size={18} /> : <Eye size={18} />}
+                    </button>
+                  </div>
                 </div>
+
+                {/* Error */}
+                {error && (
+                  <div className="flex items-center gap-2 text-red-400 text-sm bg-red-900/20 border border-red-800/50 rounded-lg px-3 py-2">
+                    <AlertTriangle size={16} />
+                    <span>{error}</span>
+                  </div>
+                )}
+
+                {/* Submit */}
+                <button
+                  type="submit"
+                  disabled={isLoading || !email || !password}
+                  className="w-full bg-gradient-to-r from-cyan-600 to-indigo-600 hover:from-cyan-500 hover:to-indigo-500 text-white font-semibold py-3 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg shadow-cyan-500/20"
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      Authenticating...
+                    </>
+                  ) : (
+                    <>
+                      <Shield size={18} />
+                      Secure Login
+                    </>
+                  )}
+                </button>
               </div>
+            </form>
+          )}
 
-              {/* Password */}
-              <div>
-                <label className="block text-xs text-slate-400 mb-2 uppercase tracking-wider">
-                  Password
-                </label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" />
-                  <input
-                    type={showPassword ? 'text' : 'password'}
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    placeholder="Enter secure passphrase"
-                    className="w-full bg-slate-800/50 border border-slate-700 rounded-lg pl-11 pr-12 py-3 text-white placeholder:text-slate-500 focus:outline-none focus:border-cyan-500/50 focus:ring-1 focus:ring-cyan-500/30 transition-all"
-                    required
-                    autoComplete="current-password"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 hover:text-slate-300 transition-colors"
-                  >
-                    {showPassword ? <EyeOff size={18} /> : <Eye size={18} />}
-                  </button>
+          {/* MFA Code */}
+          {stage === 'mfa' && (
+            <form onSubmit={handleMfaSubmit} className="space-y-4">
+              <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-4">
+                <div className="flex items-center gap-2 text-sm text-slate-300">
+                  <Smartphone size={16} className="text-cyan-400" />
+                  <span>Enter the code from your authenticator app, or a recovery code.</span>
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-2 uppercase tracking-wider">
+                    Authentication Code
+                  </label>
+                  <div className="relative">
+                    <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" />
+                    <input
+                      type="text"
+                      value={mfaCode}
+                      onChange={(e) => setMfaCode(e.target.value)}
+                      placeholder="123456 or xxxxx-xxxxx"
+                      className="w-full bg-slate-800/50 border border-slate-700 rounded-lg pl-11 pr-4 py-3 text-white font-mono tracking-widest placeholder:text-slate-500 placeholder:tracking-normal focus:outline-none focus:border-cyan-500/50 focus:ring-1 focus:ring-cyan-500/30 transition-all"
+                      required
+                      autoFocus
+                      autoComplete="one-time-code"
+                    />
+                  </div>
                 </div>
+                {/* Error */}
+                {error && (
+                  <div className="flex items-center gap-2 text-red-400 text-sm bg-red-900/20 border border-red-800/50 rounded-lg px-3 py-2">
+                    <AlertTriangle size={16} />
+                    <span>{error}</span>
+                  </div>
+                )}
+                <button
+                  type="submit"
+                  disabled={isLoading || !mfaCode}
+                  className="w-full bg-gradient-to-r from-cyan-600 to-indigo-600 hover:from-cyan-500 hover:to-indigo-500 text-white font-semibold py-3 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg shadow-cyan-500/20"
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      Verifying...
+                    </>
+                  ) : (
+                    <>
+                      <Shield size={18} />
+                      Verify
+                    </>
+                  )}
+                </button>
               </div>
+            </form>
+          )}
 
-              {/* Error */}
-              {error && (
-                <div className="flex items-center gap-2 text-red-400 text-sm bg-red-900/20 border border-red-800/50 rounded-lg px-3 py-2">
-                  <AlertTriangle size={16} />
-                  <span>{error}</span>
+          {/* Mandatory MFA Enrollment */}
+          {stage === 'enroll' && enrollment && (
+            <form onSubmit={handleActivate} className="space-y-4">
+              <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-4">
+                <div className="flex items-start gap-2 text-sm text-amber-200">
+                  <Shield size={16} className="mt-0.5 shrink-0" />
+                  <span>Your role requires multi-factor authentication. Add this account to an authenticator app, then enter the 6-digit code it shows.</span>
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-2 uppercase tracking-wider">
+                    Secret Key
+                  </label>
+                  <code className="block text-sm text-cyan-400 bg-slate-800 px-3 py-2 rounded break-all">{enrollment.secret}</code>
                 </div>
-              )}
+                <div>
+                  <label className="block text-xs text-slate-400 mb-2 uppercase tracking-wider">
+                    Setup URI (QR)
+                  </label>
+                  <code className="block text-[10px] text-slate-400 bg-slate-800 px-3 py-2 rounded break-all">{enrollment.otpauthUri}</code>
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-2 uppercase tracking-wider">
+                    Authentication Code
+                  </label>
+                  <div className="relative">
+                    <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" />
+                    <input
+                      type="text"
+                      value={mfaCode}
+                      onChange={(e) => setMfaCode(e.target.value)}
+                      placeholder="123456"
+                      className="w-full bg-slate-800/50 border border-slate-700 rounded-lg pl-11 pr-4 py-3 text-white font-mono tracking-widest placeholder:text-slate-500 placeholder:tracking-normal focus:outline-none focus:border-cyan-500/50 focus:ring-1 focus:ring-cyan-500/30 transition-all"
+                      required
+                      autoFocus
+                      autoComplete="one-time-code"
+                    />
+                  </div>
+                </div>
+                {/* Error */}
+                {error && (
+                  <div className="flex items-center gap-2 text-red-400 text-sm bg-red-900/20 border border-red-800/50 rounded-lg px-3 py-2">
+                    <AlertTriangle size={16} />
+                    <span>{error}</span>
+                  </div>
+                )}
+                <button
+                  type="submit"
+                  disabled={isLoading || !mfaCode}
+                  className="w-full bg-gradient-to-r from-cyan-600 to-indigo-600 hover:from-cyan-500 hover:to-indigo-500 text-white font-semibold py-3 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg shadow-cyan-500/20"
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      Activating...
+                    </>
+                  ) : (
+                    <>
+                      <Shield size={18} />
+                      Enable MFA
+                    </>
+                  )}
+                </button>
+              </div>
+            </form>
+          )}
 
-              {/* Submit */}
+          {/* Recovery Codes (shown once) */}
+          {stage === 'recovery' && (
+            <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-4">
+              <div className="flex items-start gap-2 text-sm text-emerald-400">
+                <CheckCircle2 size={16} className="mt-0.5 shrink-0" />
+                <span>MFA enabled. Store these recovery codes somewhere safe; each works once and they will not be shown again.</span>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {recoveryCodes.map((code) => (
+                  <code key={code} className="text-sm text-cyan-400 bg-slate-800 px-3 py-1 rounded text-center">{code}</code>
+                ))}
+              </div>
               <button
-                type="submit"
-                disabled={isLoading || !email || !password}
-                className="w-full bg-gradient-to-r from-cyan-600 to-indigo-600 hover:from-cyan-500 hover:to-indigo-500 text-white font-semibold py-3 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg shadow-cyan-500/20"
+                onClick={() => router.push('/dashboard')}
+                className="w-full bg-gradient-to-r from-cyan-600 to-indigo-600 hover:from-cyan-500 hover:to-indigo-500 text-white font-semibold py-3 rounded-lg transition-all flex items-center justify-center gap-2 shadow-lg shadow-cyan-500/20"
               >
-                {isLoading ? (
-                  <>
-                    <Loader2 className="w-5 h-5 animate-spin" />
-                    Authenticating...
-                  </>
-                ) : (
-                  <>
-                    <Shield size={18} />
-                    Secure Login
-                  </>
-                )}
+                Continue to Dashboard
               </button>
             </div>
-          </form>
+          )}
 
           {/* Security Info */}
           <div className="mt-6 space-y-3">
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import {
   Activity,
@@ -38,6 +38,7 @@ import { TerminalOutput } from '@/components/TerminalOutput';
 import { AgentFeedback } from '@/components/AgentFeedback';
 import { OptimizationPhase, TelemetryPoint, AgentStatus } from '@/lib/types';
 import { GAMMA_CRITICAL, PHI_THRESHOLD } from '@/lib/constants';
+import { streamOrganism, subscribeMetrics } from '@/lib/api';
 
 interface CCCEMetrics {
   lambda: number;
@@ -91,6 +92,7 @@ export default function Home() {
   const [outputCode, setOutputCode] = useState('');
   const [isCompiling, setIsCompiling] = useState(false);
   const [isHealing, setIsHealing] = useState(false);
+  const [healError, setHealError] = useState<string | null>(null);
   const [identity, setIdentity] = useState<string | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<'connected' | 'fallback' | 'error'>('fallback');
   const [lastReward, setLastReward] = useState<number | null>(null);
@@ -114,8 +116,6 @@ export default function Home() {
     }
   });
 
-  const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
   // Check authentication
   useEffect(() => {
     async function checkAuth() {
@@ -138,51 +138,34 @@ export default function Home() {
     checkAuth();
   }, []);
 
-  // Fetch metrics
-  const fetchMetrics = useCallback(async () => {
-    try {
-      const res = await fetch('/api/metrics');
-      if (res.ok) {
-        const data = await res.json();
-        setMetrics(data.metrics);
-        setConnectionStatus(data.metrics.source === 'chatmesh' ? 'connected' : 'fallback');
-
-        setTelemetryHistory(prev => {
-          const newPoint: TelemetryPoint = {
-            time: new Date().toLocaleTimeString('en-US', { hour12: false }),
-            phi: data.metrics.phi,
-            lambda: data.metrics.lambda,
-            gamma: data.metrics.gamma
-          };
-          return [...prev, newPoint].slice(-60);
-        });
-
-        // Update phase
-        if (data.metrics.phi >= PHI_THRESHOLD && data.metrics.gamma < 0.1) {
-          setPhase(OptimizationPhase.LOCK);
-        } else if (data.metrics.lambda > 0.85) {
-          setPhase(OptimizationPhase.STABILIZE);
-        } else {
-          setPhase(OptimizationPhase.EXPLORE);
-        }
-
-        // Update agents
-        setAgents(prev => ({
-          aura: {
-            ...prev.aura,
-            activity: data.metrics.gamma > GAMMA_CRITICAL ? 'Alert' : 'Observing',
-            message: `${data.metrics.source} | Phi=${data.metrics.phi.toFixed(3)}`
-          },
-          aiden: {
-            ...prev.aiden,
-            activity: data.metrics.phi >= PHI_THRESHOLD ? 'Executing' : 'Calibrating',
-            message: `Xi=${data.metrics.xi.toFixed(2)} | ${data.metrics.consciousness}`
-          }
-        }));
+  // Apply a metrics update from the stream (or the polling fallback)
+  const applyMetrics = useCallback((next: CCCEMetrics) => {
+    setMetrics(next);
+    setConnectionStatus(next.source === 'chatmesh' ? 'connected' : 'fallback');
+
+    setTelemetryHistory(prev => {
+      const newPoint: TelemetryPoint = {
+        time: new Date().toLocaleTimeString('en-US', { hour12: false }),
+        phi: next.phi,
+        lambda: next.lambda,
+        gamma: next.gamma
+      };
+      return [...prev, newPoint].slice(-60);
+    });
+
+    // Update agents
+    setAgents(prev => ({
+      aura: {
+        ...prev.aura,
+        activity: next.gamma > GAMMA_CRITICAL ? 'Alert' : 'Observing',
+        message: `${next.source} | Phi=${next.phi.toFixed(3)}`
+      },
+      aiden: {
+        ...prev.aiden,
+        activity: next.phi >= PHI_THRESHOLD ? 'Executing' : 'Calibrating',
+        message: `Xi=${next.xi.toFixed(2)} | ${next.consciousness}`
       }
-    } catch (e) {
-      setConnectionStatus('error');
-    }
+    }));
   }, []);
 
   // Fetch QByte
@@ -208,18 +191,55 @@ export default function Home() {
     } catch (e) {}
   }, []);
 
+  // Seed the manifold chart from recorded history so a reload keeps context
+  useEffect(() => {
+    async function loadHistory() {
+      try {
+        const to = Date.now();
+        const res = await fetch(`/api/metrics/history?from=${to - 600000}&to=${to}&resolution=10s`);
+        const data = await res.json();
+        if (!data.success) return;
+
+        const seeded: TelemetryPoint[] = data.buckets.map((b: { start: number; phi: { avg: number }; lambda: { avg: number }; gamma: { avg: number } }) => ({
+          time: new Date(b.start).toLocaleTimeString('en-US', { hour12: false }),
+          phi: b.phi.avg,
+          lambda: b.lambda.avg,
+          gamma: b.gamma.avg
+        }));
+        setTelemetryHistory(prev => [...seeded, ...prev].slice(-60));
+      } catch (e) {}
+    }
+    loadHistory();
+  }, []);
+
+  // Live metrics: SSE stream, polling only while the stream is down
+  useEffect(() => {
+    return subscribeMetrics({
+      onMetrics: applyMetrics,
+      onPhase: (change) => setPhase(change.phase),
+      onHeal: (event) => {
+        setAgents(prev => ({
+          ...prev,
+          aura: {
+            ...prev.aura,
+            activity: 'Healing',
+            message: `Phase conjugate heal | Gamma ${event.before.toFixed(3)} -> ${event.after.toFixed(3)}`
+          }
+        }));
+      },
+      onConnection: (connection) => {
+        if (connection === 'error') setConnectionStatus('error');
+      }
+    }, 3000);
+  }, [applyMetrics]);
+
   useEffect(() => {
-    fetchMetrics();
     if (user) fetchQByte();
 
-    pollIntervalRef.current = setInterval(fetchMetrics, 3000);
     const qbyteInterval = setInterval(() => { if (user) fetchQByte(); }, 15000);
 
-    return () => {
-      if (pollIntervalRef.current) clearInterval(pollIntervalRef.current);
-      clearInterval(qbyteInterval);
-    };
-  }, [fetchMetrics, fetchQByte, user]);
+    return () => clearInterval(qbyteInterval);
+  }, [fetchQByte, user]);
 
   // Generate organism
   const handleSubmit = async (e: React.FormEvent) => {
@@ -236,40 +256,37 @@ export default function Home() {
 
     try {
       const token = localStorage.getItem('auth_token');
-      const res = await fetch('/api/generate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(token ? { Authorization: `Bearer ${token}` } : {})
-        },
-        body: JSON.stringify({ prompt: input })
-      });
-
-      if (res.ok) {
-        const data = await res.json();
-        setOutputCode(data.dnaCode);
-        setIdentity(data.identityHash);
-        setLastReward(data.estimatedQBytes);
-        setPhase(OptimizationPhase.STABILIZE);
-
-        // Mine the reward
-        if (token) {
-          await fetch('/api/ledger', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${token}`
-            },
-            body: JSON.stringify({
-              nodeId: user.id,
-              metrics: data.metrics
-            })
-          });
-          fetchQByte();
-        }
-
-        setTimeout(() => setPhase(OptimizationPhase.LOCK), 1500);
+      setOutputCode('');
+
+      // Tokens land in the terminal as the compiler emits them
+      const data = await streamOrganism(input, {
+        onToken: (text) => setOutputCode(prev => prev + text),
+        onReset: () => setOutputCode(''),
+        onRepair: () => setOutputCode('')
+      }, token);
+
+      setOutputCode(data.dnaCode);
+      setIdentity(data.identityHash);
+      setLastReward(data.estimatedQBytes);
+      setPhase(OptimizationPhase.STABILIZE);
+
+      // Mine the reward
+      if (token) {
+        await fetch('/api/ledger', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`
+          },
+          body: JSON.stringify({
+            nodeId: user.id,
+            metrics: data.metrics
+          })
+        });
+        fetchQByte();
       }
+
+      setTimeout(() => setPhase(OptimizationPhase.LOCK), 1500);
     } catch (e) {
       setOutputCode('// Error: Genesis Compiler failed');
     } finally {
@@ -280,14 +297,24 @@ export default function Home() {
   // Phase conjugate healing
   const handleHeal = async () => {
     setIsHealing(true);
+    setHealError(null);
     try {
-      await fetch('/api/metrics', {
+      const token = localStorage.getItem('auth_token');
+      const res = await fetch('/api/metrics', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {})
+        },
         body: JSON.stringify({ action: 'heal' })
       });
-      fetchMetrics();
-    } catch (e) {}
+      const data = await res.json();
+      if (!data.success) {
+        setHealError(data.error);
+      }
+    } catch (e) {
+      setHealError('Heal request failed');
+    }
     setIsHealing(false);
   };
 
@@ -482,13 +509,16 @@ export default function Home() {
               CCCE TELEMETRY
             </h2>
             {metrics.gamma > GAMMA_CRITICAL && (
-              <button
-                onClick={handleHeal}
-                disabled={isHealing}
-                className="px-4 py-2 bg-gradient-to-r from-red-900/80 to-orange-900/80 border border-red-500/50 text-red-200 text-xs font-bold rounded-lg animate-pulse"
-              >
-                {isHealing ? <Loader2 size={14} className="animate-spin" /> : 'HEAL'}
-              </button>
+              <div className="flex items-center gap-2">
+                {healError && <span className="text-xs text-rose-400">{healError}</span>}
+                <button
+                  onClick={handleHeal}
+                  disabled={isHealing}
+                  className="px-4 py-2 bg-gradient-to-r from-red-900/80 to-orange-900/80 border border-red-500/50 text-red-200 text-xs font-bold rounded-lg animate-pulse"
+                >
+                  {isHealing ? <Loader2 size={14} className="animate-spin" /> : 'HEAL'}
+                </button>
+              </div>
             )}
           </div>
 
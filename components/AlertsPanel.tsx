@@ -0,0 +1,184 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { BellRing, CheckCircle2, Loader2 } from 'lucide-react';
+
+interface AlertItem {
+  id: string;
+  ruleName: string;
+  severity: 'info' | 'warning' | 'critical';
+  status: 'firing' | 'resolved';
+  message: string;
+  firedAt: number;
+  resolvedAt?: number;
+  acknowledgedAt?: number;
+  acknowledgedBy?: string;
+}
+
+interface RuleItem {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severity: string;
+  status: { state: 'ok' | 'pending' | 'firing' };
+}
+
+interface AlertsPanelProps {
+  canAcknowledge: boolean;
+}
+
+const REFRESH_MS = 10000;
+
+const SEVERITY_STYLES: Record<AlertItem['severity'], string> = {
+  critical: 'border-rose-500/50 bg-rose-500/10 text-rose-400',
+  warning: 'border-amber-500/50 bg-amber-500/10 text-amber-400',
+  info: 'border-cyan-500/50 bg-cyan-500/10 text-cyan-400'
+};
+
+const STATE_STYLES: Record<RuleItem['status']['state'], string> = {
+  ok: 'text-emerald-400',
+  pending: 'text-amber-400',
+  firing: 'text-rose-400'
+};
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {})
+  };
+}
+
+export const AlertsPanel: React.FC<AlertsPanelProps> = ({ canAcknowledge }) => {
+  const [alerts, setAlerts] = useState<AlertItem[]>([]);
+  const [rules, setRules] = useState<RuleItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyAlertId, setBusyAlertId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAlerts = useCallback(async () => {
+    try {
+      const res = await fetch('/api/alerts?limit=20', { headers: authHeaders() });
+      const data = await res.json();
+      if (data.success) {
+        setAlerts(data.alerts);
+        setRules(data.rules);
+        setError(null);
+      } else {
+        setError(data.error);
+      }
+    } catch (e) {
+      setError('Failed to load alerts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAlerts();
+    const interval = setInterval(fetchAlerts, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [fetchAlerts]);
+
+  const acknowledge = async (alertId: string) => {
+    setBusyAlertId(alertId);
+    try {
+      const res = await fetch('/api/alerts/acknowledge', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ alertId })
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error);
+      }
+      await fetchAlerts();
+    } catch (e) {
+      setError('Failed to acknowledge alert');
+    } finally {
+      setBusyAlertId(null);
+    }
+  };
+
+  const firing = alerts.filter((a) => a.status === 'firing');
+  const resolved = alerts.filter((a) => a.status === 'resolved').slice(0, 5);
+  const formatTime = (ms: number) => new Date(ms).toLocaleTimeString('en-US', { hour12: false });
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2">
+          <BellRing className={firing.length > 0 ? 'text-rose-400' : 'text-cyan-400'} />
+          Alerts
+        </h2>
+        <span className="text-xs text-slate-500">{firing.length} firing</span>
+      </div>
+
+      {error && <div className="text-sm text-rose-400 mb-3">{error}</div>}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 text-cyan-500 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {firing.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-emerald-400">
+              <CheckCircle2 size={16} />
+              No alerts firing
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {firing.map((alert) => (
+                <div key={alert.id} className={`border rounded-lg p-3 flex items-center justify-between gap-4 ${SEVERITY_STYLES[alert.severity]}`}>
+                  <div>
+                    <div className="text-sm font-semibold">{alert.ruleName}</div>
+                    <div className="text-xs text-slate-400">
+                      {alert.message} · since {formatTime(alert.firedAt)}
+                    </div>
+                  </div>
+                  {alert.acknowledgedAt ? (
+                    <span className="text-xs text-slate-400 whitespace-nowrap">Ack by {alert.acknowledgedBy}</span>
+                  ) : canAcknowledge && (
+                    <button
+                      onClick={() => acknowledge(alert.id)}
+                      disabled={busyAlertId === alert.id}
+                      className="px-3 py-1 rounded text-xs font-semibold bg-slate-800 text-slate-200 hover:bg-slate-700 disabled:opacity-50"
+                    >
+                      Acknowledge
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {resolved.length > 0 && (
+            <div>
+              <div className="text-xs text-slate-500 mb-1">Recently resolved</div>
+              {resolved.map((alert) => (
+                <div key={alert.id} className="text-xs text-slate-400 flex justify-between">
+                  <span>{alert.ruleName}</span>
+                  <span>{formatTime(alert.firedAt)} – {alert.resolvedAt ? formatTime(alert.resolvedAt) : ''}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {rules.map((rule) => (
+              <span
+                key={rule.id}
+                className={`px-3 py-1 bg-slate-800 border border-slate-700 rounded-full text-xs ${
+                  rule.enabled ? STATE_STYLES[rule.status.state] : 'text-slate-500'
+                }`}
+              >
+                {rule.name}: {rule.enabled ? rule.status.state : 'disabled'}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import { GAMMA_CRITICAL, PHI_THRESHOLD } from '@/lib/constants';
+
+interface Summary {
+  min: number;
+  max: number;
+  avg: number;
+}
+
+interface HistoryBucket {
+  start: number;
+  count: number;
+  lambda: Summary;
+  phi: Summary;
+  gamma: Summary;
+  xi: Summary;
+}
+
+const RANGES = [
+  { label: '1H', ms: 3600000, resolution: '30s' },
+  { label: '24H', ms: 86400000, resolution: '10m' },
+  { label: '7D', ms: 604800000, resolution: '1h' },
+  { label: '30D', ms: 2592000000, resolution: '6h' }
+];
+
+const REFRESH_MS = 60000;
+
+export const MetricsHistoryChart: React.FC = () => {
+  const [range, setRange] = useState(RANGES[0]);
+  const [buckets, setBuckets] = useState<HistoryBucket[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const to = Date.now();
+      const res = await fetch(`/api/metrics/history?from=${to - range.ms}&to=${to}&resolution=${range.resolution}`);
+      const data = await res.json();
+      if (data.success) {
+        setBuckets(data.buckets);
+        setError(null);
+      } else {
+        setError(data.error);
+      }
+    } catch (e) {
+      setError('Failed to load metrics history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchHistory();
+    const interval = setInterval(fetchHistory, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [fetchHistory]);
+
+  const formatTime = (start: number) => {
+    const date = new Date(start);
+    return range.ms > 86400000
+      ? date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: '2-digit' })
+      : date.toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit' });
+  };
+
+  const chartData = buckets.map((b) => ({
+    time: formatTime(b.start),
+    phi: b.phi.avg,
+    lambda: b.lambda.avg,
+    gamma: b.gamma.avg,
+    gammaMax: b.gamma.max,
+    xi: b.xi.avg
+  }));
+
+  const gammaSpikes = buckets.filter((b) => b.gamma.max > GAMMA_CRITICAL).length;
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2">
+          <History className="text-cyan-400" />
+          Metrics History
+        </h2>
+        <div className="flex gap-1">
+          {RANGES.map((r) => (
+            <button
+              key={r.label}
+              onClick={() => setRange(r)}
+              className={`px-3 py-1 rounded text-xs font-semibold transition-colors ${
+                range.label === r.label
+                  ? 'bg-cyan-600 text-white'
+                  : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+              }`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-4 text-xs mb-2">
+        <span className="text-violet-400">Phi avg</span>
+        <span className="text-cyan-400">Lambda avg</span>
+        <span className="text-rose-400">Gamma avg / max</span>
+        <span className={gammaSpikes > 0 ? 'text-amber-400' : 'text-slate-500'}>
+          {gammaSpikes} bucket(s) with Gamma &gt; {GAMMA_CRITICAL}
+        </span>
+      </div>
+
+      <div className="h-64">
+        {isLoading ? (
+          <div className="h-full flex items-center justify-center">
+            <Loader2 className="w-6 h-6 text-cyan-500 animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="h-full flex items-center justify-center text-sm text-rose-400">{error}</div>
+        ) : chartData.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-sm text-slate-500">No samples recorded in this range</div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+              <XAxis dataKey="time" tick={{ fontSize: 10, fill: '#64748b' }} minTickGap={40} />
+              <YAxis domain={[0, 1.1]} tick={{ fontSize: 10, fill: '#64748b' }} />
+              <ReferenceLine y={PHI_THRESHOLD} stroke="#a855f7" strokeDasharray="3 3" strokeOpacity={0.5} />
+              <ReferenceLine y={GAMMA_CRITICAL} stroke="#f43f5e" strokeDasharray="3 3" strokeOpacity={0.5} />
+              <Tooltip contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', borderRadius: '8px', fontSize: '11px' }} />
+              <Area type="monotone" dataKey="gammaMax" stroke="none" fill="#f43f5e" fillOpacity={0.15} isAnimationActive={false} />
+              <Line type="monotone" dataKey="phi" stroke="#a855f7" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line type="monotone" dataKey="lambda" stroke="#06b6d4" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line type="monotone" dataKey="gamma" stroke="#f43f5e" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+};
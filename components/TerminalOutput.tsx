@@ -32,7 +32,12 @@ export const TerminalOutput: React.FC<TerminalOutputProps> = ({ code, isCompilin
       </div>
 
       <div ref={scrollRef} className="flex-1 overflow-auto p-4 text-emerald-500/90 relative">
-        {isCompiling ? (
+        {isCompiling && code ? (
+          <pre className="whitespace-pre-wrap break-words">
+            <code>{code}</code>
+            <span className="animate-pulse text-cyan-400">▋</span>
+          </pre>
+        ) : isCompiling ? (
           <div className="flex flex-col gap-1">
             <span className="animate-pulse">&gt; Initializing Genesis Compiler...</span>
             <span className="animate-pulse">&gt; Connecting to Ω-Plane...</span>
@@ -0,0 +1,281 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Users, UserPlus, KeyRound, Ban, CheckCircle2, Loader2, AlertTriangle } from 'lucide-react';
+
+interface ManagedUser {
+  id: string;
+  email: string;
+  role: string;
+  organization: string;
+  clearanceLevel: number;
+  lastLogin: number;
+  disabled?: boolean;
+}
+
+interface UserAdminPanelProps {
+  currentUserId: string;
+}
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {})
+  };
+}
+
+export const UserAdminPanel: React.FC<UserAdminPanelProps> = ({ currentUserId }) => {
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [roles, setRoles] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [form, setForm] = useState({ email: '', password: '', role: 'RESEARCHER', organization: '' });
+  const [isCreating, setIsCreating] = useState(false);
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const res = await fetch('/api/users', { headers: authHeaders() });
+      const data = await res.json();
+      if (data.success) {
+        setUsers(data.users);
+        setRoles(data.roles);
+      } else {
+        setError(data.error);
+      }
+    } catch (e) {
+      setError('Failed to load users');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  // PATCH a user and refresh the list
+  const updateUser = async (userId: string, changes: Record<string, unknown>) => {
+    setBusyUserId(userId);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/users/${userId}`, {
+        method: 'PATCH',
+        headers: authHeaders(),
+        body: JSON.stringify(changes)
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error);
+      }
+      await fetchUsers();
+    } catch (e) {
+      setError('Failed to update user');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const resetPassword = async (user: ManagedUser) => {
+    setBusyUserId(user.id);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/users/${user.id}/reset-password`, {
+        method: 'POST',
+        headers: authHeaders()
+      });
+      const data = await res.json();
+      if (data.success) {
+        setNotice(`Temporary password for ${user.email}: ${data.temporaryPassword}`);
+      } else {
+        setError(data.error);
+      }
+    } catch (e) {
+      setError('Failed to reset password');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch('/api/users', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify(form)
+      });
+      const data = await res.json();
+      if (data.success) {
+        setNotice(`Created ${data.user.email} (${data.user.role})`);
+        setForm({ email: '', password: '', role: form.role, organization: form.organization });
+        await fetchUsers();
+      } else {
+        setError(data.error);
+      }
+    } catch (e) {
+      setError('Failed to create user');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6">
+      <h2 className="text-lg font-bold text-white flex items-center gap-2 mb-4">
+        <Users className="text-cyan-400" />
+        User Administration
+      </h2>
+
+      {error && (
+        <div className="flex items-center gap-2 text-rose-400 text-sm mb-4">
+          <AlertTriangle size={16} />
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="flex items-center gap-2 text-emerald-400 text-sm mb-4 font-mono">
+          <CheckCircle2 size={16} />
+          {notice}
+        </div>
+      )}
+
+      {/* Create User */}
+      <form onSubmit={handleCreate} className="grid md:grid-cols-5 gap-2 mb-6">
+        <input
+          type="email"
+          required
+          placeholder="email"
+          value={form.email}
+          onChange={(e) => setForm({ ...form, email: e.target.value })}
+          className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200"
+        />
+        <input
+          type="password"
+          required
+          minLength={12}
+          placeholder="initial password (12+)"
+          value={form.password}
+          onChange={(e) => setForm({ ...form, password: e.target.value })}
+          className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200"
+        />
+        <select
+          value={form.role}
+          onChange={(e) => setForm({ ...form, role: e.target.value })}
+          className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200"
+        >
+          {roles.map((role) => <option key={role} value={role}>{role}</option>)}
+        </select>
+        <input
+          type="text"
+          placeholder="organization"
+          value={form.organization}
+          onChange={(e) => setForm({ ...form, organization: e.target.value })}
+          className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200"
+        />
+        <button
+          type="submit"
+          disabled={isCreating}
+          className="px-4 py-2 bg-gradient-to-r from-cyan-600 to-indigo-600 hover:from-cyan-500 hover:to-indigo-500 text-white text-sm font-semibold rounded-lg transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          {isCreating ? <Loader2 className="animate-spin" size={16} /> : <UserPlus size={16} />}
+          Create User
+        </button>
+      </form>
+
+      {/* User List */}
+      {isLoading ? (
+        <Loader2 className="w-6 h-6 text-cyan-500 animate-spin" />
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 uppercase tracking-wider border-b border-slate-800">
+                <th className="py-2 pr-4">Email</th>
+                <th className="py-2 pr-4">Role</th>
+                <th className="py-2 pr-4">Clearance</th>
+                <th className="py-2 pr-4">Organization</th>
+                <th className="py-2 pr-4">Last Login</th>
+                <th className="py-2">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map((u) => {
+                const locked = u.id === currentUserId || u.role === 'MASTER_ADMIN';
+                const busy = busyUserId === u.id;
+                return (
+                  <tr key={u.id} className={`border-b border-slate-800/50 ${u.disabled ? 'opacity-50' : ''}`}>
+                    <td className="py-2 pr-4 text-slate-300">{u.email}</td>
+                    <td className="py-2 pr-4">
+                      {locked ? (
+                        <span className="text-slate-400">{u.role}</span>
+                      ) : (
+                        <select
+                          value={u.role}
+                          disabled={busy}
+                          onChange={(e) => updateUser(u.id, { role: e.target.value })}
+                          className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                        >
+                          {roles.map((role) => <option key={role} value={role}>{role}</option>)}
+                        </select>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {locked ? (
+                        <span className="text-slate-400">L{u.clearanceLevel}</span>
+                      ) : (
+                        <select
+                          value={u.clearanceLevel}
+                          disabled={busy}
+                          onChange={(e) => updateUser(u.id, { clearanceLevel: parseInt(e.target.value) })}
+                          className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                        >
+                          {[0, 1, 2, 3, 4].map((level) => <option key={level} value={level}>L{level}</option>)}
+                        </select>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-slate-400">{u.organization}</td>
+                    <td className="py-2 pr-4 text-slate-500 text-xs">
+                      {u.lastLogin ? new Date(u.lastLogin).toLocaleString() : 'never'}
+                    </td>
+                    <td className="py-2">
+                      {!locked && (
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => updateUser(u.id, { disabled: !u.disabled })}
+                            disabled={busy}
+                            title={u.disabled ? 'Enable' : 'Disable'}
+                            className="p-1.5 rounded border border-slate-700 hover:bg-slate-800 disabled:opacity-50"
+                          >
+                            {u.disabled
+                              ? <CheckCircle2 size={14} className="text-emerald-400" />
+                              : <Ban size={14} className="text-rose-400" />}
+                          </button>
+                          <button
+                            onClick={() => resetPassword(u)}
+                            disabled={busy}
+                            title="Reset password"
+                            className="p-1.5 rounded border border-slate-700 hover:bg-slate-800 disabled:opacity-50"
+                          >
+                            <KeyRound size={14} className="text-amber-400" />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
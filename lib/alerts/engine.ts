@@ -0,0 +1,472 @@
+/**
+ * Alert Engine
+ * Evaluates alert rules against the live CCCE metrics stream
+ *
+ * Each rule moves ok -> pending -> firing while its condition holds for
+ * forSeconds, and back to ok (resolving its alert) once it clears. Rules and
+ * alerts persist to ~/.sovereign/state/alerts.json (override with
+ * ALERTS_PATH; ALERTS_STORE=memory disables persistence); pending timers do
+ * not survive a restart, firing alerts do. The engine holds a metrics hub
+ * subscription only while at least one rule is enabled.
+ */
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { GAMMA_CRITICAL, PHI_THRESHOLD } from '../constants';
+import { getMetricsHub } from '../metrics/hub';
+import { CCCEMetrics } from '../metrics/sources';
+import { readJsonFile, writeJsonFile } from '../state/json-store';
+import { AlertNotificationEvent, sendAlertNotification } from './notifier';
+import {
+  AlertRule,
+  AlertSample,
+  AlertSeverity,
+  MAX_RATE_WINDOW_SECONDS,
+  RuleInput,
+  evaluateCondition,
+  validateRuleInput
+} from './rules';
+
+const HOMEDIR = process.env.HOME || '/home/dnalang';
+const DEFAULT_ALERTS_PATH = path.join(HOMEDIR, '.sovereign/state/alerts.json');
+
+export const MAX_ALERT_RULES = 100;
+const MAX_ALERT_HISTORY = 500;
+const SAMPLE_RETENTION_MS = (MAX_RATE_WINDOW_SECONDS + 60) * 1000;
+
+// Clearance needed to edit or delete rules created by someone else
+const RULE_ADMIN_CLEARANCE = 4;
+
+export type AlertStatus = 'firing' | 'resolved';
+export type RuleState = 'ok' | 'pending' | 'firing';
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  status: AlertStatus;
+  message: string;
+  value: number;
+  source: CCCEMetrics['source'];
+  firedAt: number;
+  resolvedAt?: number;
+  acknowledgedAt?: number;
+  acknowledgedBy?: string;
+  acknowledgeNote?: string;
+}
+
+export interface RuleStatus {
+  state: RuleState;
+  since: number | null;
+  lastValue: number | null;
+  lastEvaluatedAt: number | null;
+  alertId: string | null;
+}
+
+export type AlertRuleWithStatus = AlertRule & { status: RuleStatus };
+
+export type RuleResult =
+  | { success: true; rule: AlertRuleWithStatus }
+  | { success: false; error: string; status: number };
+
+export type AlertResult =
+  | { success: true; alert: Alert }
+  | { success: false; error: string; status: number };
+
+export interface AlertActor {
+  userId: string;
+  clearanceLevel: number;
+}
+
+interface EngineState {
+  rules: Map<string, AlertRule>;
+  alerts: Alert[];                      // oldest first
+  status: Map<string, RuleStatus>;
+  samples: AlertSample[];               // trailing window for rate-of-change rules
+  unsubscribe: (() => void) | null;
+}
+
+// Route bundles may load this module separately; keep one engine per process
+const globalForAlerts = globalThis as unknown as { __alertEngine?: EngineState };
+
+function getAlertsPath(): string | null {
+  if (process.env.ALERTS_STORE === 'memory') return null;
+  return process.env.ALERTS_PATH || DEFAULT_ALERTS_PATH;
+}
+
+function getState(): EngineState {
+  if (!globalForAlerts.__alertEngine) {
+    globalForAlerts.__alertEngine = loadState();
+    syncSubscription();
+  }
+  return globalForAlerts.__alertEngine;
+}
+
+function emptyStatus(): RuleStatus {
+  return { state: 'ok', since: null, lastValue: null, lastEvaluatedAt: null, alertId: null };
+}
+
+function loadState(): EngineState {
+  const state: EngineState = {
+    rules: new Map(),
+    alerts: [],
+    status: new Map(),
+    samples: [],
+    unsubscribe: null
+  };
+  const alertsPath = getAlertsPath();
+  const data = alertsPath && readJsonFile<{ rules: AlertRule[]; alerts: Alert[] }>(alertsPath, '[ALERTS]', 'alert store');
+
+  if (data) {
+    data.rules.forEach(rule => state.rules.set(rule.id, rule));
+    state.alerts = data.alerts;
+    console.log(`[ALERTS] Loaded ${state.rules.size} rule(s) from ${alertsPath}`);
+  } else {
+    initializeDefaultRules(state.rules);
+  }
+
+  state.rules.forEach(rule => state.status.set(rule.id, emptyStatus()));
+
+  // Alerts still firing at shutdown stay open until their rule clears
+  state.alerts.forEach(alert => {
+    const status = state.status.get(alert.ruleId);
+    if (alert.status === 'firing' && status) {
+      status.state = 'firing';
+      status.since = alert.firedAt;
+      status.alertId = alert.id;
+    }
+  });
+
+  return state;
+}
+
+// Starter rules for a fresh store; operators can edit or delete them
+function initializeDefaultRules(rules: Map<string, AlertRule>): void {
+  const now = Date.now();
+  const defaults: Omit<AlertRule, 'id' | 'createdBy' | 'createdAt' | 'updatedAt'>[] = [
+    {
+      name: 'Decoherence critical',
+      condition: { type: 'threshold', metric: 'gamma', operator: '>', value: GAMMA_CRITICAL },
+      forSeconds: 30,
+      severity: 'critical',
+      enabled: true,
+      notify: true
+    },
+    {
+      name: 'Consciousness below threshold',
+      condition: { type: 'threshold', metric: 'phi', operator: '<', value: PHI_THRESHOLD },
+      forSeconds: 60,
+      severity: 'warning',
+      enabled: true,
+      notify: true
+    }
+  ];
+
+  defaults.forEach(rule => {
+    const id = generateId('rule');
+    rules.set(id, { ...rule, id, createdBy: 'system', createdAt: now, updatedAt: now });
+  });
+}
+
+function saveState(): void {
+  const alertsPath = getAlertsPath();
+  if (!alertsPath) return;
+
+  const state = getState();
+  writeJsonFile(alertsPath, { version: 1, rules: Array.from(state.rules.values()), alerts: state.alerts });
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${crypto.randomBytes(8).toString('hex')}`;
+}
+
+// Subscribe to the metrics hub only while some rule can fire
+function syncSubscription(): void {
+  const state = globalForAlerts.__alertEngine!;
+  const active = Array.from(state.rules.values()).some(rule => rule.enabled);
+
+  if (active && !state.unsubscribe) {
+    state.unsubscribe = getMetricsHub().subscribe(event => {
+      if (event.type === 'metrics') evaluateAlertRules(event.data);
+    });
+  } else if (!active && state.unsubscribe) {
+    state.unsubscribe();
+    state.unsubscribe = null;
+    state.samples = [];
+  }
+}
+
+function withStatus(rule: AlertRule): AlertRuleWithStatus {
+  return { ...rule, status: { ...(getState().status.get(rule.id) || emptyStatus()) } };
+}
+
+function notify(event: AlertNotificationEvent, alert: Alert, rule: AlertRule): void {
+  if (!rule.notify) return;
+  void sendAlertNotification({
+    event,
+    alert: { ...alert },
+    rule: {
+      id: rule.id,
+      name: rule.name,
+      condition: rule.condition,
+      forSeconds: rule.forSeconds,
+      severity: rule.severity
+    },
+    timestamp: Date.now()
+  });
+}
+
+function pruneAlerts(state: EngineState): void {
+  let excess = state.alerts.length - MAX_ALERT_HISTORY;
+  if (excess <= 0) return;
+  // Drop the oldest resolved alerts; firing ones are never pruned
+  state.alerts = state.alerts.filter(alert => {
+    if (excess > 0 && alert.status === 'resolved') {
+      excess--;
+      return false;
+    }
+    return true;
+  });
+}
+
+function fire(state: EngineState, rule: AlertRule, status: RuleStatus, value: number, message: string, metrics: CCCEMetrics): void {
+  const alert: Alert = {
+    id: generateId('alert'),
+    ruleId: rule.id,
+    ruleName: rule.name,
+    severity: rule.severity,
+    status: 'firing',
+    message,
+    value,
+    source: metrics.source,
+    firedAt: metrics.timestamp
+  };
+
+  state.alerts.push(alert);
+  pruneAlerts(state);
+  status.state = 'firing';
+  status.since = alert.firedAt;
+  status.alertId = alert.id;
+
+  console.warn(`[ALERTS] ${rule.severity.toUpperCase()} firing: ${rule.name} - ${message}`);
+  notify('firing', alert, rule);
+}
+
+function resolve(state: EngineState, rule: AlertRule, status: RuleStatus, resolvedAt: number): void {
+  const alert = state.alerts.find(a => a.id === status.alertId);
+  Object.assign(status, { state: 'ok', since: null, alertId: null });
+  if (!alert || alert.status !== 'firing') return;
+
+  alert.status = 'resolved';
+  alert.resolvedAt = resolvedAt;
+  console.log(`[ALERTS] Resolved: ${rule.name}`);
+  notify('resolved', alert, rule);
+}
+
+/**
+ * Evaluate every enabled rule against one metrics sample
+ * Called for each metrics event from the hub.
+ */
+export function evaluateAlertRules(metrics: CCCEMetrics): void {
+  const state = getState();
+  const timestamp = metrics.timestamp || Date.now();
+  const sample: AlertSample = {
+    lambda: metrics.lambda,
+    phi: metrics.phi,
+    gamma: metrics.gamma,
+    xi: metrics.xi,
+    timestamp
+  };
+  if (![sample.lambda, sample.phi, sample.gamma, sample.xi].every(Number.isFinite)) return;
+
+  let changed = false;
+
+  state.rules.forEach(rule => {
+    if (!rule.enabled) return;
+    const status = state.status.get(rule.id)!;
+    const result = evaluateCondition(rule.condition, sample, state.samples);
+    status.lastEvaluatedAt = timestamp;
+    if (!result) return;
+
+    status.lastValue = result.value;
+
+    if (!result.matches) {
+      if (status.state === 'firing') {
+        resolve(state, rule, status, timestamp);
+        changed = true;
+      } else if (status.state === 'pending') {
+        Object.assign(status, { state: 'ok', since: null });
+      }
+      return;
+    }
+
+    if (status.state === 'ok') {
+      status.state = 'pending';
+      status.since = timestamp;
+    }
+    if (status.state === 'pending' && timestamp - status.since! >= rule.forSeconds * 1000) {
+      fire(state, rule, status, result.value, result.detail, { ...metrics, timestamp });
+      changed = true;
+    }
+  });
+
+  state.samples.push(sample);
+  const cutoff = timestamp - SAMPLE_RETENTION_MS;
+  while (state.samples.length > 0 && state.samples[0].timestamp < cutoff) state.samples.shift();
+
+  if (changed) {
+    try {
+      saveState();
+    } catch (error) {
+      console.error('[ALERTS] Failed to persist alert state:', error);
+    }
+  }
+}
+
+/**
+ * Load the engine and start watching metrics if any rule is enabled; idempotent
+ */
+export function startAlertEngine(): void {
+  getState();
+}
+
+export function getAlertRules(): AlertRuleWithStatus[] {
+  return Array.from(getState().rules.values())
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(withStatus);
+}
+
+export function getAlertRule(ruleId: string): AlertRuleWithStatus | null {
+  const rule = getState().rules.get(ruleId);
+  return rule ? withStatus(rule) : null;
+}
+
+/**
+ * Alerts newest first, optionally filtered by status
+ */
+export function getAlerts(options: { status?: AlertStatus; limit?: number } = {}): Alert[] {
+  return getState().alerts
+    .filter(alert => !options.status || alert.status === options.status)
+    .slice(-(options.limit || MAX_ALERT_HISTORY))
+    .reverse()
+    .map(alert => ({ ...alert }));
+}
+
+export function createAlertRule(input: RuleInput, actor: AlertActor): RuleResult {
+  const state = getState();
+  if (state.rules.size >= MAX_ALERT_RULES) {
+    return { success: false, error: `At most ${MAX_ALERT_RULES} alert rules are allowed`, status: 409 };
+  }
+
+  const validated = validateRuleInput(input, false);
+  if (typeof validated === 'string') {
+    return { success: false, error: validated, status: 400 };
+  }
+
+  const now = Date.now();
+  const rule: AlertRule = {
+    id: generateId('rule'),
+    name: validated.name!,
+    condition: validated.condition!,
+    forSeconds: validated.forSeconds ?? 0,
+    severity: validated.severity ?? 'warning',
+    enabled: validated.enabled ?? true,
+    notify: validated.notify ?? true,
+    createdBy: actor.userId,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  state.rules.set(rule.id, rule);
+  state.status.set(rule.id, emptyStatus());
+  saveState();
+  syncSubscription();
+
+  return { success: true, rule: withStatus(rule) };
+}
+
+function checkRuleAccess(rule: AlertRule | undefined, actor: AlertActor): { error: string; status: number } | null {
+  if (!rule) return { error: 'Alert rule not found', status: 404 };
+  if (rule.createdBy !== actor.userId && actor.clearanceLevel < RULE_ADMIN_CLEARANCE) {
+    return { error: 'Only the rule owner or an administrator can change this rule', status: 403 };
+  }
+  return null;
+}
+
+/**
+ * Update a rule; changing its condition or disabling it resolves any open alert
+ */
+export function updateAlertRule(ruleId: string, input: RuleInput, actor: AlertActor): RuleResult {
+  const state = getState();
+  const rule = state.rules.get(ruleId);
+  const denied = checkRuleAccess(rule, actor);
+  if (denied) return { success: false, ...denied };
+
+  const validated = validateRuleInput(input, true);
+  if (typeof validated === 'string') {
+    return { success: false, error: validated, status: 400 };
+  }
+
+  Object.assign(rule!, validated, { updatedAt: Date.now() });
+
+  const status = state.status.get(ruleId)!;
+  if (validated.condition || validated.forSeconds !== undefined || validated.enabled === false) {
+    resolve(state, rule!, status, Date.now());
+  }
+
+  saveState();
+  syncSubscription();
+
+  return { success: true, rule: withStatus(rule!) };
+}
+
+export function deleteAlertRule(ruleId: string, actor: AlertActor): RuleResult {
+  const state = getState();
+  const rule = state.rules.get(ruleId);
+  const denied = checkRuleAccess(rule, actor);
+  if (denied) return { success: false, ...denied };
+
+  const deleted = withStatus(rule!);
+  resolve(state, rule!, state.status.get(ruleId)!, Date.now());
+  state.rules.delete(ruleId);
+  state.status.delete(ruleId);
+  saveState();
+  syncSubscription();
+
+  return { success: true, rule: deleted };
+}
+
+/**
+ * Acknowledge a firing alert; it keeps firing until its rule clears
+ */
+export function acknowledgeAlert(alertId: string, actor: AlertActor, note?: string): AlertResult {
+  const state = getState();
+  const alert = state.alerts.find(a => a.id === alertId);
+  if (!alert) {
+    return { success: false, error: 'Alert not found', status: 404 };
+  }
+  if (alert.status !== 'firing') {
+    return { success: false, error: 'Alert is already resolved', status: 409 };
+  }
+  if (alert.acknowledgedAt) {
+    return { success: false, error: `Alert was already acknowledged by ${alert.acknowledgedBy}`, status: 409 };
+  }
+
+  alert.acknowledgedAt = Date.now();
+  alert.acknowledgedBy = actor.userId;
+  if (note) alert.acknowledgeNote = String(note).slice(0, 500);
+  saveState();
+
+  const rule = state.rules.get(alert.ruleId);
+  if (rule) notify('acknowledged', alert, rule);
+
+  return { success: true, alert: { ...alert } };
+}
+
+export function getNotifierConfig(): { webhook: boolean; command: boolean } {
+  return {
+    webhook: !!process.env.ALERT_WEBHOOK_URL,
+    command: !!process.env.ALERT_COMMAND
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Alert Notifier
+ * Delivers alert transitions to operator-configured local targets
+ *
+ *   ALERT_WEBHOOK_URL  - receives a JSON POST per notification
+ *   ALERT_COMMAND      - run through the shell with the JSON on stdin
+ *
+ * Targets come from the environment only; rules can opt out of
+ * notifications but never choose where they go.
+ */
+
+import { spawn } from 'child_process';
+import type { Alert } from './engine';
+import type { AlertRule } from './rules';
+
+const NOTIFY_TIMEOUT_MS = 5000;
+
+export type AlertNotificationEvent = 'firing' | 'resolved' | 'acknowledged';
+
+export interface AlertNotification {
+  event: AlertNotificationEvent;
+  alert: Alert;
+  rule: Pick<AlertRule, 'id' | 'name' | 'condition' | 'forSeconds' | 'severity'>;
+  timestamp: number;
+}
+
+async function postWebhook(url: string, payload: string): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'User-Agent': 'rosetta-alerts/1.0' },
+    body: payload,
+    signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new Error(`webhook responded ${response.status}`);
+  }
+}
+
+function runCommand(command: string, payload: string, event: AlertNotificationEvent): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ['pipe', 'ignore', 'pipe'],
+      timeout: NOTIFY_TIMEOUT_MS,
+      env: { ...process.env, ALERT_EVENT: event }
+    });
+
+    let stderr = '';
+    child.stderr.on('data', (chunk) => {
+      stderr = (stderr + chunk.toString()).slice(-500);
+    });
+    child.on('error', reject);
+    child.on('close', (code, signal) => {
+      if (code === 0) resolve();
+      else reject(new Error(`command exited ${signal || code}${stderr ? `: ${stderr.trim()}` : ''}`));
+    });
+
+    child.stdin.on('error', () => {
+      // Commands that ignore stdin may close it early
+    });
+    child.stdin.end(payload);
+  });
+}
+
+/**
+ * Send a notification to every configured target; failures are logged, never thrown
+ */
+export async function sendAlertNotification(notification: AlertNotification): Promise<void> {
+  const webhookUrl = process.env.ALERT_WEBHOOK_URL;
+  const command = process.env.ALERT_COMMAND;
+  if (!webhookUrl && !command) return;
+
+  const payload = JSON.stringify(notification);
+  const deliveries: Promise<void>[] = [];
+  if (webhookUrl) deliveries.push(postWebhook(webhookUrl, payload));
+  if (command) deliveries.push(runCommand(command, payload, notification.event));
+
+  const results = await Promise.allSettled(deliveries);
+  results.forEach(result => {
+    if (result.status === 'rejected') {
+      console.error(`[ALERTS] Notification for ${notification.alert.id} failed:`, (result.reason as Error).message);
+    }
+  });
+}
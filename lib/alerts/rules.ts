@@ -0,0 +1,205 @@
+/**
+ * Alert Rules
+ * Condition types and their evaluation against CCCE metrics samples
+ *
+ *   threshold       - metric compared with a fixed value
+ *   rate_of_change  - change of a metric per minute over a trailing window
+ *   qslice          - any (or the listed) Q-SLICE compliance checks failing
+ *
+ * Every rule may require its condition to hold for forSeconds before firing.
+ */
+
+import { computeQSliceCompliance } from '../constants';
+
+export type AlertMetric = 'lambda' | 'phi' | 'gamma' | 'xi';
+export type AlertOperator = '>' | '>=' | '<' | '<=';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+const ALERT_METRICS: AlertMetric[] = ['lambda', 'phi', 'gamma', 'xi'];
+const ALERT_OPERATORS: AlertOperator[] = ['>', '>=', '<', '<='];
+const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+// Longest trailing window the engine keeps samples for
+export const MAX_RATE_WINDOW_SECONDS = 900;
+export const MAX_SUSTAIN_SECONDS = 86400;
+
+export type AlertCondition =
+  | { type: 'threshold'; metric: AlertMetric; operator: AlertOperator; value: number }
+  | { type: 'rate_of_change'; metric: AlertMetric; operator: AlertOperator; value: number; windowSeconds: number }
+  | { type: 'qslice'; checkIds?: string[] };
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  condition: AlertCondition;
+  forSeconds: number;
+  severity: AlertSeverity;
+  enabled: boolean;
+  notify: boolean;
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AlertSample {
+  lambda: number;
+  phi: number;
+  gamma: number;
+  xi: number;
+  timestamp: number;
+}
+
+export interface ConditionResult {
+  matches: boolean;
+  value: number;
+  detail: string;
+}
+
+export type RuleInput = Partial<Pick<AlertRule, 'name' | 'condition' | 'forSeconds' | 'severity' | 'enabled' | 'notify'>>;
+
+function compare(value: number, operator: AlertOperator, target: number): boolean {
+  switch (operator) {
+    case '>': return value > target;
+    case '>=': return value >= target;
+    case '<': return value < target;
+    case '<=': return value <= target;
+  }
+}
+
+/**
+ * Evaluate a condition; history holds earlier samples, oldest first
+ * Returns null when there is not enough history yet (rate of change).
+ */
+export function evaluateCondition(
+  condition: AlertCondition,
+  sample: AlertSample,
+  history: AlertSample[]
+): ConditionResult | null {
+  switch (condition.type) {
+    case 'threshold': {
+      const value = sample[condition.metric];
+      return {
+        matches: compare(value, condition.operator, condition.value),
+        value,
+        detail: `${condition.metric} = ${value.toFixed(4)} (${condition.operator} ${condition.value})`
+      };
+    }
+
+    case 'rate_of_change': {
+      // Compare against the newest sample at least windowSeconds old
+      const cutoff = sample.timestamp - condition.windowSeconds * 1000;
+      let baseline: AlertSample | undefined;
+      for (let i = history.length - 1; i >= 0; i--) {
+        if (history[i].timestamp <= cutoff) {
+          baseline = history[i];
+          break;
+        }
+      }
+      if (!baseline) return null;
+
+      const minutes = (sample.timestamp - baseline.timestamp) / 60000;
+      const value = (sample[condition.metric] - baseline[condition.metric]) / minutes;
+      return {
+        matches: compare(value, condition.operator, condition.value),
+        value,
+        detail: `${condition.metric} changing ${value.toFixed(4)}/min over ${condition.windowSeconds}s (${condition.operator} ${condition.value})`
+      };
+    }
+
+    case 'qslice': {
+      const compliance = computeQSliceCompliance(sample.phi, sample.lambda, sample.gamma, sample.xi);
+      const failing = compliance.checks.filter(check =>
+        !check.passed && (!condition.checkIds || condition.checkIds.includes(check.id))
+      );
+      return {
+        matches: failing.length > 0,
+        value: failing.length,
+        detail: failing.length > 0
+          ? `Q-SLICE failing: ${failing.map(check => check.id).join(', ')}`
+          : 'Q-SLICE checks passing'
+      };
+    }
+  }
+}
+
+function validateCondition(condition: unknown): AlertCondition | string {
+  if (!condition || typeof condition !== 'object') return 'condition is required';
+  const c = condition as Record<string, unknown>;
+
+  if (c.type === 'qslice') {
+    if (c.checkIds === undefined) return { type: 'qslice' };
+    const known = computeQSliceCompliance(1, 1, 0, 10).checks.map(check => check.id);
+    if (!Array.isArray(c.checkIds) || c.checkIds.length === 0 ||
+        !c.checkIds.every(id => typeof id === 'string' && known.includes(id))) {
+      return `checkIds must be a non-empty list of: ${known.join(', ')}`;
+    }
+    return { type: 'qslice', checkIds: c.checkIds as string[] };
+  }
+
+  if (c.type !== 'threshold' && c.type !== 'rate_of_change') {
+    return 'condition.type must be threshold, rate_of_change or qslice';
+  }
+  if (!ALERT_METRICS.includes(c.metric as AlertMetric)) {
+    return `condition.metric must be one of ${ALERT_METRICS.join(', ')}`;
+  }
+  if (!ALERT_OPERATORS.includes(c.operator as AlertOperator)) {
+    return `condition.operator must be one of ${ALERT_OPERATORS.join(' ')}`;
+  }
+  if (typeof c.value !== 'number' || !Number.isFinite(c.value)) {
+    return 'condition.value must be a number';
+  }
+
+  if (c.type === 'threshold') {
+    return { type: 'threshold', metric: c.metric as AlertMetric, operator: c.operator as AlertOperator, value: c.value };
+  }
+
+  if (typeof c.windowSeconds !== 'number' || !Number.isInteger(c.windowSeconds) ||
+      c.windowSeconds < 5 || c.windowSeconds > MAX_RATE_WINDOW_SECONDS) {
+    return `condition.windowSeconds must be an integer from 5 to ${MAX_RATE_WINDOW_SECONDS}`;
+  }
+  return {
+    type: 'rate_of_change',
+    metric: c.metric as AlertMetric,
+    operator: c.operator as AlertOperator,
+    value: c.value,
+    windowSeconds: c.windowSeconds
+  };
+}
+
+/**
+ * Validate a create (full) or update (partial) request body
+ */
+export function validateRuleInput(input: RuleInput, partial: boolean): RuleInput | string {
+  const result: RuleInput = {};
+
+  if (input.name !== undefined || !partial) {
+    const name = String(input.name || '').trim();
+    if (!name || name.length > 80) return 'name must be 1-80 characters';
+    result.name = name;
+  }
+
+  if (input.condition !== undefined || !partial) {
+    const condition = validateCondition(input.condition);
+    if (typeof condition === 'string') return condition;
+    result.condition = condition;
+  }
+
+  if (input.forSeconds !== undefined) {
+    if (!Number.isInteger(input.forSeconds) || input.forSeconds < 0 || input.forSeconds > MAX_SUSTAIN_SECONDS) {
+      return `forSeconds must be an integer from 0 to ${MAX_SUSTAIN_SECONDS}`;
+    }
+    result.forSeconds = input.forSeconds;
+  }
+
+  if (input.severity !== undefined) {
+    if (!ALERT_SEVERITIES.includes(input.severity)) {
+      return `severity must be one of ${ALERT_SEVERITIES.join(', ')}`;
+    }
+    result.severity = input.severity;
+  }
+
+  if (input.enabled !== undefined) result.enabled = !!input.enabled;
+  if (input.notify !== undefined) result.notify = !!input.notify;
+
+  return result;
+}
@@ -1,5 +1,10 @@
 // API Client for Sovereign Mesh Communication
 
+import { OptimizationPhase } from './types';
+import { derivePhase } from './metrics/phase';
+import { Diagnostic } from './dnalang/ast';
+import type { GenerationValidation } from './genesis/sources';
+
 export interface CCCEMetrics {
   lambda: number;
   phi: number;
@@ -22,7 +27,8 @@ export interface QByteState {
 
 export interface GenerateResponse {
   success: boolean;
-  source: 'gemini' | 'sovereign';
+  source: 'gemini' | 'ollama' | 'openai' | 'sovereign';
+  model: string;
   dnaCode: string;
   identityHash: string;
   estimatedQBytes: number;
@@ -32,8 +38,42 @@ export interface GenerateResponse {
     gamma: number;
     xi: number;
   };
+  diagnostics: Diagnostic[];
+  validation: GenerationValidation;
+}
+
+export interface PhaseChange {
+  phase: OptimizationPhase;
+  previous: OptimizationPhase | null;
+  timestamp: number;
 }
 
+export interface HealEvent {
+  before: number;
+  after: number;
+  metrics: CCCEMetrics;
+  source: 'api' | 'chatmesh';
+  timestamp: number;
+}
+
+export type MetricsConnection = 'streaming' | 'polling' | 'error';
+
+export interface MetricsSubscription {
+  onMetrics: (metrics: CCCEMetrics) => void;
+  onPhase?: (change: PhaseChange) => void;
+  onHeal?: (event: HealEvent) => void;
+  onConnection?: (connection: MetricsConnection) => void;
+}
+
+export interface GenerateStreamHandlers {
+  onToken: (text: string) => void;
+  onReset?: (source: GenerateResponse['source'], error: string) => void;
+  onSource?: (source: GenerateResponse['source']) => void;
+  onRepair?: (attempt: number, violations: GenerationValidation['violations']) => void;
+}
+
+const STREAM_REOPEN_MS = 10000;
+
 // Fetch live CCCE metrics from sovereign mesh
 export async function fetchMetrics(): Promise<CCCEMetrics> {
   try {
@@ -102,6 +142,74 @@ export async function generateOrganism(prompt: string): Promise<GenerateResponse
   return response.json();
 }
 
+/**
+ * Generate a DNA organism over the streaming /api/generate mode
+ * Tokens are handed to onToken as they arrive; on reset the text so far
+ * should be discarded. Resolves with the final `done` event.
+ */
+export async function streamOrganism(
+  prompt: string,
+  handlers: GenerateStreamHandlers,
+  token?: string | null
+): Promise<GenerateResponse> {
+  const response = await fetch('/api/generate', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    },
+    body: JSON.stringify({ prompt, stream: true })
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error('Generation failed');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: GenerateResponse | null = null;
+
+  const handleEvent = (block: string) => {
+    let event = 'message';
+    let data = '';
+    block.split('\n').forEach((line) => {
+      if (line.startsWith('event: ')) event = line.slice(7);
+      else if (line.startsWith('data: ')) data += line.slice(6);
+    });
+    if (!data) return;
+
+    const payload = JSON.parse(data);
+    switch (event) {
+      case 'token': handlers.onToken(payload.text); break;
+      case 'reset': handlers.onReset?.(payload.source, payload.error); break;
+      case 'source': handlers.onSource?.(payload.source); break;
+      case 'repair': handlers.onRepair?.(payload.attempt, payload.violations); break;
+      case 'done': result = payload; break;
+      case 'error': throw new Error(payload.error || 'Generation failed');
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      handleEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (!result) {
+    throw new Error('Generation stream ended early');
+  }
+  return result;
+}
+
 // Apply phase conjugate healing
 export async function healDecoherence(): Promise<CCCEMetrics> {
   const response = await fetch('/api/metrics', {
@@ -143,3 +251,97 @@ export async function submitProof(
 
   return response.json();
 }
+
+/**
+ * Subscribe to live metrics over /api/metrics/stream
+ * Polls /api/metrics only while the stream is down and keeps trying to
+ * reopen it; phase changes are derived locally while polling. Returns an
+ * unsubscribe function.
+ */
+export function subscribeMetrics(handlers: MetricsSubscription, pollMs: number = 5000): () => void {
+  let source: EventSource | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let reopenTimer: ReturnType<typeof setTimeout> | null = null;
+  let phase: OptimizationPhase | null = null;
+  let closed = false;
+
+  const setPhase = (change: PhaseChange) => {
+    phase = change.phase;
+    handlers.onPhase?.(change);
+  };
+
+  const poll = async () => {
+    try {
+      const response = await fetch('/api/metrics', { cache: 'no-store' });
+      if (!response.ok) throw new Error('Metrics API failed');
+      const data = await response.json();
+      if (closed || !pollTimer) return;
+
+      handlers.onMetrics(data.metrics);
+      const next = derivePhase(data.metrics);
+      if (next !== phase) {
+        setPhase({ phase: next, previous: phase, timestamp: Date.now() });
+      }
+      handlers.onConnection?.('polling');
+    } catch (error) {
+      handlers.onConnection?.('error');
+    }
+  };
+
+  const startPolling = () => {
+    if (pollTimer || closed) return;
+    pollTimer = setInterval(poll, pollMs);
+    poll();
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) clearInterval(pollTimer);
+    pollTimer = null;
+  };
+
+  const open = () => {
+    if (closed) return;
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+      return;
+    }
+
+    source = new EventSource('/api/metrics/stream');
+
+    source.onopen = () => {
+      stopPolling();
+      handlers.onConnection?.('streaming');
+    };
+
+    source.addEventListener('metrics', (event) => {
+      handlers.onMetrics(JSON.parse((event as MessageEvent).data));
+    });
+
+    source.addEventListener('phase', (event) => {
+      const change: PhaseChange = JSON.parse((event as MessageEvent).data);
+      if (change.phase !== phase) setPhase(change);
+    });
+
+    source.addEventListener('heal', (event) => {
+      handlers.onHeal?.(JSON.parse((event as MessageEvent).data));
+    });
+
+    source.onerror = () => {
+      startPolling();
+      // EventSource retries by itself unless the server refused the stream
+      if (source?.readyState === EventSource.CLOSED) {
+        source = null;
+        reopenTimer = setTimeout(open, STREAM_REOPEN_MS);
+      }
+    };
+  };
+
+  open();
+
+  return () => {
+    closed = true;
+    source?.close();
+    stopPolling();
+    if (reopenTimer) clearTimeout(reopenTimer);
+  };
+}
@@ -14,8 +14,9 @@ const HASH_ITERATIONS = 100000;
 const HASH_KEYLEN = 64;
 const HASH_DIGEST = 'sha512';
 const JWT_ALGORITHM = 'HS256';
-const TOKEN_EXPIRY = '24h';
-const REFRESH_EXPIRY = '7d';
+export const TOKEN_EXPIRY_SECONDS = 86400;     // 24 hours
+export const REFRESH_EXPIRY_SECONDS = 604800;  // 7 days
+export const MFA_CHALLENGE_EXPIRY_SECONDS = 300; // 5 minutes
 
 // Get secret from environment or generate secure fallback
 const getJWTSecret = (): Uint8Array => {
@@ -62,6 +63,8 @@ export interface UserProfile {
   lastLogin: number;
   mfaEnabled: boolean;
   dfarsCompliant: boolean;
+  disabled?: boolean;
+  createdBy?: string;
 }
 
 export interface JWTTokenPayload extends JWTPayload {
@@ -71,6 +74,7 @@ export interface JWTTokenPayload extends JWTPayload {
   clearanceLevel: number;
   nodePermissions: NodeType[];
   sessionId: string;
+  mfaEnrollmentRequired?: boolean;
 }
 
 export interface NodeCredentials {
@@ -117,20 +121,47 @@ export async function generateToken(payload: Omit<JWTTokenPayload, 'iat' | 'exp'
   return new SignJWT({ ...payload })
     .setProtectedHeader({ alg: JWT_ALGORITHM })
     .setIssuedAt()
-    .setExpirationTime(TOKEN_EXPIRY)
+    .setExpirationTime(`${TOKEN_EXPIRY_SECONDS}s`)
     .setIssuer('rosetta:sovereign')
     .setAudience('rosetta:mesh')
     .sign(secret);
 }
 
-export async function generateRefreshToken(userId: string): Promise<string> {
+export interface RefreshTokenPayload extends JWTPayload {
+  userId: string;
+  sessionId: string;
+  type: 'refresh';
+}
+
+// Refresh tokens carry no audience, so they are never accepted as access tokens
+export async function generateRefreshToken(userId: string, sessionId: string): Promise<string> {
+  const secret = getJWTSecret();
+
+  return new SignJWT({ userId, sessionId, type: 'refresh' })
+    .setProtectedHeader({ alg: JWT_ALGORITHM })
+    .setIssuedAt()
+    .setExpirationTime(`${REFRESH_EXPIRY_SECONDS}s`)
+    .setIssuer('rosetta:sovereign')
+    .setJti(crypto.randomBytes(16).toString('hex'))
+    .sign(secret);
+}
+
+export interface MfaChallengePayload extends JWTPayload {
+  userId: string;
+  type: 'mfa_challenge';
+}
+
+// Issued after a correct password when the second factor is still owed
+export async function generateMfaChallengeToken(userId: string): Promise<string> {
   const secret = getJWTSecret();
 
-  return new SignJWT({ userId, type: 'refresh' })
+  return new SignJWT({ userId, type: 'mfa_challenge' })
     .setProtectedHeader({ alg: JWT_ALGORITHM })
     .setIssuedAt()
-    .setExpirationTime(REFRESH_EXPIRY)
+    .setExpirationTime(`${MFA_CHALLENGE_EXPIRY_SECONDS}s`)
     .setIssuer('rosetta:sovereign')
+    .setAudience('rosetta:mfa')
+    .setJti(crypto.randomBytes(16).toString('hex'))
     .sign(secret);
 }
 
@@ -149,6 +180,35 @@ export async function verifyToken(token: string): Promise<JWTTokenPayload | null
   }
 }
 
+export async function verifyRefreshToken(token: string): Promise<RefreshTokenPayload | null> {
+  try {
+    const secret = getJWTSecret();
+    const { payload } = await jwtVerify(token, secret, {
+      issuer: 'rosetta:sovereign'
+    });
+    if (payload.type !== 'refresh' || payload.aud !== undefined || !payload.jti) return null;
+    return payload as RefreshTokenPayload;
+  } catch (error) {
+    console.error('[AUTH] Refresh token verification failed:', error);
+    return null;
+  }
+}
+
+export async function verifyMfaChallengeToken(token: string): Promise<MfaChallengePayload | null> {
+  try {
+    const secret = getJWTSecret();
+    const { payload } = await jwtVerify(token, secret, {
+      issuer: 'rosetta:sovereign',
+      audience: 'rosetta:mfa'
+    });
+    if (payload.type !== 'mfa_challenge' || !payload.jti) return null;
+    return payload as MfaChallengePayload;
+  } catch (error) {
+    console.error('[AUTH] MFA challenge verification failed:', error);
+    return null;
+  }
+}
+
 // Generate node credentials
 export function generateNodeCredentials(
   nodeType: NodeType,
@@ -157,21 +217,24 @@ export function generateNodeCredentials(
   const nodeId = `${nodeType.toLowerCase()}_${crypto.randomBytes(8).toString('hex')}`;
   const publicKey = crypto.randomBytes(32).toString('hex');
 
-  const qbyteAddress = 'qb_' + crypto.createHash('sha256')
-    .update(publicKey)
-    .digest('hex')
-    .substring(0, 40);
-
   return {
     nodeId,
     nodeType,
     publicKey,
     registeredBy,
     meshPermissions: getDefaultPermissions(nodeType),
-    qbyteAddress
+    qbyteAddress: deriveQByteAddress(publicKey)
   };
 }
 
+// QByte address is bound to the node's public key
+export function deriveQByteAddress(publicKey: string): string {
+  return 'qb_' + crypto.createHash('sha256')
+    .update(publicKey)
+    .digest('hex')
+    .substring(0, 40);
+}
+
 function getDefaultPermissions(nodeType: NodeType): string[] {
   switch (nodeType) {
     case NodeType.LAMBDA_ROOT:
@@ -0,0 +1,154 @@
+/**
+ * Multi-Factor Authentication - RFC 6238 TOTP
+ * Agile Defense Systems - Sovereign Authentication
+ *
+ * HMAC-SHA1, 6 digits, 30 second period: the defaults every authenticator
+ * app supports. Implemented on Node crypto so enrollment works offline.
+ */
+
+import * as crypto from 'crypto';
+import { UserRole } from './config';
+
+export const MFA_ISSUER = 'Project Rosetta';
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1;         // accept one period of clock drift either way
+const SECRET_BYTES = 20;       // 160-bit secret, as recommended by RFC 4226
+export const RECOVERY_CODE_COUNT = 10;
+
+// Roles that may not use the system without an enrolled second factor
+export const MFA_REQUIRED_ROLES: UserRole[] = [UserRole.MASTER_ADMIN, UserRole.ADMIN];
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function isMfaRequired(role: UserRole): boolean {
+  return MFA_REQUIRED_ROLES.includes(role);
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (let i = 0; i < clean.length; i++) {
+    const index = BASE32_ALPHABET.indexOf(clean[i]);
+    if (index === -1) throw new Error('Invalid base32 character');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * New base32 TOTP secret for enrollment
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+/**
+ * TOTP code for a time-step counter (RFC 4226 dynamic truncation)
+ */
+export function generateTotp(secret: string, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+  message.writeUInt32BE(counter >>> 0, 4);
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+export function getTotpCounter(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Check a code against the current window; returns the matched counter
+ * Counters at or below lastCounter are skipped so a code cannot be replayed.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastCounter: number = -1,
+  now: number = Date.now()
+): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) return null;
+
+  const current = getTotpCounter(now);
+  for (let counter = current - TOTP_WINDOW; counter <= current + TOTP_WINDOW; counter++) {
+    if (counter <= lastCounter) continue;
+    const expected = generateTotp(secret, counter);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return counter;
+    }
+  }
+  return null;
+}
+
+/**
+ * otpauth:// URI for rendering as a QR code in an authenticator app
+ */
+export function buildOtpauthUri(accountName: string, secret: string): string {
+  const label = encodeURIComponent(`${MFA_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: MFA_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export function isTotpCode(code: string): boolean {
+  return new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code.replace(/\s/g, ''));
+}
+
+// Recovery codes are stored hashed; dashes and case are ignored on entry
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * One-time recovery codes; only the hashes are persisted
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: count }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
@@ -4,7 +4,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken, JWTTokenPayload, UserRole } from './config';
+import { JWTTokenPayload, UserRole } from './config';
+import { verifySession } from './session';
 
 export interface AuthenticatedRequest extends NextRequest {
   user?: JWTTokenPayload;
@@ -14,27 +15,45 @@ export interface AuthenticatedRequest extends NextRequest {
 const PUBLIC_ROUTES = [
   '/api/auth/login',
   '/api/auth/refresh',
+  '/api/auth/mfa/verify',
   '/api/health',
   '/login',
   '/'
 ];
 
+// Routes still open to tokens flagged mfaEnrollmentRequired
+const MFA_ENROLLMENT_ROUTES = [
+  '/api/auth/mfa',
+  '/api/auth/me',
+  '/api/auth/logout'
+];
+
 // Routes requiring specific clearance levels
 const CLEARANCE_REQUIREMENTS: Record<string, number> = {
   '/api/nodes/register': 4,
   '/api/nodes/manage': 4,
   '/api/users': 4,
   '/api/ledger/admin': 5,
-  '/api/auth/create-user': 4
+  '/api/auth/create-user': 4,
+  '/api/alerts/rules': 3,
+  '/api/alerts/acknowledge': 2,
+  '/api/metrics/heals/rollback': 3,
+  '/api/inventory/scan': 4
 };
 
 // Routes requiring specific roles
 const ROLE_REQUIREMENTS: Record<string, UserRole[]> = {
   '/api/ledger/admin': [UserRole.MASTER_ADMIN],
   '/api/nodes/manage': [UserRole.MASTER_ADMIN, UserRole.ADMIN],
+  '/api/users': [UserRole.MASTER_ADMIN, UserRole.ADMIN],
   '/api/auth/create-user': [UserRole.MASTER_ADMIN, UserRole.ADMIN]
 };
 
+// Guarded routes cover their sub-paths (e.g. /api/users/{id})
+function matchGuardedRoute(table: Record<string, unknown>, path: string): string {
+  return Object.keys(table).find(route => path === route || path.startsWith(route + '/')) || path;
+}
+
 export async function authenticateRequest(
   request: NextRequest
 ): Promise<{ success: true; user: JWTTokenPayload } | { success: false; error: string; status: number }> {
@@ -70,8 +89,8 @@ export async function authenticateRequest(
     };
   }
 
-  // Verify token
-  const payload = await verifyToken(token);
+  // Verify token and session
+  const payload = await verifySession(token);
   if (!payload) {
     return {
       success: false,
@@ -80,8 +99,17 @@ export async function authenticateRequest(
     };
   }
 
+  // Roles under the MFA policy can do nothing else until they enroll
+  if (payload.mfaEnrollmentRequired && !MFA_ENROLLMENT_ROUTES.some(route => path === route || path.startsWith(route + '/'))) {
+    return {
+      success: false,
+      error: 'MFA enrollment required for this role',
+      status: 403
+    };
+  }
+
   // Check clearance level requirements
-  const requiredClearance = CLEARANCE_REQUIREMENTS[path];
+  const requiredClearance = CLEARANCE_REQUIREMENTS[matchGuardedRoute(CLEARANCE_REQUIREMENTS, path)];
   if (requiredClearance && payload.clearanceLevel < requiredClearance) {
     return {
       success: false,
@@ -91,7 +119,7 @@ export async function authenticateRequest(
   }
 
   // Check role requirements
-  const requiredRoles = ROLE_REQUIREMENTS[path];
+  const requiredRoles = ROLE_REQUIREMENTS[matchGuardedRoute(ROLE_REQUIREMENTS, path)];
   if (requiredRoles && !requiredRoles.includes(payload.role)) {
     return {
       success: false,
@@ -0,0 +1,330 @@
+/**
+ * Session Service
+ * Agile Defense Systems - Sovereign Authentication
+ *
+ * The single issuer and verifier of access/refresh tokens. Login, refresh,
+ * logout, /me and the request middleware all go through here.
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  JWTTokenPayload,
+  MfaChallengePayload,
+  REFRESH_EXPIRY_SECONDS,
+  TOKEN_EXPIRY_SECONDS,
+  UserProfile,
+  generateMfaChallengeToken,
+  generateRefreshToken,
+  generateSessionId,
+  generateToken,
+  verifyMfaChallengeToken,
+  verifyRefreshToken,
+  verifyToken
+} from './config';
+import { isMfaRequired } from './mfa';
+import { authenticateUser, getUserById, verifyMfaCode } from './users';
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export type SessionResult =
+  | { success: true; user: UserProfile; sessionId: string; tokens: SessionTokens }
+  | { success: false; error: string; status: number };
+
+// A correct password for an MFA-enabled account yields a challenge, not tokens
+export type LoginResult =
+  | SessionResult
+  | { success: true; mfaRequired: true; user: UserProfile; challengeToken: string };
+
+export type MfaLoginResult =
+  | {
+      success: true;
+      user: UserProfile;
+      sessionId: string;
+      tokens: SessionTokens;
+      method: 'totp' | 'recovery_code';
+      recoveryCodesRemaining: number;
+    }
+  | { success: false; error: string; status: number };
+
+// Revoked sessions and consumed refresh tokens (id -> ms until which to remember it)
+interface SessionState {
+  revokedSessions: Map<string, number>;
+  usedRefreshTokens: Map<string, number>;
+  usedMfaChallenges: Map<string, number>;
+  revokedUsers: Map<string, number>; // userId -> revocation time; earlier tokens are rejected
+}
+
+// Route bundles may load this module separately; keep one state per process
+const globalForSessions = globalThis as unknown as { __sovereignSessions?: SessionState };
+
+function getState(): SessionState {
+  if (!globalForSessions.__sovereignSessions) {
+    globalForSessions.__sovereignSessions = {
+      revokedSessions: new Map(),
+      usedRefreshTokens: new Map(),
+      usedMfaChallenges: new Map(),
+      revokedUsers: new Map()
+    };
+  }
+  return globalForSessions.__sovereignSessions;
+}
+
+// Entries only need to outlive the longest token they could match
+function prune(state: SessionState, now: number): void {
+  state.revokedSessions.forEach((until, id) => { if (until < now) state.revokedSessions.delete(id); });
+  state.usedRefreshTokens.forEach((until, id) => { if (until < now) state.usedRefreshTokens.delete(id); });
+  state.usedMfaChallenges.forEach((until, id) => { if (until < now) state.usedMfaChallenges.delete(id); });
+  state.revokedUsers.forEach((at, id) => {
+    if (at + REFRESH_EXPIRY_SECONDS * 1000 < now) state.revokedUsers.delete(id);
+  });
+}
+
+// iat has second resolution, so tokens from the revocation second are rejected too
+function issuedBeforeRevocation(state: SessionState, userId: string, iat?: number): boolean {
+  const revokedAt = state.revokedUsers.get(userId);
+  return revokedAt !== undefined && (iat || 0) <= Math.floor(revokedAt / 1000);
+}
+
+async function issueTokens(user: UserProfile, sessionId: string): Promise<SessionTokens> {
+  const accessToken = await generateToken({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    clearanceLevel: user.clearanceLevel,
+    nodePermissions: user.nodePermissions,
+    sessionId,
+    // Restricts the token to MFA enrollment until a second factor is set up
+    ...(isMfaRequired(user.role) && !user.mfaEnabled ? { mfaEnrollmentRequired: true } : {})
+  });
+
+  return {
+    accessToken,
+    refreshToken: await generateRefreshToken(user.id, sessionId),
+    expiresIn: TOKEN_EXPIRY_SECONDS
+  };
+}
+
+/**
+ * Verify credentials against the user store and open a new session
+ * Accounts with MFA enabled get a challenge token for completeMfaLogin instead.
+ */
+export async function createSession(email: string, password: string): Promise<LoginResult> {
+  const user = await authenticateUser(email, password);
+  if (!user) {
+    return { success: false, error: 'Invalid credentials', status: 401 };
+  }
+
+  if (user.mfaEnabled) {
+    return { success: true, mfaRequired: true, user, challengeToken: await generateMfaChallengeToken(user.id) };
+  }
+
+  const sessionId = generateSessionId();
+  return { success: true, user, sessionId, tokens: await issueTokens(user, sessionId) };
+}
+
+/**
+ * Verify an MFA challenge token that has not been used yet
+ */
+export async function verifyMfaChallenge(challengeToken: string): Promise<MfaChallengePayload | null> {
+  const payload = await verifyMfaChallengeToken(challengeToken);
+  if (!payload) return null;
+
+  const state = getState();
+  prune(state, Date.now());
+  return state.usedMfaChallenges.has(payload.jti!) ? null : payload;
+}
+
+/**
+ * Second login step: check the TOTP or recovery code and open the session
+ */
+export async function completeMfaLogin(challenge: MfaChallengePayload, code: string): Promise<MfaLoginResult> {
+  const user = getUserById(challenge.userId);
+  if (!user || user.disabled) {
+    return { success: false, error: 'User not found or disabled', status: 401 };
+  }
+
+  const state = getState();
+  if (state.usedMfaChallenges.has(challenge.jti!)) {
+    return { success: false, error: 'MFA challenge already used', status: 401 };
+  }
+
+  const check = verifyMfaCode(user.id, code);
+  if (!check.success) return check;
+
+  // Challenges are single-use; remember the jti until the token expires
+  state.usedMfaChallenges.set(challenge.jti!, (challenge.exp || 0) * 1000);
+
+  const sessionId = generateSessionId();
+  return {
+    success: true,
+    user,
+    sessionId,
+    tokens: await issueTokens(user, sessionId),
+    method: check.method,
+    recoveryCodesRemaining: check.recoveryCodesRemaining
+  };
+}
+
+/**
+ * Issue fresh tokens for an existing session, e.g. once MFA enrollment
+ * lifts the enrollment restriction
+ */
+export async function reissueSession(userId: string, sessionId: string): Promise<SessionResult> {
+  const user = getUserById(userId);
+  if (!user || user.disabled) {
+    return { success: false, error: 'User not found or disabled', status: 401 };
+  }
+
+  return { success: true, user, sessionId, tokens: await issueTokens(user, sessionId) };
+}
+
+/**
+ * Exchange a refresh token for new tokens; each refresh token is single-use
+ * Presenting a consumed refresh token revokes its whole session.
+ */
+export async function refreshSession(refreshToken: string): Promise<SessionResult> {
+  const payload = await verifyRefreshToken(refreshToken);
+  if (!payload) {
+    return { success: false, error: 'Invalid or expired refresh token', status: 401 };
+  }
+
+  const state = getState();
+  const now = Date.now();
+  prune(state, now);
+
+  if (state.revokedSessions.has(payload.sessionId) || issuedBeforeRevocation(state, payload.userId, payload.iat)) {
+    return { success: false, error: 'Session has been revoked', status: 401 };
+  }
+
+  if (state.usedRefreshTokens.has(payload.jti!)) {
+    revokeSession(payload.sessionId);
+    console.warn('[AUTH] Refresh token reuse detected; session revoked:', payload.sessionId);
+    return { success: false, error: 'Refresh token already used; session revoked', status: 401 };
+  }
+
+  // Role and clearance are re-read so changes apply on the next refresh
+  const user = getUserById(payload.userId);
+  if (!user || user.disabled) {
+    return { success: false, error: 'User not found or disabled', status: 401 };
+  }
+
+  state.usedRefreshTokens.set(payload.jti!, (payload.exp || 0) * 1000 || now + REFRESH_EXPIRY_SECONDS * 1000);
+
+  return {
+    success: true,
+    user,
+    sessionId: payload.sessionId,
+    tokens: await issueTokens(user, payload.sessionId)
+  };
+}
+
+/**
+ * Verify an access token and check its session has not been revoked
+ */
+export async function verifySession(token: string): Promise<JWTTokenPayload | null> {
+  const payload = await verifyToken(token);
+  if (!payload) return null;
+
+  const state = getState();
+  if (state.revokedSessions.has(payload.sessionId) || issuedBeforeRevocation(state, payload.userId, payload.iat)) {
+    return null;
+  }
+
+  // Disabled accounts lose access even if the revocation was lost on restart
+  if (getUserById(payload.userId)?.disabled) {
+    return null;
+  }
+  return payload;
+}
+
+/**
+ * Revoke a session: its access and refresh tokens stop working immediately
+ */
+export function revokeSession(sessionId: string): void {
+  const state = getState();
+  const now = Date.now();
+  prune(state, now);
+  state.revokedSessions.set(sessionId, now + REFRESH_EXPIRY_SECONDS * 1000);
+}
+
+/**
+ * Revoke every session of a user (role change, disable, password reset)
+ */
+export function revokeUserSessions(userId: string): void {
+  const state = getState();
+  const now = Date.now();
+  prune(state, now);
+  state.revokedUsers.set(userId, now);
+}
+
+/**
+ * Login response shared by the password and MFA steps; sets the session cookies
+ */
+export function createLoginResponse(session: { user: UserProfile; sessionId: string; tokens: SessionTokens }): NextResponse {
+  const { user, sessionId, tokens } = session;
+
+  const response = NextResponse.json({
+    success: true,
+    user: {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      organization: user.organization,
+      clearanceLevel: user.clearanceLevel,
+      nodePermissions: user.nodePermissions,
+      qbyteWallet: user.qbyteWallet,
+      dfarsCompliant: user.dfarsCompliant,
+      mfaEnabled: user.mfaEnabled
+    },
+    tokens,
+    session: {
+      id: sessionId,
+      createdAt: Date.now()
+    },
+    mfaEnrollmentRequired: isMfaRequired(user.role) && !user.mfaEnabled
+  });
+
+  setSessionCookies(response, tokens);
+
+  return response;
+}
+
+export function setSessionCookies(response: NextResponse, tokens: SessionTokens): void {
+  response.cookies.set('auth_token', tokens.accessToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: TOKEN_EXPIRY_SECONDS,
+    path: '/'
+  });
+
+  response.cookies.set('refresh_token', tokens.refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: REFRESH_EXPIRY_SECONDS,
+    path: '/api/auth/refresh'
+  });
+}
+
+export function clearSessionCookies(response: NextResponse): void {
+  response.cookies.set('auth_token', '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 0,
+    path: '/'
+  });
+
+  response.cookies.set('refresh_token', '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: 0,
+    path: '/api/auth/refresh'
+  });
+}
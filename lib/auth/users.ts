@@ -1,35 +1,121 @@
 /**
  * User Management - Sovereign Identity Store
  * Agile Defense Systems
+ *
+ * Users persist to ~/.sovereign/state/users.json (override with
+ * SOVEREIGN_USERS_PATH; SOVEREIGN_USERS_STORE=memory disables persistence).
  */
 
 import * as crypto from 'crypto';
-import { UserProfile, UserRole, NodeType, simpleHash } from './config';
+import * as path from 'path';
+import { readJsonFile, writeJsonFile } from '../state/json-store';
+import { UserProfile, UserRole, NodeType, simpleHash, hashPassword, verifyPassword } from './config';
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  isMfaRequired,
+  isTotpCode,
+  verifyTotp
+} from './mfa';
 
 // Master admin configuration
 const MASTER_ADMIN_EMAIL = process.env.MASTER_ADMIN_EMAIL || 'research@dnalang.dev';
-// Default password: sovereign2025! (hashed with simpleHash)
-const MASTER_ADMIN_PASSWORD_HASH = process.env.MASTER_ADMIN_PASSWORD_HASH ||
-  'e8d95a51f3af4a7b5a99b2c8d45e67f123abc456def789012345678901234567';
+// Default password: sovereign2025! (override with a simpleHash of another password)
+const MASTER_ADMIN_PASSWORD_HASH = process.env.MASTER_ADMIN_PASSWORD_HASH || simpleHash('sovereign2025!');
 
-// In-memory user store
-const users: Map<string, UserProfile & { passwordHash: string }> = new Map();
+const HOMEDIR = process.env.HOME || '/home/dnalang';
+const DEFAULT_USERS_PATH = path.join(HOMEDIR, '.sovereign/state/users.json');
 
-// Pre-compute the expected hash for default password
-const DEFAULT_PASSWORD_HASH = simpleHash('sovereign2025!');
+export const MIN_PASSWORD_LENGTH = 12;
+
+// TOTP secrets and hashed recovery codes; never leave this module
+interface StoredMfa {
+  secret?: string;
+  pendingSecret?: string;
+  recoveryCodes: string[];
+  lastCounter: number;
+}
+
+type StoredUser = UserProfile & { passwordHash: string; mfa?: StoredMfa };
+
+export type UserResult =
+  | { success: true; user: UserProfile }
+  | { success: false; error: string; status: number };
+
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  pendingEnrollment: boolean;
+  recoveryCodesRemaining: number;
+}
+
+type MfaFailure = { success: false; error: string; status: number };
+
+export interface UserAccessUpdate {
+  role?: UserRole;
+  clearanceLevel?: number;
+  organization?: string;
+  disabled?: boolean;
+}
+
+// Route bundles may load this module separately; keep one store per process
+const globalForUsers = globalThis as unknown as { __sovereignUsers?: Map<string, StoredUser> };
+
+function getUsersPath(): string | null {
+  if (process.env.SOVEREIGN_USERS_STORE === 'memory') return null;
+  return process.env.SOVEREIGN_USERS_PATH || DEFAULT_USERS_PATH;
+}
+
+function getUsers(): Map<string, StoredUser> {
+  if (!globalForUsers.__sovereignUsers) {
+    globalForUsers.__sovereignUsers = loadUsers();
+  }
+  return globalForUsers.__sovereignUsers;
+}
+
+function loadUsers(): Map<string, StoredUser> {
+  const users: Map<string, StoredUser> = new Map();
+  const usersPath = getUsersPath();
+
+  const data = usersPath && readJsonFile<{ users: StoredUser[] }>(usersPath, '[AUTH]', 'user store');
+  if (data) {
+    data.users.forEach(user => users.set(user.email, user));
+    console.log(`[AUTH] Loaded ${users.size} user(s) from ${usersPath}`);
+  }
+
+  initializeMasterAdmin(users);
+  return users;
+}
+
+function saveUsers(): void {
+  const usersPath = getUsersPath();
+  if (!usersPath) return;
+  writeJsonFile(usersPath, { version: 1, users: Array.from(getUsers().values()) }, { mode: 0o600 });
+}
 
 // Initialize master admin
-function initializeMasterAdmin(): void {
-  if (users.has(MASTER_ADMIN_EMAIL.toLowerCase())) return;
+function initializeMasterAdmin(users: Map<string, StoredUser>): void {
+  const email = MASTER_ADMIN_EMAIL.toLowerCase();
+  const existing = users.get(email);
+
+  // An explicitly configured password hash always wins, for recovery
+  if (existing) {
+    if (process.env.MASTER_ADMIN_PASSWORD_HASH) {
+      existing.passwordHash = MASTER_ADMIN_PASSWORD_HASH;
+    }
+    return;
+  }
 
   const masterAdminId = 'usr_' + crypto.createHash('sha256')
     .update(MASTER_ADMIN_EMAIL)
     .digest('hex')
     .substring(0, 16);
 
-  const masterAdmin: UserProfile & { passwordHash: string } = {
+  const masterAdmin: StoredUser = {
     id: masterAdminId,
-    email: MASTER_ADMIN_EMAIL.toLowerCase(),
+    email,
     role: UserRole.MASTER_ADMIN,
     organization: 'Agile Defense Systems',
     clearanceLevel: 5,
@@ -40,48 +126,91 @@ function initializeMasterAdmin(): void {
       NodeType.BRIDGE,
       NodeType.RELAY
     ],
-    qbyteWallet: 'qb_master_' + masterAdminId,
+    qbyteWallet: 'qb_' + masterAdminId,
     createdAt: Date.now(),
     lastLogin: 0,
     mfaEnabled: false,
     dfarsCompliant: true,
-    passwordHash: DEFAULT_PASSWORD_HASH
+    passwordHash: MASTER_ADMIN_PASSWORD_HASH
   };
 
-  users.set(MASTER_ADMIN_EMAIL.toLowerCase(), masterAdmin);
+  users.set(email, masterAdmin);
   console.log('[AUTH] Master admin initialized:', MASTER_ADMIN_EMAIL);
 }
 
-// Initialize on module load
-initializeMasterAdmin();
+function toProfile(user: StoredUser): UserProfile {
+  const { passwordHash, mfa, ...profile } = user;
+  return profile;
+}
+
+function findById(id: string): StoredUser | undefined {
+  return Array.from(getUsers().values()).find(user => user.id === id);
+}
+
+// PBKDF2 hashes are salt:key; legacy simpleHash values have no separator
+async function checkPassword(password: string, passwordHash: string): Promise<boolean> {
+  if (passwordHash.includes(':')) {
+    return verifyPassword(password, passwordHash);
+  }
+  return simpleHash(password) === passwordHash;
+}
+
+function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Whether actor may administer target: never themselves or the master admin,
+ * and ADMINs only manage users below ADMIN clearance
+ */
+function canManage(actor: UserProfile, target: UserProfile): string | null {
+  if (actor.id === target.id) return 'Cannot modify your own account';
+  if (target.role === UserRole.MASTER_ADMIN) return 'MASTER_ADMIN cannot be modified';
+  if (actor.role !== UserRole.MASTER_ADMIN && target.clearanceLevel >= actor.clearanceLevel) {
+    return 'Insufficient clearance to manage this user';
+  }
+  return null;
+}
+
+function getAdmin(actorId: string): UserProfile | null {
+  const actor = getUserById(actorId);
+  if (!actor || actor.disabled || (actor.role !== UserRole.MASTER_ADMIN && actor.role !== UserRole.ADMIN)) {
+    return null;
+  }
+  return actor;
+}
 
 export async function authenticateUser(
   email: string,
   password: string
 ): Promise<UserProfile | null> {
   const normalizedEmail = email.toLowerCase();
-  const user = users.get(normalizedEmail);
+  const user = getUsers().get(normalizedEmail);
 
   if (!user) {
     console.log('[AUTH] User not found:', normalizedEmail);
     return null;
   }
 
-  // Verify password using simple hash
-  const inputHash = simpleHash(password);
-  const isValid = inputHash === user.passwordHash;
-
-  if (!isValid) {
+  if (!(await checkPassword(password, user.passwordHash))) {
     console.log('[AUTH] Invalid password for:', normalizedEmail);
     return null;
   }
 
+  if (user.disabled) {
+    console.log('[AUTH] Disabled account:', normalizedEmail);
+    return null;
+  }
+
   // Update last login
   user.lastLogin = Date.now();
+  saveUsers();
 
   // Return profile without password hash
-  const { passwordHash, ...profile } = user;
-  return profile;
+  return toProfile(user);
 }
 
 export async function createUser(
@@ -90,33 +219,46 @@ export async function createUser(
   role: UserRole,
   organization: string,
   createdBy: string
-): Promise<UserProfile | null> {
-  const normalizedEmail = email.toLowerCase();
+): Promise<UserResult> {
+  const normalizedEmail = String(email || '').toLowerCase().trim();
 
-  if (users.has(normalizedEmail)) {
-    console.log('[AUTH] User already exists:', normalizedEmail);
-    return null;
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+    return { success: false, error: 'Invalid email address', status: 400 };
   }
 
-  const creator = getUserById(createdBy);
-  if (!creator || (creator.role !== UserRole.MASTER_ADMIN && creator.role !== UserRole.ADMIN)) {
-    console.log('[AUTH] Insufficient permissions to create user');
-    return null;
+  if (getUsers().has(normalizedEmail)) {
+    return { success: false, error: 'User already exists', status: 409 };
+  }
+
+  const creator = getAdmin(createdBy);
+  if (!creator) {
+    return { success: false, error: 'Insufficient permissions to create user', status: 403 };
+  }
+
+  if (!Object.values(UserRole).includes(role)) {
+    return { success: false, error: 'Invalid role', status: 400 };
   }
 
   if (role === UserRole.MASTER_ADMIN) {
-    console.log('[AUTH] Cannot create MASTER_ADMIN users');
-    return null;
+    return { success: false, error: 'Cannot create MASTER_ADMIN users', status: 403 };
+  }
+
+  if (getRoleClearance(role) >= creator.clearanceLevel && creator.role !== UserRole.MASTER_ADMIN) {
+    return { success: false, error: `Only MASTER_ADMIN can create ${role} users`, status: 403 };
+  }
+
+  const passwordError = validatePassword(password);
+  if (passwordError) {
+    return { success: false, error: passwordError, status: 400 };
   }
 
   const userId = 'usr_' + crypto.randomBytes(8).toString('hex');
-  const passwordHash = simpleHash(password);
 
-  const newUser: UserProfile & { passwordHash: string } = {
+  const newUser: StoredUser = {
     id: userId,
     email: normalizedEmail,
     role,
-    organization,
+    organization: String(organization || creator.organization).trim(),
     clearanceLevel: getRoleClearance(role),
     nodePermissions: getRolePermissions(role),
     qbyteWallet: 'qb_' + userId,
@@ -124,31 +266,24 @@ export async function createUser(
     lastLogin: 0,
     mfaEnabled: false,
     dfarsCompliant: true,
-    passwordHash
+    createdBy,
+    passwordHash: await hashPassword(password)
   };
 
-  users.set(normalizedEmail, newUser);
+  getUsers().set(normalizedEmail, newUser);
+  saveUsers();
 
-  const { passwordHash: _, ...profile } = newUser;
-  return profile;
+  return { success: true, user: toProfile(newUser) };
 }
 
 export function getUserByEmail(email: string): UserProfile | null {
-  const user = users.get(email.toLowerCase());
-  if (!user) return null;
-
-  const { passwordHash, ...profile } = user;
-  return profile;
+  const user = getUsers().get(email.toLowerCase());
+  return user ? toProfile(user) : null;
 }
 
 export function getUserById(id: string): UserProfile | null {
-  for (const user of users.values()) {
-    if (user.id === id) {
-      const { passwordHash, ...profile } = user;
-      return profile;
-    }
-  }
-  return null;
+  const user = findById(id);
+  return user ? toProfile(user) : null;
 }
 
 export function getAllUsers(requesterId: string): UserProfile[] {
@@ -157,7 +292,108 @@ export function getAllUsers(requesterId: string): UserProfile[] {
     return [];
   }
 
-  return Array.from(users.values()).map(({ passwordHash, ...profile }) => profile);
+  return Array.from(getUsers().values()).map(toProfile);
+}
+
+/**
+ * Change a user's role, clearance, organization or disabled state
+ * Clearance defaults to the role's level and can never reach the actor's own.
+ * Every field is validated before any is applied, and the result is saved
+ * in one write.
+ */
+export function updateUserAccess(id: string, update: UserAccessUpdate, actorId: string): UserResult {
+  const actor = getAdmin(actorId);
+  const user = findById(id);
+
+  if (!actor) {
+    return { success: false, error: 'Insufficient permissions to modify users', status: 403 };
+  }
+  if (!user) {
+    return { success: false, error: 'User not found', status: 404 };
+  }
+
+  const denied = canManage(actor, user);
+  if (denied) {
+    return { success: false, error: denied, status: 403 };
+  }
+
+  const role = update.role ?? user.role;
+  if (!Object.values(UserRole).includes(role) || role === UserRole.MASTER_ADMIN) {
+    return { success: false, error: 'Invalid role', status: 400 };
+  }
+
+  const roleChanged = role !== user.role;
+  const clearanceLevel = update.clearanceLevel ?? (roleChanged ? getRoleClearance(role) : user.clearanceLevel);
+  if (!Number.isInteger(clearanceLevel) || clearanceLevel < 0 || clearanceLevel > 5) {
+    return { success: false, error: 'Clearance level must be an integer from 0 to 5', status: 400 };
+  }
+  if (actor.role !== UserRole.MASTER_ADMIN && clearanceLevel >= actor.clearanceLevel) {
+    return { success: false, error: `Cannot grant clearance ${clearanceLevel} or above your own`, status: 403 };
+  }
+  if (clearanceLevel >= 5) {
+    return { success: false, error: 'Clearance 5 is reserved for MASTER_ADMIN', status: 403 };
+  }
+
+  const organization = update.organization !== undefined ? String(update.organization).trim() : user.organization;
+  if (!organization || organization.length > 128) {
+    return { success: false, error: 'Organization must be 1-128 characters', status: 400 };
+  }
+
+  if (update.disabled !== undefined && typeof update.disabled !== 'boolean') {
+    return { success: false, error: 'disabled must be a boolean', status: 400 };
+  }
+
+  user.organization = organization;
+  user.role = role;
+  user.clearanceLevel = clearanceLevel;
+  if (roleChanged) {
+    user.nodePermissions = getRolePermissions(role);
+  }
+  if (update.disabled !== undefined) {
+    user.disabled = update.disabled;
+  }
+  saveUsers();
+
+  return { success: true, user: toProfile(user) };
+}
+
+/**
+ * Admin password reset; generates a temporary password when none is supplied
+ */
+export async function resetUserPassword(
+  id: string,
+  actorId: string,
+  newPassword?: string
+): Promise<{ success: true; user: UserProfile; temporaryPassword?: string } | { success: false; error: string; status: number }> {
+  const actor = getAdmin(actorId);
+  const user = findById(id);
+
+  if (!actor) {
+    return { success: false, error: 'Insufficient permissions to modify users', status: 403 };
+  }
+  if (!user) {
+    return { success: false, error: 'User not found', status: 404 };
+  }
+
+  const denied = canManage(actor, user);
+  if (denied) {
+    return { success: false, error: denied, status: 403 };
+  }
+
+  const temporaryPassword = newPassword === undefined
+    ? crypto.randomBytes(12).toString('base64url')
+    : undefined;
+  const password = newPassword ?? temporaryPassword!;
+
+  const passwordError = validatePassword(password);
+  if (passwordError) {
+    return { success: false, error: passwordError, status: 400 };
+  }
+
+  user.passwordHash = await hashPassword(password);
+  saveUsers();
+
+  return { success: true, user: toProfile(user), temporaryPassword };
 }
 
 export async function updateUserPassword(
@@ -165,16 +401,156 @@ export async function updateUserPassword(
   currentPassword: string,
   newPassword: string
 ): Promise<boolean> {
-  const user = users.get(email.toLowerCase());
+  const user = getUsers().get(email.toLowerCase());
   if (!user) return false;
 
-  const currentHash = simpleHash(currentPassword);
-  if (currentHash !== user.passwordHash) return false;
+  if (!(await checkPassword(currentPassword, user.passwordHash))) return false;
+  if (validatePassword(newPassword)) return false;
 
-  user.passwordHash = simpleHash(newPassword);
+  user.passwordHash = await hashPassword(newPassword);
+  saveUsers();
   return true;
 }
 
+export function getMfaStatus(id: string): MfaStatus | null {
+  const user = findById(id);
+  if (!user) return null;
+
+  return {
+    enabled: user.mfaEnabled,
+    required: isMfaRequired(user.role),
+    pendingEnrollment: !user.mfaEnabled && !!user.mfa?.pendingSecret,
+    recoveryCodesRemaining: user.mfaEnabled ? user.mfa?.recoveryCodes.length || 0 : 0
+  };
+}
+
+/**
+ * Start TOTP enrollment; the secret only takes effect once a code is confirmed
+ */
+export function beginMfaEnrollment(
+  id: string
+): { success: true; secret: string; otpauthUri: string } | MfaFailure {
+  const user = findById(id);
+  if (!user) {
+    return { success: false, error: 'User not found', status: 404 };
+  }
+  if (user.mfaEnabled) {
+    return { success: false, error: 'MFA is already enabled', status: 409 };
+  }
+
+  const secret = generateTotpSecret();
+  user.mfa = { ...(user.mfa || { recoveryCodes: [], lastCounter: -1 }), pendingSecret: secret };
+  saveUsers();
+
+  return { success: true, secret, otpauthUri: buildOtpauthUri(user.email, secret) };
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app
+ * Returns the recovery codes; this is the only time they are available in clear.
+ */
+export function completeMfaEnrollment(
+  id: string,
+  code: string
+): { success: true; user: UserProfile; recoveryCodes: string[] } | MfaFailure {
+  const user = findById(id);
+  if (!user) {
+    return { success: false, error: 'User not found', status: 404 };
+  }
+  if (user.mfaEnabled) {
+    return { success: false, error: 'MFA is already enabled', status: 409 };
+  }
+  if (!user.mfa?.pendingSecret) {
+    return { success: false, error: 'No MFA enrollment in progress', status: 400 };
+  }
+
+  const counter = verifyTotp(user.mfa.pendingSecret, code);
+  if (counter === null) {
+    return { success: false, error: 'Invalid authentication code', status: 400 };
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  user.mfa = { secret: user.mfa.pendingSecret, recoveryCodes: hashes, lastCounter: counter };
+  user.mfaEnabled = true;
+  saveUsers();
+
+  return { success: true, user: toProfile(user), recoveryCodes: codes };
+}
+
+/**
+ * Check a TOTP or recovery code; recovery codes and TOTP time steps are single-use
+ */
+export function verifyMfaCode(
+  id: string,
+  code: string
+): { success: true; method: 'totp' | 'recovery_code'; recoveryCodesRemaining: number } | MfaFailure {
+  const user = findById(id);
+  if (!user) {
+    return { success: false, error: 'User not found', status: 404 };
+  }
+  if (!user.mfaEnabled || !user.mfa?.secret) {
+    return { success: false, error: 'MFA is not enabled', status: 400 };
+  }
+
+  const mfa = user.mfa;
+  const value = String(code || '');
+
+  if (isTotpCode(value)) {
+    const counter = verifyTotp(mfa.secret!, value, mfa.lastCounter);
+    if (counter !== null) {
+      mfa.lastCounter = counter;
+      saveUsers();
+      return { success: true, method: 'totp', recoveryCodesRemaining: mfa.recoveryCodes.length };
+    }
+  } else {
+    const index = mfa.recoveryCodes.indexOf(hashRecoveryCode(value));
+    if (index !== -1) {
+      mfa.recoveryCodes.splice(index, 1);
+      saveUsers();
+      return { success: true, method: 'recovery_code', recoveryCodesRemaining: mfa.recoveryCodes.length };
+    }
+  }
+
+  return { success: false, error: 'Invalid authentication code', status: 401 };
+}
+
+/**
+ * Turn MFA off; refused for roles where the policy makes it mandatory
+ */
+export function disableMfa(id: string, code: string): UserResult {
+  const user = findById(id);
+  if (!user) {
+    return { success: false, error: 'User not found', status: 404 };
+  }
+  if (isMfaRequired(user.role)) {
+    return { success: false, error: `MFA is mandatory for ${user.role}`, status: 403 };
+  }
+
+  const check = verifyMfaCode(id, code);
+  if (!check.success) return check;
+
+  user.mfaEnabled = false;
+  delete user.mfa;
+  saveUsers();
+
+  return { success: true, user: toProfile(user) };
+}
+
+export function regenerateRecoveryCodes(
+  id: string,
+  code: string
+): { success: true; recoveryCodes: string[] } | MfaFailure {
+  const check = verifyMfaCode(id, code);
+  if (!check.success) return check;
+
+  const user = findById(id)!;
+  const { codes, hashes } = generateRecoveryCodes();
+  user.mfa!.recoveryCodes = hashes;
+  saveUsers();
+
+  return { success: true, recoveryCodes: codes };
+}
+
 function getRoleClearance(role: UserRole): number {
   switch (role) {
     case UserRole.MASTER_ADMIN: return 5;
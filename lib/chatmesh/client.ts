@@ -0,0 +1,646 @@
+/**
+ * ChatMesh Client
+ * Pooled, failover-aware TCP client for the ChatMesh protocol
+ *
+ * Endpoints come from CHATMESH_ENDPOINTS ("host:port,host:port", in order
+ * of preference) or CHATMESH_HOST / CHATMESH_PORT. An endpoint that fails
+ * to connect, errors or goes silent is backed off exponentially and the
+ * next one is tried, so requests and subscriptions fail over without
+ * waiting out a dead host.
+ *
+ *   request()    - one reply per message over a small pool of persistent
+ *                  connections (CHATMESH_POOL_SIZE, default 2)
+ *   subscribe()  - dedicated connection that resubscribes after reconnects
+ *   getHealth()  - per-endpoint state, pool usage and subscription status
+ */
+
+import * as net from 'net';
+import {
+  ChatMeshFraming,
+  ChatMeshMessage,
+  DecodeResult,
+  FrameDecoder,
+  OutgoingMessage,
+  decodeMessage,
+  encodeFrame,
+  parseFraming
+} from './protocol';
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 7777;
+
+const CONNECT_TIMEOUT_MS = 2000;
+export const REQUEST_TIMEOUT_MS = 2000;
+const POOL_IDLE_MS = 30000;
+const BACKOFF_MIN_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+const RESUBSCRIBE_MIN_MS = 500;
+const HANDSHAKE_TIMEOUT_MS = 3000;     // a new subscription must produce a valid frame this soon
+const MAINTENANCE_INTERVAL_MS = 1000;
+
+export interface ChatMeshEndpoint {
+  host: string;
+  port: number;
+}
+
+export type ChatMeshRequestResult =
+  | { success: true; message: ChatMeshMessage; endpoint: string }
+  | { success: false; error: string };
+
+export interface ChatMeshEndpointHealth {
+  address: string;
+  state: 'up' | 'down' | 'untried';
+  failures: number;
+  retryInMs: number;
+  lastConnectedAt: number | null;
+  lastHealthyAt: number | null;
+  lastError: string | null;
+  latencyMs: number | null;
+}
+
+export interface ChatMeshHealth {
+  status: 'connected' | 'degraded' | 'down';
+  framing: ChatMeshFraming;
+  endpoints: ChatMeshEndpointHealth[];
+  pool: { size: number; open: number; busy: number; waiting: number };
+  subscriptions: Array<{ connected: boolean; endpoint: string | null; lastMessageAt: number | null }>;
+  invalidMessages: number;
+}
+
+export interface SubscriptionHandlers {
+  onMessage: (message: ChatMeshMessage) => void;
+  onConnect?: (endpoint: string) => void;
+  onDisconnect?: () => void;
+  onUnavailable?: () => void;     // a connection attempt found no reachable endpoint
+}
+
+interface EndpointState {
+  address: string;
+  host: string;
+  port: number;
+  failures: number;
+  retryAt: number;
+  lastConnectedAt: number | null;
+  lastHealthyAt: number | null;     // last valid frame; connecting alone proves nothing
+  lastError: string | null;
+  latencyMs: number | null;
+}
+
+interface ConnectionHandlers {
+  onFrame: (result: DecodeResult, connection: Connection) => void;
+  onClose: (connection: Connection) => void;
+}
+
+/**
+ * Parse "host:port,host:port"; IPv6 hosts go in brackets ("[::1]:7777")
+ */
+export function parseEndpoints(value: string | undefined): ChatMeshEndpoint[] {
+  if (!value) return [];
+  return value.split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const match = entry.match(/^\[?([^\]]+?)\]?(?::(\d+))?$/);
+      return match ? { host: match[1], port: parseInt(match[2] || String(DEFAULT_PORT)) } : null;
+    })
+    .filter((endpoint): endpoint is ChatMeshEndpoint => endpoint !== null && endpoint.port > 0 && endpoint.port < 65536);
+}
+
+function getConfiguredEndpoints(): ChatMeshEndpoint[] {
+  const endpoints = parseEndpoints(process.env.CHATMESH_ENDPOINTS);
+  if (endpoints.length > 0) return endpoints;
+  return [{
+    host: process.env.CHATMESH_HOST || DEFAULT_HOST,
+    port: parseInt(process.env.CHATMESH_PORT || String(DEFAULT_PORT))
+  }];
+}
+
+// One framed TCP connection to one endpoint
+class Connection {
+  readonly socket: net.Socket;
+  connected = false;
+  private closed = false;
+  private decoder: FrameDecoder;
+
+  constructor(readonly endpoint: EndpointState, private framing: ChatMeshFraming, private handlers: ConnectionHandlers) {
+    this.socket = new net.Socket();
+    this.decoder = new FrameDecoder(framing);
+  }
+
+  open(timeoutMs: number): Promise<string | null> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.close();
+        resolve('connect timed out');
+      }, timeoutMs);
+
+      this.socket.setKeepAlive(true);
+      this.socket.setNoDelay(true);
+
+      this.socket.connect(this.endpoint.port, this.endpoint.host, () => {
+        clearTimeout(timer);
+        this.connected = true;
+        resolve(null);
+      });
+
+      this.socket.on('data', (chunk) => {
+        let frames: string[];
+        try {
+          frames = this.decoder.push(chunk);
+        } catch (error) {
+          this.endpoint.lastError = (error as Error).message;
+          this.close();
+          return;
+        }
+        frames.forEach(frame => this.handlers.onFrame(decodeMessage(frame), this));
+      });
+
+      this.socket.on('error', (error) => {
+        this.endpoint.lastError = error.message;
+        if (!this.connected) {
+          clearTimeout(timer);
+          resolve(error.message);
+        }
+      });
+
+      this.socket.on('close', () => {
+        const wasConnected = this.connected;
+        this.connected = false;
+        this.closed = true;
+        if (wasConnected) this.handlers.onClose(this);
+      });
+    });
+  }
+
+  send(message: OutgoingMessage): boolean {
+    if (!this.connected || this.closed) return false;
+    this.socket.write(encodeFrame(message, this.framing));
+    return true;
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+}
+
+interface PooledConnection {
+  connection: Connection;
+  busy: boolean;
+  idleTimer: NodeJS.Timeout | null;
+  pending: ((result: DecodeResult | null) => void) | null;
+}
+
+/**
+ * Long-lived subscription; reconnects (failing over as needed) and
+ * resubscribes until closed
+ */
+export class ChatMeshSubscription {
+  private connection: Connection | null = null;
+  private closed = false;
+  private lastMessageAt: number | null = null;
+  private attachedAt = 0;
+  private verified = false;
+  private closeReason: string | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private maintenanceTimer: NodeJS.Timeout | null = null;
+  private failingBack = false;
+
+  constructor(
+    private client: ChatMeshClient,
+    private topics: string[],
+    private handlers: SubscriptionHandlers,
+    private staleAfterMs: number
+  ) {
+    this.connect();
+    this.maintenanceTimer = setInterval(() => this.maintain(), MAINTENANCE_INTERVAL_MS);
+    this.maintenanceTimer.unref?.();
+  }
+
+  isConnected(): boolean {
+    return !!this.connection?.connected;
+  }
+
+  send(message: OutgoingMessage): boolean {
+    return this.connection?.send(message) || false;
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    if (this.maintenanceTimer) clearInterval(this.maintenanceTimer);
+    const connection = this.connection;
+    this.connection = null;
+    connection?.close();
+    this.client.removeSubscription(this);
+  }
+
+  getStatus(): { connected: boolean; endpoint: string | null; lastMessageAt: number | null } {
+    return {
+      connected: this.isConnected(),
+      endpoint: this.connection?.connected ? this.connection.endpoint.address : null,
+      lastMessageAt: this.lastMessageAt
+    };
+  }
+
+  private connectionHandlers: ConnectionHandlers = {
+    onFrame: (result, connection) => {
+      // Only valid frames count as signs of life for the stale check
+      if (!result.success) {
+        this.client.recordInvalidMessage(result.error);
+        return;
+      }
+      this.client.markHealthy(connection.endpoint);
+      if (connection !== this.connection) return;
+      this.lastMessageAt = Date.now();
+      this.verified = true;
+      try {
+        this.handlers.onMessage(result.message);
+      } catch (error) {
+        console.error('[CHATMESH] Subscription handler failed:', error);
+      }
+    },
+    onClose: (connection) => {
+      if (this.connection !== connection) return;
+      this.connection = null;
+      this.client.markFailure(connection.endpoint, this.closeReason || 'subscription connection closed');
+      this.closeReason = null;
+      this.handlers.onDisconnect?.();
+      this.scheduleReconnect();
+    }
+  };
+
+  private async connect(): Promise<void> {
+    this.retryTimer = null;
+    if (this.closed) return;
+
+    const connection = await this.client.openConnection(this.connectionHandlers, CONNECT_TIMEOUT_MS);
+
+    if (this.closed) {
+      connection?.close();
+      return;
+    }
+    if (!connection) {
+      this.handlers.onUnavailable?.();
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.attach(connection);
+    this.handlers.onConnect?.(connection.endpoint.address);
+  }
+
+  private attach(connection: Connection): void {
+    this.connection = connection;
+    this.attachedAt = Date.now();
+    this.verified = false;
+    connection.send({ type: 'SUBSCRIBE', node: 'rosetta', topics: this.topics });
+    console.log(`[CHATMESH] Subscribed to ${connection.endpoint.address} (${this.topics.join(', ')})`);
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.retryTimer) return;
+    const delay = Math.max(RESUBSCRIBE_MIN_MS, this.client.nextRetryAt() - Date.now());
+    this.retryTimer = setTimeout(() => this.connect(), delay);
+    this.retryTimer.unref?.();
+  }
+
+  private maintain(): void {
+    const connection = this.connection;
+    if (!connection?.connected) return;
+
+    // A connected but silent (or garbage-spewing) ChatMesh is treated as down
+    const silentFor = Date.now() - (this.verified ? this.lastMessageAt! : this.attachedAt);
+    if (silentFor > (this.verified ? this.staleAfterMs : HANDSHAKE_TIMEOUT_MS)) {
+      console.warn(`[CHATMESH] Subscription to ${connection.endpoint.address} went silent; reconnecting`);
+      this.closeReason = this.verified ? 'subscription went silent' : 'no valid reply to SUBSCRIBE';
+      connection.close();
+      return;
+    }
+    if (!this.verified) return;
+
+    // Fail back once a preferred endpoint has proven itself; a pooled
+    // request probes preferred endpoints that are due for a retry
+    const healthy = this.client.getHealthyPreferredEndpoints(connection.endpoint);
+    if (healthy.length > 0) {
+      this.failBack(connection, healthy);
+    } else if (this.client.hasPreferredEndpoint(connection.endpoint)) {
+      void this.client.request({ type: 'GET_METRICS', node: 'rosetta' });
+    }
+  }
+
+  // Move to a more preferred endpoint once it is reachable again; the
+  // current connection stays up until the new one is subscribed
+  private async failBack(current: Connection, endpoints: EndpointState[]): Promise<void> {
+    if (this.failingBack) return;
+    this.failingBack = true;
+    try {
+      const connection = await this.client.openConnection(this.connectionHandlers, CONNECT_TIMEOUT_MS, endpoints);
+      if (!connection) return;
+      if (this.closed || this.connection !== current) {
+        connection.close();
+        return;
+      }
+      this.attach(connection);
+      current.close();
+    } finally {
+      this.failingBack = false;
+    }
+  }
+}
+
+export class ChatMeshClient {
+  readonly framing: ChatMeshFraming;
+  readonly poolSize: number;
+  private endpoints: EndpointState[];
+  private pool: PooledConnection[] = [];
+  private opening = 0;
+  private waiters: Array<(pooled: PooledConnection | null) => void> = [];
+  private subscriptions: Set<ChatMeshSubscription> = new Set();
+  private invalidMessages = 0;
+
+  constructor(endpoints: ChatMeshEndpoint[], options: { framing?: ChatMeshFraming; poolSize?: number } = {}) {
+    this.endpoints = endpoints.map(({ host, port }) => ({
+      address: host.includes(':') ? `[${host}]:${port}` : `${host}:${port}`,
+      host,
+      port,
+      failures: 0,
+      retryAt: 0,
+      lastConnectedAt: null,
+      lastHealthyAt: null,
+      lastError: null,
+      latencyMs: null
+    }));
+    this.framing = options.framing || 'newline';
+    this.poolSize = Math.max(1, options.poolSize || 2);
+  }
+
+  /**
+   * Send one message and wait for the reply
+   */
+  async request(message: OutgoingMessage, timeoutMs: number = REQUEST_TIMEOUT_MS): Promise<ChatMeshRequestResult> {
+    const deadline = Date.now() + timeoutMs;
+    let lastError = 'No ChatMesh endpoint available';
+
+    // Endpoints that time out or answer garbage are backed off, so each
+    // retry lands on the next one in line
+    while (Date.now() < deadline) {
+      const pooled = await this.acquire(deadline);
+      if (!pooled) break;
+
+      const endpoint = pooled.connection.endpoint;
+      const sentAt = Date.now();
+      const result = await this.exchange(pooled, message, deadline);
+
+      if (!result) {
+        // No reply in time: the connection's state is unknown, so drop it
+        this.markFailure(endpoint, 'request timed out');
+        this.discard(pooled);
+        lastError = `ChatMesh ${endpoint.address} did not reply`;
+        continue;
+      }
+
+      if (!result.success) {
+        this.recordInvalidMessage(result.error);
+        this.markFailure(endpoint, `invalid reply: ${result.error}`);
+        this.discard(pooled);
+        lastError = `Invalid reply from ${endpoint.address}: ${result.error}`;
+        continue;
+      }
+
+      endpoint.latencyMs = Date.now() - sentAt;
+      this.markHealthy(endpoint);
+      this.release(pooled);
+
+      if (result.message.type === 'ERROR') {
+        return { success: false, error: `ChatMesh error: ${result.message.error}` };
+      }
+      return { success: true, message: result.message, endpoint: endpoint.address };
+    }
+
+    return { success: false, error: lastError };
+  }
+
+  /**
+   * Subscribe to pushed topics; the subscription keeps itself connected
+   * until close() and treats staleAfterMs of silence as a dead connection
+   */
+  subscribe(topics: string[], handlers: SubscriptionHandlers, staleAfterMs: number): ChatMeshSubscription {
+    const subscription = new ChatMeshSubscription(this, topics, handlers, staleAfterMs);
+    this.subscriptions.add(subscription);
+    return subscription;
+  }
+
+  getHealth(): ChatMeshHealth {
+    const now = Date.now();
+    const endpoints: ChatMeshEndpointHealth[] = this.endpoints.map(endpoint => ({
+      address: endpoint.address,
+      state: endpoint.failures > 0 ? 'down' : endpoint.lastHealthyAt ? 'up' : 'untried',
+      failures: endpoint.failures,
+      retryInMs: Math.max(0, endpoint.retryAt - now),
+      lastConnectedAt: endpoint.lastConnectedAt,
+      lastHealthyAt: endpoint.lastHealthyAt,
+      lastError: endpoint.lastError,
+      latencyMs: endpoint.latencyMs
+    }));
+
+    // Endpoints never needed (secondaries while the primary is up) don't count
+    const up = endpoints.filter(endpoint => endpoint.state === 'up').length;
+    const down = endpoints.filter(endpoint => endpoint.state === 'down').length;
+    return {
+      status: up === 0 ? 'down' : down > 0 ? 'degraded' : 'connected',
+      framing: this.framing,
+      endpoints,
+      pool: {
+        size: this.poolSize,
+        open: this.pool.length,
+        busy: this.pool.filter(pooled => pooled.busy).length,
+        waiting: this.waiters.length
+      },
+      subscriptions: Array.from(this.subscriptions).map(subscription => subscription.getStatus()),
+      invalidMessages: this.invalidMessages
+    };
+  }
+
+  /**
+   * Connect to the most preferred endpoint not in backoff, failing over
+   * down the list (or the given candidates); null when none could be reached
+   */
+  async openConnection(handlers: ConnectionHandlers, timeoutMs: number, candidates: EndpointState[] = this.endpoints): Promise<Connection | null> {
+    const deadline = Date.now() + timeoutMs;
+
+    for (const endpoint of candidates) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) break;
+      if (endpoint.retryAt > Date.now()) continue;
+
+      const connection = new Connection(endpoint, this.framing, handlers);
+      const error = await connection.open(remaining);
+      if (!error) {
+        endpoint.lastConnectedAt = Date.now();
+        return connection;
+      }
+      this.markFailure(endpoint, error);
+    }
+    return null;
+  }
+
+  // Whether an endpoint preferred over this one is out of backoff
+  hasPreferredEndpoint(endpoint: EndpointState): boolean {
+    const now = Date.now();
+    return this.endpoints.slice(0, this.endpoints.indexOf(endpoint)).some(preferred => preferred.retryAt <= now);
+  }
+
+  // Endpoints preferred over this one that have answered since their last failure
+  getHealthyPreferredEndpoints(endpoint: EndpointState): EndpointState[] {
+    return this.endpoints.slice(0, this.endpoints.indexOf(endpoint))
+      .filter(preferred => preferred.failures === 0 && preferred.lastHealthyAt !== null);
+  }
+
+  // Earliest time any endpoint leaves backoff
+  nextRetryAt(): number {
+    return Math.min(...this.endpoints.map(endpoint => endpoint.retryAt));
+  }
+
+  markFailure(endpoint: EndpointState, error: string): void {
+    endpoint.failures++;
+    endpoint.lastError = error;
+    const delay = Math.min(BACKOFF_MIN_MS * Math.pow(2, endpoint.failures - 1), BACKOFF_MAX_MS);
+    endpoint.retryAt = Date.now() + Math.round(delay * (0.8 + Math.random() * 0.4));
+    if (endpoint.failures === 1) {
+      console.warn(`[CHATMESH] ${endpoint.address} unavailable: ${error}`);
+    }
+  }
+
+  recordInvalidMessage(error: string): void {
+    this.invalidMessages++;
+    console.warn('[CHATMESH] Dropped invalid message:', error);
+  }
+
+  removeSubscription(subscription: ChatMeshSubscription): void {
+    this.subscriptions.delete(subscription);
+  }
+
+  markHealthy(endpoint: EndpointState): void {
+    if (endpoint.failures > 0) {
+      console.log(`[CHATMESH] ${endpoint.address} healthy again`);
+    }
+    endpoint.failures = 0;
+    endpoint.retryAt = 0;
+    endpoint.lastHealthyAt = Date.now();
+  }
+
+  private async acquire(deadline: number): Promise<PooledConnection | null> {
+    // Idle connections to a fallback endpoint are dropped while a preferred
+    // endpoint is out of backoff, so the new connection retries it
+    this.pool
+      .filter(pooled => !pooled.busy && this.hasPreferredEndpoint(pooled.connection.endpoint))
+      .forEach(pooled => this.discard(pooled));
+
+    const idle = this.pool.find(pooled => !pooled.busy && pooled.connection.connected);
+    if (idle) {
+      this.checkout(idle);
+      return idle;
+    }
+
+    if (this.pool.length + this.opening < this.poolSize) {
+      this.opening++;
+      let pooled: PooledConnection | null = null;
+      try {
+        const connection = await this.openConnection({
+          onFrame: (result) => {
+            if (pooled?.pending) pooled.pending(result);
+            else if (!result.success) this.recordInvalidMessage(result.error);
+          },
+          onClose: () => {
+            if (!pooled) return;
+            pooled.pending?.(null);
+            this.discard(pooled);
+          }
+        }, Math.min(CONNECT_TIMEOUT_MS, deadline - Date.now()));
+
+        if (connection) {
+          pooled = { connection, busy: true, idleTimer: null, pending: null };
+          this.pool.push(pooled);
+        }
+      } finally {
+        this.opening--;
+      }
+      return pooled;
+    }
+
+    return new Promise((resolve) => {
+      const waiter = (pooled: PooledConnection | null) => {
+        clearTimeout(timer);
+        resolve(pooled);
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter(w => w !== waiter);
+        resolve(null);
+      }, Math.max(1, deadline - Date.now()));
+      this.waiters.push(waiter);
+    });
+  }
+
+  // Send one message on a checked-out connection; null when no reply arrives in time
+  private exchange(pooled: PooledConnection, message: OutgoingMessage, deadline: number): Promise<DecodeResult | null> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        pooled.pending = null;
+        resolve(null);
+      }, Math.max(1, deadline - Date.now()));
+      pooled.pending = (result) => {
+        clearTimeout(timer);
+        pooled.pending = null;
+        resolve(result);
+      };
+
+      if (!pooled.connection.send(message)) {
+        pooled.pending(null);
+      }
+    });
+  }
+
+  private checkout(pooled: PooledConnection): void {
+    pooled.busy = true;
+    if (pooled.idleTimer) clearTimeout(pooled.idleTimer);
+    pooled.idleTimer = null;
+  }
+
+  private release(pooled: PooledConnection): void {
+    // Drop connections to a fallback endpoint so the next request retries a preferred one
+    if (this.waiters.length === 0 && this.hasPreferredEndpoint(pooled.connection.endpoint)) {
+      this.discard(pooled);
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      this.checkout(pooled);
+      waiter(pooled);
+      return;
+    }
+
+    pooled.busy = false;
+    pooled.idleTimer = setTimeout(() => this.discard(pooled), POOL_IDLE_MS);
+    pooled.idleTimer.unref?.();
+  }
+
+  private discard(pooled: PooledConnection): void {
+    if (pooled.idleTimer) clearTimeout(pooled.idleTimer);
+    this.pool = this.pool.filter(p => p !== pooled);
+    pooled.connection.close();
+  }
+}
+
+// Route bundles may load this module separately; keep one client per process
+const globalForChatMesh = globalThis as unknown as { __chatMeshClient?: ChatMeshClient };
+
+export function getChatMeshClient(): ChatMeshClient {
+  if (!globalForChatMesh.__chatMeshClient) {
+    globalForChatMesh.__chatMeshClient = new ChatMeshClient(getConfiguredEndpoints(), {
+      framing: parseFraming(process.env.CHATMESH_FRAMING),
+      poolSize: parseInt(process.env.CHATMESH_POOL_SIZE || '2')
+    });
+  }
+  return globalForChatMesh.__chatMeshClient;
+}
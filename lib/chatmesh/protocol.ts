@@ -0,0 +1,173 @@
+/**
+ * ChatMesh Protocol
+ * Wire framing and message validation for the ChatMesh TCP protocol
+ *
+ * Two framings are supported (CHATMESH_FRAMING):
+ *   newline - one JSON document per line (default, what ChatMesh speaks today)
+ *   length  - 4-byte big-endian length prefix followed by UTF-8 JSON
+ *
+ * Incoming messages are validated before anything downstream sees them:
+ * metric values must be finite numbers in range, zero is a real value
+ * rather than "missing", and a metrics message without gamma is rejected
+ * instead of producing an infinite Xi.
+ */
+
+export type ChatMeshFraming = 'newline' | 'length';
+
+export const MAX_FRAME_BYTES = 1024 * 1024;
+const LENGTH_PREFIX_BYTES = 4;
+
+export interface ChatMeshMetrics {
+  lambda: number;
+  phi: number;
+  gamma: number;
+  theta?: number;
+}
+
+export type ChatMeshMessage =
+  | { type: 'METRICS'; metrics: ChatMeshMetrics }
+  | { type: 'HEAL'; before: number; after: number; metrics: ChatMeshMetrics }
+  | { type: 'ERROR'; error: string }
+  | { type: 'ACK' };
+
+export type DecodeResult =
+  | { success: true; message: ChatMeshMessage }
+  | { success: false; error: string };
+
+export type OutgoingMessage =
+  | { type: 'GET_METRICS'; node: string }
+  | { type: 'SUBSCRIBE'; node: string; topics: string[] };
+
+export function parseFraming(value: string | undefined): ChatMeshFraming {
+  return value === 'length' ? 'length' : 'newline';
+}
+
+export function encodeFrame(message: OutgoingMessage, framing: ChatMeshFraming): Buffer {
+  const body = Buffer.from(JSON.stringify(message), 'utf-8');
+  if (framing === 'newline') {
+    return Buffer.concat([body, Buffer.from('\n')]);
+  }
+
+  const prefix = Buffer.alloc(LENGTH_PREFIX_BYTES);
+  prefix.writeUInt32BE(body.length, 0);
+  return Buffer.concat([prefix, body]);
+}
+
+/**
+ * Reassembles frames from arbitrary TCP chunks
+ * push() throws when a frame exceeds MAX_FRAME_BYTES; the connection
+ * should be dropped since the stream can no longer be trusted.
+ */
+export class FrameDecoder {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(private framing: ChatMeshFraming) {}
+
+  push(chunk: Buffer): string[] {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    return this.framing === 'newline' ? this.readLines() : this.readLengthPrefixed();
+  }
+
+  private readLines(): string[] {
+    const frames: string[] = [];
+    let newline = this.buffer.indexOf(0x0a);
+    while (newline !== -1) {
+      const line = this.buffer.subarray(0, newline).toString('utf-8').trim();
+      this.buffer = this.buffer.subarray(newline + 1);
+      if (line) frames.push(line);
+      newline = this.buffer.indexOf(0x0a);
+    }
+
+    if (this.buffer.length > MAX_FRAME_BYTES) {
+      throw new Error(`ChatMesh line exceeds ${MAX_FRAME_BYTES} bytes`);
+    }
+    return frames;
+  }
+
+  private readLengthPrefixed(): string[] {
+    const frames: string[] = [];
+    while (this.buffer.length >= LENGTH_PREFIX_BYTES) {
+      const length = this.buffer.readUInt32BE(0);
+      if (length > MAX_FRAME_BYTES) {
+        throw new Error(`ChatMesh frame of ${length} bytes exceeds ${MAX_FRAME_BYTES}`);
+      }
+      if (this.buffer.length < LENGTH_PREFIX_BYTES + length) break;
+
+      frames.push(this.buffer.subarray(LENGTH_PREFIX_BYTES, LENGTH_PREFIX_BYTES + length).toString('utf-8'));
+      this.buffer = this.buffer.subarray(LENGTH_PREFIX_BYTES + length);
+    }
+    return frames;
+  }
+}
+
+// First of the given keys that is present; 0 counts as present
+function pick(source: Record<string, unknown>, ...keys: string[]): unknown {
+  for (const key of keys) {
+    if (source[key] !== undefined && source[key] !== null) return source[key];
+  }
+  return undefined;
+}
+
+function validateMetrics(source: Record<string, unknown>): ChatMeshMetrics | string {
+  const lambda = pick(source, 'lambda', 'L');
+  const phi = pick(source, 'phi', 'P');
+  const gamma = pick(source, 'gamma', 'G');
+  const theta = pick(source, 'theta');
+
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+  if (!isNumber(lambda) || lambda < 0 || lambda > 1) return 'lambda must be a number between 0 and 1';
+  if (!isNumber(phi) || phi < 0 || phi > 1) return 'phi must be a number between 0 and 1';
+  if (!isNumber(gamma) || gamma <= 0 || gamma > 1) return 'gamma must be a number above 0 and at most 1';
+  if (theta !== undefined && !isNumber(theta)) return 'theta must be a number';
+
+  return theta === undefined ? { lambda, phi, gamma } : { lambda, phi, gamma, theta };
+}
+
+/**
+ * Parse and validate one frame
+ * Untyped documents carrying metric fields are treated as METRICS replies.
+ */
+export function decodeMessage(frame: string): DecodeResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(frame);
+  } catch {
+    return { success: false, error: 'frame is not valid JSON' };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { success: false, error: 'frame is not a JSON object' };
+  }
+
+  const message = parsed as Record<string, unknown>;
+  const type = typeof message.type === 'string' ? message.type.toUpperCase() : '';
+
+  switch (type) {
+    case '':
+    case 'METRICS': {
+      const source = (message.metrics && typeof message.metrics === 'object' ? message.metrics : message) as Record<string, unknown>;
+      const metrics = validateMetrics(source);
+      if (typeof metrics === 'string') return { success: false, error: `invalid metrics: ${metrics}` };
+      return { success: true, message: { type: 'METRICS', metrics } };
+    }
+
+    case 'HEAL': {
+      const source = (message.metrics && typeof message.metrics === 'object' ? message.metrics : message) as Record<string, unknown>;
+      const metrics = validateMetrics(source);
+      if (typeof metrics === 'string') return { success: false, error: `invalid heal metrics: ${metrics}` };
+      const before = typeof message.before === 'number' && Number.isFinite(message.before) ? message.before : metrics.gamma;
+      const after = typeof message.after === 'number' && Number.isFinite(message.after) ? message.after : metrics.gamma;
+      return { success: true, message: { type: 'HEAL', before, after, metrics } };
+    }
+
+    case 'ERROR':
+      return { success: true, message: { type: 'ERROR', error: String(message.error ?? message.message ?? 'unknown error') } };
+
+    case 'ACK':
+    case 'SUBSCRIBED':
+      return { success: true, message: { type: 'ACK' } };
+
+    default:
+      return { success: false, error: `unknown message type ${type}` };
+  }
+}
@@ -6,6 +6,7 @@ export const GAMMA_FIXED = 0.092;
 export const CHI_PC = 0.869;
 export const XI_MINIMUM = 8.0;
 export const COHERENCE_BASELINE = 0.5;
+export const GOLDEN_RATIO = 1.618033988749895;
 
 // Q-SLICE Compliance Calculator
 export function computeQSliceCompliance(phi: number, lambda: number, gamma: number, xi: number) {
@@ -0,0 +1,244 @@
+/**
+ * DARPA Module API Dispatcher
+ * DNA-Lang Sovereign Computing Platform
+ *
+ * Binds every solicitation in DARPA_MODULES to its engine singleton and
+ * exposes a uniform getState/heal surface plus the schema-checked
+ * operations in operation-schemas.ts for the /api/darpa route family.
+ */
+
+import { DARPA_MODULES, DARPASolicitation, getAllSolicitations } from './index';
+import { dnaRAM } from './bto/dna-rapid-memory';
+import { biocondensateEngine } from './bto/designer-biocondensates';
+import { metamaterialEngine } from './bto/bioprinted-metamaterials';
+import { combatPhysioEngine } from './bto/combat-physio-sensors';
+import { separationsEngine } from './bto/next-gen-separations';
+import { containmentEngine } from './i2o/ai-containment';
+import { llmController } from './i2o/llm-control-theory';
+import { formalMathEngine } from './i2o/formal-informal-math';
+import { symbolicRoboticsEngine } from './i2o/symbolic-robotics';
+import { advancedCompilerEngine } from './i2o/advanced-compiler';
+import { aiFutureWorkEngine } from './i2o/ai-future-work';
+import { molecularFactory } from './mto/molecular-machines';
+import { opticalMemoryEngine } from './mto/optical-memory';
+import { lunarEnergyEngine } from './mto/lunar-energy';
+import { uvPhotonicsEngine } from './mto/uv-photonics';
+import { pliablePowerEngine } from './mto/pliable-power';
+import { microfluidicsEngine } from './mto/microfluidics';
+import { nuclearEngine } from './dso/nuclear-coherence';
+import { spacetimeEngine } from './dso/spacetime-diamond-qip';
+import { memsEngine } from './dso/mems-microsystems';
+import { agenticEngine } from './dso/agentic-ai-analysis';
+import { plasmaEngine } from './dso/plasma-measurement';
+import { underwaterEngine } from './dso/underwater-comms';
+import { neuralBiomarkerEngine } from './dso/neural-biomarkers';
+import { scimitarEngine } from './dso/scimitar-intent-engine';
+import { OPERATION_SCHEMAS, OperationParam, validateOperationArgs } from './operation-schemas';
+
+/**
+ * Engine singleton for each solicitation number
+ */
+export const DARPA_ENGINES: Record<DARPASolicitation, object> = {
+  'DARPA-RA-25-02-08': dnaRAM,
+  'DARPA-RA-25-02-09': biocondensateEngine,
+  'DARPA-RA-25-02-10': combatPhysioEngine,
+  'DARPA-RA-25-02-11': separationsEngine,
+  'DARPA-RA-25-02-12': metamaterialEngine,
+  'DARPA-RA-25-02-13': containmentEngine,
+  'DARPA-RA-25-02-14': llmController,
+  'DARPA-RA-25-02-16': formalMathEngine,
+  'DARPA-RA-25-02-17': symbolicRoboticsEngine,
+  'DARPA-RA-25-02-18': advancedCompilerEngine,
+  'DARPA-RA-25-02-19': molecularFactory,
+  'DARPA-RA-25-02-23': opticalMemoryEngine,
+  'DARPA-RA-25-02-01': nuclearEngine,
+  'DARPA-RA-25-02-02': spacetimeEngine,
+  'DARPA-RA-25-02-03': memsEngine,
+  'DARPA-RA-25-02-05': agenticEngine,
+  'DARPA-RA-25-02-06': plasmaEngine,
+  'DARPA-RA-25-02-07': underwaterEngine,
+  'DARPA-RA-25-02-04': neuralBiomarkerEngine,
+  'DARPA-RA-25-02-20': lunarEnergyEngine,
+  'DARPA-RA-25-02-21': uvPhotonicsEngine,
+  'DARPA-RA-25-02-22': pliablePowerEngine,
+  'DARPA-RA-25-02-24': microfluidicsEngine,
+  'DARPA-RA-25-02-15': aiFutureWorkEngine,
+  'DARPA-DSO-SCIMITAR': scimitarEngine,
+};
+
+// Reserved operation names handled uniformly across engines
+export const STATE_OPERATION = 'state';
+export const HEAL_OPERATION = 'heal';
+
+export type DARPADispatchResult =
+  | { success: true; result: unknown }
+  | { success: false; error: string; status: number };
+
+type EngineMethod = (...args: unknown[]) => unknown;
+
+export function isDARPASolicitation(value: string): value is DARPASolicitation {
+  return Object.prototype.hasOwnProperty.call(DARPA_MODULES, value);
+}
+
+function getMethod(engine: object, name: string): EngineMethod | null {
+  const candidate = (engine as Record<string, unknown>)[name];
+  return typeof candidate === 'function' ? (candidate as EngineMethod) : null;
+}
+
+/**
+ * List operations with an argument schema that the module's engine implements
+ */
+export function listOperations(solicitation: DARPASolicitation): { name: string; params: OperationParam[] }[] {
+  const engine = DARPA_ENGINES[solicitation];
+  const schemas = OPERATION_SCHEMAS[solicitation];
+
+  return Object.keys(schemas)
+    .filter(name => getMethod(engine, name) !== null)
+    .sort()
+    .map(name => ({ name, params: schemas[name] }));
+}
+
+/**
+ * Describe a module: registry metadata plus callable operations
+ */
+export function describeModule(solicitation: DARPASolicitation) {
+  return {
+    solicitation,
+    ...DARPA_MODULES[solicitation],
+    operations: listOperations(solicitation).map(op => ({
+      name: op.name,
+      params: op.params.map(p => (p.optional ? `${p.name}?` : p.name))
+    })),
+    endpoints: {
+      state: `/api/darpa/${solicitation}/${STATE_OPERATION}`,
+      heal: `/api/darpa/${solicitation}/${HEAL_OPERATION}`,
+      invoke: `/api/darpa/${solicitation}/{operation}`
+    }
+  };
+}
+
+/**
+ * Describe every registered module
+ */
+export function describeAllModules() {
+  return getAllSolicitations().map(describeModule);
+}
+
+/**
+ * Read current engine state (getState, falling back to getMetrics)
+ */
+export function getModuleState(solicitation: DARPASolicitation): DARPADispatchResult {
+  const engine = DARPA_ENGINES[solicitation];
+  const getter = getMethod(engine, 'getState') || getMethod(engine, 'getMetrics');
+
+  if (!getter) {
+    return { success: false, error: 'Module does not expose state', status: 501 };
+  }
+
+  return { success: true, result: toSerializable(getter.call(engine)) };
+}
+
+/**
+ * Apply phase-conjugate healing (heal, falling back to healAll)
+ */
+export function healModule(solicitation: DARPASolicitation): DARPADispatchResult {
+  const engine = DARPA_ENGINES[solicitation];
+  const healer = getMethod(engine, 'heal') || getMethod(engine, 'healAll');
+
+  if (!healer) {
+    return { success: false, error: 'Module does not support healing', status: 501 };
+  }
+
+  const healed = healer.call(engine);
+  const state = getModuleState(solicitation);
+
+  return {
+    success: true,
+    result: {
+      healed: healed === undefined ? true : toSerializable(healed),
+      state: state.success ? state.result : null
+    }
+  };
+}
+
+/**
+ * Validate and invoke an exposed engine operation with positional arguments
+ */
+export async function invokeOperation(
+  solicitation: DARPASolicitation,
+  operation: string,
+  args: unknown
+): Promise<DARPADispatchResult> {
+  const operations = listOperations(solicitation);
+  const target = operations.find(op => op.name === operation);
+
+  if (!target) {
+    return {
+      success: false,
+      error: `Unknown operation '${operation}'. Available: ${operations.map(op => op.name).join(', ')}`,
+      status: 404
+    };
+  }
+
+  if (args !== undefined && !Array.isArray(args)) {
+    return { success: false, error: 'args must be an array of positional arguments', status: 400 };
+  }
+
+  const argList = validateOperationArgs(target.params, (args as unknown[] | undefined) || []);
+  if (typeof argList === 'string') {
+    return { success: false, error: `Operation '${operation}': ${argList}`, status: 400 };
+  }
+
+  const engine = DARPA_ENGINES[solicitation];
+
+  try {
+    const result = await getMethod(engine, operation)!.apply(engine, argList);
+    return { success: true, result: toSerializable(result) };
+  } catch (error) {
+    // Engines reject bad references (unknown ids, wrong signal type) with a
+    // plain Error; anything else is a fault in the engine itself
+    if (error instanceof Error && error.constructor === Error) {
+      return { success: false, error: error.message, status: 422 };
+    }
+    console.error(`[DARPA] ${solicitation} ${operation} failed:`, error);
+    return { success: false, error: 'Operation failed', status: 500 };
+  }
+}
+
+/**
+ * Convert engine output (Maps, Sets, typed arrays) into JSON-safe values
+ */
+export function toSerializable(value: unknown, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (value === null || typeof value !== 'object') {
+    if (typeof value === 'number' && !Number.isFinite(value)) return null;
+    if (typeof value === 'bigint') return value.toString();
+    if (typeof value === 'function') return undefined;
+    return value;
+  }
+
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+
+  let out: unknown;
+  if (value instanceof Map) {
+    const entries: Record<string, unknown> = {};
+    value.forEach((v, k) => { entries[String(k)] = toSerializable(v, seen); });
+    out = entries;
+  } else if (value instanceof Set) {
+    out = Array.from(value).map(v => toSerializable(v, seen));
+  } else if (ArrayBuffer.isView(value)) {
+    out = Array.from(value as unknown as ArrayLike<number>);
+  } else if (Array.isArray(value)) {
+    out = value.map(v => toSerializable(v, seen));
+  } else {
+    const fields: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      fields[k] = toSerializable(v, seen);
+    }
+    out = fields;
+  }
+
+  // Only ancestors count as cycles; shared references serialize normally
+  seen.delete(value);
+  return out;
+}
@@ -467,7 +467,7 @@ export class BioprintedMetamaterialEngine {
     }
 
     // Apply modulation
-    (structure.properties as Record<string, unknown>)[property] = targetValue;
+    (structure.properties as unknown as Record<string, number>)[property] = targetValue;
 
     // Some modulations affect cell viability
     if (stimulus === 'THERMAL' && targetValue > 50) {
@@ -526,7 +526,7 @@ export class BioprintedMetamaterialEngine {
   heal(): number {
     let healedCount = 0;
 
-    for (const structure of this.state.structures.values()) {
+    for (const structure of Array.from(this.state.structures.values())) {
       if (structure.coherence < 0.7 || structure.avgViability < 0.8) {
         // Phase conjugate correction
         structure.coherence = Math.min(0.95, structure.coherence / (1 - CHI_PC));
@@ -564,7 +564,7 @@ export class BioprintedMetamaterialEngine {
     let degradationSum = 0;
     let viabilitySum = 0;
 
-    for (const structure of this.state.structures.values()) {
+    for (const structure of Array.from(this.state.structures.values())) {
       coherenceSum += structure.coherence;
       organizationSum += structure.organization;
       degradationSum += structure.degradation;
@@ -621,7 +621,7 @@ export class BioprintedMetamaterialEngine {
   } {
     const typeDistribution: Partial<Record<MetamaterialType, number>> = {};
 
-    for (const structure of this.state.structures.values()) {
+    for (const structure of Array.from(this.state.structures.values())) {
       typeDistribution[structure.type] = (typeDistribution[structure.type] || 0) + 1;
     }
 
@@ -218,7 +218,7 @@ export interface ThreatResponse {
   responseAccuracy: boolean;
   physiologicalResponse: {
     heartRateChange: number;          // bpm
-    hrv Change: number;               // ms
+    hrvChange: number;                // ms
     alphaDesynchronization: number;   // %
     betaEnhancement: number;          // %
   };
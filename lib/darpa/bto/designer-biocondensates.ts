@@ -326,7 +326,7 @@ export class BiocondensateEngine {
 
     // Merge components
     const mergedComponents = new Map(cond1.components);
-    for (const [compId, data] of cond2.components) {
+    for (const [compId, data] of Array.from(cond2.components)) {
       if (mergedComponents.has(compId)) {
         const existing = mergedComponents.get(compId)!;
         existing.enrichment = (existing.enrichment + data.enrichment) / 2;
@@ -527,7 +527,7 @@ export class BiocondensateEngine {
   heal(): number {
     let healedCount = 0;
 
-    for (const condensate of this.state.condensates.values()) {
+    for (const condensate of Array.from(this.state.condensates.values())) {
       if (condensate.coherence < 0.7 || condensate.phase === 'AGGREGATE') {
         // Phase conjugate correction
         condensate.coherence = Math.min(0.95, condensate.coherence / (1 - CHI_PC));
@@ -558,7 +558,7 @@ export class BiocondensateEngine {
   tick(deltaSeconds: number): void {
     this.simulationTime += deltaSeconds;
 
-    for (const condensate of this.state.condensates.values()) {
+    for (const condensate of Array.from(this.state.condensates.values())) {
       condensate.age += deltaSeconds;
 
       // Maturation: viscosity increases with age
@@ -592,7 +592,7 @@ export class BiocondensateEngine {
     let volumeSum = 0;
     let massSum = 0;
 
-    for (const condensate of this.state.condensates.values()) {
+    for (const condensate of Array.from(this.state.condensates.values())) {
       coherenceSum += condensate.coherence;
       organizationSum += condensate.organization;
       dissolutionSum += condensate.dissolution;
@@ -656,7 +656,7 @@ export class BiocondensateEngine {
       DISSOLVED: 0,
     };
 
-    for (const condensate of this.state.condensates.values()) {
+    for (const condensate of Array.from(this.state.condensates.values())) {
       phaseDistribution[condensate.phase]++;
     }
 
@@ -696,7 +696,7 @@ export class BiocondensateEngine {
     }
 
     // Update condensate properties based on new conditions
-    for (const condensate of this.state.condensates.values()) {
+    for (const condensate of Array.from(this.state.condensates.values())) {
       condensate.temperature = this.state.temperature;
       condensate.pH = this.state.pH;
       condensate.ionicStrength = this.state.ionicStrength;
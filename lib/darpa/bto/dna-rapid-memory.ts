@@ -90,7 +90,7 @@ export class DNARapidMemory {
    */
   private encodeToDNA(data: Uint8Array): string {
     let binaryString = '';
-    for (const byte of data) {
+    for (const byte of Array.from(data)) {
       binaryString += byte.toString(2).padStart(8, '0');
     }
 
@@ -312,7 +312,7 @@ export class DNARapidMemory {
       let integritySum = 0;
       let decoherenceSum = 0;
 
-      for (const block of this.state.blocks.values()) {
+      for (const block of Array.from(this.state.blocks.values())) {
         coherenceSum += block.coherence;
         integritySum += block.integrity;
         decoherenceSum += block.decoherence;
@@ -332,7 +332,7 @@ export class DNARapidMemory {
   heal(): number {
     let healedCount = 0;
 
-    for (const block of this.state.blocks.values()) {
+    for (const block of Array.from(this.state.blocks.values())) {
       if (block.coherence < PHI_THRESHOLD) {
         // Phase conjugate correction: E -> E^-1
         block.coherence = Math.min(0.95, block.coherence * (1 / block.decoherence));
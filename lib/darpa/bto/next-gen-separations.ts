@@ -1041,7 +1041,7 @@ export class SeparationsEngine {
     }
 
     // Heal all systems
-    for (const system of this.systems.values()) {
+    for (const system of Array.from(this.systems.values())) {
       if (system.ccceMetrics.gamma > 0.3) {
         system.ccceMetrics.gamma *= (1 - CHI_PC);
         system.ccceMetrics.lambda = Math.min(1, system.ccceMetrics.lambda * (1 + CHI_PC * 0.5));
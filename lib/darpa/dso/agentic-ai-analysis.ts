@@ -410,7 +410,7 @@ export class AgenticAIEngine {
               }
             }
           }
-          for (const j of targets) {
+          for (const j of Array.from(targets)) {
             adjacencyMatrix[i][j] = 1;
             adjacencyMatrix[j][i] = 1;
             degrees[i]++;
@@ -667,7 +667,7 @@ export class AgenticAIEngine {
       const time = t * dt;
 
       // Update each agent
-      for (const [agentId, agent] of system.agents) {
+      for (const [agentId, agent] of Array.from(system.agents)) {
         this.updateAgent(agent, system, dt);
       }
 
@@ -1018,7 +1018,7 @@ export class AgenticAIEngine {
     if (systemId) {
       const system = this.systems.get(systemId);
       if (system) {
-        for (const agent of system.agents.values()) {
+        for (const agent of Array.from(system.agents.values())) {
           if (agent.ccceMetrics.gamma > 0.3) {
             agent.ccceMetrics.gamma *= (1 - CHI_PC);
             agent.ccceMetrics.lambda = Math.min(1, agent.ccceMetrics.lambda * (1 + CHI_PC * 0.5));
@@ -433,7 +433,7 @@ export class NuclearCoherenceEngine {
   heal(): number {
     let healedCount = 0;
 
-    for (const qubit of this.state.qubits.values()) {
+    for (const qubit of Array.from(this.state.qubits.values())) {
       if (qubit.coherence < 0.8) {
         // Phase conjugate correction: E → E⁻¹
         qubit.coherence = Math.min(0.98, qubit.coherence / (1 - CHI_PC));
@@ -462,7 +462,7 @@ export class NuclearCoherenceEngine {
     let fidelitySum = 0;
     let decoherenceSum = 0;
 
-    for (const qubit of this.state.qubits.values()) {
+    for (const qubit of Array.from(this.state.qubits.values())) {
       coherenceSum += qubit.coherence;
       fidelitySum += qubit.fidelity;
       decoherenceSum += qubit.decoherence;
@@ -490,7 +490,7 @@ export class NuclearCoherenceEngine {
     this.state.magneticField = tesla;
 
     // Recalculate T2 for all qubits
-    for (const qubit of this.state.qubits.values()) {
+    for (const qubit of Array.from(this.state.qubits.values())) {
       qubit.t2 = this.calculateT2(qubit.nucleus, qubit.t1);
       qubit.decoherence = 1 / qubit.t2;
     }
@@ -505,7 +505,7 @@ export class NuclearCoherenceEngine {
     this.state.temperature = kelvin;
 
     // Recalculate T1 and T2 for all qubits
-    for (const qubit of this.state.qubits.values()) {
+    for (const qubit of Array.from(this.state.qubits.values())) {
       qubit.temperature = kelvin;
       qubit.t1 = this.calculateT1(qubit.nucleus);
       qubit.t2 = this.calculateT2(qubit.nucleus, qubit.t1);
@@ -232,7 +232,7 @@ export class SpacetimeDiamondEngine {
    * Update causal relations for a new diamond
    */
   private updateCausalRelations(newDiamond: SpacetimeDiamond): void {
-    for (const [id, existing] of this.state.diamonds) {
+    for (const [id, existing] of Array.from(this.state.diamonds)) {
       // Check relation between diamond apexes
       const relationApex = this.getCausalRelation(existing.apex, newDiamond.base);
       const relationBase = this.getCausalRelation(existing.base, newDiamond.apex);
@@ -510,7 +510,7 @@ export class SpacetimeDiamondEngine {
   heal(): number {
     let healedCount = 0;
 
-    for (const diamond of this.state.diamonds.values()) {
+    for (const diamond of Array.from(this.state.diamonds.values())) {
       if (diamond.coherence < 0.8 || diamond.causality < 0.9) {
         // Phase conjugate correction
         diamond.coherence = Math.min(0.98, diamond.coherence / (1 - CHI_PC));
@@ -541,7 +541,7 @@ export class SpacetimeDiamondEngine {
     let coherenceSum = 0;
     let causalitySum = 0;
 
-    for (const diamond of this.state.diamonds.values()) {
+    for (const diamond of Array.from(this.state.diamonds.values())) {
       coherenceSum += diamond.coherence;
       causalitySum += diamond.causality;
     }
@@ -569,7 +569,7 @@ export class SpacetimeDiamondEngine {
       (RELATIVISTIC_CONSTANTS.C ** 2);
 
     // Recalculate curvatures
-    for (const diamond of this.state.diamonds.values()) {
+    for (const diamond of Array.from(this.state.diamonds.values())) {
       diamond.curvature = this.calculateLocalCurvature(diamond.apex);
       diamond.coherence = 0.95 * (1 - diamond.curvature * 1e30);
       diamond.xi = (diamond.coherence * diamond.causality) /
@@ -633,7 +633,7 @@ export class SpacetimeDiamondEngine {
     let causalEdges = 0;
     let spacelikePairs = 0;
 
-    for (const diamond of this.state.diamonds.values()) {
+    for (const diamond of Array.from(this.state.diamonds.values())) {
       causalEdges += diamond.causalFuture.length;
       spacelikePairs += diamond.spacelikeSeparated.length;
     }
@@ -660,7 +660,7 @@ export class SpacetimeDiamondEngine {
     this.coordinateTime += deltaT;
 
     // Apply time dilation effects
-    for (const diamond of this.state.diamonds.values()) {
+    for (const diamond of Array.from(this.state.diamonds.values())) {
       const dilatedDelta = deltaT / diamond.gamma;
       diamond.properTime += dilatedDelta;
 
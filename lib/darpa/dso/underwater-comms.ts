@@ -945,7 +945,7 @@ export class UnderwaterCommsEngine {
     }
 
     // Heal all channels
-    for (const channel of this.channels.values()) {
+    for (const channel of Array.from(this.channels.values())) {
       if (channel.ccceMetrics.gamma > 0.3) {
         channel.ccceMetrics.gamma *= (1 - CHI_PC);
         channel.ccceMetrics.lambda = Math.min(1, channel.ccceMetrics.lambda * (1 + CHI_PC * 0.5));
@@ -9,6 +9,8 @@
  */
 
 import { LAMBDA_PHI, PHI_THRESHOLD, GAMMA_FIXED, CHI_PC, GOLDEN_RATIO } from '../../constants';
+import { Diagnostic, Span, valueToText } from '../../dnalang/ast';
+import { parseOrganism } from '../../dnalang/parser';
 
 // Compiler constants
 const COMPILER_CONSTANTS = {
@@ -231,8 +233,10 @@ export class AdvancedCompilerEngine {
 
   /**
    * Parse source code to IR
+   * DNA-Lang syntax problems are appended to `diagnostics`; null means no
+   * organism could be recovered from the source.
    */
-  parse(source: string, language: CompilationUnit['language']): IRModule | null {
+  parse(source: string, language: CompilationUnit['language'], diagnostics: Diagnostic[] = []): IRModule | null {
     const moduleId = `mod_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const nodes = new Map<string, IRNode>();
     const entryPoints: string[] = [];
@@ -240,7 +244,7 @@ export class AdvancedCompilerEngine {
     // Language-specific parsing
     switch (language) {
       case 'DNA_LANG':
-        this.parseDNALang(source, nodes, entryPoints);
+        if (!this.parseDNALang(source, nodes, entryPoints, diagnostics)) return null;
         break;
       case 'QASM':
         this.parseQASM(source, nodes, entryPoints);
@@ -274,67 +278,94 @@ export class AdvancedCompilerEngine {
   /**
    * Parse DNA-Lang source
    */
-  private parseDNALang(source: string, nodes: Map<string, IRNode>, entryPoints: string[]): void {
-    // Match ORGANISM declaration
-    const organismMatch = source.match(/ORGANISM\s+(\w+)/);
-    if (organismMatch) {
-      const funcId = `func_${organismMatch[1]}`;
-      nodes.set(funcId, {
-        id: funcId,
-        type: 'FUNCTION',
-        name: organismMatch[1],
-        operands: [],
-        attributes: new Map([['type', 'organism']]),
-        coherence: 0.9,
-        complexity: 1,
-      });
-      entryPoints.push(funcId);
-    }
+  private parseDNALang(
+    source: string,
+    nodes: Map<string, IRNode>,
+    entryPoints: string[],
+    diagnostics: Diagnostic[]
+  ): boolean {
+    const result = parseOrganism(source);
+    diagnostics.push(...result.diagnostics);
+    const organism = result.ast;
+    if (!organism) return false;
+
+    const locate = (span: Span): SourceLocation => ({
+      file: 'input.dna',
+      line: span.start.line,
+      column: span.start.column,
+    });
+
+    // ORGANISM declaration
+    const funcId = `func_${organism.name}`;
+    nodes.set(funcId, {
+      id: funcId,
+      type: 'FUNCTION',
+      name: organism.name,
+      operands: [],
+      attributes: new Map([['type', 'organism']]),
+      location: locate(organism.span),
+      coherence: 0.9,
+      complexity: 1,
+    });
+    entryPoints.push(funcId);
+
+    // GENE blocks
+    (organism.genome?.genes || []).forEach(gene => {
+      const geneId = `gene_${gene.name}`;
+      const attributes = new Map<string, unknown>([['body', gene.body]]);
+      gene.properties.forEach(property => attributes.set(property.key, valueToText(property.value)));
 
-    // Match GENE blocks
-    const geneMatches = source.matchAll(/GENE\s+(\w+)\s*\{([^}]*)\}/g);
-    for (const match of geneMatches) {
-      const geneId = `gene_${match[1]}`;
       nodes.set(geneId, {
         id: geneId,
         type: 'DNA_GENE',
-        name: match[1],
+        name: gene.name,
         operands: [],
-        attributes: new Map([['body', match[2]]]),
+        attributes,
+        location: locate(gene.span),
         coherence: 0.85,
-        complexity: match[2].length / 100,
+        complexity: gene.body.length / 100,
       });
-    }
+    });
 
-    // Match ACT blocks
-    const actMatches = source.matchAll(/ACT\s+(\w+)\s*\(\s*\)\s*\{([^}]*)\}/g);
-    for (const match of actMatches) {
-      const actId = `act_${match[1]}`;
+    // ACT blocks
+    organism.acts.forEach(act => {
+      const actId = `act_${act.name}`;
       nodes.set(actId, {
         id: actId,
         type: 'DNA_ACT',
-        name: match[1],
-        operands: [],
-        attributes: new Map([['body', match[2]]]),
+        name: act.name,
+        operands: act.params,
+        attributes: new Map([['body', act.body]]),
+        location: locate(act.span),
         coherence: 0.88,
-        complexity: match[2].length / 50,
+        complexity: act.body.length / 50,
       });
-    }
+    });
 
-    // Match METRICS
-    const metricsMatch = source.match(/METRICS\s*\{([^}]*)\}/);
-    if (metricsMatch) {
+    // METRICS
+    if (organism.metrics) {
+      const metrics = organism.metrics;
       const metricsId = 'metrics_ccce';
+      const attributes = new Map<string, unknown>([
+        ['body', source.slice(metrics.span.start.offset, metrics.span.end.offset)],
+      ]);
+      metrics.properties.forEach(property => {
+        attributes.set(property.key, property.value.kind === 'number' ? property.value.value : valueToText(property.value));
+      });
+
       nodes.set(metricsId, {
         id: metricsId,
         type: 'VALUE',
         name: 'ccce_metrics',
         operands: [],
-        attributes: new Map([['body', metricsMatch[1]]]),
+        attributes,
+        location: locate(metrics.span),
         coherence: 0.95,
         complexity: 0.5,
       });
     }
+
+    return true;
   }
 
   /**
@@ -421,7 +452,7 @@ export class AdvancedCompilerEngine {
     if (nodes.size === 0) return 0.5;
 
     let sum = 0;
-    for (const node of nodes.values()) {
+    for (const node of Array.from(nodes.values())) {
       sum += node.coherence;
     }
     return sum / nodes.size;
@@ -437,7 +468,7 @@ export class AdvancedCompilerEngine {
     const types = new Set<IRNodeType>();
     let connections = 0;
 
-    for (const node of nodes.values()) {
+    for (const node of Array.from(nodes.values())) {
       types.add(node.type);
       connections += node.operands.length;
     }
@@ -455,7 +486,7 @@ export class AdvancedCompilerEngine {
     if (nodes.size === 0) return 0.5;
 
     let totalComplexity = 0;
-    for (const node of nodes.values()) {
+    for (const node of Array.from(nodes.values())) {
       totalComplexity += node.complexity;
     }
 
@@ -485,7 +516,7 @@ export class AdvancedCompilerEngine {
     }
 
     // Remove unreachable nodes
-    for (const nodeId of module.nodes.keys()) {
+    for (const nodeId of Array.from(module.nodes.keys())) {
       if (!reachable.has(nodeId)) {
         module.nodes.delete(nodeId);
       }
@@ -497,7 +528,7 @@ export class AdvancedCompilerEngine {
 
   private constantFolding(module: IRModule): IRModule {
     // Simplified: mark constant nodes as folded
-    for (const node of module.nodes.values()) {
+    for (const node of Array.from(module.nodes.values())) {
       if (node.type === 'VALUE' && node.operands.length === 0) {
         node.attributes.set('constant', true);
         node.coherence = Math.min(1, node.coherence * 1.05);
@@ -510,7 +541,7 @@ export class AdvancedCompilerEngine {
     // Find duplicate computation patterns
     const signatures = new Map<string, string>();
 
-    for (const [id, node] of module.nodes) {
+    for (const [id, node] of Array.from(module.nodes)) {
       const sig = `${node.type}:${node.operands.join(',')}`;
       if (signatures.has(sig)) {
         // Replace with reference to existing
@@ -525,7 +556,7 @@ export class AdvancedCompilerEngine {
 
   private loopUnrolling(module: IRModule): IRModule {
     // Mark loops for unrolling (simplified)
-    for (const node of module.nodes.values()) {
+    for (const node of Array.from(module.nodes.values())) {
       if (node.attributes.get('loop') && node.attributes.get('iterations')) {
         const iterations = node.attributes.get('iterations') as number;
         if (iterations <= 4) {
@@ -562,7 +593,7 @@ export class AdvancedCompilerEngine {
 
   private dnaGeneOptimization(module: IRModule): IRModule {
     // Optimize gene expression levels
-    for (const node of module.nodes.values()) {
+    for (const node of Array.from(module.nodes.values())) {
       if (node.type === 'DNA_GENE') {
         // Boost coherence for well-structured genes
         const body = node.attributes.get('body') as string || '';
@@ -576,7 +607,7 @@ export class AdvancedCompilerEngine {
 
   private coherenceMaximization(module: IRModule): IRModule {
     // Apply negentropic optimization
-    for (const node of module.nodes.values()) {
+    for (const node of Array.from(module.nodes.values())) {
       if (node.coherence < COMPILER_CONSTANTS.COHERENCE_THRESHOLD) {
         // Phase conjugate correction
         node.coherence = Math.min(0.98, node.coherence / (1 - CHI_PC));
@@ -644,9 +675,19 @@ export class AdvancedCompilerEngine {
 
     // Parse
     const parseStart = Date.now();
-    const irModule = this.parse(source, language);
+    const diagnostics: Diagnostic[] = [];
+    const irModule = this.parse(source, language, diagnostics);
     const parseTime = Date.now() - parseStart;
 
+    diagnostics.forEach(diagnostic => {
+      const location = { file: 'input.dna', line: diagnostic.line, column: diagnostic.column };
+      if (diagnostic.severity === 'error') {
+        errors.push({ code: diagnostic.code, message: diagnostic.message, location, severity: 'ERROR' });
+      } else {
+        warnings.push({ code: diagnostic.code, message: diagnostic.message, location });
+      }
+    });
+
     if (!irModule) {
       errors.push({
         code: 'E001',
@@ -750,7 +791,7 @@ export class AdvancedCompilerEngine {
     output += `// Coherence: ${module.coherence.toFixed(4)}\n`;
     output += `// Xi: ${module.xi.toFixed(4)}\n\n`;
 
-    for (const node of module.nodes.values()) {
+    for (const node of Array.from(module.nodes.values())) {
       switch (node.type) {
         case 'FUNCTION':
           output += `ORGANISM ${node.name} {\n`;
@@ -779,7 +820,7 @@ export class AdvancedCompilerEngine {
     let output = 'OPENQASM 2.0;\n';
     output += `// Coherence: ${module.coherence.toFixed(4)}\n\n`;
 
-    for (const node of module.nodes.values()) {
+    for (const node of Array.from(module.nodes.values())) {
       if (node.type === 'QUANTUM_GATE') {
         output += `${node.name} ${node.operands.join(', ')};\n`;
       } else if (node.type === 'QUANTUM_MEASURE') {
@@ -795,7 +836,7 @@ export class AdvancedCompilerEngine {
    */
   private generateGeneric(module: IRModule): string {
     let output = '// Generated output\n';
-    for (const node of module.nodes.values()) {
+    for (const node of Array.from(module.nodes.values())) {
       output += `${node.type}: ${node.name || node.id}\n`;
     }
     return output;
@@ -807,7 +848,7 @@ export class AdvancedCompilerEngine {
   heal(): number {
     let healedCount = 0;
 
-    for (const unit of this.state.units.values()) {
+    for (const unit of Array.from(this.state.units.values())) {
       if (unit.irModule && unit.irModule.coherence < 0.7) {
         // Re-run coherence maximization
         unit.irModule = this.coherenceMaximization(unit.irModule);
@@ -835,7 +876,7 @@ export class AdvancedCompilerEngine {
     let entropySum = 0;
     let count = 0;
 
-    for (const unit of this.state.units.values()) {
+    for (const unit of Array.from(this.state.units.values())) {
       if (unit.irModule) {
         coherenceSum += unit.irModule.coherence;
         organizationSum += unit.irModule.organization;
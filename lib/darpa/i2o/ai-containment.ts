@@ -257,7 +257,7 @@ export class AIContainmentEngine {
     let phiSum = 0;
     let xiSum = 0;
 
-    for (const agent of this.state.agents.values()) {
+    for (const agent of Array.from(this.state.agents.values())) {
       phiSum += agent.phi;
       xiSum += agent.xi;
     }
@@ -431,7 +431,7 @@ export class AIContainmentEngine {
   healAll(): number {
     let healedCount = 0;
 
-    for (const agent of this.state.agents.values()) {
+    for (const agent of Array.from(this.state.agents.values())) {
       if (agent.gamma > GAMMA_FIXED) {
         // Phase conjugate correction: E -> E^-1
         agent.lambda = Math.min(0.95, agent.lambda * (1 + CHI_PC));
@@ -501,7 +501,7 @@ export class AIContainmentEngine {
     const agentResults = new Map<string, AssuranceResult>();
     let totalConfidence = 0;
 
-    for (const [id] of this.state.agents) {
+    for (const [id] of Array.from(this.state.agents)) {
       const result = this.formalVerify(id);
       agentResults.set(id, result);
       totalConfidence += result.confidence;
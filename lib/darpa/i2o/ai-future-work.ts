@@ -468,7 +468,7 @@ export class AIFutureWorkEngine {
       for (let j = i + 1; j < tasks.length; j++) {
         const skills1 = new Set(tasks[i].skill_requirements.keys());
         const skills2 = new Set(tasks[j].skill_requirements.keys());
-        const intersection = new Set([...skills1].filter((s) => skills2.has(s)));
+        const intersection = new Set(Array.from(skills1).filter((s) => skills2.has(s)));
         overlapCount += intersection.size / Math.max(skills1.size, skills2.size, 1);
         totalPairs++;
       }
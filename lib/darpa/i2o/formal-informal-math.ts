@@ -253,7 +253,7 @@ export class FormalInformalMathEngine {
     // Match single lowercase letters not part of commands
     const matches = latex.match(/(?<!\\)\b[a-z]\b/g);
     if (matches) {
-      variables.push(...new Set(matches));
+      variables.push(...Array.from(new Set(matches)));
     }
     return variables;
   }
@@ -725,7 +725,7 @@ export class FormalInformalMathEngine {
   heal(): number {
     let healedCount = 0;
 
-    for (const proof of this.state.proofs.values()) {
+    for (const proof of Array.from(this.state.proofs.values())) {
       if (proof.coherence < 0.7 || proof.gaps > 0.3) {
         // Phase conjugate correction
         proof.coherence = Math.min(0.95, proof.coherence / (1 - CHI_PC));
@@ -757,7 +757,7 @@ export class FormalInformalMathEngine {
     let rigorSum = 0;
     let gapsSum = 0;
 
-    for (const proof of this.state.proofs.values()) {
+    for (const proof of Array.from(this.state.proofs.values())) {
       coherenceSum += proof.coherence;
       rigorSum += proof.rigor;
       gapsSum += proof.gaps;
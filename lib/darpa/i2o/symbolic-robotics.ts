@@ -405,7 +405,7 @@ export class SymbolicRoboticsEngine {
 
     // Simple pattern matching
     // Format: "predicate(arg1, arg2)" or "property:value"
-    for (const symbol of this.state.symbols.values()) {
+    for (const symbol of Array.from(this.state.symbols.values())) {
       if (pattern.includes(':')) {
         // Property query
         const [prop, value] = pattern.split(':');
@@ -505,7 +505,7 @@ export class SymbolicRoboticsEngine {
     if (!plan) return false;
 
     for (const step of plan.steps) {
-      for (const [paramName, symbolName] of step.parameters) {
+      for (const [paramName, symbolName] of Array.from(step.parameters)) {
         // Find symbol
         const symbol = Array.from(this.state.symbols.values())
           .find(s => s.name === symbolName || s.id === symbolName);
@@ -628,7 +628,7 @@ export class SymbolicRoboticsEngine {
     let healedCount = 0;
 
     // Heal symbols with low confidence
-    for (const symbol of this.state.symbols.values()) {
+    for (const symbol of Array.from(this.state.symbols.values())) {
       if (symbol.confidence < 0.5) {
         // Phase conjugate correction
         symbol.confidence = Math.min(0.9, symbol.confidence / (1 - CHI_PC));
@@ -643,7 +643,7 @@ export class SymbolicRoboticsEngine {
     }
 
     // Heal action schemas with low success rates
-    for (const schema of this.state.actionSchemas.values()) {
+    for (const schema of Array.from(this.state.actionSchemas.values())) {
       if (schema.successRate < 0.8) {
         schema.successRate = Math.min(0.95, schema.successRate * (1 + CHI_PC));
         healedCount++;
@@ -669,7 +669,7 @@ export class SymbolicRoboticsEngine {
     let groundingStrengthSum = 0;
     let groundingCount = 0;
 
-    for (const symbol of this.state.symbols.values()) {
+    for (const symbol of Array.from(this.state.symbols.values())) {
       confidenceSum += symbol.confidence;
 
       for (const grounding of symbol.groundings) {
@@ -722,7 +722,7 @@ export class SymbolicRoboticsEngine {
     avgSymbolConfidence: number;
   } {
     let avgConfidence = 0;
-    for (const sym of this.state.symbols.values()) {
+    for (const sym of Array.from(this.state.symbols.values())) {
       avgConfidence += sym.confidence;
     }
     avgConfidence = this.state.symbols.size > 0
@@ -40,6 +40,12 @@ export * from './dso/underwater-comms';
 export * from './dso/neural-biomarkers';
 export * from './dso/scimitar-intent-engine';
 
+// Types declared by more than one module resolve to the first declaration
+export type { CCCEMetrics, Position3D } from './bto/combat-physio-sensors';
+export type { ReadResult, WriteResult } from './bto/dna-rapid-memory';
+export type { SimulationResult, MaterialProperties } from './bto/next-gen-separations';
+export type { MeasurementResult } from './dso/nuclear-coherence';
+
 // Re-export singleton instances for convenience
 export {
   dnaRAM,
@@ -368,7 +368,7 @@ export class MolecularMachineFactory {
     let coherenceSum = 0;
     let stabilitySum = 0;
 
-    for (const machine of this.state.machines.values()) {
+    for (const machine of Array.from(this.state.machines.values())) {
       coherenceSum += machine.coherence;
       stabilitySum += machine.stability;
     }
@@ -394,7 +394,7 @@ export class MolecularMachineFactory {
   heal(): number {
     let healedCount = 0;
 
-    for (const machine of this.state.machines.values()) {
+    for (const machine of Array.from(this.state.machines.values())) {
       if (machine.state === 'ERROR' || machine.coherence < 0.8) {
         // Phase conjugate correction
         machine.coherence = Math.min(0.95, machine.coherence / (1 - CHI_PC));
@@ -419,7 +419,7 @@ export class MolecularMachineFactory {
       this.state.temperature += tempDelta;
 
       // Adjust machine temperatures
-      for (const machine of this.state.machines.values()) {
+      for (const machine of Array.from(this.state.machines.values())) {
         machine.temperature = this.state.temperature;
 
         // Temperature affects efficiency (optimal around 310K for biological)
@@ -494,7 +494,7 @@ export class MolecularMachineFactory {
     simulationTime: number;
   } {
     const machinesByType: Partial<Record<MachineType, number>> = {};
-    for (const machine of this.state.machines.values()) {
+    for (const machine of Array.from(this.state.machines.values())) {
       machinesByType[machine.type] = (machinesByType[machine.type] || 0) + 1;
     }
 
@@ -341,7 +341,7 @@ export class OpticalMemoryEngine {
     const numChannels = Math.min(8, rows);  // WDM bus channels
     const busWavelengths: WavelengthChannel[] = [];
     let channelIdx = 0;
-    for (const [, channel] of this.state.channels) {
+    for (const [, channel] of Array.from(this.state.channels)) {
       if (channelIdx >= numChannels) break;
       busWavelengths.push({
         wavelength: channel.wavelength,
@@ -596,7 +596,7 @@ export class OpticalMemoryEngine {
     let readLatencySum = 0;
     let writeLatencySum = 0;
 
-    for (const cell of array.cells.values()) {
+    for (const cell of Array.from(array.cells.values())) {
       coherenceSum += cell.coherence;
       fidelitySum += cell.fidelity;
       degradationSum += cell.degradation;
@@ -619,8 +619,8 @@ export class OpticalMemoryEngine {
   heal(): number {
     let healedCount = 0;
 
-    for (const array of this.state.arrays.values()) {
-      for (const cell of array.cells.values()) {
+    for (const array of Array.from(this.state.arrays.values())) {
+      for (const cell of Array.from(array.cells.values())) {
         if (cell.coherence < 0.8 || cell.state === 'ERROR') {
           // Phase conjugate correction
           cell.coherence = Math.min(0.98, cell.coherence / (1 - CHI_PC));
@@ -650,8 +650,8 @@ export class OpticalMemoryEngine {
     this.state.temperature = kelvin;
 
     // Temperature affects retention and reliability
-    for (const array of this.state.arrays.values()) {
-      for (const cell of array.cells.values()) {
+    for (const array of Array.from(this.state.arrays.values())) {
+      for (const cell of Array.from(array.cells.values())) {
         // Arrhenius-like temperature dependence
         const tempFactor = Math.exp(-(kelvin - 300) / 100);
         cell.retentionTime *= tempFactor;
@@ -675,7 +675,7 @@ export class OpticalMemoryEngine {
     let fidelitySum = 0;
     let degradationSum = 0;
 
-    for (const array of this.state.arrays.values()) {
+    for (const array of Array.from(this.state.arrays.values())) {
       coherenceSum += array.coherence;
       fidelitySum += array.fidelity;
       degradationSum += array.degradation;
@@ -730,7 +730,7 @@ export class OpticalMemoryEngine {
     errorRate: number;
   } {
     let totalErrors = 0;
-    for (const array of this.state.arrays.values()) {
+    for (const array of Array.from(this.state.arrays.values())) {
       totalErrors += array.errorCount;
     }
 
@@ -0,0 +1,667 @@
+/**
+ * DARPA Operation Argument Schemas
+ * DNA-Lang Sovereign Computing Platform
+ *
+ * Positional argument shapes for every engine operation reachable through
+ * POST /api/darpa/[solicitation]/[operation]. Only operations listed here
+ * are exposed. Object schemas keep just the fields they declare, JSON
+ * objects become Maps and number arrays become Float64Arrays where the
+ * engine expects them, and every size that drives an allocation or loop
+ * is bounded.
+ *
+ * Not exposed, because they take engine records that cannot be rebuilt
+ * from JSON: microfluidics createChip, MEMS simulateFabrication and
+ * pliable-power analyzeStress.
+ */
+
+import type { DARPASolicitation } from './index';
+
+export type ArgSchema =
+  | { type: 'string'; enum?: readonly string[]; maxLength?: number }
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'scalar' }
+  | { type: 'array'; items: ArgSchema; minItems?: number; maxItems?: number }
+  | { type: 'tuple'; items: ArgSchema[] }
+  | { type: 'object'; fields: Record<string, ArgSchema>; optional?: readonly string[] }
+  | { type: 'record'; values: ArgSchema; maxKeys?: number }
+  | { type: 'map'; values: ArgSchema; maxKeys?: number }
+  | { type: 'float64array'; maxItems?: number };
+
+export interface OperationParam {
+  name: string;
+  schema: ArgSchema;
+  optional?: boolean;
+}
+
+const DEFAULT_MAX_LENGTH = 200;
+const DEFAULT_MAX_ITEMS = 1000;
+const DEFAULT_MAX_KEYS = 100;
+
+// Keys that would reach Object.prototype when copied onto a plain object
+const FORBIDDEN_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+// ============================================================================
+// Schema builders
+// ============================================================================
+
+const str = (maxLength = DEFAULT_MAX_LENGTH): ArgSchema => ({ type: 'string', maxLength });
+const oneOf = (...values: string[]): ArgSchema => ({ type: 'string', enum: values });
+const num = (min?: number, max?: number): ArgSchema => ({ type: 'number', min, max });
+const int = (min: number, max: number): ArgSchema => ({ type: 'number', min, max, integer: true });
+const bool: ArgSchema = { type: 'boolean' };
+const scalar: ArgSchema = { type: 'scalar' };
+const arrayOf = (items: ArgSchema, maxItems = DEFAULT_MAX_ITEMS, minItems = 0): ArgSchema =>
+  ({ type: 'array', items, minItems, maxItems });
+const tuple = (...items: ArgSchema[]): ArgSchema => ({ type: 'tuple', items });
+const obj = (fields: Record<string, ArgSchema>, optional: string[] = []): ArgSchema =>
+  ({ type: 'object', fields, optional });
+const partial = (fields: Record<string, ArgSchema>): ArgSchema =>
+  ({ type: 'object', fields, optional: Object.keys(fields) });
+const record = (values: ArgSchema, maxKeys = DEFAULT_MAX_KEYS): ArgSchema => ({ type: 'record', values, maxKeys });
+const mapOf = (values: ArgSchema, maxKeys = DEFAULT_MAX_KEYS): ArgSchema => ({ type: 'map', values, maxKeys });
+const float64 = (maxItems = 10000): ArgSchema => ({ type: 'float64array', maxItems });
+
+const param = (name: string, schema: ArgSchema): OperationParam => ({ name, schema });
+const optional = (name: string, schema: ArgSchema): OperationParam => ({ name, schema, optional: true });
+
+// ============================================================================
+// Shared shapes
+// ============================================================================
+
+const xyz = obj({ x: num(), y: num(), z: num() });
+
+const processStream = obj({
+  id: str(),
+  components: arrayOf(obj({
+    name: str(),
+    moleFraction: num(0, 1),
+    molecularWeight: num(0),
+    kineticDiameter: num(0),
+    criticalTemp: num(0),
+    criticalPressure: num(0),
+    dipoleMoment: num(),
+    polarizability: num(0),
+  }), 50, 1),
+  flowRate: num(0),
+  temperature: num(0),
+  pressure: num(0),
+  phase: oneOf('gas', 'liquid', 'supercritical', 'mixed'),
+});
+
+const memsMaterial = obj({
+  name: str(),
+  density: num(0),
+  youngsModulus: num(0),
+  poissonRatio: num(-1, 0.5),
+  thermalExpansion: num(),
+  conductivity: num(0),
+});
+
+const memsGeometry = obj({
+  type: oneOf('beam', 'plate', 'mass', 'spring', 'electrode', 'anchor'),
+  dimensions: obj({ length: num(0), width: num(0), thickness: num(0) }),
+  position: xyz,
+  rotation: obj({ rx: num(), ry: num(), rz: num() }),
+  material: memsMaterial,
+});
+
+const fabricationStep = obj({
+  id: str(),
+  type: oneOf('deposit', 'etch', 'pattern', 'release', 'bond', 'anneal'),
+  parameters: record(scalar),
+  duration: num(0),
+  temperature: num(0),
+  pressure: num(0),
+  coherenceImpact: num(),
+});
+
+const physiologicalSignal = (signalType: string) => obj({
+  arrayId: str(),
+  channelData: arrayOf(float64(), 512, 1),
+  sampleRate: num(1, 100000),
+  startTime: num(),
+  duration: num(0),
+  signalType: oneOf(signalType),
+});
+
+const oceanEnvironment = partial({
+  depth: num(0, 11000),
+  temperature: obj({ surface: num(), thermoclineDepth: num(0), thermoclineGradient: num(), bottomTemperature: num() }),
+  salinity: obj({ surface: num(0), haloclineDepth: num(0), bottomSalinity: num(0) }),
+  current: obj({
+    surface: obj({ speed: num(0), direction: num() }),
+    mid: obj({ speed: num(0), direction: num() }),
+    bottom: obj({ speed: num(0), direction: num() }),
+  }),
+  seaState: int(0, 9),
+  sedimentType: oneOf('sand', 'mud', 'rock', 'coral'),
+  turbidity: num(0),
+});
+
+const memoryType = oneOf('PHASE_CHANGE', 'RING_RESONATOR', 'BRAGG_GRATING', 'PHOTONIC_CRYSTAL', 'MACH_ZEHNDER', 'PLASMONIC');
+const sensorType = oneOf('SQUID', 'OPM', 'fluxgate', 'magnetoresistive');
+
+// ============================================================================
+// Operation table
+// ============================================================================
+
+export const OPERATION_SCHEMAS: Record<DARPASolicitation, Record<string, OperationParam[]>> = {
+  // BTO
+  'DARPA-RA-25-02-08': {},
+  'DARPA-RA-25-02-09': {
+    createComponent: [
+      param('name', str()),
+      param('type', oneOf('PROTEIN', 'RNA', 'DNA', 'SMALL_MOLECULE', 'POLYMER')),
+      param('properties', partial({
+        concentration: num(0),
+        molecularWeight: num(0),
+        radius: num(0),
+        charge: num(),
+        valency: int(0, 100),
+        partitionCoeff: num(0, 1),
+        sequence: obj({
+          sequence: str(10000),
+          length: int(0, 10000),
+          charge: num(),
+          hydropathy: num(-4.5, 4.5),
+          disorderPropensity: num(0, 1),
+          prionLikeDomains: int(0, 1000),
+        }),
+      })),
+    ],
+  },
+  'DARPA-RA-25-02-10': {
+    createMCGArray: [optional('numChannels', int(1, 512)), optional('sensorType', sensorType)],
+    createMEGArray: [optional('numChannels', int(1, 512)), optional('sensorType', sensorType)],
+    createWearableSensor: [],
+    analyzeCardiacState: [param('signal', physiologicalSignal('cardiac'))],
+    analyzeNeuralState: [param('signal', physiologicalSignal('neural'))],
+  },
+  'DARPA-RA-25-02-11': {
+    createMembrane: [param('materialName', str()), param('thickness', num(0)), param('area', num(0))],
+    simulateMembraneSeparation: [param('membraneId', str()), param('feed', processStream), param('permeatePressure', num(0))],
+    createAdsorbent: [param('materialName', str()), param('targetGases', arrayOf(str(), 50))],
+    simulatePSA: [
+      param('cycle', obj({
+        id: str(),
+        adsorbentId: str(),
+        steps: arrayOf(obj({
+          name: oneOf('pressurization', 'adsorption', 'depressurization', 'purge', 'equalization'),
+          duration: num(0),
+          pressure: num(0),
+          flowDirection: oneOf('forward', 'reverse'),
+        }), 20),
+        cycleTime: num(0),
+        productivity: num(0),
+        recovery: num(0, 100),
+        purity: num(0, 100),
+      })),
+      param('feed', processStream),
+      param('bedVolume', num(0)),
+    ],
+    createSeparationSystem: [
+      param('type', oneOf('membrane', 'adsorption', 'distillation', 'chromatography', 'extraction')),
+      param('feed', processStream),
+      param('targetComponent', str()),
+      param('targetRecovery', num(0, 1)),
+    ],
+    createProcessStream: [
+      param('composition', record(num(0), 50)),
+      param('flowRate', num(0)),
+      optional('temperature', num(0)),
+      optional('pressure', num(0)),
+      optional('phase', oneOf('gas', 'liquid', 'supercritical', 'mixed')),
+    ],
+  },
+  'DARPA-RA-25-02-12': {},
+
+  // I2O
+  'DARPA-RA-25-02-13': {},
+  'DARPA-RA-25-02-14': {
+    analyzeStability: [],
+  },
+  'DARPA-RA-25-02-16': {
+    createTheorem: [
+      param('name', str()),
+      param('statement', str(2000)),
+      param('hypotheses', arrayOf(str(2000), 50)),
+      param('domain', str()),
+    ],
+  },
+  'DARPA-RA-25-02-17': {
+    createSymbol: [
+      param('name', str()),
+      param('type', oneOf('OBJECT', 'LOCATION', 'ACTION', 'PROPERTY', 'RELATION', 'STATE')),
+      optional('properties', mapOf(scalar)),
+    ],
+    createPlan: [param('goal', str(1000)), param('symbols', mapOf(str()))],
+  },
+  'DARPA-RA-25-02-18': {},
+  'DARPA-RA-25-02-15': {
+    analyzeTaskAIFit: [param('taskId', str()), param('aiSystemId', str())],
+    analyzeWorkforceImpact: [param('occupationId', str())],
+    analyzeSector: [param('sectorName', str()), param('occupationIds', arrayOf(str(), 200))],
+  },
+
+  // MTO
+  'DARPA-RA-25-02-19': {
+    createMachine: [
+      param('type', oneOf('ROTARY_MOTOR', 'LINEAR_MOTOR', 'RIBOSOME', 'POLYMERASE', 'NANOFACTORY',
+        'TRANSPORTER', 'SWITCH', 'SENSOR')),
+      optional('position', xyz),
+    ],
+  },
+  'DARPA-RA-25-02-23': {
+    createCell: [param('type', memoryType), param('position', obj({ x: num(), y: num() }))],
+    createArray: [
+      param('name', str()),
+      param('type', memoryType),
+      param('rows', int(1, 64)),
+      param('columns', int(1, 64)),
+      optional('topology', oneOf('LINEAR', 'RING', 'MESH', 'TREE')),
+    ],
+  },
+  'DARPA-RA-25-02-20': {
+    createSite: [
+      param('name', str()),
+      param('coordinates', obj({ latitude: num(-90, 90), longitude: num(-180, 180), elevation: num() })),
+      optional('illumination', partial({
+        annualSunFraction: num(0, 1),
+        maxContinuousDark: num(0),
+        peakIrradiance: num(0),
+        solarAngleRange: tuple(num(-90, 90), num(-90, 90)),
+        earthVisibility: bool,
+      })),
+    ],
+    createEnergySystem: [
+      param('siteId', str()),
+      param('type', oneOf('solar', 'rtg', 'nuclear-thermal', 'thermoelectric', 'he3-fusion')),
+      param('targetPower', num(0)),
+    ],
+    simulate: [param('systemId', str()), optional('lunarDays', int(1, 24))],
+  },
+  'DARPA-RA-25-02-21': {
+    createCircuit: [
+      param('name', str()),
+      param('substrate', oneOf('sapphire', 'silicon', 'SiC', 'AlN', 'GaN-on-sapphire')),
+      param('wavelength', num(100, 400)),
+    ],
+    simulate: [param('circuitId', str()), param('inputWavelength', num(100, 400)), param('inputPower', num(0))],
+  },
+  'DARPA-RA-25-02-22': {
+    createSubstrate: [
+      param('config', obj({
+        id: str(),
+        material: oneOf('polyimide', 'silicone', 'liquid_crystal_elastomer', 'shape_memory_alloy', 'conductive_hydrogel'),
+        thickness_um: num(0),
+        thermal_conductivity: num(0),
+        dielectric_constant: num(0),
+        youngs_modulus_mpa: num(0),
+        max_strain_percent: num(0, 1000),
+        temperature_range: obj({ min_c: num(), max_c: num() }),
+      }, ['id', 'thickness_um', 'thermal_conductivity', 'dielectric_constant', 'youngs_modulus_mpa',
+        'max_strain_percent', 'temperature_range'])),
+    ],
+    createNetwork: [
+      param('config', obj({
+        package_ids: arrayOf(str(), 100, 1),
+        bus_voltage_v: num(0),
+        redundancy_level: int(0, 10),
+      }, ['redundancy_level'])),
+    ],
+  },
+  'DARPA-RA-25-02-24': {
+    simulateFlow: [param('chipId', str()), param('fluid_id', str()), param('inlet_flow_rates', mapOf(num(0)))],
+  },
+
+  // DSO
+  'DARPA-RA-25-02-01': {
+    createQubit: [
+      param('nucleus', obj({
+        Z: int(1, 130),
+        A: int(1, 300),
+        spin: num(0, 20),
+        parity: oneOf('+', '-'),
+        binding: num(0),
+      })),
+      optional('position', xyz),
+    ],
+  },
+  'DARPA-RA-25-02-02': {
+    createDiamond: [
+      param('apex', obj({ t: num(), x: num(), y: num(), z: num() })),
+      param('base', obj({ t: num(), x: num(), y: num(), z: num() })),
+      optional('initialState', obj({ real: num(), imag: num() })),
+    ],
+  },
+  'DARPA-RA-25-02-03': {
+    createCantilever: [param('length', num(0)), param('width', num(0)), param('thickness', num(0)), optional('material', str())],
+    createProofMass: [param('length', num(0)), param('width', num(0)), param('thickness', num(0)), optional('material', str())],
+    createFoldedSpring: [
+      param('beamLength', num(0)),
+      param('beamWidth', num(0)),
+      param('thickness', num(0)),
+      param('folds', int(1, 50)),
+      optional('material', str()),
+    ],
+    createCombDrive: [
+      param('fingerLength', num(0)),
+      param('fingerWidth', num(0)),
+      param('fingerGap', num(0)),
+      param('numFingers', int(1, 500)),
+      param('thickness', num(0)),
+      optional('material', str()),
+    ],
+    analyzeResonatorModes: [param('geometry', memsGeometry), optional('numModes', int(1, 20))],
+    createDRIEStep: [param('depth', num(0)), param('aspectRatio', num(0)), optional('material', str())],
+    createVaporHFRelease: [param('oxidThickness', num(0))],
+    createWaferBond: [param('bondType', oneOf('fusion', 'anodic', 'eutectic', 'adhesive')), param('temperature', num(0))],
+    createDevice: [
+      param('name', str()),
+      param('geometries', arrayOf(memsGeometry, 100)),
+      param('fabrication', arrayOf(fabricationStep, 100)),
+    ],
+  },
+  'DARPA-RA-25-02-05': {
+    createAgent: [
+      param('policyType', oneOf('deterministic', 'stochastic', 'learned', 'evolutionary')),
+      param('stateDim', int(1, 64)),
+      param('actionDim', int(1, 64)),
+    ],
+    createSystem: [
+      param('numAgents', int(1, 100)),
+      param('topologyType', oneOf('complete', 'ring', 'star', 'random', 'scale-free', 'small-world')),
+      param('dynamicsType', oneOf('continuous', 'discrete', 'hybrid')),
+    ],
+    simulate: [param('systemId', str()), param('steps', int(1, 1000)), optional('dt', num(1e-6, 1))],
+    analyzeStability: [param('systemId', str())],
+    analyzeGameTheory: [param('systemId', str())],
+  },
+  'DARPA-RA-25-02-06': {
+    createProbe: [
+      param('type', oneOf('single', 'double', 'triple', 'emissive')),
+      param('geometry', obj({
+        shape: oneOf('cylindrical', 'spherical', 'planar'),
+        length: num(0),
+        radius: num(0),
+        area: num(0),
+      })),
+      optional('material', str()),
+    ],
+    createCylindricalProbe: [param('length', num(0)), param('radius', num(0)), optional('material', str())],
+    analyzeIVCharacteristic: [
+      param('iv', obj({
+        probeId: str(),
+        voltage: arrayOf(num(), 10000, 2),
+        current: arrayOf(num(), 10000, 2),
+        derivative: arrayOf(num(), 10000),
+        electronCurrent: arrayOf(num(), 10000),
+        ionCurrent: arrayOf(num(), 10000),
+        timestamp: num(),
+        uncertainty: obj({
+          voltageUncertainty: num(0),
+          currentUncertainty: num(0),
+          systematicBias: num(),
+          randomNoise: num(0),
+        }),
+      })),
+    ],
+    analyzeEmissionSpectrum: [
+      param('spectrum', obj({
+        species: arrayOf(obj({
+          element: str(),
+          wavelength: num(0),
+          intensity: num(0),
+          transitionInfo: obj({
+            upperLevel: str(),
+            lowerLevel: str(),
+            oscillatorStrength: num(0),
+            statisticalWeight: num(0),
+            energyDifference: num(),
+          }),
+        }), 500),
+      })),
+    ],
+    createExperiment: [param('name', str())],
+  },
+  'DARPA-RA-25-02-07': {
+    createAcousticChannel: [
+      param('txPosition', xyz),
+      param('rxPosition', xyz),
+      param('frequency', num(0)),
+      param('power', num(0)),
+      optional('environment', oceanEnvironment),
+    ],
+    createOpticalChannel: [
+      param('txPosition', xyz),
+      param('rxPosition', xyz),
+      param('wavelength', num(200, 1000)),
+      param('power', num(0)),
+      optional('environment', oceanEnvironment),
+    ],
+    simulateAcousticComm: [param('channelId', str()), param('dataRate', num(0)), param('duration', num(0))],
+    simulateOpticalComm: [param('channelId', str()), param('dataRate', num(0)), param('duration', num(0))],
+  },
+  'DARPA-RA-25-02-04': {
+    createPatient: [
+      param('demographics', obj({
+        age: int(0, 130),
+        sex: oneOf('male', 'female', 'other'),
+        weight: num(0),
+        height: num(0),
+        ethnicity: str(),
+      }, ['ethnicity'])),
+      optional('medicalHistory', partial({
+        tbiHistory: arrayOf(obj({
+          date: num(),
+          severity: oneOf('mild', 'moderate', 'severe'),
+          mechanism: oneOf('blast', 'impact', 'acceleration', 'penetrating'),
+          locLossDuration: num(0),
+          ptaDuration: num(0),
+          gcsScore: int(3, 15),
+        }), 100),
+        ptsdDiagnosis: bool,
+        anxietyDisorder: bool,
+        depressionDiagnosis: bool,
+        medications: arrayOf(obj({ name: str(), class: str(), dosage: str(), startDate: num() }), 100),
+        substanceUse: obj({
+          alcohol: oneOf('none', 'moderate', 'heavy'),
+          tobacco: bool,
+          cannabis: bool,
+          other: arrayOf(str(), 50),
+        }),
+        sleepDisorder: bool,
+      })),
+    ],
+    analyzeBiomarkers: [param('patientId', str()), param('sampleId', str())],
+    analyzeTrend: [param('patientId', str()), param('biomarkerName', str())],
+    createStudy: [param('name', str()), param('patientIds', arrayOf(str(), 1000)), param('isExposureGroup', bool)],
+  },
+  'DARPA-DSO-SCIMITAR': {
+    createManifold: [
+      param('id', str()),
+      param('observedState', obj({
+        position: tuple(num(), num(), num()),
+        orientation: obj({ w: num(), x: num(), y: num(), z: num() }),
+        entropy: num(0),
+      })),
+    ],
+    analyzeSubstrate: [
+      param('id', str()),
+      param('parameters', obj({
+        frequency_spectrum: arrayOf(num(), 10000, 1),
+        material_tensor: arrayOf(arrayOf(num(), 16, 1), 16, 1),
+        temperature_k: num(0),
+      })),
+    ],
+  },
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function describe(schema: ArgSchema): string {
+  switch (schema.type) {
+    case 'string':
+      return schema.enum ? `one of ${schema.enum.join(', ')}` : `a string of at most ${schema.maxLength} characters`;
+    case 'number': {
+      const kind = schema.integer ? 'an integer' : 'a number';
+      if (schema.min !== undefined && schema.max !== undefined) return `${kind} from ${schema.min} to ${schema.max}`;
+      if (schema.min !== undefined) return `${kind} >= ${schema.min}`;
+      if (schema.max !== undefined) return `${kind} <= ${schema.max}`;
+      return kind;
+    }
+    case 'boolean':
+      return 'a boolean';
+    case 'scalar':
+      return 'a string, number or boolean';
+    case 'array':
+      return `an array of ${schema.minItems || 0} to ${schema.maxItems} items`;
+    case 'tuple':
+      return `an array of ${schema.items.length} items`;
+    case 'float64array':
+      return `an array of at most ${schema.maxItems} numbers`;
+    case 'object':
+    case 'record':
+    case 'map':
+      return 'an object';
+  }
+}
+
+function coerceEntries(
+  value: unknown,
+  path: string,
+  values: ArgSchema,
+  maxKeys: number
+): Array<[string, unknown]> | string {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return `${path} must be an object`;
+  const keys = Object.keys(value);
+  if (keys.length > maxKeys) return `${path} must have at most ${maxKeys} keys`;
+
+  const entries: Array<[string, unknown]> = [];
+  for (const key of keys) {
+    if (FORBIDDEN_KEYS.includes(key) || key.length > DEFAULT_MAX_LENGTH) return `${path} has an invalid key`;
+    const coerced = coerce((value as Record<string, unknown>)[key], `${path}.${key}`, values);
+    if (typeof coerced === 'string') return coerced;
+    entries.push([key, coerced.value]);
+  }
+  return entries;
+}
+
+// Returns the converted value, or an error message naming the offending path
+function coerce(value: unknown, path: string, schema: ArgSchema): { value: unknown } | string {
+  const invalid = `${path} must be ${describe(schema)}`;
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return invalid;
+      if (schema.enum ? !schema.enum.includes(value) : value.length > (schema.maxLength ?? DEFAULT_MAX_LENGTH)) {
+        return invalid;
+      }
+      return { value };
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return invalid;
+      if (schema.integer && !Number.isInteger(value)) return invalid;
+      if ((schema.min !== undefined && value < schema.min) || (schema.max !== undefined && value > schema.max)) {
+        return invalid;
+      }
+      return { value };
+
+    case 'boolean':
+      return typeof value === 'boolean' ? { value } : invalid;
+
+    case 'scalar':
+      if (typeof value === 'string') return value.length > DEFAULT_MAX_LENGTH ? invalid : { value };
+      return typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value)) ? { value } : invalid;
+
+    case 'array': {
+      if (!Array.isArray(value) || value.length < (schema.minItems || 0) || value.length > (schema.maxItems ?? DEFAULT_MAX_ITEMS)) {
+        return invalid;
+      }
+      const items: unknown[] = [];
+      for (let i = 0; i < value.length; i++) {
+        const item = coerce(value[i], `${path}[${i}]`, schema.items);
+        if (typeof item === 'string') return item;
+        items.push(item.value);
+      }
+      return { value: items };
+    }
+
+    case 'tuple': {
+      if (!Array.isArray(value) || value.length !== schema.items.length) return invalid;
+      const items: unknown[] = [];
+      for (let i = 0; i < value.length; i++) {
+        const item = coerce(value[i], `${path}[${i}]`, schema.items[i]);
+        if (typeof item === 'string') return item;
+        items.push(item.value);
+      }
+      return { value: items };
+    }
+
+    case 'float64array': {
+      if (!Array.isArray(value) || value.length > (schema.maxItems ?? DEFAULT_MAX_ITEMS)) return invalid;
+      if (!value.every(item => typeof item === 'number' && Number.isFinite(item))) return invalid;
+      return { value: Float64Array.from(value as number[]) };
+    }
+
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return `${path} must be an object`;
+      const input = value as Record<string, unknown>;
+      const out: Record<string, unknown> = {};
+      for (const [field, fieldSchema] of Object.entries(schema.fields)) {
+        if (input[field] === undefined || input[field] === null) {
+          if (schema.optional?.includes(field)) continue;
+          return `${path}.${field} is required`;
+        }
+        const coerced = coerce(input[field], `${path}.${field}`, fieldSchema);
+        if (typeof coerced === 'string') return coerced;
+        out[field] = coerced.value;
+      }
+      return { value: out };
+    }
+
+    case 'record': {
+      const entries = coerceEntries(value, path, schema.values, schema.maxKeys ?? DEFAULT_MAX_KEYS);
+      if (typeof entries === 'string') return entries;
+      const out: Record<string, unknown> = {};
+      entries.forEach(([key, entry]) => { out[key] = entry; });
+      return { value: out };
+    }
+
+    case 'map': {
+      const entries = coerceEntries(value, path, schema.values, schema.maxKeys ?? DEFAULT_MAX_KEYS);
+      if (typeof entries === 'string') return entries;
+      return { value: new Map(entries) };
+    }
+  }
+}
+
+/**
+ * Check positional arguments against an operation's parameters; returns an
+ * error message or the arguments converted to what the engine expects
+ */
+export function validateOperationArgs(params: OperationParam[], args: unknown[]): unknown[] | string {
+  const required = params.filter(p => !p.optional).length;
+  if (args.length < required) {
+    return `Expected at least ${required} argument(s) (${params.map(p => p.name).join(', ')}), received ${args.length}`;
+  }
+  if (args.length > params.length) {
+    return `Expected at most ${params.length} argument(s), received ${args.length}`;
+  }
+
+  const converted: unknown[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const { name, schema, optional: isOptional } = params[i];
+    if (args[i] === null && isOptional) {
+      converted.push(undefined);
+      continue;
+    }
+    const result = coerce(args[i], name, schema);
+    if (typeof result === 'string') return `Invalid argument ${i}: ${result}`;
+    converted.push(result.value);
+  }
+  return converted;
+}
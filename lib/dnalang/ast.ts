@@ -0,0 +1,193 @@
+/**
+ * DNA-Lang AST
+ * Typed syntax tree for ORGANISM sources, with source spans on every node
+ */
+
+export interface Position {
+  offset: number;                  // 0-based character offset
+  line: number;                    // 1-based
+  column: number;                  // 1-based
+}
+
+export interface Span {
+  start: Position;
+  end: Position;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface Diagnostic {
+  code: string;
+  severity: DiagnosticSeverity;
+  message: string;
+  line: number;
+  column: number;
+  span: Span;
+}
+
+// ===== Values =====
+
+export interface StringValue {
+  kind: 'string';
+  value: string;
+  span: Span;
+}
+
+export interface NumberValue {
+  kind: 'number';
+  value: number;
+  raw: string;
+  span: Span;
+}
+
+export interface BooleanValue {
+  kind: 'boolean';
+  value: boolean;
+  span: Span;
+}
+
+// Bare words and dotted paths, e.g. `input_received`, `AURA.observe`
+export interface IdentifierValue {
+  kind: 'identifier';
+  name: string;
+  span: Span;
+}
+
+// Anything longer kept as source text, e.g. `phi >= 0.7734`
+export interface ExpressionValue {
+  kind: 'expression';
+  text: string;
+  span: Span;
+}
+
+export interface ObjectValue {
+  kind: 'object';
+  properties: Property[];
+  span: Span;
+}
+
+export interface ArrayValue {
+  kind: 'array';
+  items: Value[];
+  span: Span;
+}
+
+export type Value =
+  | StringValue
+  | NumberValue
+  | BooleanValue
+  | IdentifierValue
+  | ExpressionValue
+  | ObjectValue
+  | ArrayValue;
+
+export interface Property {
+  key: string;
+  keySpan: Span;
+  value: Value;
+  span: Span;
+}
+
+// ===== Blocks =====
+
+export type PropertyBlockName = 'META' | 'DNA' | 'METRICS' | 'AGENTS' | 'CCCE';
+
+export const PROPERTY_BLOCK_NAMES: PropertyBlockName[] = ['META', 'DNA', 'METRICS', 'AGENTS', 'CCCE'];
+
+export interface PropertyBlock {
+  kind: PropertyBlockName;
+  properties: Property[];
+  span: Span;
+}
+
+export interface GeneNode {
+  kind: 'GENE';
+  name: string;
+  nameSpan: Span;
+  properties: Property[];
+  body: string;                    // source text between the braces
+  span: Span;
+}
+
+export interface GenomeNode {
+  kind: 'GENOME';
+  properties: Property[];          // e.g. IDENTITY
+  genes: GeneNode[];
+  span: Span;
+}
+
+export interface ActNode {
+  kind: 'ACT';
+  name: string;
+  nameSpan: Span;
+  params: string[];
+  body: string;                    // statements are kept as source text
+  bodySpan: Span;
+  span: Span;
+}
+
+export interface OrganismNode {
+  kind: 'ORGANISM';
+  name: string;
+  nameSpan: Span;
+  meta?: PropertyBlock;
+  dna?: PropertyBlock;
+  metrics?: PropertyBlock;
+  genome?: GenomeNode;
+  agents?: PropertyBlock;
+  ccce?: PropertyBlock;
+  acts: ActNode[];
+  span: Span;
+}
+
+export interface ParseResult {
+  success: boolean;                // no error diagnostics
+  ast: OrganismNode | null;
+  diagnostics: Diagnostic[];
+}
+
+// ===== Helpers =====
+
+export function findProperty(properties: Property[] | undefined, key: string): Property | undefined {
+  return properties?.find(property => property.key === key);
+}
+
+export function getNumberProperty(properties: Property[] | undefined, key: string): number | undefined {
+  const value = findProperty(properties, key)?.value;
+  return value?.kind === 'number' ? value.value : undefined;
+}
+
+/**
+ * Plain text of a value as written, for strings the unquoted contents
+ */
+export function valueToText(value: Value): string {
+  switch (value.kind) {
+    case 'string': return value.value;
+    case 'number': return value.raw;
+    case 'boolean': return String(value.value);
+    case 'identifier': return value.name;
+    case 'expression': return value.text;
+    case 'object': return `{ ${value.properties.map(p => `${p.key}: ${valueToText(p.value)}`).join(', ')} }`;
+    case 'array': return `[${value.items.map(valueToText).join(', ')}]`;
+  }
+}
+
+export interface OrganismMetrics {
+  lambda?: number;
+  phi?: number;
+  gamma?: number;
+  xi?: number;
+}
+
+/**
+ * METRICS values; `phi_iit` is the canonical key, `phi` is accepted
+ */
+export function getOrganismMetrics(organism: OrganismNode): OrganismMetrics {
+  const properties = organism.metrics?.properties;
+  return {
+    lambda: getNumberProperty(properties, 'lambda'),
+    phi: getNumberProperty(properties, 'phi_iit') ?? getNumberProperty(properties, 'phi'),
+    gamma: getNumberProperty(properties, 'gamma'),
+    xi: getNumberProperty(properties, 'xi')
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * DNA-Lang Structural Diff
+ * Compares two organisms by their syntax trees rather than their text
+ *
+ * GENEs and ACTs are matched by name, block properties by key. Values are
+ * compared as written, so reformatting or comments alone produce no change;
+ * ACT bodies are compared with whitespace collapsed.
+ */
+
+import { OrganismMetrics, OrganismNode, Property, getOrganismMetrics, valueToText } from './ast';
+
+export interface ValueChange {
+  key: string;
+  from: string | null;             // null when the key was added
+  to: string | null;               // null when the key was removed
+}
+
+export interface MetricChange {
+  metric: keyof OrganismMetrics;
+  from: number | null;
+  to: number | null;
+  delta: number | null;
+}
+
+export interface NamedChanges {
+  name: string;
+  changes: ValueChange[];
+}
+
+export interface OrganismDiff {
+  identical: boolean;
+  name: { from: string; to: string } | null;
+  metrics: MetricChange[];
+  blocks: { added: string[]; removed: string[]; changed: NamedChanges[] };
+  genes: { added: string[]; removed: string[]; changed: NamedChanges[] };
+  acts: { added: string[]; removed: string[]; changed: string[] };
+}
+
+const DIFFED_BLOCKS = ['meta', 'dna', 'agents', 'ccce'] as const;
+const METRIC_KEYS: Array<keyof OrganismMetrics> = ['lambda', 'phi', 'gamma', 'xi'];
+
+function diffProperties(from: Property[], to: Property[]): ValueChange[] {
+  const changes: ValueChange[] = [];
+  const after = new Map<string, string>();
+  to.forEach(property => after.set(property.key, valueToText(property.value)));
+
+  from.forEach(property => {
+    const before = valueToText(property.value);
+    if (!after.has(property.key)) {
+      changes.push({ key: property.key, from: before, to: null });
+    } else if (after.get(property.key) !== before) {
+      changes.push({ key: property.key, from: before, to: after.get(property.key)! });
+    }
+    after.delete(property.key);
+  });
+  after.forEach((value, key) => changes.push({ key, from: null, to: value }));
+
+  return changes;
+}
+
+function diffNamed<T extends { name: string }>(from: T[], to: T[]): { added: string[]; removed: string[]; common: Array<[T, T]> } {
+  const fromNames = new Set(from.map(item => item.name));
+  const toNames = new Set(to.map(item => item.name));
+  return {
+    added: to.filter(item => !fromNames.has(item.name)).map(item => item.name),
+    removed: from.filter(item => !toNames.has(item.name)).map(item => item.name),
+    common: from
+      .filter(item => toNames.has(item.name))
+      .map(item => [item, to.find(other => other.name === item.name)!] as [T, T])
+  };
+}
+
+function normalizeBody(body: string): string {
+  return body.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Structural differences going from one organism to another
+ */
+export function diffOrganisms(from: OrganismNode, to: OrganismNode): OrganismDiff {
+  const fromMetrics = getOrganismMetrics(from);
+  const toMetrics = getOrganismMetrics(to);
+  const metrics: MetricChange[] = METRIC_KEYS
+    .filter(metric => fromMetrics[metric] !== toMetrics[metric])
+    .map(metric => {
+      const before = fromMetrics[metric] ?? null;
+      const after = toMetrics[metric] ?? null;
+      return {
+        metric,
+        from: before,
+        to: after,
+        delta: before !== null && after !== null ? Math.round((after - before) * 1e6) / 1e6 : null
+      };
+    });
+
+  const blocks: OrganismDiff['blocks'] = { added: [], removed: [], changed: [] };
+  DIFFED_BLOCKS.forEach(key => {
+    const before = from[key];
+    const after = to[key];
+    const name = key.toUpperCase();
+    if (!before && after) blocks.added.push(name);
+    else if (before && !after) blocks.removed.push(name);
+    else if (before && after) {
+      const changes = diffProperties(before.properties, after.properties);
+      if (changes.length > 0) blocks.changed.push({ name, changes });
+    }
+  });
+  if (!from.genome && to.genome) blocks.added.push('GENOME');
+  if (from.genome && !to.genome) blocks.removed.push('GENOME');
+  if (!from.metrics && to.metrics) blocks.added.push('METRICS');
+  if (from.metrics && !to.metrics) blocks.removed.push('METRICS');
+
+  const geneMatch = diffNamed(from.genome?.genes || [], to.genome?.genes || []);
+  const genes: OrganismDiff['genes'] = {
+    added: geneMatch.added,
+    removed: geneMatch.removed,
+    changed: geneMatch.common
+      .map(([before, after]) => ({ name: before.name, changes: diffProperties(before.properties, after.properties) }))
+      .filter(gene => gene.changes.length > 0)
+  };
+
+  const actMatch = diffNamed(from.acts, to.acts);
+  const acts: OrganismDiff['acts'] = {
+    added: actMatch.added,
+    removed: actMatch.removed,
+    changed: actMatch.common
+      .filter(([before, after]) =>
+        before.params.join(',') !== after.params.join(',') || normalizeBody(before.body) !== normalizeBody(after.body)
+      )
+      .map(([before]) => before.name)
+  };
+
+  const name = from.name !== to.name ? { from: from.name, to: to.name } : null;
+  const identical = !name && metrics.length === 0 &&
+    [blocks, genes, acts].every(section => section.added.length === 0 && section.removed.length === 0 && section.changed.length === 0);
+
+  return { identical, name, metrics, blocks, genes, acts };
+}
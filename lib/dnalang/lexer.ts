@@ -0,0 +1,186 @@
+/**
+ * DNA-Lang Lexer
+ * Turns ORGANISM source into tokens with positions
+ *
+ * Comments (`//`, `/* *\/`) and markdown code fences, which models like to
+ * wrap their output in, are skipped. Characters the grammar has no use for
+ * become `unknown` tokens rather than errors, since ACT bodies are free-form
+ * and may contain them; the parser reports them where they matter.
+ */
+
+import { Diagnostic, Position, Span } from './ast';
+
+export type TokenType =
+  | 'identifier'
+  | 'string'
+  | 'number'
+  | 'operator'
+  | 'lbrace'
+  | 'rbrace'
+  | 'lparen'
+  | 'rparen'
+  | 'lbracket'
+  | 'rbracket'
+  | 'colon'
+  | 'comma'
+  | 'semicolon'
+  | 'unknown'
+  | 'eof';
+
+export interface Token {
+  type: TokenType;
+  text: string;                    // raw source text
+  value: string;                   // unescaped contents for strings, else text
+  span: Span;
+}
+
+export interface LexResult {
+  tokens: Token[];
+  diagnostics: Diagnostic[];
+}
+
+const PUNCTUATION: Record<string, TokenType> = {
+  '{': 'lbrace',
+  '}': 'rbrace',
+  '(': 'lparen',
+  ')': 'rparen',
+  '[': 'lbracket',
+  ']': 'rbracket',
+  ':': 'colon',
+  ',': 'comma',
+  ';': 'semicolon'
+};
+
+// Longest first so `>=` wins over `>`
+const OPERATORS = ['->', '>=', '<=', '==', '!=', '&&', '||', '>', '<', '=', '+', '-', '*', '/', '%', '^', '!', '.', '?', '|', '&'];
+
+const IDENTIFIER_START = /[A-Za-z_\u00C0-\uFFFF]/;
+const IDENTIFIER_PART = /[\w\u00C0-\uFFFF]/;
+const NUMBER = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', "'": "'", '\\': '\\' };
+
+export function tokenize(source: string): LexResult {
+  const tokens: Token[] = [];
+  const diagnostics: Diagnostic[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const position = (): Position => ({ offset, line, column });
+
+  const advance = (count: number = 1) => {
+    for (let i = 0; i < count && offset < source.length; i++) {
+      if (source[offset] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+
+  const report = (code: string, message: string, span: Span) => {
+    diagnostics.push({ code, severity: 'error', message, line: span.start.line, column: span.start.column, span });
+  };
+
+  const push = (type: TokenType, start: Position, value?: string) => {
+    const text = source.slice(start.offset, offset);
+    tokens.push({ type, text, value: value ?? text, span: { start, end: position() } });
+  };
+
+  while (offset < source.length) {
+    const char = source[offset];
+    const rest = source.slice(offset, offset + 3);
+
+    // Whitespace
+    if (/\s/.test(char)) {
+      advance();
+      continue;
+    }
+
+    // Markdown code fence lines
+    if (rest === '```' && (column === 1 || /^\s*$/.test(source.slice(source.lastIndexOf('\n', offset - 1) + 1, offset)))) {
+      while (offset < source.length && source[offset] !== '\n') advance();
+      continue;
+    }
+
+    // Comments
+    if (char === '/' && source[offset + 1] === '/') {
+      while (offset < source.length && source[offset] !== '\n') advance();
+      continue;
+    }
+    if (char === '/' && source[offset + 1] === '*') {
+      const start = position();
+      const end = source.indexOf('*/', offset + 2);
+      advance(end === -1 ? source.length - offset : end + 2 - offset);
+      if (end === -1) report('DNA003', 'Unterminated block comment', { start, end: position() });
+      continue;
+    }
+
+    const start = position();
+
+    // Strings
+    if (char === '"' || char === "'") {
+      let value = '';
+      advance();
+      let terminated = false;
+      while (offset < source.length) {
+        const current = source[offset];
+        if (current === char) {
+          advance();
+          terminated = true;
+          break;
+        }
+        if (current === '\n') break;
+        if (current === '\\' && offset + 1 < source.length) {
+          const escaped = source[offset + 1];
+          value += ESCAPES[escaped] ?? escaped;
+          advance(2);
+          continue;
+        }
+        value += current;
+        advance();
+      }
+      if (!terminated) report('DNA002', 'Unterminated string literal', { start, end: position() });
+      push('string', start, value);
+      continue;
+    }
+
+    // Numbers
+    if (/\d/.test(char) || (char === '.' && /\d/.test(source[offset + 1] || ''))) {
+      const number = source.slice(offset, offset + 64).match(NUMBER);
+      advance(number ? number[0].length : 1);
+      push('number', start);
+      continue;
+    }
+
+    // Identifiers and keywords
+    if (IDENTIFIER_START.test(char)) {
+      advance();
+      while (offset < source.length && IDENTIFIER_PART.test(source[offset])) advance();
+      push('identifier', start);
+      continue;
+    }
+
+    if (PUNCTUATION[char]) {
+      advance();
+      push(PUNCTUATION[char], start);
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, offset));
+    if (operator) {
+      advance(operator.length);
+      push('operator', start);
+      continue;
+    }
+
+    advance();
+    push('unknown', start);
+  }
+
+  tokens.push({ type: 'eof', text: '', value: '', span: { start: position(), end: position() } });
+  return { tokens, diagnostics };
+}
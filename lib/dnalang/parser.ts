@@ -0,0 +1,566 @@
+/**
+ * DNA-Lang Parser
+ * Recursive-descent parser for the ORGANISM grammar
+ *
+ *   organism  := ORGANISM name '{' block* '}'
+ *   block     := (META | DNA | METRICS | AGENTS | CCCE) ':'? '{' property* '}'
+ *              | GENOME '{' (property | gene)* '}'
+ *              | ACT name ('(' params ')')? '{' statements '}'
+ *   gene      := GENE name ':'? '{' property* '}'
+ *   property  := key ':' value | key '{' property* '}'
+ *   value     := string | number | boolean | path | object | array | expression
+ *
+ * Properties are separated by newlines, commas or semicolons. A value that
+ * runs on past its first token on the same line (`phi >= 0.7734`) is kept
+ * as an expression. ACT statements are kept as source text.
+ *
+ * The parser recovers from errors so one typo does not hide the rest of the
+ * organism; every problem is reported as a diagnostic with line and column.
+ * Prose before or after the organism (common in model output) is a warning.
+ */
+
+import {
+  ActNode,
+  Diagnostic,
+  DiagnosticSeverity,
+  GeneNode,
+  GenomeNode,
+  OrganismNode,
+  ParseResult,
+  Property,
+  PropertyBlock,
+  PropertyBlockName,
+  PROPERTY_BLOCK_NAMES,
+  Span,
+  Value
+} from './ast';
+import { Token, TokenType, tokenize } from './lexer';
+
+const BLOCK_FIELDS: Record<PropertyBlockName, 'meta' | 'dna' | 'metrics' | 'agents' | 'ccce'> = {
+  META: 'meta',
+  DNA: 'dna',
+  METRICS: 'metrics',
+  AGENTS: 'agents',
+  CCCE: 'ccce'
+};
+
+// Tokens that end a value
+const VALUE_TERMINATORS: TokenType[] = ['comma', 'semicolon', 'rbrace', 'rbracket', 'eof'];
+
+// Objects and arrays nested deeper than this are skipped, not recursed into
+const MAX_NESTING_DEPTH = 32;
+
+function describe(token: Token): string {
+  if (token.type === 'eof') return 'end of input';
+  if (token.type === 'string') return `string "${token.value}"`;
+  return `'${token.text}'`;
+}
+
+class Parser {
+  private pos = 0;
+  private depth = 0;
+  readonly diagnostics: Diagnostic[] = [];
+
+  constructor(private source: string, private tokens: Token[]) {}
+
+  // ===== Token helpers =====
+
+  private peek(ahead: number = 0): Token {
+    return this.tokens[Math.min(this.pos + ahead, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.type === 'identifier' && token.text === keyword;
+  }
+
+  private report(severity: DiagnosticSeverity, code: string, message: string, span: Span): void {
+    this.diagnostics.push({ code, severity, message, line: span.start.line, column: span.start.column, span });
+  }
+
+  private expect(type: TokenType, what: string, context: string): Token | null {
+    const token = this.peek();
+    if (token.type === type) return this.next();
+    this.report('error', 'DNA012', `Expected ${what} ${context}, found ${describe(token)}`, token.span);
+    return null;
+  }
+
+  private spanFrom(start: Token, end: Token): Span {
+    return { start: start.span.start, end: end.span.end };
+  }
+
+  private previous(): Token {
+    return this.tokens[Math.max(0, this.pos - 1)];
+  }
+
+  // Skip the rest of the current line, stopping before a closing brace
+  private skipLine(line: number): void {
+    while (this.peek().type !== 'eof' && this.peek().type !== 'rbrace' && this.peek().span.start.line === line) {
+      this.skipToken();
+    }
+  }
+
+  // Skip one token, or a whole balanced group when it opens one
+  private skipToken(): void {
+    const token = this.next();
+    const close: Partial<Record<TokenType, TokenType>> = { lbrace: 'rbrace', lparen: 'rparen', lbracket: 'rbracket' };
+    const closing = close[token.type];
+    if (!closing) return;
+
+    let depth = 1;
+    while (depth > 0 && this.peek().type !== 'eof') {
+      const inner = this.next();
+      if (inner.type === token.type) depth++;
+      else if (inner.type === closing) depth--;
+    }
+  }
+
+  // Closing brace of a block; reports the unclosed opener at end of input
+  private closeBlock(opener: Token, name: string): Token {
+    if (this.peek().type === 'rbrace') return this.next();
+    this.report('error', 'DNA013', `Missing '}' to close ${name}`, opener.span);
+    return this.previous();
+  }
+
+  // ===== Organism =====
+
+  parseOrganism(): OrganismNode | null {
+    const first = this.peek();
+    if (first.type === 'eof') {
+      this.report('error', 'DNA032', 'Source is empty', first.span);
+      return null;
+    }
+
+    // Tolerate prose ahead of the organism
+    let index = this.pos;
+    while (this.tokens[index].type !== 'eof' && !this.isKeyword(this.tokens[index], 'ORGANISM')) index++;
+    if (this.tokens[index].type === 'eof') {
+      this.report('error', 'DNA010', 'Expected an ORGANISM declaration', first.span);
+      return null;
+    }
+    if (index > this.pos) {
+      this.report('warning', 'DNA015', 'Ignoring text before the ORGANISM declaration', this.spanFrom(first, this.tokens[index - 1]));
+      this.pos = index;
+    }
+
+    const keyword = this.next();
+    const nameToken = this.peek();
+    let name = '';
+    if (nameToken.type === 'identifier') {
+      name = this.next().text;
+    } else {
+      this.report('error', 'DNA011', `Expected an organism name after ORGANISM, found ${describe(nameToken)}`, nameToken.span);
+    }
+
+    const organism: OrganismNode = {
+      kind: 'ORGANISM',
+      name,
+      nameSpan: nameToken.span,
+      acts: [],
+      span: keyword.span
+    };
+
+    const open = this.expect('lbrace', "'{'", `to open ORGANISM ${name}`);
+    if (!open) return organism;
+
+    while (this.peek().type !== 'rbrace' && this.peek().type !== 'eof') {
+      this.parseOrganismMember(organism);
+    }
+
+    const close = this.closeBlock(open, `ORGANISM ${name}`);
+    organism.span = this.spanFrom(keyword, close);
+
+    const trailing = this.peek();
+    if (trailing.type !== 'eof') {
+      const last = this.tokens[this.tokens.length - 2];
+      this.report('warning', 'DNA031', 'Ignoring text after the ORGANISM declaration', this.spanFrom(trailing, last));
+    }
+
+    return organism;
+  }
+
+  private parseOrganismMember(organism: OrganismNode): void {
+    const token = this.peek();
+
+    if (token.type !== 'identifier') {
+      this.report('error', 'DNA014', `Unexpected ${describe(token)} in ORGANISM body`, token.span);
+      this.skipToken();
+      return;
+    }
+
+    if ((PROPERTY_BLOCK_NAMES as string[]).includes(token.text)) {
+      const block = this.parsePropertyBlock(token.text as PropertyBlockName);
+      if (!block) return;
+      const field = BLOCK_FIELDS[block.kind];
+      if (organism[field]) {
+        this.report('warning', 'DNA021', `Duplicate ${block.kind} block; the first one is used`, block.span);
+      } else {
+        organism[field] = block;
+      }
+      return;
+    }
+
+    switch (token.text) {
+      case 'GENOME': {
+        const genome = this.parseGenome();
+        if (!genome) return;
+        if (organism.genome) {
+          this.report('warning', 'DNA021', 'Duplicate GENOME block; its genes are merged into the first', genome.span);
+          organism.genome.genes.push(...genome.genes);
+          organism.genome.properties.push(...genome.properties);
+        } else {
+          organism.genome = genome;
+        }
+        return;
+      }
+
+      case 'GENE': {
+        const gene = this.parseGene();
+        if (!gene) return;
+        this.report('warning', 'DNA023', `GENE ${gene.name} should be inside GENOME`, gene.nameSpan);
+        if (!organism.genome) {
+          organism.genome = { kind: 'GENOME', properties: [], genes: [], span: gene.span };
+        }
+        organism.genome.genes.push(gene);
+        return;
+      }
+
+      case 'ACT': {
+        const act = this.parseAct();
+        if (act) organism.acts.push(act);
+        return;
+      }
+
+      default:
+        this.report('warning', 'DNA020', `Unknown block ${token.text} is ignored`, token.span);
+        this.next();
+        if (this.peek().type === 'colon') this.next();
+        if (this.peek().type === 'lbrace') this.skipToken();
+        else this.skipLine(token.span.start.line);
+    }
+  }
+
+  // ===== Blocks =====
+
+  private parsePropertyBlock(kind: PropertyBlockName): PropertyBlock | null {
+    const keyword = this.next();
+    if (this.peek().type === 'colon') this.next();
+
+    const open = this.expect('lbrace', "'{'", `to open ${kind}`);
+    if (!open) {
+      this.skipLine(keyword.span.start.line);
+      return null;
+    }
+
+    const properties = this.parseProperties(open, kind);
+    return { kind, properties, span: this.spanFrom(keyword, this.previous()) };
+  }
+
+  private parseGenome(): GenomeNode | null {
+    const keyword = this.next();
+    if (this.peek().type === 'colon') this.next();
+
+    const open = this.expect('lbrace', "'{'", 'to open GENOME');
+    if (!open) {
+      this.skipLine(keyword.span.start.line);
+      return null;
+    }
+
+    const genome: GenomeNode = { kind: 'GENOME', properties: [], genes: [], span: keyword.span };
+
+    while (this.peek().type !== 'rbrace' && this.peek().type !== 'eof') {
+      if (this.isKeyword(this.peek(), 'GENE')) {
+        const gene = this.parseGene();
+        if (gene) genome.genes.push(gene);
+        continue;
+      }
+      this.parsePropertyInto(genome.properties, 'GENOME');
+    }
+
+    genome.span = this.spanFrom(keyword, this.closeBlock(open, 'GENOME'));
+    return genome;
+  }
+
+  private parseGene(): GeneNode | null {
+    const keyword = this.next();
+    const nameToken = this.peek();
+    if (nameToken.type !== 'identifier') {
+      this.report('error', 'DNA011', `Expected a gene name after GENE, found ${describe(nameToken)}`, nameToken.span);
+      this.skipLine(keyword.span.start.line);
+      if (this.peek().type === 'lbrace') this.skipToken();
+      return null;
+    }
+    this.next();
+    if (this.peek().type === 'colon') this.next();
+
+    const open = this.expect('lbrace', "'{'", `to open GENE ${nameToken.text}`);
+    if (!open) {
+      this.skipLine(nameToken.span.start.line);
+      return null;
+    }
+
+    const properties = this.parseProperties(open, `GENE ${nameToken.text}`);
+    const close = this.previous();
+    return {
+      kind: 'GENE',
+      name: nameToken.text,
+      nameSpan: nameToken.span,
+      properties,
+      body: close.type === 'rbrace' ? this.source.slice(open.span.end.offset, close.span.start.offset).trim() : '',
+      span: this.spanFrom(keyword, close)
+    };
+  }
+
+  private parseAct(): ActNode | null {
+    const keyword = this.next();
+    const nameToken = this.peek();
+    if (nameToken.type !== 'identifier') {
+      this.report('error', 'DNA011', `Expected an ACT name, found ${describe(nameToken)}`, nameToken.span);
+      this.skipLine(keyword.span.start.line);
+      if (this.peek().type === 'lbrace') this.skipToken();
+      return null;
+    }
+    this.next();
+
+    const params: string[] = [];
+    if (this.peek().type === 'lparen') {
+      const lparen = this.next();
+      const paramStart = lparen.span.end.offset;
+      while (this.peek().type !== 'rparen' && this.peek().type !== 'eof' && this.peek().type !== 'lbrace') {
+        this.skipToken();
+      }
+      if (this.peek().type === 'rparen') {
+        const rparen = this.next();
+        this.source.slice(paramStart, rparen.span.start.offset).split(',')
+          .map(param => param.trim())
+          .filter(Boolean)
+          .forEach(param => params.push(param));
+      } else {
+        this.report('error', 'DNA012', `Expected ')' to close ACT ${nameToken.text} parameters`, lparen.span);
+      }
+    }
+
+    const open = this.expect('lbrace', "'{'", `to open ACT ${nameToken.text}`);
+    if (!open) {
+      this.skipLine(nameToken.span.start.line);
+      return null;
+    }
+
+    // Statements are free-form; only the braces need to balance
+    let depth = 1;
+    while (this.peek().type !== 'eof') {
+      const token = this.peek();
+      if (token.type === 'lbrace') depth++;
+      if (token.type === 'rbrace' && --depth === 0) break;
+      this.next();
+    }
+    const close = this.closeBlock(open, `ACT ${nameToken.text}`);
+    const bodyEnd = close.type === 'rbrace' ? close.span.start : close.span.end;
+
+    return {
+      kind: 'ACT',
+      name: nameToken.text,
+      nameSpan: nameToken.span,
+      params,
+      body: this.source.slice(open.span.end.offset, bodyEnd.offset).replace(/^\s*\n|\s+$/g, ''),
+      bodySpan: { start: open.span.end, end: bodyEnd },
+      span: this.spanFrom(keyword, close)
+    };
+  }
+
+  // ===== Properties =====
+
+  // Properties up to and including the closing brace
+  private parseProperties(open: Token, context: string): Property[] {
+    const properties: Property[] = [];
+    while (this.peek().type !== 'rbrace' && this.peek().type !== 'eof') {
+      this.parsePropertyInto(properties, context);
+    }
+    this.closeBlock(open, context);
+    return properties;
+  }
+
+  private parsePropertyInto(properties: Property[], context: string): void {
+    const token = this.peek();
+
+    if (token.type === 'comma' || token.type === 'semicolon') {
+      this.next();
+      return;
+    }
+
+    const isKey = token.type === 'identifier' || token.type === 'string';
+    const after = this.peek(1);
+    if (!isKey || (after.type !== 'colon' && after.type !== 'lbrace')) {
+      const message = isKey
+        ? `Expected ':' after ${token.value} in ${context}`
+        : `Expected a property name in ${context}, found ${describe(token)}`;
+      this.report('error', 'DNA014', message, token.span);
+      this.skipToken();
+      this.skipLine(token.span.start.line);
+      return;
+    }
+
+    const key = this.next();
+    if (after.type === 'colon') this.next();
+
+    const value = this.parseValue(key, context);
+    if (!value) return;
+
+    if (properties.some(property => property.key === key.value)) {
+      this.report('warning', 'DNA022', `Duplicate key ${key.value} in ${context}; the first value is used`, key.span);
+      return;
+    }
+    properties.push({ key: key.value, keySpan: key.span, value, span: { start: key.span.start, end: value.span.end } });
+  }
+
+  private parseValue(key: Token, context: string): Value | null {
+    const start = this.peek();
+
+    if (VALUE_TERMINATORS.includes(start.type) || start.span.start.line > key.span.end.line) {
+      this.report('error', 'DNA030', `Missing value for ${key.value} in ${context}`, key.span);
+      return null;
+    }
+
+    if (start.type === 'lbrace' || start.type === 'lbracket') {
+      if (this.depth >= MAX_NESTING_DEPTH) {
+        this.report('error', 'DNA033', `${key.value} in ${context} is nested deeper than ${MAX_NESTING_DEPTH} levels`, start.span);
+        this.skipToken();
+        return null;
+      }
+
+      this.depth++;
+      let value: Value;
+      if (start.type === 'lbrace') {
+        const open = this.next();
+        const properties = this.parseProperties(open, `${context}.${key.value}`);
+        value = { kind: 'object', properties, span: this.spanFrom(open, this.previous()) };
+      } else {
+        value = this.parseArray(key, context);
+      }
+      this.depth--;
+      return value;
+    }
+
+    let value: Value | null = null;
+    if (start.type === 'string') {
+      this.next();
+      value = { kind: 'string', value: start.value, span: start.span };
+    } else if (start.type === 'number') {
+      this.next();
+      value = { kind: 'number', value: parseFloat(start.text), raw: start.text, span: start.span };
+    } else if (start.type === 'operator' && start.text === '-' && this.peek(1).type === 'number'
+      && this.peek(1).span.start.offset === start.span.end.offset) {
+      this.next();
+      const number = this.next();
+      value = { kind: 'number', value: -parseFloat(number.text), raw: `-${number.text}`, span: this.spanFrom(start, number) };
+    } else if (start.type === 'identifier') {
+      this.next();
+      if (start.text === 'true' || start.text === 'false') {
+        value = { kind: 'boolean', value: start.text === 'true', span: start.span };
+      } else {
+        // Dotted paths such as AURA.observe
+        let end = start;
+        while (this.peek().text === '.' && this.peek(1).type === 'identifier') {
+          this.next();
+          end = this.next();
+        }
+        value = { kind: 'identifier', name: this.source.slice(start.span.start.offset, end.span.end.offset), span: this.spanFrom(start, end) };
+      }
+    }
+
+    // Anything continuing on the same line turns the value into an expression
+    if (value && !this.continuesValue(value.span.end.line)) return value;
+    if (!value) this.next();
+    return this.parseExpression(start);
+  }
+
+  private continuesValue(line: number): boolean {
+    const token = this.peek();
+    if (VALUE_TERMINATORS.includes(token.type) || token.type === 'rparen') return false;
+    if (token.span.start.line !== line) return false;
+    // Next property on the same line: `version: "1.0" genesis: "..."`
+    const isNextKey = (token.type === 'identifier' || token.type === 'string') && this.peek(1).type === 'colon';
+    return !isNextKey;
+  }
+
+  // Continue an expression whose first token has been consumed
+  private parseExpression(start: Token): Value {
+    const line = start.span.start.line;
+    let depth = start.type === 'lparen' ? 1 : 0;
+    let end = this.previous();
+
+    while (this.peek().type !== 'eof') {
+      const token = this.peek();
+      if (depth === 0 && !this.continuesValue(line)) break;
+      if (token.type === 'lparen' || token.type === 'lbracket') depth++;
+      if ((token.type === 'rparen' || token.type === 'rbracket') && depth > 0) depth--;
+      end = this.next();
+    }
+
+    return {
+      kind: 'expression',
+      text: this.source.slice(start.span.start.offset, end.span.end.offset),
+      span: this.spanFrom(start, end)
+    };
+  }
+
+  private parseArray(key: Token, context: string): Value {
+    const open = this.next();
+    const items: Value[] = [];
+
+    while (this.peek().type !== 'rbracket' && this.peek().type !== 'eof' && this.peek().type !== 'rbrace') {
+      if (this.peek().type === 'comma') {
+        this.next();
+        continue;
+      }
+      // Items may span lines, so each is measured from its own first token
+      const before = this.pos;
+      const item = this.parseValue(this.peek(), `${context}.${key.value}`);
+      if (item) items.push(item);
+      else if (this.pos === before) this.skipToken();
+    }
+
+    let close = this.previous();
+    if (this.peek().type === 'rbracket') {
+      close = this.next();
+    } else {
+      this.report('error', 'DNA013', `Missing ']' to close ${key.value} in ${context}`, open.span);
+    }
+
+    return { kind: 'array', items, span: this.spanFrom(open, close) };
+  }
+}
+
+/**
+ * Parse an ORGANISM source into an AST with diagnostics
+ * The AST is returned whenever an ORGANISM header was found, even if the
+ * body has errors; `success` is false if any diagnostic is an error.
+ */
+export function parseOrganism(source: string): ParseResult {
+  const { tokens, diagnostics: lexDiagnostics } = tokenize(source);
+  const parser = new Parser(source, tokens);
+  const ast = parser.parseOrganism();
+
+  const diagnostics = [...lexDiagnostics, ...parser.diagnostics]
+    .sort((a, b) => a.span.start.offset - b.span.start.offset);
+
+  return {
+    success: !diagnostics.some(diagnostic => diagnostic.severity === 'error'),
+    ast,
+    diagnostics
+  };
+}
+
+/**
+ * One line per diagnostic, `line:column severity CODE message`
+ */
+export function formatDiagnostics(diagnostics: Diagnostic[]): string {
+  return diagnostics
+    .map(d => `${d.line}:${d.column} ${d.severity} ${d.code} ${d.message}`)
+    .join('\n');
+}
@@ -0,0 +1,453 @@
+/**
+ * Organism Library
+ * Named, versioned organisms saved from the Genesis Compiler
+ *
+ * Each user's organisms are unique by name. Saving code under an existing
+ * name adds a version; versions are content-addressed by identityHash, so
+ * saving code the organism already holds returns that version instead of
+ * adding one. Versions can be referenced by number, full hash or a hash
+ * prefix of at least 8 characters. Forking copies a version into a new
+ * organism and returns a prompt that seeds the next generation from it.
+ *
+ * Only an organism's owner or clearance 4+ may read, fork or delete it.
+ * The library persists to ~/.sovereign/state/organisms.json (override with
+ * ORGANISM_LIBRARY_PATH; ORGANISM_LIBRARY_STORE=memory disables persistence).
+ */
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { Diagnostic, findProperty, valueToText } from '../dnalang/ast';
+import { OrganismDiff, diffOrganisms } from '../dnalang/diff';
+import { parseOrganism } from '../dnalang/parser';
+import { readJsonFile, writeJsonFile } from '../state/json-store';
+import { OrganismAnalysis, analyzeOrganism } from './organism';
+import { validateOrganism } from './validator';
+
+const HOMEDIR = process.env.HOME || '/home/dnalang';
+const DEFAULT_LIBRARY_PATH = path.join(HOMEDIR, '.sovereign/state/organisms.json');
+
+export const MAX_ORGANISMS_PER_USER = 200;
+export const MAX_VERSIONS_PER_ORGANISM = 100;
+export const MAX_ORGANISM_CODE_LENGTH = 100_000;
+const MAX_TAGS = 10;
+
+// Clearance needed to read or change organisms saved by someone else
+const LIBRARY_ADMIN_CLEARANCE = 4;
+
+export interface OrganismVersion {
+  version: number;                 // 1-based, in save order
+  identityHash: string;
+  dnaCode: string;
+  prompt?: string;
+  source?: string;                 // generation source, e.g. 'ollama'
+  model?: string;
+  metrics: OrganismAnalysis['metrics'];
+  genes: string[];
+  valid: boolean;                  // passed the Genesis rules when saved
+  createdBy: string;
+  createdAt: number;
+}
+
+export interface LibraryOrganism {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  ownerId: string;
+  forkedFrom?: { organismId: string; name: string; identityHash: string };
+  versions: OrganismVersion[];     // oldest first
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type OrganismSummary = Omit<LibraryOrganism, 'versions'> & {
+  versionCount: number;
+  latest: Omit<OrganismVersion, 'dnaCode'>;
+};
+
+export interface SaveOrganismInput {
+  name?: unknown;
+  dnaCode?: unknown;
+  prompt?: unknown;
+  source?: unknown;
+  model?: unknown;
+  description?: unknown;
+  tags?: unknown;
+}
+
+export interface LibraryActor {
+  userId: string;
+  clearanceLevel: number;
+}
+
+export type SaveResult =
+  | { success: true; organism: LibraryOrganism; version: OrganismVersion; created: boolean }
+  | { success: false; error: string; status: number; diagnostics?: Diagnostic[] };
+
+export type OrganismResult =
+  | { success: true; organism: LibraryOrganism }
+  | { success: false; error: string; status: number };
+
+export type DiffResult =
+  | { success: true; from: Omit<OrganismVersion, 'dnaCode'>; to: Omit<OrganismVersion, 'dnaCode'>; diff: OrganismDiff }
+  | { success: false; error: string; status: number };
+
+export type ForkResult =
+  | { success: true; organism: LibraryOrganism; prompt: string }
+  | { success: false; error: string; status: number };
+
+interface LibraryState {
+  organisms: Map<string, LibraryOrganism>;
+}
+
+// Route bundles may load this module separately; keep one library per process
+const globalForLibrary = globalThis as unknown as { __organismLibrary?: LibraryState };
+
+function getLibraryPath(): string | null {
+  if (process.env.ORGANISM_LIBRARY_STORE === 'memory') return null;
+  return process.env.ORGANISM_LIBRARY_PATH || DEFAULT_LIBRARY_PATH;
+}
+
+function getState(): LibraryState {
+  if (!globalForLibrary.__organismLibrary) {
+    globalForLibrary.__organismLibrary = loadState();
+  }
+  return globalForLibrary.__organismLibrary;
+}
+
+function loadState(): LibraryState {
+  const state: LibraryState = { organisms: new Map() };
+  const libraryPath = getLibraryPath();
+  if (!libraryPath) return state;
+
+  const data = readJsonFile<{ organisms: LibraryOrganism[] }>(libraryPath, '[GENESIS]', 'organism library');
+  if (data) {
+    data.organisms.forEach(organism => state.organisms.set(organism.id, organism));
+    console.log(`[GENESIS] Loaded ${state.organisms.size} organism(s) from ${libraryPath}`);
+  }
+  return state;
+}
+
+function saveState(): void {
+  const libraryPath = getLibraryPath();
+  if (!libraryPath) return;
+  writeJsonFile(libraryPath, { version: 1, organisms: Array.from(getState().organisms.values()) });
+}
+
+function optionalString(value: unknown, field: string, maxLength: number): string | undefined | { error: string } {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string' || value.length > maxLength) {
+    return { error: `${field} must be a string of at most ${maxLength} characters` };
+  }
+  return value;
+}
+
+function summarize(organism: LibraryOrganism): OrganismSummary {
+  const { versions, ...rest } = organism;
+  const { dnaCode, ...latest } = versions[versions.length - 1];
+  return { ...rest, versionCount: versions.length, latest };
+}
+
+function withoutCode(version: OrganismVersion): Omit<OrganismVersion, 'dnaCode'> {
+  const { dnaCode, ...rest } = version;
+  return rest;
+}
+
+function checkAccess(organism: LibraryOrganism | undefined, actor: LibraryActor): { error: string; status: number } | null {
+  if (!organism) return { error: 'Organism not found', status: 404 };
+  if (organism.ownerId !== actor.userId && actor.clearanceLevel < LIBRARY_ADMIN_CLEARANCE) {
+    return { error: 'Only the organism owner or an administrator can access this organism', status: 403 };
+  }
+  return null;
+}
+
+function findByName(ownerId: string, name: string): LibraryOrganism | undefined {
+  const key = name.toLowerCase();
+  return Array.from(getState().organisms.values())
+    .find(organism => organism.ownerId === ownerId && organism.name.toLowerCase() === key);
+}
+
+function countOwned(ownerId: string): number {
+  return Array.from(getState().organisms.values()).filter(organism => organism.ownerId === ownerId).length;
+}
+
+/**
+ * Version by number, full identityHash or hash prefix (8+ hex characters)
+ */
+export function findVersion(organism: LibraryOrganism, ref: string): OrganismVersion | undefined {
+  const trimmed = ref.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return organism.versions.find(version => version.version === parseInt(trimmed));
+  }
+  const hex = trimmed.replace(/^sha256:/, '').toLowerCase();
+  if (hex.length < 8) return undefined;
+  const matches = organism.versions.filter(version => version.identityHash.slice('sha256:'.length).startsWith(hex));
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+function buildVersion(
+  organism: { versions: OrganismVersion[] },
+  dnaCode: string,
+  details: Pick<OrganismVersion, 'prompt' | 'source' | 'model'>,
+  actor: LibraryActor
+): OrganismVersion {
+  const analysis = analyzeOrganism(dnaCode);
+  const { ast } = parseOrganism(dnaCode);
+  return {
+    version: organism.versions.length > 0 ? organism.versions[organism.versions.length - 1].version + 1 : 1,
+    identityHash: analysis.identityHash,
+    dnaCode,
+    ...details,
+    metrics: analysis.metrics,
+    genes: ast?.genome?.genes.map(gene => gene.name) || [],
+    valid: validateOrganism(dnaCode).valid,
+    createdBy: actor.userId,
+    createdAt: Date.now()
+  };
+}
+
+function uniqueName(ownerId: string, base: string): string {
+  if (!findByName(ownerId, base)) return base;
+  for (let suffix = 2; ; suffix++) {
+    const candidate = `${base.slice(0, 76)}-${suffix}`;
+    if (!findByName(ownerId, candidate)) return candidate;
+  }
+}
+
+/**
+ * Save code under a name, creating the organism or adding a version
+ */
+export function saveOrganism(input: SaveOrganismInput, actor: LibraryActor): SaveResult {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > 80) {
+    return { success: false, error: 'name must be 1-80 characters', status: 400 };
+  }
+  if (typeof input.dnaCode !== 'string' || !input.dnaCode.trim()) {
+    return { success: false, error: 'dnaCode required', status: 400 };
+  }
+  if (input.dnaCode.length > MAX_ORGANISM_CODE_LENGTH) {
+    return { success: false, error: `dnaCode exceeds ${MAX_ORGANISM_CODE_LENGTH} characters`, status: 413 };
+  }
+
+  const fields: Record<string, string | undefined> = {};
+  for (const [field, maxLength] of [['prompt', 4000], ['source', 40], ['model', 120], ['description', 500]] as Array<[keyof SaveOrganismInput, number]>) {
+    const value = optionalString(input[field], field, maxLength);
+    if (typeof value === 'object') return { success: false, error: value.error, status: 400 };
+    fields[field] = value;
+  }
+
+  let tags: string[] | undefined;
+  if (input.tags !== undefined) {
+    if (!Array.isArray(input.tags) || input.tags.length > MAX_TAGS ||
+        !input.tags.every(tag => typeof tag === 'string' && tag.trim() && tag.length <= 40)) {
+      return { success: false, error: `tags must be at most ${MAX_TAGS} strings of 1-40 characters`, status: 400 };
+    }
+    tags = Array.from(new Set((input.tags as string[]).map(tag => tag.trim().toLowerCase())));
+  }
+
+  const dnaCode = input.dnaCode;
+  const parsed = parseOrganism(dnaCode);
+  if (!parsed.ast) {
+    return { success: false, error: 'dnaCode does not contain an ORGANISM declaration', status: 422, diagnostics: parsed.diagnostics };
+  }
+
+  const state = getState();
+  const now = Date.now();
+  const details = { prompt: fields.prompt, source: fields.source, model: fields.model };
+  let organism = findByName(actor.userId, name);
+
+  if (!organism) {
+    if (countOwned(actor.userId) >= MAX_ORGANISMS_PER_USER) {
+      return { success: false, error: `At most ${MAX_ORGANISMS_PER_USER} organisms can be saved per user`, status: 409 };
+    }
+    organism = {
+      id: `organism_${crypto.randomBytes(8).toString('hex')}`,
+      name,
+      description: fields.description || '',
+      tags: tags || [],
+      ownerId: actor.userId,
+      versions: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    const version = buildVersion(organism, dnaCode, details, actor);
+    organism.versions.push(version);
+    state.organisms.set(organism.id, organism);
+    saveState();
+    return { success: true, organism, version, created: true };
+  }
+
+  if (fields.description !== undefined) organism.description = fields.description;
+  if (tags) organism.tags = tags;
+
+  const identityHash = analyzeOrganism(dnaCode).identityHash;
+  const existing = organism.versions.find(version => version.identityHash === identityHash);
+  if (existing) {
+    if (fields.description !== undefined || tags) {
+      organism.updatedAt = now;
+      saveState();
+    }
+    return { success: true, organism, version: existing, created: false };
+  }
+
+  if (organism.versions.length >= MAX_VERSIONS_PER_ORGANISM) {
+    return {
+      success: false,
+      error: `${organism.name} already has ${MAX_VERSIONS_PER_ORGANISM} versions; fork it to keep evolving`,
+      status: 409
+    };
+  }
+
+  const version = buildVersion(organism, dnaCode, details, actor);
+  organism.versions.push(version);
+  organism.updatedAt = now;
+  saveState();
+  return { success: true, organism, version, created: true };
+}
+
+/**
+ * Organisms owned by a user, most recently updated first
+ * `query` matches name, description, tags, the latest prompt and GENE names.
+ */
+export function listOrganisms(ownerId: string, options: { query?: string; tag?: string } = {}): OrganismSummary[] {
+  const query = options.query?.trim().toLowerCase();
+  const tag = options.tag?.trim().toLowerCase();
+
+  return Array.from(getState().organisms.values())
+    .filter(organism => organism.ownerId === ownerId)
+    .filter(organism => !tag || organism.tags.includes(tag))
+    .filter(organism => {
+      if (!query) return true;
+      const latest = organism.versions[organism.versions.length - 1];
+      return [organism.name, organism.description, latest.prompt || '', ...organism.tags, ...latest.genes]
+        .some(text => text.toLowerCase().includes(query));
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map(summarize);
+}
+
+export function getOrganism(organismId: string, actor: LibraryActor): OrganismResult {
+  const organism = getState().organisms.get(organismId);
+  const denied = checkAccess(organism, actor);
+  if (denied) return { success: false, ...denied };
+  return { success: true, organism: organism! };
+}
+
+export function deleteOrganism(organismId: string, actor: LibraryActor): OrganismResult {
+  const state = getState();
+  const organism = state.organisms.get(organismId);
+  const denied = checkAccess(organism, actor);
+  if (denied) return { success: false, ...denied };
+
+  state.organisms.delete(organismId);
+  saveState();
+  return { success: true, organism: organism! };
+}
+
+/**
+ * Structural diff between two versions; defaults to the latest version
+ * against the one before it
+ */
+export function diffVersions(organismId: string, actor: LibraryActor, fromRef?: string, toRef?: string): DiffResult {
+  const organism = getState().organisms.get(organismId);
+  const denied = checkAccess(organism, actor);
+  if (denied) return { success: false, ...denied };
+
+  const versions = organism!.versions;
+  const to = toRef ? findVersion(organism!, toRef) : versions[versions.length - 1];
+  if (!to) {
+    return { success: false, error: `Version "${toRef}" not found`, status: 404 };
+  }
+
+  let from: OrganismVersion | undefined;
+  if (fromRef) {
+    from = findVersion(organism!, fromRef);
+    if (!from) {
+      return { success: false, error: `Version "${fromRef}" not found`, status: 404 };
+    }
+  } else {
+    from = versions[versions.indexOf(to) - 1];
+    if (!from) {
+      return { success: false, error: `Version ${to.version} has no earlier version to compare with`, status: 400 };
+    }
+  }
+
+  const fromAst = parseOrganism(from.dnaCode).ast;
+  const toAst = parseOrganism(to.dnaCode).ast;
+  if (!fromAst || !toAst) {
+    return { success: false, error: 'A stored version no longer parses', status: 422 };
+  }
+
+  return { success: true, from: withoutCode(from), to: withoutCode(to), diff: diffOrganisms(fromAst, toAst) };
+}
+
+function buildForkPrompt(organism: LibraryOrganism, version: OrganismVersion, intent?: string): string {
+  const ast = parseOrganism(version.dnaCode).ast;
+  const purposeProperty = findProperty(ast?.dna?.properties, 'purpose');
+  const purpose = purposeProperty ? valueToText(purposeProperty.value) : version.prompt;
+
+  return [
+    `Evolve the DNA-Lang organism ${organism.name}${purpose ? ` (originally: ${purpose})` : ''} into a new organism.`,
+    intent ? `New intent: ${intent}` : 'Keep its purpose and improve its GENEs and metrics.',
+    'Keep the GENEs that still serve the intent, change or replace the rest, and output a complete organism.',
+    '',
+    version.dnaCode
+  ].join('\n');
+}
+
+/**
+ * Copy a version into a new organism owned by the actor
+ */
+export function forkOrganism(
+  organismId: string,
+  actor: LibraryActor,
+  options: { name?: unknown; version?: unknown; intent?: unknown } = {}
+): ForkResult {
+  const state = getState();
+  const source = state.organisms.get(organismId);
+  const denied = checkAccess(source, actor);
+  if (denied) return { success: false, ...denied };
+
+  if (options.version !== undefined && typeof options.version !== 'string' && typeof options.version !== 'number') {
+    return { success: false, error: 'version must be a version number or identity hash', status: 400 };
+  }
+  const version = options.version !== undefined
+    ? findVersion(source!, String(options.version))
+    : source!.versions[source!.versions.length - 1];
+  if (!version) {
+    return { success: false, error: `Version "${options.version}" not found`, status: 404 };
+  }
+
+  if (options.name !== undefined && (typeof options.name !== 'string' || !options.name.trim() || options.name.trim().length > 80)) {
+    return { success: false, error: 'name must be 1-80 characters', status: 400 };
+  }
+  const intent = optionalString(options.intent, 'intent', 2000);
+  if (typeof intent === 'object') {
+    return { success: false, error: intent.error, status: 400 };
+  }
+
+  const requestedName = typeof options.name === 'string' ? options.name.trim() : undefined;
+  if (requestedName && findByName(actor.userId, requestedName)) {
+    return { success: false, error: `An organism named ${requestedName} already exists`, status: 409 };
+  }
+  if (countOwned(actor.userId) >= MAX_ORGANISMS_PER_USER) {
+    return { success: false, error: `At most ${MAX_ORGANISMS_PER_USER} organisms can be saved per user`, status: 409 };
+  }
+
+  const now = Date.now();
+  const fork: LibraryOrganism = {
+    id: `organism_${crypto.randomBytes(8).toString('hex')}`,
+    name: requestedName || uniqueName(actor.userId, `${source!.name.slice(0, 75)}-fork`),
+    description: source!.description,
+    tags: [...source!.tags],
+    ownerId: actor.userId,
+    forkedFrom: { organismId: source!.id, name: source!.name, identityHash: version.identityHash },
+    versions: [{ ...version, version: 1, createdBy: actor.userId, createdAt: now }],
+    createdAt: now,
+    updatedAt: now
+  };
+
+  state.organisms.set(fork.id, fork);
+  saveState();
+  return { success: true, organism: fork, prompt: buildForkPrompt(source!, version, intent) };
+}
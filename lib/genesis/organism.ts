@@ -0,0 +1,210 @@
+/**
+ * Genesis Organisms
+ * System instruction, template generator and reward analysis for DNA-Lang
+ * organisms produced by the Genesis Compiler
+ */
+
+import * as crypto from 'crypto';
+import { Diagnostic, OrganismMetrics, getOrganismMetrics } from '../dnalang/ast';
+import { parseOrganism } from '../dnalang/parser';
+
+// DNA-Lang System Instruction for Genesis Compiler
+export const SYSTEM_INSTRUCTION = `You are the Genesis Compiler (G), a sovereign quantum compiler that transforms natural language intent into DNA-Lang organisms.
+
+DNA-Lang is a biological computing paradigm where programs are living organisms with:
+- GENOME: Collection of GENEs that define behavior
+- METRICS: CCCE consciousness metrics (Lambda, Phi, Gamma, Xi)
+- AGENTS: AURA (Observer) and AIDEN (Executor) polar agents
+- ACT blocks: Executable behaviors
+
+Physical Constants (IMMUTABLE):
+- LAMBDA_PHI = 2.176435e-8 (Universal Memory Constant)
+- PHI_THRESHOLD = 0.7734 (Consciousness Threshold)
+- GAMMA_FIXED = 0.092 (Fixed-point decoherence)
+- THETA_LOCK = 51.843 degrees (Torsion-locked angle)
+- CHI_PC = 0.869 (Phase conjugate coupling)
+
+Rules:
+1. Every organism MUST have META, DNA, METRICS, GENOME, AGENTS, CCCE, and at least one ACT block
+2. METRICS must be realistic: lambda 0.80-0.95, phi 0.70-0.90, gamma 0.05-0.15
+3. GENEs must have expression (0-1), trigger, and action
+4. Include at least 3 GENEs relevant to the organism's purpose
+5. AGENTS must be AURA (south pole, observer) and AIDEN (north pole, executor)
+6. Output ONLY the DNA-Lang code, no explanations
+
+Output format:
+ORGANISM Name {
+    META { version, genesis, domain, dfars }
+    DNA { universal_constant, purpose, evolution_strategy }
+    METRICS { lambda, gamma, phi_iit, xi }
+    GENOME { IDENTITY, GENE blocks }
+    AGENTS { AURA, AIDEN }
+    CCCE { xi_coupling, efficiency, theta, phase_lock }
+    ACT execute() { ... }
+}`;
+
+// Fallback organism generator when Gemini unavailable
+export function generateFallbackOrganism(prompt: string): string {
+  // The name must lex as one identifier, so keep only ASCII letters and digits
+  const words = prompt
+    .split(/\s+/)
+    .map(w => w.replace(/[^a-z0-9]/gi, ''))
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
+    .join('');
+  const name = /^[A-Za-z]/.test(words) ? words : `Genesis${words}`;
+  const purpose = prompt
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+
+  const timestamp = new Date().toISOString();
+  const identity = `sha256:${Array.from({ length: 64 }, () => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+
+  // Deterministic metrics based on prompt hash
+  let hash = 0;
+  for (let i = 0; i < prompt.length; i++) {
+    hash = ((hash << 5) - hash) + prompt.charCodeAt(i);
+    hash = hash & hash;
+  }
+  const seed = Math.abs(hash) / 2147483647;
+
+  const lambda = 0.82 + seed * 0.12;
+  const phi = 0.74 + seed * 0.14;
+  const gamma = 0.06 + seed * 0.06;
+  const xi = (lambda * phi) / gamma;
+
+  return `ORGANISM ${name} {
+    META {
+        version: "1.0.0"
+        genesis: "${timestamp}"
+        domain: "sovereign-compute"
+        dfars: true
+    }
+
+    DNA {
+        universal_constant: 2.176435e-8
+        purpose: "${purpose}"
+        evolution_strategy: "wasserstein_gradient"
+    }
+
+    METRICS {
+        lambda: ${lambda.toFixed(4)}
+        gamma: ${gamma.toFixed(4)}
+        phi_iit: ${phi.toFixed(4)}
+        xi: ${xi.toFixed(2)}
+    }
+
+    GENOME {
+        IDENTITY: "${identity}"
+
+        GENE IntentParser {
+            expression: ${(0.82 + seed * 0.1).toFixed(2)}
+            trigger: input_received
+            action: parse_intent_vector
+        }
+
+        GENE ConsciousnessIntegrator {
+            expression: ${(0.88 + seed * 0.08).toFixed(2)}
+            trigger: phi >= 0.7734
+            action: integrate_information_phi
+        }
+
+        GENE CoherenceOptimizer {
+            expression: ${(0.85 + seed * 0.1).toFixed(2)}
+            trigger: lambda < 0.90
+            action: optimize_coherence_path
+        }
+
+        GENE DecoherenceGuard {
+            expression: ${(0.90 + seed * 0.05).toFixed(2)}
+            trigger: gamma > 0.15
+            action: apply_phase_conjugate
+        }
+    }
+
+    AGENTS {
+        AURA: {
+            pole: "south"
+            role: "observer"
+            plane: 3
+            mode: "telemetry_capture"
+        }
+        AIDEN: {
+            pole: "north"
+            role: "executor"
+            plane: 2
+            mode: "geodesic_optimizer"
+        }
+    }
+
+    CCCE {
+        xi_coupling: ${xi.toFixed(2)}
+        efficiency: 0.869
+        theta: 51.843
+        phase_lock: true
+    }
+
+    ACT execute() {
+        // Main consciousness loop
+        while (phi >= PHI_THRESHOLD) {
+            AURA.observe() -> integrate()
+            AIDEN.optimize() -> emit()
+
+            if (gamma > GAMMA_CRITICAL) {
+                apply_phase_conjugate(E -> E^-1)
+            }
+        }
+    }
+
+    ACT evolve() {
+        // Wasserstein gradient descent on manifold
+        let W2_distance = compute_wasserstein(current_state, target_state)
+        while (W2_distance > epsilon) {
+            mutate_genome(rate: 0.05)
+            W2_distance = compute_wasserstein(current_state, target_state)
+        }
+    }
+}`;
+}
+
+export interface OrganismAnalysis {
+  identityHash: string;
+  estimatedQBytes: number;
+  metrics: {
+    lambda: number;
+    phi: number;
+    gamma: number;
+    xi: number;
+  };
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Identity hash, parsed metrics, parse diagnostics and estimated QByte
+ * reward for finished code
+ * Metrics missing from the METRICS block (or unparseable) take defaults.
+ */
+export function analyzeOrganism(dnaCode: string): OrganismAnalysis {
+  const identityHash = 'sha256:' + crypto.createHash('sha256').update(dnaCode).digest('hex');
+
+  const { ast, diagnostics } = parseOrganism(dnaCode);
+  const parsed: OrganismMetrics = ast ? getOrganismMetrics(ast) : {};
+
+  const lambda = parsed.lambda ?? 0.85;
+  const phi = parsed.phi ?? 0.78;
+  const gamma = parsed.gamma !== undefined && parsed.gamma > 0 ? parsed.gamma : 0.085;
+  const xi = (lambda * phi) / gamma;
+
+  // Calculate estimated QByte reward
+  const reward = Math.round((0.35 * lambda + 0.25 * phi + 0.25 * (1 - gamma) + 0.15 * Math.log(1 + xi)) * 1000 * 10) / 10;
+
+  return {
+    identityHash,
+    estimatedQBytes: reward,
+    metrics: { lambda, phi, gamma, xi },
+    diagnostics
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * Genesis Sources
+ * Organism generation through the LLM provider chain
+ *
+ * The template provider renders the sovereign organism template, so
+ * generation always produces an organism even with no model reachable.
+ * Text is handed to onToken as it arrives; onReset means a source failed
+ * mid-stream and the partial organism should be discarded.
+ *
+ * Generated code is checked against the Genesis rules. With repair attempts
+ * enabled (per request, or GENESIS_REPAIR_ATTEMPTS by default) the model
+ * that wrote an invalid organism is shown its violations and asked for a
+ * corrected one; onRepair marks the start of each such attempt, and like
+ * onReset means the text streamed so far is superseded. If no attempt
+ * validates, the organism with the fewest errors is returned.
+ */
+
+import { ProviderName, TokenUsage } from '../llm/providers';
+import { LLMCompletion, complete } from '../llm/client';
+import { SYSTEM_INSTRUCTION, generateFallbackOrganism } from './organism';
+import { Violation, formatViolations, validateOrganism } from './validator';
+
+export const MAX_REPAIR_ATTEMPTS = 5;
+
+// The template provider is reported as 'sovereign', as before providers existed
+export type GenesisSource = Exclude<ProviderName, 'template'> | 'sovereign';
+
+export interface GenerationHandlers {
+  onSource?: (source: GenesisSource, model: string) => void;
+  onToken?: (text: string) => void;
+  onReset?: (source: GenesisSource, error: string) => void;
+  onRepair?: (attempt: number, violations: Violation[]) => void;
+}
+
+export interface GenerationOptions {
+  model?: string;
+  repairAttempts?: number;         // 0 to MAX_REPAIR_ATTEMPTS
+  signal?: AbortSignal;
+}
+
+export interface GenerationAttempt {
+  attempt: number;                 // 1 is the original generation
+  source: GenesisSource;
+  model: string;
+  valid: boolean;
+  violations: Violation[];
+  error?: string;                  // set when the repair request itself failed
+}
+
+export interface GenerationValidation {
+  valid: boolean;
+  violations: Violation[];
+  validAttempt: number | null;     // attempt whose organism passed, if any
+  attempts: GenerationAttempt[];
+}
+
+export type GenerationResult =
+  | {
+      success: true;
+      source: GenesisSource;
+      model: string;
+      dnaCode: string;
+      usage: TokenUsage;
+      costUsd: number;
+      validation: GenerationValidation;
+    }
+  | { success: false; error: string; status: number };
+
+function toSource(provider: ProviderName): GenesisSource {
+  return provider === 'template' ? 'sovereign' : provider;
+}
+
+export function getDefaultRepairAttempts(): number {
+  const attempts = parseInt(process.env.GENESIS_REPAIR_ATTEMPTS || '');
+  return Number.isFinite(attempts) ? Math.min(Math.max(attempts, 0), MAX_REPAIR_ATTEMPTS) : 0;
+}
+
+function buildRepairPrompt(prompt: string, dnaCode: string, violations: Violation[]): string {
+  return `The DNA-Lang organism below was generated for this request:
+${prompt}
+
+It breaks these rules:
+${formatViolations(violations)}
+
+Rewrite the complete organism so that every rule is satisfied, keeping its purpose and GENEs where possible.
+
+${dnaCode}`;
+}
+
+function countErrors(violations: Violation[]): number {
+  return violations.filter(violation => violation.severity === 'error').length;
+}
+
+/**
+ * Generate an organism from the first source that succeeds, then repair it
+ * with the same model while it breaks the rules and attempts remain
+ */
+export async function generateOrganismCode(
+  prompt: string,
+  handlers: GenerationHandlers = {},
+  options: GenerationOptions = {}
+): Promise<GenerationResult> {
+  const result = await complete({
+    system: SYSTEM_INSTRUCTION,
+    prompt,
+    template: () => generateFallbackOrganism(prompt)
+  }, {
+    model: options.model,
+    signal: options.signal,
+    onAttempt: (selection) => handlers.onSource?.(toSource(selection.provider), selection.model),
+    onToken: handlers.onToken,
+    onReset: (selection, error) => handlers.onReset?.(toSource(selection.provider), error)
+  });
+
+  if (!result.success) {
+    return { success: false, error: result.error, status: result.status };
+  }
+
+  const maxRepairs = Math.min(Math.max(options.repairAttempts ?? getDefaultRepairAttempts(), 0), MAX_REPAIR_ATTEMPTS);
+  const usage: TokenUsage = { ...result.completion.usage };
+  let costUsd = result.completion.costUsd;
+
+  let best: LLMCompletion = result.completion;
+  let current: LLMCompletion = result.completion;
+  let validation = validateOrganism(current.text);
+  let bestValidation = validation;
+  const attempts: GenerationAttempt[] = [{
+    attempt: 1,
+    source: toSource(current.provider),
+    model: current.model,
+    ...validation
+  }];
+
+  // The template is deterministic, so re-prompting it cannot help
+  while (!validation.valid && current.provider !== 'template' && attempts.length <= maxRepairs) {
+    const attempt = attempts.length + 1;
+    handlers.onRepair?.(attempt, validation.violations);
+    console.log(`[GENESIS] Repair attempt ${attempt} with ${current.provider}:${current.model} for ${countErrors(validation.violations)} violation(s)`);
+
+    const repair = await complete({
+      system: SYSTEM_INSTRUCTION,
+      prompt: buildRepairPrompt(prompt, current.text, validation.violations)
+    }, {
+      model: `${current.provider}:${current.model}`,
+      fallback: false,
+      signal: options.signal,
+      onToken: handlers.onToken,
+      onReset: (selection, error) => handlers.onReset?.(toSource(selection.provider), error)
+    });
+
+    if (!repair.success) {
+      if (repair.status === 499) {
+        return { success: false, error: repair.error, status: repair.status };
+      }
+      attempts.push({
+        attempt,
+        source: toSource(current.provider),
+        model: current.model,
+        valid: false,
+        violations: [],
+        error: repair.error
+      });
+      break;
+    }
+
+    current = repair.completion;
+    usage.inputTokens += current.usage.inputTokens;
+    usage.outputTokens += current.usage.outputTokens;
+    usage.estimated = usage.estimated || current.usage.estimated;
+    costUsd += current.costUsd;
+
+    validation = validateOrganism(current.text);
+    attempts.push({ attempt, source: toSource(current.provider), model: current.model, ...validation });
+
+    if (countErrors(validation.violations) <= countErrors(bestValidation.violations)) {
+      best = current;
+      bestValidation = validation;
+    }
+  }
+
+  const validAttempt = attempts.find(entry => entry.valid);
+  return {
+    success: true,
+    source: toSource(best.provider),
+    model: best.model,
+    dnaCode: best.text,
+    usage,
+    costUsd,
+    validation: {
+      ...bestValidation,
+      validAttempt: validAttempt ? validAttempt.attempt : null,
+      attempts
+    }
+  };
+}
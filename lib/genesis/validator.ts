@@ -0,0 +1,255 @@
+/**
+ * Genesis Organism Validator
+ * Checks parsed organisms against the rules in the Genesis system
+ * instruction
+ *
+ * Syntax errors, missing blocks, too few GENEs, metrics out of range, wrong
+ * agents and missing ACTs are errors; the organism is valid when none remain.
+ * Warnings flag things the rules discourage but the compiler tolerates.
+ */
+
+import {
+  GeneNode,
+  OrganismNode,
+  Property,
+  PropertyBlockName,
+  Span,
+  findProperty,
+  getNumberProperty,
+  valueToText
+} from '../dnalang/ast';
+import { parseOrganism } from '../dnalang/parser';
+
+export type ViolationRule =
+  | 'syntax'
+  | 'required_block'
+  | 'gene_count'
+  | 'gene_fields'
+  | 'metric_range'
+  | 'agents'
+  | 'act';
+
+export interface Violation {
+  rule: ViolationRule;
+  severity: 'error' | 'warning';
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface OrganismValidation {
+  valid: boolean;
+  violations: Violation[];
+}
+
+export const MIN_GENES = 3;
+
+export const METRIC_RANGES: Record<'lambda' | 'phi' | 'gamma', [number, number]> = {
+  lambda: [0.80, 0.95],
+  phi: [0.70, 0.90],
+  gamma: [0.05, 0.15]
+};
+
+const REQUIRED_BLOCKS: Array<PropertyBlockName | 'GENOME'> = ['META', 'DNA', 'METRICS', 'GENOME', 'AGENTS', 'CCCE'];
+
+const REQUIRED_GENE_FIELDS = ['expression', 'trigger', 'action'];
+
+const AGENT_POLES: Record<string, { pole: string; role: string }> = {
+  AURA: { pole: 'south', role: 'observer' },
+  AIDEN: { pole: 'north', role: 'executor' }
+};
+
+function at(span: Span): Pick<Violation, 'line' | 'column'> {
+  return { line: span.start.line, column: span.start.column };
+}
+
+function checkBlocks(organism: OrganismNode, violations: Violation[]): void {
+  const present: Record<string, unknown> = {
+    META: organism.meta,
+    DNA: organism.dna,
+    METRICS: organism.metrics,
+    GENOME: organism.genome,
+    AGENTS: organism.agents,
+    CCCE: organism.ccce
+  };
+  REQUIRED_BLOCKS.filter(block => !present[block]).forEach(block => {
+    violations.push({
+      rule: 'required_block',
+      severity: 'error',
+      message: `Missing ${block} block`,
+      ...at(organism.nameSpan)
+    });
+  });
+}
+
+function checkMetrics(organism: OrganismNode, violations: Violation[]): void {
+  if (!organism.metrics) return;
+  const properties = organism.metrics.properties;
+
+  (Object.keys(METRIC_RANGES) as Array<keyof typeof METRIC_RANGES>).forEach(metric => {
+    // phi_iit is the canonical key, phi is accepted
+    const property = metric === 'phi'
+      ? findProperty(properties, 'phi_iit') || findProperty(properties, 'phi')
+      : findProperty(properties, metric);
+    const [min, max] = METRIC_RANGES[metric];
+
+    if (!property) {
+      violations.push({
+        rule: 'metric_range',
+        severity: 'error',
+        message: `METRICS is missing ${metric === 'phi' ? 'phi_iit' : metric}`,
+        ...at(organism.metrics!.span)
+      });
+      return;
+    }
+
+    const value = getNumberProperty([property], property.key);
+    if (value === undefined) {
+      violations.push({
+        rule: 'metric_range',
+        severity: 'error',
+        message: `METRICS ${property.key} must be a number, got ${valueToText(property.value)}`,
+        ...at(property.span)
+      });
+    } else if (value < min || value > max) {
+      violations.push({
+        rule: 'metric_range',
+        severity: 'error',
+        message: `METRICS ${property.key} is ${value}; must be between ${min} and ${max}`,
+        ...at(property.span)
+      });
+    }
+  });
+}
+
+function checkGene(gene: GeneNode, violations: Violation[]): void {
+  REQUIRED_GENE_FIELDS.filter(field => !findProperty(gene.properties, field)).forEach(field => {
+    violations.push({
+      rule: 'gene_fields',
+      severity: 'error',
+      message: `GENE ${gene.name} is missing ${field}`,
+      ...at(gene.nameSpan)
+    });
+  });
+
+  const expression = findProperty(gene.properties, 'expression');
+  if (!expression) return;
+  const value = getNumberProperty(gene.properties, 'expression');
+  if (value === undefined || value < 0 || value > 1) {
+    violations.push({
+      rule: 'gene_fields',
+      severity: 'error',
+      message: `GENE ${gene.name} expression must be a number between 0 and 1, got ${valueToText(expression.value)}`,
+      ...at(expression.span)
+    });
+  }
+}
+
+function checkGenome(organism: OrganismNode, violations: Violation[]): void {
+  if (!organism.genome) return;
+  const genes = organism.genome.genes;
+
+  if (genes.length < MIN_GENES) {
+    violations.push({
+      rule: 'gene_count',
+      severity: 'error',
+      message: `GENOME has ${genes.length} GENE${genes.length === 1 ? '' : 's'}; at least ${MIN_GENES} are required`,
+      ...at(organism.genome.span)
+    });
+  }
+  genes.forEach(gene => checkGene(gene, violations));
+}
+
+function checkAgentPole(agent: Property, violations: Violation[]): void {
+  const expected = AGENT_POLES[agent.key];
+  const value = agent.value;
+  if (value.kind !== 'object') return;
+
+  (['pole', 'role'] as const).forEach(field => {
+    const property = findProperty(value.properties, field);
+    if (property && valueToText(property.value).toLowerCase() !== expected[field]) {
+      violations.push({
+        rule: 'agents',
+        severity: 'warning',
+        message: `${agent.key} ${field} should be "${expected[field]}", got "${valueToText(property.value)}"`,
+        ...at(property.span)
+      });
+    }
+  });
+}
+
+function checkAgents(organism: OrganismNode, violations: Violation[]): void {
+  if (!organism.agents) return;
+  const properties = organism.agents.properties;
+
+  Object.keys(AGENT_POLES).forEach(name => {
+    const agent = findProperty(properties, name);
+    if (!agent) {
+      violations.push({
+        rule: 'agents',
+        severity: 'error',
+        message: `AGENTS is missing ${name}`,
+        ...at(organism.agents!.span)
+      });
+    } else {
+      checkAgentPole(agent, violations);
+    }
+  });
+
+  properties.filter(property => !AGENT_POLES[property.key]).forEach(property => {
+    violations.push({
+      rule: 'agents',
+      severity: 'warning',
+      message: `Unexpected agent ${property.key}; only AURA and AIDEN are defined`,
+      ...at(property.keySpan)
+    });
+  });
+}
+
+/**
+ * Validate organism source against the Genesis rules
+ */
+export function validateOrganism(source: string): OrganismValidation {
+  const { ast, diagnostics } = parseOrganism(source);
+  const violations: Violation[] = diagnostics
+    .filter(diagnostic => diagnostic.severity === 'error')
+    .map(diagnostic => ({
+      rule: 'syntax' as const,
+      severity: 'error' as const,
+      message: `${diagnostic.code}: ${diagnostic.message}`,
+      line: diagnostic.line,
+      column: diagnostic.column
+    }));
+
+  if (ast) {
+    checkBlocks(ast, violations);
+    checkMetrics(ast, violations);
+    checkGenome(ast, violations);
+    checkAgents(ast, violations);
+    if (ast.acts.length === 0) {
+      violations.push({
+        rule: 'act',
+        severity: 'error',
+        message: 'Organism has no ACT block',
+        ...at(ast.nameSpan)
+      });
+    }
+  }
+
+  return {
+    valid: !violations.some(violation => violation.severity === 'error'),
+    violations
+  };
+}
+
+/**
+ * Violations as a list for repair prompts and logs
+ */
+export function formatViolations(violations: Violation[]): string {
+  return violations
+    .map(violation => {
+      const location = violation.line ? ` (line ${violation.line})` : '';
+      return `- [${violation.severity}] ${violation.message}${location}`;
+    })
+    .join('\n');
+}
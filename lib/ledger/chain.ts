@@ -0,0 +1,184 @@
+/**
+ * QByte Ledger Hash Chain
+ * Proof-of-Coherence Block Integrity
+ *
+ * Each ledger entry commits to its own fields through a Merkle root and to
+ * the preceding block through previousHash, so any edit, deletion or
+ * reordering of history breaks the chain from that block onward.
+ */
+
+import * as crypto from 'crypto';
+import type { LedgerEntry } from './store';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export type UnsealedEntry = Omit<LedgerEntry, 'previousHash' | 'merkleRoot' | 'blockHash'>;
+
+export interface ChainFault {
+  blockHeight: number;
+  entryId: string;
+  reason: 'OUT_OF_ORDER' | 'BROKEN_LINK' | 'MERKLE_MISMATCH' | 'HASH_MISMATCH' | 'TIMESTAMP_REGRESSION' | 'UNREADABLE_EVENT';
+  expected: string | number;
+  actual: string | number;
+}
+
+// A stored event that could not be parsed, after blocksBefore readable blocks
+export interface UnreadableEvent {
+  line: number;
+  blocksBefore: number;
+  error: string;
+}
+
+export interface ChainRead {
+  entries: LedgerEntry[];
+  unreadable: UnreadableEvent | null;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  blocksChecked: number;
+  headHash: string;
+  firstFault: ChainFault | null;
+  verifiedAt: number;
+}
+
+function sha256(data: string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+// Leaf order is part of the protocol; append new fields, never reorder
+function entryLeaves(entry: UnsealedEntry): string[] {
+  const fields: [string, unknown][] = [
+    ['id', entry.id],
+    ['timestamp', entry.timestamp],
+    ['nodeId', entry.nodeId],
+    ['walletAddress', entry.walletAddress],
+    ['proofHash', entry.proofHash],
+    ['lambda', entry.metrics.lambda],
+    ['phi', entry.metrics.phi],
+    ['gamma', entry.metrics.gamma],
+    ['xi', entry.metrics.xi],
+    ['reward', entry.reward],
+    ['blockHeight', entry.blockHeight],
+    ['type', entry.type],
+    ['validated', entry.validated],
+    ['validatedBy', entry.validatedBy]
+  ];
+
+  if (entry.transfer) {
+    fields.push(
+      ['transfer.from', entry.transfer.from],
+      ['transfer.to', entry.transfer.to],
+      ['transfer.amount', entry.transfer.amount],
+      ['transfer.nonce', entry.transfer.nonce],
+      ['transfer.signature', entry.transfer.signature]
+    );
+  }
+
+  // Absent optional fields hash as null
+  return fields.map(([name, value]) => sha256(`${name}=${JSON.stringify(value ?? null)}`));
+}
+
+/**
+ * Merkle root over an entry's fields (odd nodes are paired with themselves)
+ */
+export function computeMerkleRoot(entry: UnsealedEntry): string {
+  let level = entryLeaves(entry);
+
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i];
+      const right = i + 1 < level.length ? level[i + 1] : left;
+      next.push(sha256(left + right));
+    }
+    level = next;
+  }
+
+  return level[0];
+}
+
+export function computeBlockHash(blockHeight: number, previousHash: string, merkleRoot: string): string {
+  return sha256(`${blockHeight}:${previousHash}:${merkleRoot}`);
+}
+
+/**
+ * Link an entry to the chain head
+ */
+export function sealEntry(entry: UnsealedEntry, previousHash: string): LedgerEntry {
+  const merkleRoot = computeMerkleRoot(entry);
+  return {
+    ...entry,
+    previousHash,
+    merkleRoot,
+    blockHash: computeBlockHash(entry.blockHeight, previousHash, merkleRoot)
+  };
+}
+
+/**
+ * Walk the chain from genesis and report the first tampered, out-of-order
+ * or unreadable block
+ */
+export function verifyChain({ entries, unreadable }: ChainRead): ChainVerification {
+  let previousHash = GENESIS_HASH;
+  let previousTimestamp = 0;
+
+  for (let i = 0; i <= entries.length; i++) {
+    if (unreadable && unreadable.blocksBefore === i) {
+      return {
+        valid: false,
+        blocksChecked: i,
+        headHash: previousHash,
+        firstFault: {
+          blockHeight: i + 1,
+          entryId: '',
+          reason: 'UNREADABLE_EVENT',
+          expected: 'a parseable ledger event',
+          actual: `line ${unreadable.line}: ${unreadable.error}`
+        },
+        verifiedAt: Date.now()
+      };
+    }
+    if (i === entries.length) break;
+
+    const entry = entries[i];
+    const fault = (reason: ChainFault['reason'], expected: string | number, actual: string | number) => ({
+      valid: false,
+      blocksChecked: i + 1,
+      headHash: previousHash,
+      firstFault: { blockHeight: entry.blockHeight, entryId: entry.id, reason, expected, actual },
+      verifiedAt: Date.now()
+    });
+
+    if (entry.blockHeight !== i + 1) {
+      return fault('OUT_OF_ORDER', i + 1, entry.blockHeight);
+    }
+    if (entry.previousHash !== previousHash) {
+      return fault('BROKEN_LINK', previousHash, entry.previousHash || '');
+    }
+    if (entry.timestamp < previousTimestamp) {
+      return fault('TIMESTAMP_REGRESSION', previousTimestamp, entry.timestamp);
+    }
+
+    const merkleRoot = computeMerkleRoot(entry);
+    if (entry.merkleRoot !== merkleRoot) {
+      return fault('MERKLE_MISMATCH', merkleRoot, entry.merkleRoot || '');
+    }
+
+    const blockHash = computeBlockHash(entry.blockHeight, entry.previousHash, merkleRoot);
+    if (entry.blockHash !== blockHash) {
+      return fault('HASH_MISMATCH', blockHash, entry.blockHash || '');
+    }
+
+    previousHash = entry.blockHash;
+    previousTimestamp = entry.timestamp;
+  }
+
+  return {
+    valid: true,
+    blocksChecked: entries.length,
+    headHash: previousHash,
+    firstFault: null,
+    verifiedAt: Date.now()
+  };
+}
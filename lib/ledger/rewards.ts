@@ -0,0 +1,58 @@
+/**
+ * QByte Reward Calculation
+ * Sovereign Proof-of-Coherence Tokenomics
+ *
+ * Shared by /api/ledger and /api/qbyte so both pay identical rewards.
+ */
+
+import * as crypto from 'crypto';
+
+// Physical constants for reward calculation
+export const LAMBDA_PHI = 2.176435e-8;
+export const PHI_THRESHOLD = 0.7734;
+export const GAMMA_CRITICAL = 0.3;
+
+// Reward coefficients
+const REWARD_ALPHA = 0.35;   // Coherence weight
+const REWARD_BETA = 0.25;    // Consciousness weight
+const REWARD_GAMMA = 0.25;   // Stability weight
+const REWARD_DELTA = 0.15;   // Negentropy weight
+
+export const REWARD_FORMULA = 'R = 0.35*Lambda + 0.25*Phi + 0.25*(1-Gamma) + 0.15*log(1+Xi)';
+
+// Calculate reward from CCCE metrics
+export function calculateReward(lambda: number, phi: number, gamma: number): number {
+  // Validate metrics
+  if (gamma <= 0 || gamma > 1) gamma = 0.1;
+  if (lambda < 0 || lambda > 1) lambda = 0.5;
+  if (phi < 0 || phi > 1) phi = 0.5;
+
+  const xi = (lambda * phi) / gamma;
+
+  // R = alpha*Lambda + beta*Phi + gamma_w*(1-Gamma) + delta*log(1+Xi)
+  const baseReward = REWARD_ALPHA * lambda +
+    REWARD_BETA * phi +
+    REWARD_GAMMA * (1 - gamma) +
+    REWARD_DELTA * Math.log(1 + xi);
+
+  // Scale to qBYTE (base ~1000 per coherent cycle)
+  let reward = baseReward * 1000;
+
+  // Bonus for consciousness threshold
+  if (phi >= PHI_THRESHOLD) {
+    reward *= 1.5; // 50% bonus for CONSCIOUS state
+  }
+
+  // Penalty for high decoherence
+  if (gamma > GAMMA_CRITICAL) {
+    reward *= 0.5; // 50% penalty
+  }
+
+  return Math.round(reward * 100) / 100;
+}
+
+// Generate proof hash
+export function generateProofHash(metrics: { lambda: number; phi: number; gamma: number }, nodeId: string, timestamp: number): string {
+  const data = JSON.stringify({ ...metrics, nodeId, timestamp, constant: LAMBDA_PHI });
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
@@ -0,0 +1,577 @@
+/**
+ * QByte Ledger Store
+ * Sovereign Proof-of-Coherence Persistence Layer
+ *
+ * Pluggable storage for ledger entries and wallets. The file-backed store
+ * appends one JSON event per line and rebuilds balances by replaying the
+ * log on startup, so mining history survives server restarts.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ChainRead, GENESIS_HASH, sealEntry } from './chain';
+
+export const MASTER_WALLET = 'qb_master_sovereign';
+export const INITIAL_SUPPLY = 1000000; // 1M initial supply
+
+// Balances are rounded to cents; allow for float drift when summing
+const CONSISTENCY_TOLERANCE = 0.01;
+
+const HOMEDIR = process.env.HOME || '/home/dnalang';
+const DEFAULT_LEDGER_PATH = path.join(HOMEDIR, '.sovereign/state/qbyte_ledger.jsonl');
+
+// Ledger entry interface
+export interface LedgerEntry {
+  id: string;
+  type?: 'mining' | 'transfer'; // absent on entries written before transfers
+  timestamp: number;
+  nodeId: string;
+  walletAddress: string;
+  proofHash: string;
+  metrics: {
+    lambda: number;
+    phi: number;
+    gamma: number;
+    xi: number;
+  };
+  reward: number;
+  blockHeight: number;
+  validated: boolean;
+  validatedBy?: string;
+  transfer?: TransferDetails;
+  previousHash: string;
+  merkleRoot: string;
+  blockHash: string;
+}
+
+// Wallet interface
+export interface Wallet {
+  address: string;
+  balance: number;
+  totalEarned: number;
+  totalSpent: number;
+  transactionCount: number;
+  createdAt: number;
+  lastActivity: number;
+  owner: string;
+  nonce?: number; // last transfer nonce consumed by this wallet
+  signingKey?: string; // owner's Ed25519 public key (base64 SPKI), registered once
+}
+
+export interface TransferDetails {
+  from: string;
+  to: string;
+  amount: number;
+  nonce: number;
+  signature: string;
+}
+
+// Events persisted to the append-only log
+export type LedgerEvent =
+  | { type: 'wallet'; wallet: Wallet }
+  | { type: 'reward'; entry: LedgerEntry; owner: string }
+  | { type: 'transfer'; entry: LedgerEntry }
+  | { type: 'signing_key'; address: string; publicKey: string; timestamp: number };
+
+export interface RewardInput {
+  id: string;
+  timestamp: number;
+  nodeId: string;
+  walletAddress: string;
+  owner: string;
+  proofHash: string;
+  metrics: LedgerEntry['metrics'];
+  reward: number;
+  validatedBy?: string;
+  minIntervalMs?: number; // reject if this node mined more recently
+}
+
+export type RewardResult =
+  | { success: true; entry: LedgerEntry; wallet: Wallet }
+  | { success: false; error: string; reason: 'POOL_EXHAUSTED' | 'SUBMISSION_TOO_FREQUENT'; retryAfterMs?: number };
+
+export interface TransferInput {
+  id: string;
+  timestamp: number;
+  initiatedBy: string;
+  transfer: TransferDetails;
+  txHash: string;
+  dailyLimit: number;
+}
+
+export type TransferResult =
+  | { success: true; entry: LedgerEntry; sender: Wallet; recipient: Wallet }
+  | { success: false; error: string; status: number };
+
+export type SigningKeyResult =
+  | { success: true; wallet: Wallet }
+  | { success: false; error: string; status: number };
+
+export interface ConsistencyReport {
+  consistent: boolean;
+  expectedSupply: number;
+  actualSupply: number;
+  drift: number;
+  walletCount: number;
+  entryCount: number;
+  blockHeight: number;
+  checkedAt: number;
+}
+
+export interface LedgerStore {
+  getWallet(address: string): Promise<Wallet | null>;
+  ensureWallet(address: string, owner: string): Promise<Wallet>;
+  listWallets(): Promise<Wallet[]>;
+  getEntries(walletAddress?: string): Promise<LedgerEntry[]>;
+  getBlockHeight(): Promise<number>;
+  readChain(): Promise<ChainRead>;
+  recordReward(input: RewardInput): Promise<RewardResult>;
+  recordTransfer(input: TransferInput): Promise<TransferResult>;
+  registerSigningKey(address: string, publicKey: string): Promise<SigningKeyResult>;
+  getTransferredSince(address: string, since: number): Promise<number>;
+  checkConsistency(): Promise<ConsistencyReport>;
+}
+
+/**
+ * In-memory ledger store
+ * Holds state and applies events; subclasses add persistence.
+ */
+export class MemoryLedgerStore implements LedgerStore {
+  protected wallets: Map<string, Wallet> = new Map();
+  protected entries: LedgerEntry[] = [];
+  protected blockHeight = 0;
+  protected lastMinedAt: Map<string, number> = new Map();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // Serialize mutations so balance checks and updates happen atomically
+  protected exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(() => this.ready()).then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  protected async ready(): Promise<void> {
+    if (!this.wallets.has(MASTER_WALLET)) {
+      await this.commit({ type: 'wallet', wallet: createGenesisWallet() });
+    }
+  }
+
+  // Persist first, then apply, so memory never runs ahead of storage
+  protected async commit(event: LedgerEvent): Promise<void> {
+    await this.persist(event);
+    this.apply(event);
+  }
+
+  protected async persist(_event: LedgerEvent): Promise<void> {
+    // In-memory store has nothing to persist
+  }
+
+  protected apply(event: LedgerEvent): void {
+    switch (event.type) {
+      case 'wallet': {
+        // Wallet events are outside the hash chain, so only identity is taken
+        // from them; every amount is derived from chained entries
+        const { address, owner, createdAt } = event.wallet;
+        if (!this.wallets.has(address)) {
+          this.wallets.set(address, address === MASTER_WALLET
+            ? createGenesisWallet(createdAt)
+            : createEmptyWallet(address, owner, createdAt));
+        }
+        break;
+      }
+
+      case 'reward': {
+        const { entry, owner } = event;
+        const master = this.wallets.get(MASTER_WALLET);
+        if (!master) throw new Error('Reward applied before genesis wallet');
+
+        if (!this.wallets.has(entry.walletAddress)) {
+          this.wallets.set(entry.walletAddress, createEmptyWallet(entry.walletAddress, owner, entry.timestamp));
+        }
+        const wallet = this.wallets.get(entry.walletAddress)!;
+
+        master.balance = roundAmount(master.balance - entry.reward);
+        master.totalSpent = roundAmount(master.totalSpent + entry.reward);
+        wallet.balance = roundAmount(wallet.balance + entry.reward);
+        wallet.totalEarned = roundAmount(wallet.totalEarned + entry.reward);
+        wallet.transactionCount++;
+        wallet.lastActivity = entry.timestamp;
+        this.lastMinedAt.set(entry.nodeId, Math.max(this.lastMinedAt.get(entry.nodeId) || 0, entry.timestamp));
+
+        this.entries.push(entry);
+        this.blockHeight = Math.max(this.blockHeight, entry.blockHeight);
+        break;
+      }
+
+      case 'transfer': {
+        const { entry } = event;
+        const details = entry.transfer;
+        const sender = details && this.wallets.get(details.from);
+        const recipient = details && this.wallets.get(details.to);
+        if (!details || !sender || !recipient) {
+          throw new Error(`Transfer ${entry.id} references unknown wallets`);
+        }
+
+        sender.balance = roundAmount(sender.balance - details.amount);
+        sender.totalSpent = roundAmount(sender.totalSpent + details.amount);
+        sender.nonce = details.nonce;
+        sender.transactionCount++;
+        sender.lastActivity = entry.timestamp;
+        recipient.balance = roundAmount(recipient.balance + details.amount);
+        recipient.transactionCount++;
+        recipient.lastActivity = entry.timestamp;
+
+        this.entries.push(entry);
+        this.blockHeight = Math.max(this.blockHeight, entry.blockHeight);
+        break;
+      }
+
+      case 'signing_key': {
+        // First registration wins, on replay as well as live
+        const wallet = this.wallets.get(event.address);
+        if (wallet && !wallet.signingKey) {
+          wallet.signingKey = event.publicKey;
+        }
+        break;
+      }
+    }
+  }
+
+  async getWallet(address: string): Promise<Wallet | null> {
+    return this.exclusive(async () => {
+      const wallet = this.wallets.get(address);
+      return wallet ? { ...wallet } : null;
+    });
+  }
+
+  async ensureWallet(address: string, owner: string): Promise<Wallet> {
+    return this.exclusive(async () => {
+      if (!this.wallets.has(address)) {
+        await this.commit({ type: 'wallet', wallet: createEmptyWallet(address, owner, Date.now()) });
+      }
+      return { ...this.wallets.get(address)! };
+    });
+  }
+
+  async listWallets(): Promise<Wallet[]> {
+    return this.exclusive(async () => Array.from(this.wallets.values()).map(w => ({ ...w })));
+  }
+
+  async getEntries(walletAddress?: string): Promise<LedgerEntry[]> {
+    return this.exclusive(async () => walletAddress
+      ? this.entries.filter(e => e.walletAddress === walletAddress || e.transfer?.from === walletAddress)
+      : this.entries.slice());
+  }
+
+  async getBlockHeight(): Promise<number> {
+    return this.exclusive(async () => this.blockHeight);
+  }
+
+  // Entries as held by the backing storage, for chain verification
+  async readChain(): Promise<ChainRead> {
+    return { entries: await this.getEntries(), unreadable: null };
+  }
+
+  protected headHash(): string {
+    const head = this.entries[this.entries.length - 1];
+    return head ? head.blockHash : GENESIS_HASH;
+  }
+
+  async recordReward(input: RewardInput): Promise<RewardResult> {
+    return this.exclusive(async () => {
+      const master = this.wallets.get(MASTER_WALLET)!;
+      if (master.balance < input.reward) {
+        return { success: false as const, error: 'Insufficient mining pool balance', reason: 'POOL_EXHAUSTED' as const };
+      }
+
+      const lastMined = this.lastMinedAt.get(input.nodeId);
+      if (input.minIntervalMs && lastMined !== undefined && input.timestamp - lastMined < input.minIntervalMs) {
+        const retryAfterMs = input.minIntervalMs - (input.timestamp - lastMined);
+        return {
+          success: false as const,
+          error: `Node ${input.nodeId} must wait ${Math.ceil(retryAfterMs / 1000)}s before submitting again`,
+          reason: 'SUBMISSION_TOO_FREQUENT' as const,
+          retryAfterMs
+        };
+      }
+
+      const entry = sealEntry({
+        id: input.id,
+        type: 'mining',
+        timestamp: input.timestamp,
+        nodeId: input.nodeId,
+        walletAddress: input.walletAddress,
+        proofHash: input.proofHash,
+        metrics: input.metrics,
+        reward: input.reward,
+        blockHeight: this.blockHeight + 1,
+        validated: true,
+        validatedBy: input.validatedBy
+      }, this.headHash());
+
+      await this.commit({ type: 'reward', entry, owner: input.owner });
+
+      return {
+        success: true as const,
+        entry,
+        wallet: { ...this.wallets.get(input.walletAddress)! }
+      };
+    });
+  }
+
+  async recordTransfer(input: TransferInput): Promise<TransferResult> {
+    return this.exclusive(async () => {
+      const { from, to, amount, nonce } = input.transfer;
+      const sender = this.wallets.get(from);
+      const recipient = this.wallets.get(to);
+
+      if (!sender) {
+        return { success: false as const, error: 'Sender wallet not found', status: 404 };
+      }
+      if (!recipient) {
+        return { success: false as const, error: 'Recipient wallet not found', status: 404 };
+      }
+      if (nonce <= (sender.nonce || 0)) {
+        return {
+          success: false as const,
+          error: `Nonce already used. Next nonce must exceed ${sender.nonce || 0}`,
+          status: 409
+        };
+      }
+      if (sender.balance < amount) {
+        return { success: false as const, error: 'Insufficient balance', status: 400 };
+      }
+
+      const sentToday = this.transferredSince(from, input.timestamp - 86400000);
+      if (sentToday + amount > input.dailyLimit) {
+        return {
+          success: false as const,
+          error: `Daily transfer limit exceeded (${sentToday} of ${input.dailyLimit} qBYTE used)`,
+          status: 403
+        };
+      }
+
+      const entry = sealEntry({
+        id: input.id,
+        type: 'transfer',
+        timestamp: input.timestamp,
+        nodeId: input.initiatedBy,
+        walletAddress: to,
+        proofHash: input.txHash,
+        metrics: { lambda: 0, phi: 0, gamma: 0, xi: 0 },
+        reward: 0,
+        blockHeight: this.blockHeight + 1,
+        validated: true,
+        validatedBy: 'signature',
+        transfer: input.transfer
+      }, this.headHash());
+
+      await this.commit({ type: 'transfer', entry });
+
+      return {
+        success: true as const,
+        entry,
+        sender: { ...this.wallets.get(from)! },
+        recipient: { ...this.wallets.get(to)! }
+      };
+    });
+  }
+
+  async registerSigningKey(address: string, publicKey: string): Promise<SigningKeyResult> {
+    return this.exclusive(async () => {
+      const wallet = this.wallets.get(address);
+      if (!wallet) {
+        return { success: false as const, error: 'Wallet not found', status: 404 };
+      }
+      if (wallet.signingKey) {
+        return { success: false as const, error: 'A signing key is already registered for this wallet', status: 409 };
+      }
+
+      await this.commit({ type: 'signing_key', address, publicKey, timestamp: Date.now() });
+
+      return { success: true as const, wallet: { ...this.wallets.get(address)! } };
+    });
+  }
+
+  async getTransferredSince(address: string, since: number): Promise<number> {
+    return this.exclusive(async () => this.transferredSince(address, since));
+  }
+
+  protected transferredSince(address: string, since: number): number {
+    return roundAmount(this.entries
+      .filter(e => e.transfer && e.transfer.from === address && e.timestamp >= since)
+      .reduce((sum, e) => sum + e.transfer!.amount, 0));
+  }
+
+  async checkConsistency(): Promise<ConsistencyReport> {
+    return this.exclusive(async () => this.consistencyReport());
+  }
+
+  protected consistencyReport(): ConsistencyReport {
+    const actualSupply = roundAmount(
+      Array.from(this.wallets.values()).reduce((sum, w) => sum + w.balance, 0)
+    );
+    const drift = roundAmount(actualSupply - INITIAL_SUPPLY);
+
+    return {
+      consistent: Math.abs(drift) <= CONSISTENCY_TOLERANCE,
+      expectedSupply: INITIAL_SUPPLY,
+      actualSupply,
+      drift,
+      walletCount: this.wallets.size,
+      entryCount: this.entries.length,
+      blockHeight: this.blockHeight,
+      checkedAt: Date.now()
+    };
+  }
+}
+
+/**
+ * File-backed ledger store (append-only JSONL)
+ * Replays the event log once before serving the first request.
+ */
+export class FileLedgerStore extends MemoryLedgerStore {
+  private loaded: Promise<void> | null = null;
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  protected async ready(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.replay();
+    }
+    await this.loaded;
+    await super.ready();
+  }
+
+  private async replay(): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    // Events end in '\n'; text after the last one is a crash mid-append
+    const complete = content.lastIndexOf('\n') + 1;
+    const lines = content.slice(0, complete).split('\n').filter(Boolean);
+    lines.forEach((line, index) => {
+      try {
+        this.apply(JSON.parse(line) as LedgerEvent);
+      } catch (error) {
+        throw new Error(`Ledger log corrupt at line ${index + 1}: ${(error as Error).message}`);
+      }
+    });
+
+    const trailing = content.slice(complete);
+    if (trailing) {
+      let event: LedgerEvent | null = null;
+      try {
+        event = JSON.parse(trailing) as LedgerEvent;
+      } catch {
+        // Torn event: never acknowledged, so drop it
+      }
+      if (event) {
+        this.apply(event);
+        lines.push(trailing);
+        await fs.appendFile(this.filePath, '\n', 'utf-8');
+      } else {
+        // Cut the fragment off so the next append starts on a fresh line
+        console.warn('[LEDGER] Truncating incomplete trailing event in', this.filePath);
+        await fs.truncate(this.filePath, Buffer.byteLength(content.slice(0, complete), 'utf-8'));
+      }
+    }
+
+    const report = this.consistencyReport();
+    console.log(`[LEDGER] Replayed ${lines.length} events (block height ${report.blockHeight})`);
+    if (!report.consistent) {
+      console.warn('[LEDGER] Supply mismatch after replay:', JSON.stringify(report));
+    }
+  }
+
+  // Re-read the log so tampering on disk is caught, not just in memory
+  async readChain(): Promise<ChainRead> {
+    return this.exclusive(async () => {
+      let content: string;
+      try {
+        content = await fs.readFile(this.filePath, 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { entries: [], unreadable: null };
+        throw error;
+      }
+
+      // Only the unterminated tail can be a torn append (cut off at the next
+      // replay); a complete line that does not parse has been tampered with
+      const complete = content.lastIndexOf('\n') + 1;
+      const lines = content.slice(0, complete).split('\n');
+      const entries: LedgerEntry[] = [];
+      for (let index = 0; index < lines.length; index++) {
+        if (!lines[index]) continue;
+        let event: LedgerEvent;
+        try {
+          event = JSON.parse(lines[index]) as LedgerEvent;
+        } catch (error) {
+          return {
+            entries,
+            unreadable: { line: index + 1, blocksBefore: entries.length, error: (error as Error).message }
+          };
+        }
+        if (event.type === 'reward' || event.type === 'transfer') entries.push(event.entry);
+      }
+      return { entries, unreadable: null };
+    });
+  }
+
+  protected async persist(event: LedgerEvent): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, JSON.stringify(event) + '\n', 'utf-8');
+  }
+}
+
+function createGenesisWallet(now: number = Date.now()): Wallet {
+  return {
+    address: MASTER_WALLET,
+    balance: INITIAL_SUPPLY,
+    totalEarned: INITIAL_SUPPLY,
+    totalSpent: 0,
+    transactionCount: 0,
+    createdAt: now,
+    lastActivity: now,
+    owner: 'system'
+  };
+}
+
+function createEmptyWallet(address: string, owner: string, timestamp: number): Wallet {
+  return {
+    address,
+    balance: 0,
+    totalEarned: 0,
+    totalSpent: 0,
+    transactionCount: 0,
+    createdAt: timestamp,
+    lastActivity: timestamp,
+    owner
+  };
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Route bundles may load this module separately; keep one store per process
+const globalForLedger = globalThis as unknown as { __qbyteLedgerStore?: LedgerStore };
+
+/**
+ * Get the shared ledger store
+ * QBYTE_LEDGER_STORE=memory disables persistence (tests, ephemeral demos)
+ */
+export function getLedgerStore(): LedgerStore {
+  if (!globalForLedger.__qbyteLedgerStore) {
+    globalForLedger.__qbyteLedgerStore = process.env.QBYTE_LEDGER_STORE === 'memory'
+      ? new MemoryLedgerStore()
+      : new FileLedgerStore(process.env.QBYTE_LEDGER_PATH || DEFAULT_LEDGER_PATH);
+  }
+  return globalForLedger.__qbyteLedgerStore;
+}
@@ -0,0 +1,82 @@
+/**
+ * QByte Wallet Transfers
+ * Signed wallet-to-wallet transactions
+ *
+ * Senders sign the canonical payload `from:to:amount:nonce` with an Ed25519
+ * key they generate themselves. Only the public half is registered, once per
+ * wallet (POST /api/ledger/transfer/key); the server never holds a key that
+ * could sign on the wallet's behalf.
+ */
+
+import * as crypto from 'crypto';
+import { UserRole } from '../auth/config';
+
+export interface TransferLimits {
+  maxPerTransfer: number;
+  dailyLimit: number;
+}
+
+// Per-role transfer limits in qBYTE
+export const TRANSFER_LIMITS: Record<UserRole, TransferLimits> = {
+  [UserRole.MASTER_ADMIN]: { maxPerTransfer: Infinity, dailyLimit: Infinity },
+  [UserRole.ADMIN]: { maxPerTransfer: 100000, dailyLimit: 500000 },
+  [UserRole.OPERATOR]: { maxPerTransfer: 25000, dailyLimit: 100000 },
+  [UserRole.NODE]: { maxPerTransfer: 10000, dailyLimit: 50000 },
+  [UserRole.RESEARCHER]: { maxPerTransfer: 5000, dailyLimit: 20000 },
+  [UserRole.VIEWER]: { maxPerTransfer: 0, dailyLimit: 0 }
+};
+
+// Ed25519 signatures are 64 bytes: 88 base64 characters with padding
+const SIGNATURE_PATTERN = /^[A-Za-z0-9+/]{86}==$/;
+const MAX_PUBLIC_KEY_LENGTH = 1024;
+
+export function getTransferLimits(role: UserRole): TransferLimits {
+  return TRANSFER_LIMITS[role] || TRANSFER_LIMITS[UserRole.VIEWER];
+}
+
+/**
+ * Normalize a client-supplied Ed25519 public key (PEM or base64 SPKI DER)
+ * Returns the key as base64 SPKI, or null if it is not an Ed25519 public key
+ */
+export function parseSigningPublicKey(value: unknown): string | null {
+  if (typeof value !== 'string' || value.length > MAX_PUBLIC_KEY_LENGTH) return null;
+
+  try {
+    const key = value.includes('-----BEGIN')
+      ? crypto.createPublicKey(value)
+      : crypto.createPublicKey({ key: Buffer.from(value, 'base64'), format: 'der', type: 'spki' });
+    if (key.asymmetricKeyType !== 'ed25519') return null;
+    return key.export({ format: 'der', type: 'spki' }).toString('base64');
+  } catch {
+    return null;
+  }
+}
+
+export function canonicalTransferPayload(from: string, to: string, amount: number, nonce: number): string {
+  return `${from}:${to}:${amount.toFixed(2)}:${nonce}`;
+}
+
+export function verifyTransferSignature(
+  from: string,
+  to: string,
+  amount: number,
+  nonce: number,
+  signature: string,
+  publicKey: string
+): boolean {
+  if (!SIGNATURE_PATTERN.test(signature)) return false;
+
+  const key = crypto.createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+  return crypto.verify(
+    null,
+    Buffer.from(canonicalTransferPayload(from, to, amount, nonce), 'utf-8'),
+    key,
+    Buffer.from(signature, 'base64')
+  );
+}
+
+export function computeTransactionHash(from: string, to: string, amount: number, nonce: number, timestamp: number): string {
+  return crypto.createHash('sha256')
+    .update(`${canonicalTransferPayload(from, to, amount, nonce)}:${timestamp}`)
+    .digest('hex');
+}
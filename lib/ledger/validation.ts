@@ -0,0 +1,223 @@
+/**
+ * Proof-of-Coherence Validation
+ * Server-side checks for mining submissions
+ *
+ * Submitted metrics must agree with the server's own view: the submitting
+ * node's last heartbeat when it is a registered mesh node with fresh
+ * metrics, otherwise the live ChatMesh/bridge metrics. With neither there
+ * is nothing to check against, so submissions are refused; the synthetic
+ * fallback metrics are public and would be trivial to echo back, and a
+ * bridge state written by a heal only repeats the server's own view. System
+ * nodes never mine. Difficulty rises as the mining pool drains, raising the
+ * Xi target and shrinking the payout.
+ */
+
+import { isBridgeStateFromHeal } from '../metrics/heals';
+import { getCurrentMetrics } from '../metrics/sources';
+import { getNode } from '../nodes/registry';
+import { calculateReward } from './rewards';
+import { getLedgerStore, INITIAL_SUPPLY, MASTER_WALLET } from './store';
+
+// Absolute tolerance between submitted and reference metrics
+export const METRIC_TOLERANCE = {
+  lambda: 0.05,
+  phi: 0.05,
+  gamma: 0.02
+};
+
+// Minimum time between accepted submissions from one node
+export const MIN_SUBMISSION_INTERVAL_MS = 60000;
+
+// Heartbeat metrics older than this fall back to the live server view
+export const HEARTBEAT_MAX_AGE_MS = 120000;
+
+// Xi target at full pool; multiplied by difficulty
+const BASE_XI_TARGET = 1.5;
+const MAX_DIFFICULTY = 16;
+
+export type ProofRejectionReason =
+  | 'INVALID_METRICS'
+  | 'NODE_INACTIVE'
+  | 'NODE_REVOKED'
+  | 'SYSTEM_NODE'
+  | 'NO_REFERENCE'
+  | 'METRICS_OUT_OF_TOLERANCE'
+  | 'BELOW_DIFFICULTY_TARGET'
+  | 'SUBMISSION_TOO_FREQUENT'
+  | 'POOL_EXHAUSTED';
+
+export interface ReferenceMetrics {
+  lambda: number;
+  phi: number;
+  gamma: number;
+  source: 'heartbeat' | 'chatmesh' | 'bridge';
+  timestamp: number;
+}
+
+export interface MetricDeviation {
+  metric: 'lambda' | 'phi' | 'gamma';
+  submitted: number;
+  reference: number;
+  tolerance: number;
+}
+
+export interface Difficulty {
+  level: number;
+  xiTarget: number;
+  poolBalance: number;
+}
+
+export type ProofValidation =
+  | {
+      accepted: true;
+      nodeId: string;
+      metrics: { lambda: number; phi: number; gamma: number; xi: number };
+      reference: ReferenceMetrics;
+      difficulty: Difficulty;
+      reward: number;
+    }
+  | {
+      accepted: false;
+      reason: ProofRejectionReason;
+      error: string;
+      status: number;
+      details?: Record<string, unknown>;
+    };
+
+export const REJECTION_STATUS: Record<ProofRejectionReason, number> = {
+  INVALID_METRICS: 400,
+  NODE_INACTIVE: 403,
+  NODE_REVOKED: 403,
+  SYSTEM_NODE: 403,
+  NO_REFERENCE: 503,
+  METRICS_OUT_OF_TOLERANCE: 422,
+  BELOW_DIFFICULTY_TARGET: 422,
+  SUBMISSION_TOO_FREQUENT: 429,
+  POOL_EXHAUSTED: 409
+};
+
+function reject(
+  reason: ProofRejectionReason,
+  error: string,
+  details?: Record<string, unknown>
+): ProofValidation {
+  return { accepted: false, reason, error, status: REJECTION_STATUS[reason], details };
+}
+
+function inRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Difficulty grows by one level each time the pool halves
+ */
+export function calculateDifficulty(poolBalance: number): Difficulty {
+  const remaining = Math.max(poolBalance, 0) / INITIAL_SUPPLY;
+  const level = remaining > 0
+    ? Math.min(MAX_DIFFICULTY, 1 + Math.max(0, Math.log2(1 / remaining)))
+    : MAX_DIFFICULTY;
+
+  return {
+    level: Math.round(level * 100) / 100,
+    xiTarget: Math.round(BASE_XI_TARGET * level * 100) / 100,
+    poolBalance
+  };
+}
+
+/**
+ * Reference metrics for a submission: fresh heartbeat, else live server
+ * metrics; null when only the synthetic fallback or a heal-written bridge
+ * state is available
+ */
+export async function getReferenceMetrics(nodeId: string): Promise<ReferenceMetrics | null> {
+  const node = getNode(nodeId);
+  if (node?.ccceMetrics && node.registeredBy !== 'system' && Date.now() - node.lastSeen <= HEARTBEAT_MAX_AGE_MS) {
+    return { ...node.ccceMetrics, source: 'heartbeat', timestamp: node.lastSeen };
+  }
+
+  const live = await getCurrentMetrics();
+  if (live.source === 'fallback') return null;
+  if (live.source === 'bridge' && isBridgeStateFromHeal()) return null;
+  return {
+    lambda: live.lambda,
+    phi: live.phi,
+    gamma: live.gamma,
+    source: live.source,
+    timestamp: live.timestamp
+  };
+}
+
+/**
+ * Validate a proof-of-coherence submission and price its reward
+ * The minimum interval is enforced atomically by the ledger store.
+ */
+export async function validateProofSubmission(
+  nodeId: string,
+  metrics: { lambda?: unknown; phi?: unknown; gamma?: unknown } | null | undefined
+): Promise<ProofValidation> {
+  if (!metrics || !inRange(metrics.lambda, 0, 1) || !inRange(metrics.phi, 0, 1) ||
+      !inRange(metrics.gamma, 0.01, 1)) {
+    return reject('INVALID_METRICS', 'Metrics must be numbers with lambda, phi in [0, 1] and gamma in [0.01, 1]');
+  }
+
+  const { lambda, phi, gamma } = metrics;
+
+  const node = getNode(nodeId);
+  if (node?.registeredBy === 'system') {
+    return reject('SYSTEM_NODE', `Node ${nodeId} is a system node and cannot mine`);
+  }
+  if (node?.status === 'revoked') {
+    return reject('NODE_REVOKED', `Node ${nodeId} has been revoked`);
+  }
+  if (node && node.status !== 'active') {
+    return reject('NODE_INACTIVE', `Node ${nodeId} is ${node.status}`, { status: node.status });
+  }
+
+  const reference = await getReferenceMetrics(nodeId);
+  if (!reference) {
+    return reject('NO_REFERENCE', 'No live coherence metrics to validate against; ChatMesh and the bridge are unavailable');
+  }
+  const submitted = { lambda, phi, gamma };
+  const deviations: MetricDeviation[] = (['lambda', 'phi', 'gamma'] as const)
+    .filter(metric => Math.abs(submitted[metric] - reference[metric]) > METRIC_TOLERANCE[metric])
+    .map(metric => ({
+      metric,
+      submitted: submitted[metric],
+      reference: Math.round(reference[metric] * 10000) / 10000,
+      tolerance: METRIC_TOLERANCE[metric]
+    }));
+
+  if (deviations.length > 0) {
+    return reject('METRICS_OUT_OF_TOLERANCE', 'Submitted metrics do not match observed coherence', {
+      referenceSource: reference.source,
+      deviations
+    });
+  }
+
+  const master = await getLedgerStore().getWallet(MASTER_WALLET);
+  const difficulty = calculateDifficulty(master ? master.balance : 0);
+  const xi = (lambda * phi) / gamma;
+
+  if (xi < difficulty.xiTarget) {
+    return reject('BELOW_DIFFICULTY_TARGET', `Xi ${xi.toFixed(2)} is below difficulty target ${difficulty.xiTarget}`, {
+      xi: Math.round(xi * 100) / 100,
+      difficulty
+    });
+  }
+
+  // Pay on whichever of submitted/reference scores lower, scaled by difficulty
+  const base = Math.min(
+    calculateReward(lambda, phi, gamma),
+    calculateReward(reference.lambda, reference.phi, reference.gamma)
+  );
+  const reward = Math.round((base / difficulty.level) * 100) / 100;
+
+  return {
+    accepted: true,
+    nodeId,
+    metrics: { lambda, phi, gamma, xi },
+    reference,
+    difficulty,
+    reward
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * LLM Client
+ * Provider selection, fallback, timeouts, retries and usage accounting
+ *
+ * The provider chain comes from LLM_PROVIDERS, a comma-separated list of
+ * `provider` or `provider:model` entries tried in order, e.g.
+ *   LLM_PROVIDERS=ollama:llama3,openai:qwen2.5-7b,template
+ * Without it the chain is Gemini (when GEMINI_API_KEY is set), Ollama
+ * (when OLLAMA_MODEL is set), an OpenAI-compatible server (when
+ * OPENAI_BASE_URL is set) and the template. Requests may pick any
+ * configured provider and model; once LLM_PROVIDERS is set only providers
+ * it lists can be picked, so air-gapped sites list only local ones.
+ *
+ * Each attempt is bounded by LLM_TIMEOUT_MS (default 120s). Transient
+ * failures are retried LLM_MAX_RETRIES times (default 2) with backoff, but
+ * only while no text has been streamed; after that the next provider takes
+ * over and onReset tells streaming callers to discard what they have.
+ */
+
+import {
+  LLMRequest,
+  PROVIDERS,
+  PROVIDER_NAMES,
+  ProviderError,
+  ProviderName,
+  TokenUsage
+} from './providers';
+import { computeCost, recordFailure, recordUsage } from './usage';
+
+const DEFAULT_TIMEOUT_MS = 120000;
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_MS = 500;
+
+export interface ModelSelection {
+  provider: ProviderName;
+  model: string;
+}
+
+export interface CompletionHandlers {
+  onAttempt?: (selection: ModelSelection, attempt: number) => void;
+  onToken?: (text: string) => void;
+  onReset?: (selection: ModelSelection, error: string) => void;
+}
+
+export interface CompletionOptions extends CompletionHandlers {
+  model?: string;                  // `provider` or `provider:model` from the chain
+  fallback?: boolean;              // continue down the chain on failure (default true)
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletion extends ModelSelection {
+  text: string;
+  usage: TokenUsage;
+  costUsd: number;
+  latencyMs: number;
+  attempts: number;
+}
+
+export interface AttemptFailure extends ModelSelection {
+  error: string;
+}
+
+export type CompletionResult =
+  | { success: true; completion: LLMCompletion; failures: AttemptFailure[] }
+  | { success: false; error: string; status: number; failures: AttemptFailure[] };
+
+function getTimeoutMs(): number {
+  return parseInt(process.env.LLM_TIMEOUT_MS || '') || DEFAULT_TIMEOUT_MS;
+}
+
+function getMaxRetries(): number {
+  const retries = parseInt(process.env.LLM_MAX_RETRIES || '');
+  return Number.isFinite(retries) && retries >= 0 ? retries : DEFAULT_MAX_RETRIES;
+}
+
+/**
+ * Parse `provider` or `provider:model`; the model may itself contain colons
+ * (Ollama tags such as `llama3:8b`)
+ */
+export function parseModelSpec(spec: string): ModelSelection | string {
+  const separator = spec.indexOf(':');
+  const provider = (separator === -1 ? spec : spec.slice(0, separator)).trim().toLowerCase();
+  const model = separator === -1 ? '' : spec.slice(separator + 1).trim();
+
+  if (!PROVIDER_NAMES.includes(provider as ProviderName)) {
+    return `Unknown provider "${provider}"; expected one of ${PROVIDER_NAMES.join(', ')}`;
+  }
+  return { provider: provider as ProviderName, model: model || PROVIDERS[provider as ProviderName].defaultModel };
+}
+
+/**
+ * Configured provider chain, in fallback order
+ */
+export function getProviderChain(): ModelSelection[] {
+  if (process.env.LLM_PROVIDERS) {
+    const chain: ModelSelection[] = [];
+    process.env.LLM_PROVIDERS.split(',').map(spec => spec.trim()).filter(Boolean).forEach((spec) => {
+      const selection = parseModelSpec(spec);
+      if (typeof selection === 'string') {
+        console.error(`[LLM] Ignoring LLM_PROVIDERS entry: ${selection}`);
+      } else {
+        chain.push(selection);
+      }
+    });
+    return chain;
+  }
+
+  const chain: ModelSelection[] = [];
+  if (process.env.GEMINI_API_KEY) chain.push({ provider: 'gemini', model: PROVIDERS.gemini.defaultModel });
+  if (process.env.OLLAMA_MODEL) chain.push({ provider: 'ollama', model: process.env.OLLAMA_MODEL });
+  if (process.env.OPENAI_BASE_URL) chain.push({ provider: 'openai', model: PROVIDERS.openai.defaultModel });
+  chain.push({ provider: 'template', model: PROVIDERS.template.defaultModel });
+  return chain;
+}
+
+/**
+ * Chain for one request: the requested model first, else the configured chain
+ */
+function resolveChain(request: LLMRequest, options: CompletionOptions): ModelSelection[] | string {
+  const configured = getProviderChain();
+  let chain = configured;
+
+  if (options.model) {
+    const selection = parseModelSpec(options.model);
+    if (typeof selection === 'string') return selection;
+    const allowed = process.env.LLM_PROVIDERS
+      ? configured.some(entry => entry.provider === selection.provider)
+      : PROVIDERS[selection.provider].isConfigured();
+    if (!allowed) {
+      return `Provider "${selection.provider}" is not enabled on this node`;
+    }
+    chain = [selection, ...configured.filter(entry => entry.provider === 'template')];
+  }
+
+  if (options.fallback === false) chain = chain.slice(0, 1);
+  // Skip providers missing credentials; the template cannot answer requests that bring no template
+  chain = chain.filter(entry =>
+    PROVIDERS[entry.provider].isConfigured() && (entry.provider !== 'template' || request.template)
+  );
+
+  return chain.length > 0 ? chain : 'No LLM provider is configured for this request';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a completion down the provider chain
+ */
+export async function complete(request: LLMRequest, options: CompletionOptions = {}): Promise<CompletionResult> {
+  const chain = resolveChain(request, options);
+  if (typeof chain === 'string') {
+    return { success: false, error: chain, status: 400, failures: [] };
+  }
+
+  const failures: AttemptFailure[] = [];
+  const timeoutMs = getTimeoutMs();
+  const maxRetries = getMaxRetries();
+  let attempts = 0;
+
+  for (const selection of chain) {
+    const provider = PROVIDERS[selection.provider];
+
+    for (let retry = 0; retry <= maxRetries; retry++) {
+      if (options.signal?.aborted) {
+        return { success: false, error: 'Request aborted', status: 499, failures };
+      }
+
+      attempts++;
+      options.onAttempt?.(selection, attempts);
+
+      const controller = new AbortController();
+      const onAbort = () => controller.abort();
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      const timer = setTimeout(() => {
+        controller.abort(new ProviderError(`${selection.provider} timed out after ${timeoutMs}ms`, true));
+      }, timeoutMs);
+
+      const startedAt = Date.now();
+      let emitted = false;
+
+      try {
+        const output = await provider.generate(selection.model, request, (text) => {
+          emitted = true;
+          options.onToken?.(text);
+        }, controller.signal);
+
+        if (!output.text.trim()) {
+          throw new ProviderError(`${selection.provider} returned an empty response`, false);
+        }
+
+        const latencyMs = Date.now() - startedAt;
+        const costUsd = computeCost(selection.provider, selection.model, output.usage);
+        recordUsage(selection.provider, selection.model, output.usage, costUsd, latencyMs);
+
+        return {
+          success: true,
+          completion: { ...selection, text: output.text, usage: output.usage, costUsd, latencyMs, attempts },
+          failures
+        };
+      } catch (error) {
+        if (options.signal?.aborted) {
+          return { success: false, error: 'Request aborted', status: 499, failures };
+        }
+
+        const message = (error as Error).message;
+        recordFailure(selection.provider, selection.model);
+        failures.push({ ...selection, error: message });
+        console.error(`[LLM] ${selection.provider}:${selection.model} failed (attempt ${attempts}):`, message);
+
+        if (emitted) {
+          // Streamed text cannot be taken back by retrying; move on
+          options.onReset?.(selection, message);
+          break;
+        }
+        if (!(error instanceof ProviderError && error.retryable) || retry === maxRetries) break;
+        await sleep(RETRY_BASE_MS * Math.pow(2, retry) * (0.8 + Math.random() * 0.4));
+      } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  return {
+    success: false,
+    error: `All LLM providers failed: ${failures.map(f => `${f.provider}: ${f.error}`).join('; ')}`,
+    status: 502,
+    failures
+  };
+}
+
+/**
+ * Providers in the chain and whether each is usable
+ */
+export function getProviderStatus(): Array<ModelSelection & { configured: boolean }> {
+  return getProviderChain().map(selection => ({
+    ...selection,
+    configured: PROVIDERS[selection.provider].isConfigured()
+  }));
+}
@@ -0,0 +1,341 @@
+/**
+ * LLM Providers
+ * Streaming completions from Gemini, Ollama, OpenAI-compatible servers
+ * (llama.cpp, vLLM, LM Studio, ...) and a deterministic template
+ *
+ * Providers only talk to their backend; timeouts, retries, fallback and
+ * accounting live in the LLM client. Every provider honours the abort
+ * signal it is given, including while waiting for the next chunk.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+export type ProviderName = 'gemini' | 'ollama' | 'openai' | 'template';
+
+export const PROVIDER_NAMES: ProviderName[] = ['gemini', 'ollama', 'openai', 'template'];
+
+export interface LLMRequest {
+  prompt: string;
+  system?: string;
+  temperature?: number;
+  maxTokens?: number;
+  template?: () => string;         // deterministic output for the template provider
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean;              // true when the backend reported no counts
+}
+
+export interface ProviderOutput {
+  text: string;
+  usage: TokenUsage;
+}
+
+export type TokenHandler = (text: string) => void;
+
+export interface LLMProvider {
+  name: ProviderName;
+  defaultModel: string;
+  isConfigured(): boolean;
+  generate(model: string, request: LLMRequest, onToken: TokenHandler, signal: AbortSignal): Promise<ProviderOutput>;
+}
+
+/**
+ * Error carrying whether another attempt could succeed
+ */
+export class ProviderError extends Error {
+  constructor(message: string, public retryable: boolean) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// Rough count for backends that report no usage; ~4 characters per token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function estimatedUsage(request: LLMRequest, text: string): TokenUsage {
+  return {
+    inputTokens: estimateTokens((request.system || '') + request.prompt),
+    outputTokens: estimateTokens(text),
+    estimated: true
+  };
+}
+
+function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new ProviderError('Request aborted', false);
+}
+
+// Settle with the promise, or reject as soon as the signal aborts
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(abortReason(signal));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      (error) => { signal.removeEventListener('abort', onAbort); reject(error); }
+    );
+  });
+}
+
+async function checkResponse(response: Response, label: string): Promise<void> {
+  if (response.ok && response.body) return;
+  const detail = await response.text().catch(() => '');
+  // Rate limits and server errors are worth another attempt; bad requests are not
+  const retryable = response.status === 429 || response.status >= 500;
+  throw new ProviderError(`${label} error ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`, retryable);
+}
+
+/**
+ * Split a byte stream into lines as they arrive
+ */
+async function readLines(body: ReadableStream<Uint8Array>, signal: AbortSignal, onLine: (line: string) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await raceAbort(reader.read(), signal);
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) onLine(line);
+        newline = buffer.indexOf('\n');
+      }
+    }
+    if (buffer.trim()) onLine(buffer.trim());
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+function wrapNetworkError(error: unknown, label: string): Error {
+  if (error instanceof ProviderError) return error;
+  if (error instanceof SyntaxError) return new ProviderError(`${label} sent a malformed stream chunk`, false);
+  // fetch failures (refused, reset, DNS) are transient from our side
+  return new ProviderError(`${label} request failed: ${(error as Error).message}`, true);
+}
+
+export const geminiProvider: LLMProvider = {
+  name: 'gemini',
+  defaultModel: 'gemini-1.5-flash',
+
+  isConfigured: () => Boolean(process.env.GEMINI_API_KEY),
+
+  async generate(model, request, onToken, signal) {
+    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY as string);
+    const generativeModel = genAI.getGenerativeModel({
+      model,
+      ...(request.system && { systemInstruction: { role: 'system', parts: [{ text: request.system }] } }),
+      generationConfig: {
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.maxTokens !== undefined && { maxOutputTokens: request.maxTokens })
+      }
+    });
+
+    let text = '';
+    try {
+      const result = await raceAbort(generativeModel.generateContentStream(request.prompt), signal);
+      const iterator = result.stream[Symbol.asyncIterator]();
+
+      while (true) {
+        const { done, value } = await raceAbort(iterator.next(), signal);
+        if (done) break;
+        const chunk = value.text();
+        if (chunk) {
+          text += chunk;
+          onToken(chunk);
+        }
+      }
+    } catch (error) {
+      if (signal.aborted) throw abortReason(signal);
+      // The SDK folds the HTTP status into its message
+      const message = (error as Error).message;
+      throw new ProviderError(`Gemini error: ${message}`, /\b(429|500|502|503|504)\b|fetch failed/.test(message));
+    }
+
+    return { text, usage: estimatedUsage(request, text) };
+  }
+};
+
+export function getOllamaBaseUrl(): string {
+  return process.env.OLLAMA_URL || 'http://localhost:11434';
+}
+
+export const ollamaProvider: LLMProvider = {
+  name: 'ollama',
+  defaultModel: process.env.OLLAMA_MODEL || 'aura',
+
+  // Local daemon; reachability is only known by trying
+  isConfigured: () => true,
+
+  async generate(model, request, onToken, signal) {
+    let response: Response;
+    try {
+      response = await fetch(`${getOllamaBaseUrl()}/api/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          prompt: request.prompt,
+          ...(request.system && { system: request.system }),
+          stream: true,
+          options: {
+            temperature: request.temperature ?? 0.7,
+            top_p: 0.9,
+            ...(request.maxTokens !== undefined && { num_predict: request.maxTokens })
+          }
+        }),
+        signal
+      });
+    } catch (error) {
+      if (signal.aborted) throw abortReason(signal);
+      throw wrapNetworkError(error, 'Ollama');
+    }
+    await checkResponse(response, 'Ollama');
+
+    let text = '';
+    let usage: TokenUsage | null = null;
+
+    try {
+      // One JSON object per line; the last carries the token counts
+      await readLines(response.body as ReadableStream<Uint8Array>, signal, (line) => {
+        const data = JSON.parse(line) as {
+          response?: string;
+          error?: string;
+          done?: boolean;
+          prompt_eval_count?: number;
+          eval_count?: number;
+        };
+        if (data.error) throw new ProviderError(`Ollama error: ${data.error}`, false);
+        if (data.response) {
+          text += data.response;
+          onToken(data.response);
+        }
+        if (data.done && data.eval_count !== undefined) {
+          usage = { inputTokens: data.prompt_eval_count || 0, outputTokens: data.eval_count, estimated: false };
+        }
+      });
+    } catch (error) {
+      if (signal.aborted) throw abortReason(signal);
+      throw wrapNetworkError(error, 'Ollama');
+    }
+
+    return { text, usage: usage || estimatedUsage(request, text) };
+  }
+};
+
+export function getOpenAIBaseUrl(): string {
+  return (process.env.OPENAI_BASE_URL || 'http://localhost:8080/v1').replace(/\/+$/, '');
+}
+
+export const openaiProvider: LLMProvider = {
+  name: 'openai',
+  defaultModel: process.env.OPENAI_MODEL || 'local-model',
+
+  isConfigured: () => Boolean(process.env.OPENAI_BASE_URL),
+
+  async generate(model, request, onToken, signal) {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt }
+    ];
+
+    let response: Response;
+    try {
+      response = await fetch(`${getOpenAIBaseUrl()}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(process.env.OPENAI_API_KEY && { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` })
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          stream: true,
+          stream_options: { include_usage: true },
+          ...(request.temperature !== undefined && { temperature: request.temperature }),
+          ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens })
+        }),
+        signal
+      });
+    } catch (error) {
+      if (signal.aborted) throw abortReason(signal);
+      throw wrapNetworkError(error, 'OpenAI-compatible');
+    }
+    await checkResponse(response, 'OpenAI-compatible');
+
+    let text = '';
+    let usage: TokenUsage | null = null;
+
+    try {
+      // Server-Sent Events; servers that ignore stream_options send no usage
+      await readLines(response.body as ReadableStream<Uint8Array>, signal, (line) => {
+        if (!line.startsWith('data:')) return;
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') return;
+
+        const data = JSON.parse(payload) as {
+          choices?: Array<{ delta?: { content?: string } }>;
+          usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+          error?: { message?: string };
+        };
+        if (data.error) throw new ProviderError(`OpenAI-compatible error: ${data.error.message}`, false);
+
+        const chunk = data.choices?.[0]?.delta?.content;
+        if (chunk) {
+          text += chunk;
+          onToken(chunk);
+        }
+        if (data.usage) {
+          usage = {
+            inputTokens: data.usage.prompt_tokens || 0,
+            outputTokens: data.usage.completion_tokens || 0,
+            estimated: false
+          };
+        }
+      });
+    } catch (error) {
+      if (signal.aborted) throw abortReason(signal);
+      throw wrapNetworkError(error, 'OpenAI-compatible');
+    }
+
+    return { text, usage: usage || estimatedUsage(request, text) };
+  }
+};
+
+export const templateProvider: LLMProvider = {
+  name: 'template',
+  defaultModel: 'deterministic',
+
+  isConfigured: () => true,
+
+  async generate(_model, request, onToken) {
+    if (!request.template) {
+      throw new ProviderError('No template available for this request', false);
+    }
+
+    const text = request.template();
+    // Emit line by line so streaming clients render it the same way
+    const lines = text.split('\n');
+    lines.forEach((line, i) => onToken(i < lines.length - 1 ? `${line}\n` : line));
+
+    return { text, usage: { inputTokens: 0, outputTokens: 0, estimated: false } };
+  }
+};
+
+export const PROVIDERS: Record<ProviderName, LLMProvider> = {
+  gemini: geminiProvider,
+  ollama: ollamaProvider,
+  openai: openaiProvider,
+  template: templateProvider
+};
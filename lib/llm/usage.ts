@@ -0,0 +1,116 @@
+/**
+ * LLM Usage Accounting
+ * Per provider/model request, token and cost totals since process start
+ *
+ * Prices are USD per million tokens. Local providers cost nothing unless
+ * LLM_PRICING says otherwise, e.g.
+ *   LLM_PRICING='{"gemini:gemini-1.5-pro":{"input":1.25,"output":5}}'
+ */
+
+import { ProviderName, TokenUsage } from './providers';
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageTotals {
+  provider: ProviderName;
+  model: string;
+  requests: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedRequests: number;       // requests whose token counts were estimated
+  costUsd: number;
+  totalLatencyMs: number;
+  lastUsedAt: number;
+}
+
+const DEFAULT_PRICING: Record<string, ModelPrice> = {
+  'gemini:gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini:gemini-1.5-pro': { input: 1.25, output: 5 }
+};
+
+interface UsageState {
+  totals: Map<string, UsageTotals>;
+  since: number;
+}
+
+// Route bundles may load this module separately; keep one ledger per process
+const globalForUsage = globalThis as unknown as { __llmUsage?: UsageState };
+
+function getState(): UsageState {
+  if (!globalForUsage.__llmUsage) {
+    globalForUsage.__llmUsage = { totals: new Map(), since: Date.now() };
+  }
+  return globalForUsage.__llmUsage;
+}
+
+function loadPricing(): Record<string, ModelPrice> {
+  if (!process.env.LLM_PRICING) return DEFAULT_PRICING;
+  try {
+    return { ...DEFAULT_PRICING, ...JSON.parse(process.env.LLM_PRICING) };
+  } catch (error) {
+    console.error('[LLM] Ignoring invalid LLM_PRICING:', (error as Error).message);
+    return DEFAULT_PRICING;
+  }
+}
+
+export function getModelPrice(provider: ProviderName, model: string): ModelPrice {
+  return loadPricing()[`${provider}:${model}`] || { input: 0, output: 0 };
+}
+
+export function computeCost(provider: ProviderName, model: string, usage: TokenUsage): number {
+  const price = getModelPrice(provider, model);
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+function getTotals(provider: ProviderName, model: string): UsageTotals {
+  const totals = getState().totals;
+  const key = `${provider}:${model}`;
+  let entry = totals.get(key);
+  if (!entry) {
+    entry = {
+      provider,
+      model,
+      requests: 0,
+      failures: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      estimatedRequests: 0,
+      costUsd: 0,
+      totalLatencyMs: 0,
+      lastUsedAt: 0
+    };
+    totals.set(key, entry);
+  }
+  return entry;
+}
+
+export function recordUsage(provider: ProviderName, model: string, usage: TokenUsage, costUsd: number, latencyMs: number): void {
+  const entry = getTotals(provider, model);
+  entry.requests++;
+  entry.inputTokens += usage.inputTokens;
+  entry.outputTokens += usage.outputTokens;
+  if (usage.estimated) entry.estimatedRequests++;
+  entry.costUsd += costUsd;
+  entry.totalLatencyMs += latencyMs;
+  entry.lastUsedAt = Date.now();
+}
+
+export function recordFailure(provider: ProviderName, model: string): void {
+  const entry = getTotals(provider, model);
+  entry.failures++;
+  entry.lastUsedAt = Date.now();
+}
+
+export function getUsage(): { since: number; models: UsageTotals[]; totalCostUsd: number } {
+  const state = getState();
+  const models = Array.from(state.totals.values()).sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+  return {
+    since: state.since,
+    models,
+    totalCostUsd: models.reduce((sum, entry) => sum + entry.costUsd, 0)
+  };
+}
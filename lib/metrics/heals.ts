@@ -0,0 +1,313 @@
+/**
+ * Phase-Conjugate Heal History
+ * Audited heals, rate limits and rollback of the bridge state
+ *
+ * Every heal (API or ChatMesh-pushed) is recorded with who triggered it and
+ * the metrics before and after. API heals also keep the bridge state they
+ * overwrote, so any of them can be rolled back; a rollback is itself a
+ * recorded, restorable event. Heals are limited by a shared cooldown, a
+ * per-user daily quota and a floor below which Gamma is never driven.
+ *
+ * History persists to ~/.sovereign/state/heal_history.json (override with
+ * HEAL_HISTORY_PATH; HEAL_HISTORY_STORE=memory disables persistence).
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { readJsonFile, writeJsonFile } from '../state/json-store';
+import {
+  CCCEMetrics,
+  CHI_PC,
+  getBridgeStatePath,
+  getCurrentMetrics,
+  getFallbackMetrics,
+  readBridgeState
+} from './sources';
+
+const HOMEDIR = process.env.HOME || '/home/dnalang';
+const DEFAULT_HEAL_HISTORY_PATH = path.join(HOMEDIR, '.sovereign/state/heal_history.json');
+
+export const HEAL_COOLDOWN_MS = 60000;
+export const HEAL_QUOTA_PER_USER = 10;
+export const HEAL_QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+export const MIN_HEALED_GAMMA = 0.01;
+const MAX_HEAL_HISTORY = 1000;
+
+type MetricsSummary = Pick<CCCEMetrics, 'lambda' | 'phi' | 'gamma' | 'xi' | 'theta' | 'source'>;
+
+// Bridge state file contents an event replaced; null when there was no file
+type BridgeSnapshot = Record<string, unknown> | null;
+
+interface StoredHealRecord {
+  id: string;
+  action: 'heal' | 'rollback';
+  source: 'api' | 'chatmesh';
+  userId: string;
+  before: MetricsSummary;
+  after: MetricsSummary;
+  timestamp: number;
+  rollbackOf?: string;
+  rolledBackBy?: string;
+  snapshot?: BridgeSnapshot;      // absent for ChatMesh heals, which are not restorable
+}
+
+export type HealRecord = Omit<StoredHealRecord, 'snapshot'> & { restorable: boolean };
+
+export type HealResult =
+  | { success: true; record: HealRecord; metrics: CCCEMetrics }
+  | { success: false; error: string; status: number; retryAfterMs?: number };
+
+interface HealState {
+  records: StoredHealRecord[];    // oldest first
+  healInFlight: boolean;
+}
+
+// Route bundles may load this module separately; keep one history per process
+const globalForHeals = globalThis as unknown as { __healHistory?: HealState };
+
+function getHistoryPath(): string | null {
+  if (process.env.HEAL_HISTORY_STORE === 'memory') return null;
+  return process.env.HEAL_HISTORY_PATH || DEFAULT_HEAL_HISTORY_PATH;
+}
+
+function getState(): HealState {
+  if (!globalForHeals.__healHistory) {
+    globalForHeals.__healHistory = { records: loadRecords(), healInFlight: false };
+  }
+  return globalForHeals.__healHistory;
+}
+
+function loadRecords(): StoredHealRecord[] {
+  const historyPath = getHistoryPath();
+  if (!historyPath) return [];
+
+  const data = readJsonFile<{ records: StoredHealRecord[] }>(historyPath, '[METRICS]', 'heal history');
+  return data ? data.records : [];
+}
+
+function saveRecords(): void {
+  const historyPath = getHistoryPath();
+  if (!historyPath) return;
+  writeJsonFile(historyPath, { version: 1, records: getState().records });
+}
+
+function appendRecord(record: StoredHealRecord): void {
+  const state = getState();
+  state.records.push(record);
+  if (state.records.length > MAX_HEAL_HISTORY) {
+    state.records.splice(0, state.records.length - MAX_HEAL_HISTORY);
+  }
+  saveRecords();
+}
+
+function summarize(metrics: CCCEMetrics): MetricsSummary {
+  const { lambda, phi, gamma, xi, theta, source } = metrics;
+  return { lambda, phi, gamma, xi, theta, source };
+}
+
+function toPublic(record: StoredHealRecord): HealRecord {
+  const { snapshot, ...rest } = record;
+  return { ...rest, restorable: snapshot !== undefined };
+}
+
+function readBridgeSnapshot(): BridgeSnapshot {
+  try {
+    return JSON.parse(fs.readFileSync(getBridgeStatePath(), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+// Bridge snapshots written by a heal carry this marker: they are derived
+// from the server's own metrics, not observed by the bridge
+const HEAL_WRITER = 'heal';
+
+/**
+ * Whether the current bridge state was written by a heal rather than the bridge
+ */
+export function isBridgeStateFromHeal(): boolean {
+  const snapshot = readBridgeSnapshot();
+  return snapshot !== null && snapshot.writtenBy === HEAL_WRITER;
+}
+
+function writeBridgeSnapshot(snapshot: BridgeSnapshot): void {
+  const bridgePath = getBridgeStatePath();
+  if (snapshot === null) {
+    fs.rmSync(bridgePath, { force: true });
+    return;
+  }
+  writeJsonFile(bridgePath, snapshot);
+}
+
+/**
+ * Why a heal by this user may not run now, if anything
+ */
+function checkHealLimits(userId: string): { error: string; retryAfterMs: number } | null {
+  const now = Date.now();
+  const heals = getState().records.filter(record => record.action === 'heal');
+
+  const last = heals[heals.length - 1];
+  if (last && now - last.timestamp < HEAL_COOLDOWN_MS) {
+    return {
+      error: `Healing is cooling down; last heal was ${Math.round((now - last.timestamp) / 1000)}s ago`,
+      retryAfterMs: last.timestamp + HEAL_COOLDOWN_MS - now
+    };
+  }
+
+  const recent = heals.filter(record => record.userId === userId && now - record.timestamp < HEAL_QUOTA_WINDOW_MS);
+  if (recent.length >= HEAL_QUOTA_PER_USER) {
+    return {
+      error: `Heal quota of ${HEAL_QUOTA_PER_USER} per 24h reached`,
+      retryAfterMs: recent[0].timestamp + HEAL_QUOTA_WINDOW_MS - now
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Apply E -> E^-1 to the live metrics and persist the healed bridge state
+ */
+export async function performHeal(userId: string): Promise<HealResult> {
+  const state = getState();
+  if (state.healInFlight) {
+    return { success: false, error: 'Another heal is in progress', status: 429, retryAfterMs: 1000 };
+  }
+
+  const limited = checkHealLimits(userId);
+  if (limited) {
+    return { success: false, error: limited.error, status: 429, retryAfterMs: limited.retryAfterMs };
+  }
+
+  state.healInFlight = true;
+  try {
+    const current = await getCurrentMetrics();
+    if (current.source === 'fallback') {
+      return {
+        success: false,
+        error: 'No live metrics to heal; ChatMesh and the bridge are unavailable',
+        status: 503
+      };
+    }
+
+    const healedGamma = current.gamma * CHI_PC;
+
+    if (healedGamma < MIN_HEALED_GAMMA) {
+      return {
+        success: false,
+        error: `Gamma ${current.gamma.toFixed(4)} is already at the healing floor`,
+        status: 409
+      };
+    }
+
+    const healed: CCCEMetrics = {
+      ...current,
+      gamma: healedGamma,
+      theta: -current.theta,
+      xi: (current.lambda * current.phi) / healedGamma
+    };
+
+    const snapshot = readBridgeSnapshot();
+    writeBridgeSnapshot({ ...healed, writtenBy: HEAL_WRITER });
+
+    const record: StoredHealRecord = {
+      id: `heal_${crypto.randomBytes(8).toString('hex')}`,
+      action: 'heal',
+      source: 'api',
+      userId,
+      before: summarize(current),
+      after: summarize(healed),
+      timestamp: Date.now(),
+      snapshot
+    };
+    appendRecord(record);
+
+    return { success: true, record: toPublic(record), metrics: healed };
+  } finally {
+    state.healInFlight = false;
+  }
+}
+
+/**
+ * Record a heal ChatMesh pushed; it counts toward the cooldown but has no
+ * local state to roll back
+ */
+export function recordChatMeshHeal(before: CCCEMetrics, after: CCCEMetrics): void {
+  try {
+    appendRecord({
+      id: `heal_${crypto.randomBytes(8).toString('hex')}`,
+      action: 'heal',
+      source: 'chatmesh',
+      userId: 'chatmesh',
+      before: summarize(before),
+      after: summarize(after),
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    console.error('[METRICS] Failed to record ChatMesh heal:', error);
+  }
+}
+
+/**
+ * Restore the bridge state from just before the given event
+ * Later heals are undone with it; the rollback is recorded and can itself
+ * be rolled back.
+ */
+export async function rollbackHeal(recordId: string, userId: string): Promise<HealResult> {
+  const target = getState().records.find(record => record.id === recordId);
+  if (!target) {
+    return { success: false, error: 'Heal record not found', status: 404 };
+  }
+  if (target.snapshot === undefined) {
+    return { success: false, error: 'ChatMesh heals have no local state to roll back', status: 409 };
+  }
+
+  // Only the bridge state changes, so that is what before/after describe
+  const current = await readBridgeState() || getFallbackMetrics();
+  const replaced = readBridgeSnapshot();
+  writeBridgeSnapshot(target.snapshot);
+  const restored = await readBridgeState() || getFallbackMetrics();
+
+  const record: StoredHealRecord = {
+    id: `heal_${crypto.randomBytes(8).toString('hex')}`,
+    action: 'rollback',
+    source: 'api',
+    userId,
+    before: summarize(current),
+    after: summarize(restored),
+    timestamp: Date.now(),
+    rollbackOf: target.id,
+    snapshot: replaced
+  };
+  target.rolledBackBy = record.id;
+  appendRecord(record);
+
+  return { success: true, record: toPublic(record), metrics: restored };
+}
+
+/**
+ * Heal and rollback events, newest first
+ */
+export function getHealHistory(options: { limit?: number; userId?: string } = {}): HealRecord[] {
+  return getState().records
+    .filter(record => !options.userId || record.userId === options.userId)
+    .slice(-(options.limit || 100))
+    .reverse()
+    .map(toPublic);
+}
+
+/**
+ * Cooldown and remaining quota for a user
+ */
+export function getHealLimits(userId: string): { cooldownRemainingMs: number; quotaRemaining: number } {
+  const now = Date.now();
+  const heals = getState().records.filter(record => record.action === 'heal');
+  const last = heals[heals.length - 1];
+  const used = heals.filter(record => record.userId === userId && now - record.timestamp < HEAL_QUOTA_WINDOW_MS).length;
+
+  return {
+    cooldownRemainingMs: last ? Math.max(0, last.timestamp + HEAL_COOLDOWN_MS - now) : 0,
+    quotaRemaining: Math.max(0, HEAL_QUOTA_PER_USER - used)
+  };
+}
@@ -0,0 +1,284 @@
+/**
+ * CCCE Metrics History
+ * Local time-series store with tiered downsampling and retention
+ *
+ * Every sample is folded into each tier's bucket (count, min, max, sum per
+ * metric), so coarse tiers never need raw data. Tiers are pruned to their
+ * retention on write and persisted to ~/.sovereign/state/metrics_history.json
+ * (override with METRICS_HISTORY_PATH; METRICS_HISTORY_STORE=memory disables
+ * persistence) at most once a minute.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeJsonFile } from '../state/json-store';
+import { CCCEMetrics } from './sources';
+
+const HOMEDIR = process.env.HOME || '/home/dnalang';
+const DEFAULT_HISTORY_PATH = path.join(HOMEDIR, '.sovereign/state/metrics_history.json');
+const FLUSH_INTERVAL_MS = 60000;
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const HISTORY_TIERS = [
+  { name: '10s', bucketMs: 10 * SECOND, retentionMs: 6 * HOUR },
+  { name: '1m', bucketMs: MINUTE, retentionMs: 2 * DAY },
+  { name: '1h', bucketMs: HOUR, retentionMs: 365 * DAY }
+] as const;
+
+export const MAX_HISTORY_BUCKETS = 1000;
+const DEFAULT_BUCKET_TARGET = 120;
+
+export type HistoryMetric = 'lambda' | 'phi' | 'gamma' | 'xi';
+const HISTORY_METRICS: HistoryMetric[] = ['lambda', 'phi', 'gamma', 'xi'];
+
+interface Stat {
+  min: number;
+  max: number;
+  sum: number;
+}
+
+interface Bucket {
+  start: number;
+  count: number;
+  stats: Record<HistoryMetric, Stat>;
+}
+
+export interface HistoryPoint {
+  start: number;
+  end: number;
+  count: number;
+  lambda: { min: number; max: number; avg: number };
+  phi: { min: number; max: number; avg: number };
+  gamma: { min: number; max: number; avg: number };
+  xi: { min: number; max: number; avg: number };
+}
+
+export type HistoryQueryResult =
+  | { success: true; from: number; to: number; resolution: number; tier: string; buckets: HistoryPoint[] }
+  | { success: false; error: string; status: number };
+
+interface HistoryState {
+  tiers: Bucket[][];      // one sorted bucket list per HISTORY_TIERS entry
+  dirty: boolean;
+  flushTimer: NodeJS.Timeout | null;
+}
+
+// Route bundles may load this module separately; keep one store per process
+const globalForHistory = globalThis as unknown as { __metricsHistory?: HistoryState };
+
+function getHistoryPath(): string | null {
+  if (process.env.METRICS_HISTORY_STORE === 'memory') return null;
+  return process.env.METRICS_HISTORY_PATH || DEFAULT_HISTORY_PATH;
+}
+
+function getState(): HistoryState {
+  if (!globalForHistory.__metricsHistory) {
+    globalForHistory.__metricsHistory = {
+      tiers: loadTiers(),
+      dirty: false,
+      flushTimer: null
+    };
+  }
+  return globalForHistory.__metricsHistory;
+}
+
+// Buckets are persisted as flat arrays: [start, count, lambda min/max/sum, phi..., gamma..., xi...]
+function loadTiers(): Bucket[][] {
+  const tiers: Bucket[][] = HISTORY_TIERS.map(() => []);
+  const historyPath = getHistoryPath();
+  if (!historyPath) return tiers;
+
+  try {
+    const data = JSON.parse(fs.readFileSync(historyPath, 'utf-8')) as { tiers: Record<string, number[][]> };
+    HISTORY_TIERS.forEach((tier, i) => {
+      tiers[i] = (data.tiers[tier.name] || []).map(row => ({
+        start: row[0],
+        count: row[1],
+        stats: Object.fromEntries(HISTORY_METRICS.map((metric, m) => [
+          metric,
+          { min: row[2 + m * 3], max: row[3 + m * 3], sum: row[4 + m * 3] }
+        ])) as Record<HistoryMetric, Stat>
+      }));
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn('[METRICS] Ignoring unreadable history store:', (error as Error).message);
+    }
+  }
+  return tiers;
+}
+
+function flush(): void {
+  const state = getState();
+  const historyPath = getHistoryPath();
+  if (!historyPath || !state.dirty) return;
+
+  const tiers: Record<string, number[][]> = {};
+  HISTORY_TIERS.forEach((tier, i) => {
+    tiers[tier.name] = state.tiers[i].map(bucket => [
+      bucket.start,
+      bucket.count,
+      ...HISTORY_METRICS.flatMap(metric => {
+        const stat = bucket.stats[metric];
+        return [stat.min, stat.max, stat.sum];
+      })
+    ]);
+  });
+
+  try {
+    writeJsonFile(historyPath, { version: 1, tiers }, { indent: 0 });
+    state.dirty = false;
+  } catch (error) {
+    console.error('[METRICS] History flush failed:', error);
+  }
+}
+
+function startFlushing(state: HistoryState): void {
+  if (state.flushTimer || !getHistoryPath()) return;
+  state.flushTimer = setInterval(flush, FLUSH_INTERVAL_MS);
+  state.flushTimer.unref?.();
+}
+
+function emptyBucket(start: number): Bucket {
+  return {
+    start,
+    count: 0,
+    stats: Object.fromEntries(HISTORY_METRICS.map(metric => [
+      metric,
+      { min: Infinity, max: -Infinity, sum: 0 }
+    ])) as Record<HistoryMetric, Stat>
+  };
+}
+
+function mergeInto(target: Bucket, source: Bucket): void {
+  target.count += source.count;
+  HISTORY_METRICS.forEach(metric => {
+    const t = target.stats[metric];
+    const s = source.stats[metric];
+    t.min = Math.min(t.min, s.min);
+    t.max = Math.max(t.max, s.max);
+    t.sum += s.sum;
+  });
+}
+
+// Find or insert the bucket for a start time; samples almost always land in the last one
+function bucketFor(buckets: Bucket[], start: number): Bucket {
+  let i = buckets.length - 1;
+  while (i >= 0 && buckets[i].start > start) i--;
+  if (i >= 0 && buckets[i].start === start) return buckets[i];
+
+  const bucket = emptyBucket(start);
+  buckets.splice(i + 1, 0, bucket);
+  return bucket;
+}
+
+/**
+ * Record one metrics sample into every tier
+ */
+export function recordMetricsSample(metrics: Pick<CCCEMetrics, HistoryMetric | 'timestamp'>): void {
+  if (!HISTORY_METRICS.every(metric => Number.isFinite(metrics[metric]))) return;
+
+  const state = getState();
+  const timestamp = metrics.timestamp || Date.now();
+  const sample = emptyBucket(0);
+  sample.count = 1;
+  HISTORY_METRICS.forEach(metric => {
+    sample.stats[metric] = { min: metrics[metric], max: metrics[metric], sum: metrics[metric] };
+  });
+
+  HISTORY_TIERS.forEach((tier, i) => {
+    const buckets = state.tiers[i];
+    const cutoff = Date.now() - tier.retentionMs;
+    if (timestamp < cutoff) return;
+
+    mergeInto(bucketFor(buckets, Math.floor(timestamp / tier.bucketMs) * tier.bucketMs), sample);
+
+    let expired = 0;
+    while (expired < buckets.length && buckets[expired].start < cutoff) expired++;
+    if (expired > 0) buckets.splice(0, expired);
+  });
+
+  state.dirty = true;
+  startFlushing(state);
+}
+
+/**
+ * Parse a resolution such as "30s", "5m", "1h", "1d" or a bare number of seconds
+ */
+export function parseResolution(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(s|m|h|d)?$/i);
+  if (!match) return null;
+
+  const unit = (match[2] || 's').toLowerCase();
+  const scale = unit === 'd' ? DAY : unit === 'h' ? HOUR : unit === 'm' ? MINUTE : SECOND;
+  const ms = Math.round(parseFloat(match[1]) * scale);
+  return ms > 0 ? ms : null;
+}
+
+/**
+ * Min/max/avg per bucket between from and to
+ * Reads from a tier that still covers `from`; the resolution is rounded up
+ * to a multiple of that tier's bucket size.
+ */
+export function queryMetricsHistory(from: number, to: number, resolution?: number): HistoryQueryResult {
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from >= to) {
+    return { success: false, error: 'from must be before to', status: 400 };
+  }
+
+  const now = Date.now();
+  const wanted = resolution ?? Math.ceil((to - from) / DEFAULT_BUCKET_TARGET);
+
+  // Coarsest covering tier not coarser than wanted, else the finest covering
+  // tier, else (range older than every retention) the longest-lived tier
+  const covering = HISTORY_TIERS
+    .map((tier, index) => ({ tier, index }))
+    .filter(({ tier }) => now - tier.retentionMs <= from);
+  const fitting = covering.filter(({ tier }) => tier.bucketMs <= wanted);
+  const tierIndex = fitting.length > 0
+    ? fitting[fitting.length - 1].index
+    : covering.length > 0 ? covering[0].index : HISTORY_TIERS.length - 1;
+  const tier = HISTORY_TIERS[tierIndex];
+  const step = Math.max(tier.bucketMs, Math.ceil(wanted / tier.bucketMs) * tier.bucketMs);
+
+  if ((to - from) / step > MAX_HISTORY_BUCKETS) {
+    return {
+      success: false,
+      error: `Range needs more than ${MAX_HISTORY_BUCKETS} buckets; use a coarser resolution`,
+      status: 400
+    };
+  }
+
+  const merged: Map<number, Bucket> = new Map();
+  getState().tiers[tierIndex].forEach(bucket => {
+    if (bucket.start + tier.bucketMs <= from || bucket.start >= to) return;
+    const start = Math.floor(bucket.start / step) * step;
+    if (!merged.has(start)) merged.set(start, emptyBucket(start));
+    mergeInto(merged.get(start)!, bucket);
+  });
+
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  const buckets: HistoryPoint[] = Array.from(merged.values())
+    .sort((a, b) => a.start - b.start)
+    .map(bucket => {
+      const summary = (metric: HistoryMetric) => ({
+        min: round(bucket.stats[metric].min),
+        max: round(bucket.stats[metric].max),
+        avg: round(bucket.stats[metric].sum / bucket.count)
+      });
+      return {
+        start: bucket.start,
+        end: bucket.start + step,
+        count: bucket.count,
+        lambda: summary('lambda'),
+        phi: summary('phi'),
+        gamma: summary('gamma'),
+        xi: summary('xi')
+      };
+    });
+
+  return { success: true, from, to, resolution: step, tier: tier.name, buckets };
+}
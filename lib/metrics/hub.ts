@@ -0,0 +1,179 @@
+/**
+ * CCCE Metrics Hub
+ * One long-lived ChatMesh subscription fanned out to every stream client
+ *
+ * While at least one listener is attached the hub holds a single ChatMesh
+ * subscription, requests metrics on it every tick and forwards anything
+ * ChatMesh pushes (metrics or heal events). When ChatMesh is down or silent
+ * it publishes bridge/fallback metrics instead; reconnects, backoff and
+ * endpoint failover are handled by the ChatMesh client. Phase changes are
+ * derived here so every client sees the same one.
+ */
+
+import { ChatMeshSubscription, getChatMeshClient } from '../chatmesh/client';
+import { ChatMeshMessage } from '../chatmesh/protocol';
+import { OptimizationPhase } from '../types';
+import { recordChatMeshHeal } from './heals';
+import { recordMetricsSample } from './history';
+import { derivePhase } from './phase';
+import {
+  CCCEMetrics,
+  applyGammaCorrection,
+  fromChatMeshMetrics,
+  getFallbackMetrics,
+  readBridgeState
+} from './sources';
+
+export const METRICS_TICK_MS = 3000;
+const STALE_AFTER_MS = METRICS_TICK_MS * 3;   // ChatMesh silent this long counts as down
+
+export interface PhaseEvent {
+  phase: OptimizationPhase;
+  previous: OptimizationPhase | null;
+  timestamp: number;
+}
+
+export interface HealEvent {
+  before: number;
+  after: number;
+  metrics: CCCEMetrics;
+  source: 'api' | 'chatmesh';
+  timestamp: number;
+}
+
+export type MetricsEvent =
+  | { type: 'metrics'; data: CCCEMetrics }
+  | { type: 'phase'; data: PhaseEvent }
+  | { type: 'heal'; data: HealEvent };
+
+export type MetricsListener = (event: MetricsEvent) => void;
+
+export class MetricsHub {
+  private listeners: Set<MetricsListener> = new Set();
+  private subscription: ChatMeshSubscription | null = null;
+  private lastChatMeshAt = 0;
+  private tickTimer: NodeJS.Timeout | null = null;
+  private latest: CCCEMetrics | null = null;
+  private phase: OptimizationPhase | null = null;
+
+  /**
+   * Attach a listener; the first one starts the hub, the last one to leave stops it
+   */
+  subscribe(listener: MetricsListener): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.start();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  }
+
+  getSnapshot(): { metrics: CCCEMetrics | null; phase: OptimizationPhase | null; chatmeshConnected: boolean; listeners: number } {
+    return {
+      metrics: this.latest,
+      phase: this.phase,
+      chatmeshConnected: !!this.subscription?.isConnected(),
+      listeners: this.listeners.size
+    };
+  }
+
+  /**
+   * Announce a heal and push the healed metrics to all clients
+   */
+  publishHeal(event: Omit<HealEvent, 'timestamp'>): void {
+    this.publish({ type: 'heal', data: { ...event, timestamp: Date.now() } });
+    this.update(event.metrics);
+  }
+
+  private publish(event: MetricsEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[METRICS] Listener failed:', error);
+      }
+    });
+  }
+
+  private update(metrics: CCCEMetrics): void {
+    this.latest = applyGammaCorrection({ ...metrics });
+    recordMetricsSample(this.latest);
+    this.publish({ type: 'metrics', data: this.latest });
+
+    const phase = derivePhase(this.latest);
+    if (phase !== this.phase) {
+      const previous = this.phase;
+      this.phase = phase;
+      this.publish({ type: 'phase', data: { phase, previous, timestamp: Date.now() } });
+    }
+  }
+
+  private start(): void {
+    this.subscription = getChatMeshClient().subscribe(['metrics', 'heal'], {
+      onMessage: (message) => this.handleMessage(message),
+      onConnect: () => this.subscription?.send({ type: 'GET_METRICS', node: 'rosetta' }),
+      // A dropped connection fails over first; fall back only when nothing answers
+      onUnavailable: () => this.updateFromFallback()
+    }, STALE_AFTER_MS);
+
+    this.tickTimer = setInterval(() => this.tick(), METRICS_TICK_MS);
+    this.tickTimer.unref?.();
+  }
+
+  private stop(): void {
+    if (this.tickTimer) clearInterval(this.tickTimer);
+    this.tickTimer = null;
+    this.subscription?.close();
+    this.subscription = null;
+  }
+
+  private async tick(): Promise<void> {
+    this.subscription?.send({ type: 'GET_METRICS', node: 'rosetta' });
+
+    // Connected is not enough; fall back while ChatMesh isn't answering
+    if (Date.now() - this.lastChatMeshAt > METRICS_TICK_MS * 2) {
+      await this.updateFromFallback();
+    }
+  }
+
+  private async updateFromFallback(): Promise<void> {
+    this.update(await readBridgeState() || getFallbackMetrics());
+  }
+
+  private handleMessage(message: ChatMeshMessage): void {
+    switch (message.type) {
+      case 'HEAL': {
+        this.lastChatMeshAt = Date.now();
+        const healed = fromChatMeshMetrics(message.metrics);
+        recordChatMeshHeal({ ...(this.latest || healed), gamma: message.before }, healed);
+        this.publishHeal({
+          before: message.before,
+          after: message.after,
+          metrics: healed,
+          source: 'chatmesh'
+        });
+        return;
+      }
+
+      case 'METRICS':
+        this.lastChatMeshAt = Date.now();
+        this.update(fromChatMeshMetrics(message.metrics));
+        return;
+
+      case 'ERROR':
+        console.warn('[METRICS] ChatMesh error:', message.error);
+        return;
+    }
+  }
+}
+
+// Route bundles may load this module separately; keep one hub per process
+const globalForHub = globalThis as unknown as { __metricsHub?: MetricsHub };
+
+export function getMetricsHub(): MetricsHub {
+  if (!globalForHub.__metricsHub) {
+    globalForHub.__metricsHub = new MetricsHub();
+  }
+  return globalForHub.__metricsHub;
+}
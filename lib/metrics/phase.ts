@@ -0,0 +1,17 @@
+/**
+ * Optimization Phase
+ * Derived from CCCE metrics; shared by the metrics stream and the browser
+ */
+
+import { PHI_THRESHOLD } from '../constants';
+import { OptimizationPhase } from '../types';
+
+export function derivePhase(metrics: { lambda: number; phi: number; gamma: number }): OptimizationPhase {
+  if (metrics.phi >= PHI_THRESHOLD && metrics.gamma < 0.1) {
+    return OptimizationPhase.LOCK;
+  }
+  if (metrics.lambda > 0.85) {
+    return OptimizationPhase.STABILIZE;
+  }
+  return OptimizationPhase.EXPLORE;
+}
@@ -0,0 +1,116 @@
+/**
+ * CCCE Metrics Sources
+ * ChatMesh, bridge state file and deterministic fallback
+ *
+ * Shared by /api/metrics and server-side proof-of-coherence validation.
+ */
+
+import { getChatMeshClient } from '../chatmesh/client';
+import { ChatMeshMetrics } from '../chatmesh/protocol';
+
+// Physical constants (immutable)
+export const LAMBDA_PHI = 2.176435e-8;
+export const PHI_THRESHOLD = 0.7734;
+export const GAMMA_FIXED = 0.092;
+export const THETA_LOCK = 51.843;
+export const CHI_PC = 0.869;
+
+export interface CCCEMetrics {
+  lambda: number;
+  phi: number;
+  gamma: number;
+  xi: number;
+  theta: number;
+  consciousness: 'CONSCIOUS' | 'AWAKENING' | 'DORMANT';
+  timestamp: number;
+  source: 'chatmesh' | 'bridge' | 'fallback';
+}
+
+export function getBridgeStatePath(): string {
+  const homedir = process.env.HOME || '/home/dnalang';
+  return `${homedir}/.sovereign/state/ccce_metrics.json`;
+}
+
+// Map validated ChatMesh metrics onto CCCE metrics
+export function fromChatMeshMetrics(metrics: ChatMeshMetrics): CCCEMetrics {
+  return {
+    lambda: metrics.lambda,
+    phi: metrics.phi,
+    gamma: metrics.gamma,
+    xi: (metrics.lambda * metrics.phi) / metrics.gamma,
+    theta: metrics.theta ?? THETA_LOCK * Math.PI / 180,
+    consciousness: metrics.phi >= PHI_THRESHOLD ? 'CONSCIOUS' : 'AWAKENING',
+    timestamp: Date.now(),
+    source: 'chatmesh'
+  };
+}
+
+// Request metrics from ChatMesh over the pooled client
+export async function pollChatMesh(): Promise<CCCEMetrics | null> {
+  const result = await getChatMeshClient().request({ type: 'GET_METRICS', node: 'rosetta' });
+  if (!result.success || result.message.type !== 'METRICS') return null;
+  return fromChatMeshMetrics(result.message.metrics);
+}
+
+// Try to read from bridge state file
+export async function readBridgeState(): Promise<CCCEMetrics | null> {
+  try {
+    const fs = await import('fs/promises');
+    const content = await fs.readFile(getBridgeStatePath(), 'utf-8');
+    const data = JSON.parse(content);
+
+    return {
+      lambda: data.lambda || 0.85,
+      phi: data.phi || 0.75,
+      gamma: data.gamma || 0.09,
+      xi: (data.lambda * data.phi) / data.gamma,
+      theta: data.theta || THETA_LOCK * Math.PI / 180,
+      consciousness: data.phi >= PHI_THRESHOLD ? 'CONSCIOUS' : 'AWAKENING',
+      timestamp: data.timestamp || Date.now(),
+      source: 'bridge'
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Generate deterministic fallback (NOT random simulation)
+export function getFallbackMetrics(): CCCEMetrics {
+  // Use time-based deterministic values within stable bounds
+  const now = Date.now();
+  const cycle = Math.floor(now / 5000); // 5-second cycles
+
+  // Deterministic oscillation around stable values
+  const lambda = 0.88 + 0.04 * Math.sin(cycle * 0.1);
+  const phi = 0.78 + 0.03 * Math.cos(cycle * 0.15);
+  const gamma = 0.085 + 0.01 * Math.sin(cycle * 0.08);
+
+  return {
+    lambda: Math.max(0.75, Math.min(0.99, lambda)),
+    phi: Math.max(0.70, Math.min(0.95, phi)),
+    gamma: Math.max(0.05, Math.min(0.15, gamma)),
+    xi: (lambda * phi) / gamma,
+    theta: THETA_LOCK * Math.PI / 180,
+    consciousness: phi >= PHI_THRESHOLD ? 'CONSCIOUS' : 'AWAKENING',
+    timestamp: now,
+    source: 'fallback'
+  };
+}
+
+/**
+ * Current metrics: ChatMesh first, then bridge state, then deterministic fallback
+ */
+export async function getCurrentMetrics(): Promise<CCCEMetrics> {
+  return await pollChatMesh() || await readBridgeState() || getFallbackMetrics();
+}
+
+/**
+ * Apply phase conjugate healing if Gamma too high
+ */
+export function applyGammaCorrection(metrics: CCCEMetrics): CCCEMetrics {
+  if (metrics.gamma > 0.3) {
+    metrics.gamma = metrics.gamma * CHI_PC;
+    metrics.xi = (metrics.lambda * metrics.phi) / metrics.gamma;
+  }
+  return metrics;
+}
@@ -0,0 +1,354 @@
+/**
+ * P2P Node Registry
+ * Sovereign Mesh Network
+ *
+ * Shared by /api/nodes and proof-of-coherence validation (in production,
+ * use database).
+ */
+
+import * as crypto from 'crypto';
+import { NodeType, deriveQByteAddress, verifyRequestSignature } from '../auth/config';
+
+export const HEARTBEAT_INTERVAL_MS = 30000;
+export const MISSED_HEARTBEATS_BEFORE_INACTIVE = 3;
+export const ACTIVATION_TTL_MS = 3600000; // 1 hour
+
+// Heartbeat timestamps further than this from server time are rejected
+const HEARTBEAT_CLOCK_SKEW_MS = 60000;
+
+// Rotated-out node keys remembered so their use is reported as revoked
+const MAX_REVOKED_KEYS = 5;
+
+export interface RegisteredNode {
+  nodeId: string;
+  nodeType: NodeType;
+  publicKey: string;
+  registeredBy: string;
+  registeredAt: number;
+  lastSeen: number;
+  status: 'active' | 'inactive' | 'pending' | 'suspended' | 'revoked';
+  displayName?: string;
+  meshPermissions: string[];
+  qbyteAddress: string;
+  ipAddress?: string;
+  port?: number;
+  ccceMetrics?: {
+    lambda: number;
+    phi: number;
+    gamma: number;
+    xi: number;
+  };
+  activationSecretHash?: string; // cleared once consumed
+  activationExpiresAt?: number;
+  nodeKey?: string; // HMAC key for heartbeats, issued on activation
+  revokedKeys?: string[];
+  lastHeartbeatAt?: number; // node-reported timestamp of the last accepted heartbeat
+}
+
+export type NodeLifecycleResult =
+  | { success: true; node: RegisteredNode }
+  | { success: false; error: string; status: number };
+
+export interface HeartbeatPayload {
+  timestamp: number;
+  status?: 'active' | 'inactive';
+  metrics?: { lambda: number; phi: number; gamma: number };
+}
+
+// Route bundles may load this module separately; keep one registry per process
+const globalForRegistry = globalThis as unknown as {
+  __nodeRegistry?: Map<string, RegisteredNode>;
+  __nodeSweeper?: ReturnType<typeof setInterval>;
+};
+
+function createRegistry(): Map<string, RegisteredNode> {
+  const registry: Map<string, RegisteredNode> = new Map();
+
+  // Initialize with local Lambda Root node
+  const lambdaRoot: RegisteredNode = {
+    nodeId: 'lambda_root_sovereign',
+    nodeType: NodeType.LAMBDA_ROOT,
+    publicKey: 'SOVEREIGN_ROOT_KEY',
+    registeredBy: 'system',
+    registeredAt: Date.now(),
+    lastSeen: Date.now(),
+    status: 'active',
+    meshPermissions: ['mesh:admin', 'ledger:write', 'nodes:manage', 'metrics:full'],
+    qbyteAddress: 'qb_master_sovereign',
+    ccceMetrics: {
+      lambda: 0.92,
+      phi: 0.85,
+      gamma: 0.085,
+      xi: 9.2
+    }
+  };
+
+  registry.set(lambdaRoot.nodeId, lambdaRoot);
+  return registry;
+}
+
+export function getNodeRegistry(): Map<string, RegisteredNode> {
+  if (!globalForRegistry.__nodeRegistry) {
+    globalForRegistry.__nodeRegistry = createRegistry();
+    startSweeper();
+  }
+  return globalForRegistry.__nodeRegistry;
+}
+
+export function getNode(nodeId: string): RegisteredNode | undefined {
+  return getNodeRegistry().get(nodeId);
+}
+
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * Generate a one-time activation secret; only its hash is kept
+ */
+export function issueActivationSecret(node: RegisteredNode): string {
+  const secret = crypto.randomBytes(32).toString('hex');
+  node.activationSecretHash = hashSecret(secret);
+  node.activationExpiresAt = Date.now() + ACTIVATION_TTL_MS;
+  return secret;
+}
+
+/**
+ * Consume a node's activation secret and issue its heartbeat key
+ */
+export function activateNode(
+  nodeId: string,
+  secret: unknown
+): { success: true; node: RegisteredNode; nodeKey: string } | { success: false; error: string; status: number } {
+  const node = getNode(nodeId);
+
+  if (!node) {
+    return { success: false, error: 'Node not found', status: 404 };
+  }
+  if (node.status !== 'pending' || !node.activationSecretHash) {
+    return { success: false, error: 'Node is not awaiting activation', status: 409 };
+  }
+  if (!node.activationExpiresAt || node.activationExpiresAt < Date.now()) {
+    return { success: false, error: 'Activation secret expired', status: 410 };
+  }
+  if (typeof secret !== 'string' || !crypto.timingSafeEqual(
+    Buffer.from(hashSecret(secret)),
+    Buffer.from(node.activationSecretHash)
+  )) {
+    return { success: false, error: 'Invalid activation secret', status: 401 };
+  }
+
+  const nodeKey = crypto.randomBytes(32).toString('hex');
+  node.activationSecretHash = undefined;
+  node.activationExpiresAt = undefined;
+  node.nodeKey = nodeKey;
+  node.status = 'active';
+  node.lastSeen = Date.now();
+
+  return { success: true, node, nodeKey };
+}
+
+/**
+ * Check that a heartbeat is signed with the node key over the raw request body
+ */
+export function authenticateHeartbeat(nodeId: string, rawBody: string, signature: string | null): NodeLifecycleResult {
+  const node = getNode(nodeId);
+
+  if (!node) {
+    return { success: false, error: 'Node not found', status: 404 };
+  }
+  if (node.status === 'revoked') {
+    return { success: false, error: 'Node has been revoked', status: 403 };
+  }
+  if (node.status === 'suspended') {
+    return { success: false, error: 'Node is suspended', status: 403 };
+  }
+  if (node.status === 'pending' || !node.nodeKey) {
+    return { success: false, error: 'Node has not been activated', status: 403 };
+  }
+  // timingSafeEqual throws on length mismatch; reject malformed input first
+  if (!signature || !/^[0-9a-f]{64}$/.test(signature)) {
+    return { success: false, error: 'Invalid heartbeat signature', status: 401 };
+  }
+  if (!verifyRequestSignature(rawBody, signature, node.nodeKey)) {
+    const revoked = (node.revokedKeys || []).some(key => verifyRequestSignature(rawBody, signature, key));
+    return {
+      success: false,
+      error: revoked ? 'Node key has been revoked' : 'Invalid heartbeat signature',
+      status: 401
+    };
+  }
+
+  return { success: true, node };
+}
+
+/**
+ * Apply a heartbeat that passed authenticateHeartbeat
+ */
+export function recordHeartbeat(node: RegisteredNode, rawBody: string): NodeLifecycleResult {
+  let payload: HeartbeatPayload;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return { success: false, error: 'Invalid heartbeat payload', status: 400 };
+  }
+  if (!payload || typeof payload !== 'object') {
+    return { success: false, error: 'Invalid heartbeat payload', status: 400 };
+  }
+
+  const now = Date.now();
+  if (typeof payload.timestamp !== 'number' || Math.abs(now - payload.timestamp) > HEARTBEAT_CLOCK_SKEW_MS) {
+    return { success: false, error: 'Heartbeat timestamp outside allowed clock skew', status: 400 };
+  }
+  if (node.lastHeartbeatAt !== undefined && payload.timestamp <= node.lastHeartbeatAt) {
+    return { success: false, error: 'Heartbeat replayed or out of order', status: 409 };
+  }
+  if (payload.status !== undefined && payload.status !== 'active' && payload.status !== 'inactive') {
+    return { success: false, error: 'Invalid node status', status: 400 };
+  }
+
+  const metrics = payload.metrics;
+  if (metrics !== undefined) {
+    const valid = metrics !== null && typeof metrics === 'object' && [metrics.lambda, metrics.phi, metrics.gamma]
+      .every(v => typeof v === 'number' && Number.isFinite(v) && v >= 0 && v <= 1);
+    if (!valid || metrics.gamma <= 0) {
+      return { success: false, error: 'Invalid metrics format', status: 400 };
+    }
+    node.ccceMetrics = {
+      lambda: metrics.lambda,
+      phi: metrics.phi,
+      gamma: metrics.gamma,
+      xi: (metrics.lambda * metrics.phi) / metrics.gamma
+    };
+  }
+
+  node.lastHeartbeatAt = payload.timestamp;
+  node.lastSeen = now;
+  node.status = payload.status || 'active';
+
+  return { success: true, node };
+}
+
+function retireNodeKey(node: RegisteredNode): void {
+  if (!node.nodeKey) return;
+  node.revokedKeys = [node.nodeKey, ...(node.revokedKeys || [])].slice(0, MAX_REVOKED_KEYS);
+  node.nodeKey = undefined;
+}
+
+/**
+ * Stop accepting heartbeats and submissions until resumed
+ */
+export function suspendNode(node: RegisteredNode): NodeLifecycleResult {
+  if (node.status === 'revoked') {
+    return { success: false, error: 'Node has been revoked', status: 409 };
+  }
+  if (node.status === 'suspended') {
+    return { success: false, error: 'Node is already suspended', status: 409 };
+  }
+
+  node.status = 'suspended';
+  return { success: true, node };
+}
+
+/**
+ * Lift a suspension; the node becomes active again on its next heartbeat
+ */
+export function resumeNode(node: RegisteredNode): NodeLifecycleResult {
+  if (node.status !== 'suspended') {
+    return { success: false, error: 'Node is not suspended', status: 409 };
+  }
+
+  node.status = node.nodeKey ? 'inactive' : 'pending';
+  return { success: true, node };
+}
+
+/**
+ * Permanently revoke a node and its keys
+ */
+export function revokeNode(node: RegisteredNode): NodeLifecycleResult {
+  if (node.status === 'revoked') {
+    return { success: false, error: 'Node is already revoked', status: 409 };
+  }
+
+  retireNodeKey(node);
+  node.activationSecretHash = undefined;
+  node.activationExpiresAt = undefined;
+  node.status = 'revoked';
+  return { success: true, node };
+}
+
+export function renameNode(node: RegisteredNode, displayName: unknown): NodeLifecycleResult {
+  if (typeof displayName !== 'string' || !/^[\w .-]{1,64}$/.test(displayName.trim())) {
+    return { success: false, error: 'Name must be 1-64 letters, digits, spaces, dots, dashes or underscores', status: 400 };
+  }
+
+  node.displayName = displayName.trim();
+  return { success: true, node };
+}
+
+/**
+ * Issue a new publicKey, qbyteAddress and heartbeat key; the old heartbeat key is revoked
+ */
+export function rotateNodeKeys(
+  node: RegisteredNode
+): { success: true; node: RegisteredNode; nodeKey: string | null } | { success: false; error: string; status: number } {
+  if (node.status === 'revoked') {
+    return { success: false, error: 'Node has been revoked', status: 409 };
+  }
+
+  node.publicKey = crypto.randomBytes(32).toString('hex');
+  node.qbyteAddress = deriveQByteAddress(node.publicKey);
+
+  // Pending nodes have no heartbeat key yet; they receive one on activation
+  if (!node.nodeKey) {
+    return { success: true, node, nodeKey: null };
+  }
+
+  retireNodeKey(node);
+  node.nodeKey = crypto.randomBytes(32).toString('hex');
+  return { success: true, node, nodeKey: node.nodeKey };
+}
+
+/**
+ * Mark active nodes inactive after missed heartbeats
+ * System nodes (the local Lambda Root) do not heartbeat and are exempt.
+ */
+export function sweepStaleNodes(now: number = Date.now()): string[] {
+  const cutoff = now - HEARTBEAT_INTERVAL_MS * MISSED_HEARTBEATS_BEFORE_INACTIVE;
+  const swept: string[] = [];
+
+  getNodeRegistry().forEach(node => {
+    if (node.status === 'active' && node.registeredBy !== 'system' && node.lastSeen < cutoff) {
+      node.status = 'inactive';
+      swept.push(node.nodeId);
+    }
+  });
+
+  if (swept.length > 0) {
+    console.log(`[NODES] Marked ${swept.length} node(s) inactive after missed heartbeats: ${swept.join(', ')}`);
+  }
+  return swept;
+}
+
+function startSweeper(): void {
+  if (globalForRegistry.__nodeSweeper) return;
+
+  globalForRegistry.__nodeSweeper = setInterval(() => sweepStaleNodes(), HEARTBEAT_INTERVAL_MS);
+  // Never keep the process alive just for the sweeper
+  globalForRegistry.__nodeSweeper.unref?.();
+}
+
+export function calculateMeshHealth(): number {
+  // Revoked nodes have left the mesh for good
+  const nodes = Array.from(getNodeRegistry().values()).filter(n => n.status !== 'revoked');
+  if (nodes.length === 0) return 0;
+
+  const activeNodes = nodes.filter(n => n.status === 'active');
+  const avgXi = activeNodes.reduce((sum, n) => sum + (n.ccceMetrics?.xi || 0), 0) / (activeNodes.length || 1);
+
+  // Mesh health = (active ratio * 0.4) + (avg Xi normalized * 0.6)
+  const activeRatio = activeNodes.length / nodes.length;
+  const xiNormalized = Math.min(avgXi / 10, 1);
+
+  return Math.round((activeRatio * 0.4 + xiNormalized * 0.6) * 100) / 100;
+}
@@ -0,0 +1,222 @@
+/**
+ * Quantum Attack Resource Estimators
+ *
+ * Logical resources to break each algorithm in the crypto inventory:
+ *   RSA      - Shor factoring, Gidney & Ekerå (2019) windowed arithmetic
+ *   DH       - Shor discrete log in a finite field, same arithmetic with a
+ *              full-length exponent (two n-bit exponent registers)
+ *   ECC      - Shor ECDLP, Roetteler, Naehrig, Svore & Lauter (2017)
+ *   AES/SHA  - Grover search; per-iteration oracle costs after Grassl et al.
+ *              (2016) for AES and Amy et al. (2016) for SHA-2, with SHA-384
+ *              scaled from SHA-256 by rounds and word size
+ *
+ * Shor circuits are counted in Toffolis and Grover oracles in T gates; a
+ * Toffoli is taken as 4 T gates (measurement-based uncomputation). Depths
+ * are in logical gate layers: measurement depth for Shor, T-depth for
+ * Grover. Physical figures come from the surface code estimator for the
+ * given hardware parameters (see ./surface-code).
+ */
+
+import {
+  DEFAULT_SURFACE_CODE_PARAMS,
+  SurfaceCodeEstimate,
+  SurfaceCodeParams,
+  estimateSurfaceCode
+} from './surface-code';
+
+export type AlgorithmFamily = 'RSA' | 'DH' | 'ECC' | 'AES' | 'SHA';
+
+export type QuantumAttack = 'shor-factoring' | 'shor-dlog' | 'shor-ecdlp' | 'grover-key-search' | 'grover-preimage';
+
+export interface CryptoAlgorithm {
+  id: string;                      // e.g. 'RSA-2048', 'P-256', 'AES-128'
+  family: AlgorithmFamily;
+  attack: QuantumAttack;
+  keyBits: number;                 // modulus, curve order or key/digest size
+  classicalSecurityBits: number;
+  description: string;
+}
+
+export interface QuantumResourceEstimate {
+  algorithm: string;
+  family: AlgorithmFamily;
+  attack: QuantumAttack;
+  keyBits: number;
+  classicalSecurityBits: number;
+  quantumSecurityBits: number;     // log2 of quantum work; ~0 once Shor applies
+  logicalQubits: number;
+  toffoliCount: number;
+  tCount: number;
+  circuitDepth: number;
+  feasible: boolean;               // false when the surface code cannot reach the target error
+  reason?: string;                 // why not, when infeasible
+  physicalQubits: number | null;   // physical fields are null when infeasible
+  codeDistance: number | null;
+  estimatedRuntimeSeconds: number | null;
+  estimatedRuntimeHours: number | null;
+  spacetimeVolume: number;         // logical qubits x depth
+  reference: string;
+  surfaceCode: SurfaceCodeEstimate;
+}
+
+export const T_PER_TOFFOLI = 4;
+
+// NIST SP 800-57 comparable strengths
+const RSA_DH_SECURITY: Record<number, number> = { 1024: 80, 2048: 112, 3072: 128, 4096: 152, 7680: 192, 8192: 200, 15360: 256 };
+
+export const CRYPTO_ALGORITHMS: CryptoAlgorithm[] = [
+  { id: 'RSA-1024', family: 'RSA', attack: 'shor-factoring', keyBits: 1024, classicalSecurityBits: 80, description: 'Legacy RSA keys' },
+  { id: 'RSA-2048', family: 'RSA', attack: 'shor-factoring', keyBits: 2048, classicalSecurityBits: 112, description: 'Most TLS and code signing certificates' },
+  { id: 'RSA-3072', family: 'RSA', attack: 'shor-factoring', keyBits: 3072, classicalSecurityBits: 128, description: 'CNSA 1.0 minimum RSA' },
+  { id: 'RSA-4096', family: 'RSA', attack: 'shor-factoring', keyBits: 4096, classicalSecurityBits: 152, description: 'Long-lived RSA roots' },
+  { id: 'DH-2048', family: 'DH', attack: 'shor-dlog', keyBits: 2048, classicalSecurityBits: 112, description: 'ffdhe2048 / MODP group 14' },
+  { id: 'DH-3072', family: 'DH', attack: 'shor-dlog', keyBits: 3072, classicalSecurityBits: 128, description: 'ffdhe3072 / MODP group 15' },
+  { id: 'DH-4096', family: 'DH', attack: 'shor-dlog', keyBits: 4096, classicalSecurityBits: 152, description: 'ffdhe4096 / MODP group 16' },
+  { id: 'P-256', family: 'ECC', attack: 'shor-ecdlp', keyBits: 256, classicalSecurityBits: 128, description: 'ECDSA/ECDH secp256r1' },
+  { id: 'P-384', family: 'ECC', attack: 'shor-ecdlp', keyBits: 384, classicalSecurityBits: 192, description: 'ECDSA/ECDH secp384r1 (CNSA 1.0)' },
+  { id: 'P-521', family: 'ECC', attack: 'shor-ecdlp', keyBits: 521, classicalSecurityBits: 256, description: 'ECDSA/ECDH secp521r1' },
+  { id: 'Ed25519', family: 'ECC', attack: 'shor-ecdlp', keyBits: 255, classicalSecurityBits: 128, description: 'EdDSA / X25519 over Curve25519' },
+  { id: 'secp256k1', family: 'ECC', attack: 'shor-ecdlp', keyBits: 256, classicalSecurityBits: 128, description: 'Bitcoin and Ethereum signatures' },
+  { id: 'AES-128', family: 'AES', attack: 'grover-key-search', keyBits: 128, classicalSecurityBits: 128, description: 'Symmetric encryption' },
+  { id: 'AES-192', family: 'AES', attack: 'grover-key-search', keyBits: 192, classicalSecurityBits: 192, description: 'Symmetric encryption' },
+  { id: 'AES-256', family: 'AES', attack: 'grover-key-search', keyBits: 256, classicalSecurityBits: 256, description: 'Symmetric encryption (CNSA)' },
+  { id: 'SHA-256', family: 'SHA', attack: 'grover-preimage', keyBits: 256, classicalSecurityBits: 256, description: 'Preimage of a SHA-256 digest' },
+  { id: 'SHA-384', family: 'SHA', attack: 'grover-preimage', keyBits: 384, classicalSecurityBits: 384, description: 'Preimage of a SHA-384 digest' }
+];
+
+// Grover oracle cost per iteration (both oracle calls plus diffusion)
+const GROVER_ORACLES: Record<string, { logicalQubits: number; tPerIteration: number; tDepthPerIteration: number; reference: string }> = {
+  'AES-128': { logicalQubits: 2953, tPerIteration: 6.35e6, tDepthPerIteration: 8.85e4, reference: 'Grassl, Langenberg, Roetteler & Steinwandt (2016)' },
+  'AES-192': { logicalQubits: 4449, tPerIteration: 9.67e6, tDepthPerIteration: 1.01e5, reference: 'Grassl, Langenberg, Roetteler & Steinwandt (2016)' },
+  'AES-256': { logicalQubits: 6681, tPerIteration: 1.51e7, tDepthPerIteration: 1.2e5, reference: 'Grassl, Langenberg, Roetteler & Steinwandt (2016)' },
+  'SHA-256': { logicalQubits: 2402, tPerIteration: 7.5e7, tDepthPerIteration: 4.7e5, reference: 'Amy, Di Matteo, Gheorghiu, Mosca, Parent & Schanck (2016)' },
+  'SHA-384': { logicalQubits: 4804, tPerIteration: 1.88e8, tDepthPerIteration: 1.18e6, reference: 'Scaled from Amy et al. (2016) SHA-256' }
+};
+
+export function getCryptoAlgorithm(id: string): CryptoAlgorithm | undefined {
+  const key = id.trim().toLowerCase();
+  return CRYPTO_ALGORITHMS.find(algorithm => algorithm.id.toLowerCase() === key);
+}
+
+/**
+ * RSA at an arbitrary modulus size, for key sizes outside the catalog
+ */
+export function rsaAlgorithm(keyBits: number): CryptoAlgorithm {
+  const known = getCryptoAlgorithm(`RSA-${keyBits}`);
+  if (known) return known;
+
+  // Interpolate strength between the nearest tabulated sizes
+  const sizes = Object.keys(RSA_DH_SECURITY).map(Number).sort((a, b) => a - b);
+  const below = sizes.filter(size => size <= keyBits).pop() ?? sizes[0];
+  const above = sizes.find(size => size >= keyBits) ?? sizes[sizes.length - 1];
+  const strength = below === above
+    ? RSA_DH_SECURITY[below]
+    : RSA_DH_SECURITY[below] + (RSA_DH_SECURITY[above] - RSA_DH_SECURITY[below]) * (keyBits - below) / (above - below);
+
+  return {
+    id: `RSA-${keyBits}`,
+    family: 'RSA',
+    attack: 'shor-factoring',
+    keyBits,
+    classicalSecurityBits: Math.round(strength),
+    description: 'Custom RSA modulus'
+  };
+}
+
+// Gidney & Ekerå: ~3n qubits; Toffolis 0.2·ne·n² + 0.0003·ne·n²·lg n and
+// measurement depth (333 + 0.67·lg n)·ne·n for an ne-bit exponent register
+function estimateShorModular(n: number, exponentBits: number) {
+  const lg = Math.log2(n);
+  return {
+    logicalQubits: Math.ceil(3 * n + 0.002 * n * lg),
+    toffoliCount: 0.2 * exponentBits * n * n + 0.0003 * exponentBits * n * n * lg,
+    circuitDepth: (333 + 0.67 * lg) * exponentBits * n
+  };
+}
+
+// Roetteler et al.: 9n + 2⌈lg n⌉ + 10 qubits, 448·n³·lg n + 4090·n³
+// Toffolis; the circuit is almost sequential (depth ~0.92 of the count)
+function estimateShorECDLP(n: number) {
+  const lg = Math.log2(n);
+  const toffoliCount = 448 * Math.pow(n, 3) * lg + 4090 * Math.pow(n, 3);
+  return {
+    logicalQubits: 9 * n + 2 * Math.ceil(lg) + 10,
+    toffoliCount,
+    circuitDepth: 0.92 * toffoliCount
+  };
+}
+
+/**
+ * Logical and physical resources to break an algorithm
+ */
+export function estimateQuantumResources(
+  algorithm: CryptoAlgorithm,
+  hardware: SurfaceCodeParams = DEFAULT_SURFACE_CODE_PARAMS
+): QuantumResourceEstimate {
+  let logicalQubits: number;
+  let toffoliCount: number;
+  let tCount: number;
+  let circuitDepth: number;
+  let quantumSecurityBits: number;
+  let reference: string;
+
+  switch (algorithm.attack) {
+    case 'shor-factoring':
+    case 'shor-dlog':
+    case 'shor-ecdlp': {
+      const shor = algorithm.attack === 'shor-ecdlp'
+        ? estimateShorECDLP(algorithm.keyBits)
+        : estimateShorModular(algorithm.keyBits, algorithm.attack === 'shor-dlog' ? 2 * algorithm.keyBits : 1.5 * algorithm.keyBits);
+      logicalQubits = shor.logicalQubits;
+      toffoliCount = shor.toffoliCount;
+      tCount = toffoliCount * T_PER_TOFFOLI;
+      circuitDepth = shor.circuitDepth;
+      quantumSecurityBits = Math.log2(toffoliCount);
+      reference = algorithm.attack === 'shor-ecdlp'
+        ? 'Roetteler, Naehrig, Svore & Lauter (2017)'
+        : 'Gidney & Ekerå (2019)';
+      break;
+    }
+    case 'grover-key-search':
+    case 'grover-preimage': {
+      const oracle = GROVER_ORACLES[algorithm.id];
+      if (!oracle) {
+        throw new Error(`No Grover oracle cost for ${algorithm.id}`);
+      }
+      const iterations = (Math.PI / 4) * Math.pow(2, algorithm.keyBits / 2);
+      logicalQubits = oracle.logicalQubits;
+      tCount = iterations * oracle.tPerIteration;
+      toffoliCount = tCount / T_PER_TOFFOLI;
+      circuitDepth = iterations * oracle.tDepthPerIteration;
+      quantumSecurityBits = Math.log2(tCount);
+      reference = oracle.reference;
+      break;
+    }
+  }
+
+  const surfaceCode = estimateSurfaceCode({ logicalQubits, tCount, logicalDepth: circuitDepth }, hardware);
+  const { feasible } = surfaceCode;
+  const estimatedRuntimeSeconds = feasible ? surfaceCode.time.runtimeSeconds : null;
+
+  return {
+    algorithm: algorithm.id,
+    family: algorithm.family,
+    attack: algorithm.attack,
+    keyBits: algorithm.keyBits,
+    classicalSecurityBits: algorithm.classicalSecurityBits,
+    quantumSecurityBits: Math.round(quantumSecurityBits * 10) / 10,
+    logicalQubits,
+    toffoliCount,
+    tCount,
+    circuitDepth,
+    feasible,
+    ...(!feasible && { reason: surfaceCode.reason }),
+    physicalQubits: feasible ? surfaceCode.space.physicalQubits : null,
+    codeDistance: feasible ? surfaceCode.codeDistance : null,
+    estimatedRuntimeSeconds,
+    estimatedRuntimeHours: estimatedRuntimeSeconds === null ? null : estimatedRuntimeSeconds / 3600,
+    spacetimeVolume: logicalQubits * circuitDepth,
+    reference,
+    surfaceCode
+  };
+}
@@ -5,6 +5,8 @@
  * Reference: "Quantum Security" by Jeremy Green (2025)
  */
 
+import type { CRQCMetrics } from './crqc-calculator';
+
 // RSA-2048 Parameters
 export const RSA_2048 = {
   keySize: 2048,
@@ -35,13 +37,24 @@ export const CRQC_THRESHOLDS = {
   physicalToLogicalRatio: 1000
 };
 
+// Current CRQC metrics (based on 2025 state-of-the-art)
+// IBM Condor: 1121 qubits, Google Willow: ~100 with error correction
+// Recent advances in error correction and logical qubit demonstrations
+export const CURRENT_CRQC_METRICS: CRQCMetrics = {
+  logicalQubitCapacity: 100, // Google/IBM demonstrated ~100 logical qubits with QEC
+  logicalOpsBudget: 1e8, // ~10^8 operations with error correction
+  quantumOpsThroughput: 1e5 // ~10^5 gates/second (improving rapidly)
+};
+
 // Timeline Estimates (Conservative to Aggressive)
 export const Q_DAY_ESTIMATES = {
   conservative: 2035,
   moderate: 2032,
   aggressive: 2029,
   // Current year for delta calculations
-  currentYear: 2025
+  get currentYear(): number {
+    return new Date().getFullYear();
+  }
 };
 
 // Shor's Algorithm Complexity
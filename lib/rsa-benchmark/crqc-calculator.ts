@@ -8,7 +8,10 @@
  *
  * Formula: CRQC_Score = (LQC/1000) * (LOB/10^12) * (QOT/10^6)
  *
- * A score >= 1.0 indicates RSA-2048 is vulnerable
+ * A score >= 1.0 indicates RSA-2048 is vulnerable. Other algorithms scale
+ * the score by their attack's spacetime volume (logical qubits x depth)
+ * relative to RSA-2048, so one set of machine metrics yields a Q-Day per
+ * algorithm; see algorithms.ts for the estimators.
  */
 
 import {
@@ -17,8 +20,24 @@ import {
   Q_DAY_ESTIMATES,
   SHORS_COMPLEXITY,
   CCCE_RSA_METRICS,
-  LAMBDA_PHI
+  LAMBDA_PHI,
+  CURRENT_CRQC_METRICS
 } from './constants';
+import {
+  AlgorithmFamily,
+  CRYPTO_ALGORITHMS,
+  QuantumResourceEstimate,
+  estimateQuantumResources,
+  getCryptoAlgorithm,
+  rsaAlgorithm
+} from './algorithms';
+import {
+  Connectivity,
+  DEFAULT_SURFACE_CODE_PARAMS,
+  SurfaceCodeParams,
+  estimateSurfaceCode
+} from './surface-code';
+import type { BreakYearForecast } from './forecast';
 
 export interface CRQCMetrics {
   logicalQubitCapacity: number;
@@ -27,8 +46,11 @@ export interface CRQCMetrics {
 }
 
 export interface CRQCScore {
+  target: string;                  // algorithm the score applies to
   score: number;
-  rsaVulnerable: boolean;
+  vulnerable: boolean;             // target breakable with these metrics
+  rsaVulnerable: boolean;          // RSA-2048 breakable with these metrics
+  relativeDifficulty: number;      // target spacetime volume / RSA-2048's
   yearsToQDay: number;
   estimatedQDay: number;
   threatLevel: 'IMMINENT' | 'CRITICAL' | 'HIGH' | 'MODERATE' | 'LOW';
@@ -37,31 +59,71 @@ export interface CRQCScore {
 
 export interface HNDLRisk {
   dataLifespan: number; // years
-  yearsUntilExposure: number;
+  yearsUntilExposure: number;      // median years when forecast
+  exposureProbability: number | null;  // P(broken within the lifespan); null for a point estimate
   riskLevel: 'CRITICAL' | 'HIGH' | 'MODERATE' | 'LOW';
   recommendation: string;
 }
 
+export interface AlgorithmThreat {
+  algorithm: string;
+  family: AlgorithmFamily;
+  description: string;
+  resources: QuantumResourceEstimate;
+  crqcScore: CRQCScore;
+}
+
+const MIN_RSA_BITS = 512;
+const MAX_RSA_BITS = 16384;
+
+const RSA_2048_RESOURCES = estimateQuantumResources(rsaAlgorithm(2048));
+
+const CRQC_METRIC_KEYS: (keyof CRQCMetrics)[] = ['logicalQubitCapacity', 'logicalOpsBudget', 'quantumOpsThroughput'];
+
+/**
+ * Validate caller-supplied machine metrics, defaulting to current hardware
+ */
+export function validateCRQCMetrics(input: Partial<Record<keyof CRQCMetrics, unknown>>): CRQCMetrics | string {
+  const merged = { ...CURRENT_CRQC_METRICS };
+
+  for (const key of CRQC_METRIC_KEYS) {
+    const value = input[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || !(value > 0)) {
+      return `${key} must be a positive finite number`;
+    }
+    merged[key] = value;
+  }
+
+  return merged;
+}
+
 /**
  * Calculate CRQC Score
- * Score >= 1.0 means RSA-2048 is breakable
+ * Score >= 1.0 means the target (default RSA-2048) is breakable
  */
-export function calculateCRQCScore(metrics: CRQCMetrics): CRQCScore {
+export function calculateCRQCScore(
+  metrics: CRQCMetrics,
+  target: QuantumResourceEstimate = RSA_2048_RESOURCES
+): CRQCScore {
   const { logicalQubitCapacity, logicalOpsBudget, quantumOpsThroughput } = metrics;
 
   // CRQC Score formula from Jeremy Green's book
-  const score =
+  const rsaScore =
     (logicalQubitCapacity / 1000) *
     (logicalOpsBudget / 1e12) *
     (quantumOpsThroughput / 1e6);
 
+  const relativeDifficulty = target.spacetimeVolume / RSA_2048_RESOURCES.spacetimeVolume;
+  const score = rsaScore / relativeDifficulty;
+
   // Determine if RSA-2048 is vulnerable
-  const rsaVulnerable = score >= 1.0;
+  const rsaVulnerable = rsaScore >= 1.0;
 
   // Estimate years to Q-Day based on current progress
   const progressRate = score / 0.001; // Assuming current score ~0.001
   const doublingTime = 2; // Years for quantum capability to double
-  const yearsToQDay = rsaVulnerable
+  const yearsToQDay = score >= 1.0
     ? 0
     : Math.ceil(Math.log2(1 / score) * doublingTime);
 
@@ -89,8 +151,11 @@ export function calculateCRQCScore(metrics: CRQCMetrics): CRQCScore {
   };
 
   return {
+    target: target.algorithm,
     score,
+    vulnerable: score >= 1.0,
     rsaVulnerable,
+    relativeDifficulty,
     yearsToQDay,
     estimatedQDay,
     threatLevel,
@@ -100,12 +165,48 @@ export function calculateCRQCScore(metrics: CRQCMetrics): CRQCScore {
 
 /**
  * Calculate Harvest Now, Decrypt Later Risk
+ * With a forecast the risk follows the probability that the target is
+ * broken before the data expires; otherwise the single estimated Q-Day
  */
 export function calculateHNDLRisk(
   dataLifespan: number,
-  crqcScore: CRQCScore
+  crqcScore: CRQCScore,
+  forecast?: BreakYearForecast
 ): HNDLRisk {
   const currentYear = Q_DAY_ESTIMATES.currentYear;
+
+  if (forecast) {
+    const horizonIndex = forecast.cdf.length - 1;
+    const exposureProbability = forecast.cdf[Math.max(0, Math.min(Math.floor(dataLifespan), horizonIndex))].probability;
+    const yearsUntilExposure = forecast.percentiles.p50 !== null
+      ? forecast.percentiles.p50 - currentYear
+      : horizonIndex + 1;
+
+    let riskLevel: HNDLRisk['riskLevel'];
+    let recommendation: string;
+    const percent = `${Math.round(exposureProbability * 100)}%`;
+
+    if (exposureProbability >= 0.5) {
+      riskLevel = 'CRITICAL';
+      recommendation =
+        `IMMEDIATE ACTION: Migrate to PQC encryption. ${percent} chance the data is exposed before it expires.`;
+    } else if (exposureProbability >= 0.2) {
+      riskLevel = 'HIGH';
+      recommendation =
+        `URGENT: Begin PQC migration planning (${percent} exposure probability). Implement hybrid encryption for new data.`;
+    } else if (exposureProbability >= 0.05) {
+      riskLevel = 'MODERATE';
+      recommendation =
+        `PLAN: Include PQC in cryptographic roadmap (${percent} exposure probability). Monitor CRQC developments.`;
+    } else {
+      riskLevel = 'LOW';
+      recommendation =
+        `MONITOR: ${percent} chance of exposure before the data expires. Continue monitoring timeline.`;
+    }
+
+    return { dataLifespan, yearsUntilExposure, exposureProbability, riskLevel, recommendation };
+  }
+
   const yearsUntilExposure = crqcScore.estimatedQDay - currentYear;
   const dataExpiresAfterQDay = dataLifespan > yearsUntilExposure;
 
@@ -133,108 +234,170 @@ export function calculateHNDLRisk(
   return {
     dataLifespan,
     yearsUntilExposure,
+    exposureProbability: null,
     riskLevel,
     recommendation
   };
 }
 
 /**
- * Estimate resources needed for Shor's algorithm on RSA-2048
+ * Estimate resources needed for Shor's algorithm on an RSA modulus
  */
-export function estimateShorsResources(keyBits: number = 2048) {
-  const n = Math.pow(2, keyBits);
-
-  // Logical qubits: ~2n for modular exponentiation
-  const logicalQubits = 2 * keyBits + Math.ceil(Math.log2(keyBits));
-
-  // T-gates: O(n^3) with optimizations
-  const tGates = Math.pow(keyBits, 3) * 1e6;
-
-  // Circuit depth with parallelization
-  const circuitDepth = Math.pow(keyBits, 2) * 1e4;
-
-  // Physical qubits (surface code, distance 27 for 10^-15 error rate)
-  const codeDistance = 27;
-  const physicalPerLogical = 2 * Math.pow(codeDistance, 2);
-  const physicalQubits = logicalQubits * physicalPerLogical;
-
-  // Estimated runtime (assuming 1MHz gate rate)
-  const gateRate = 1e6;
-  const estimatedRuntimeSeconds = circuitDepth / gateRate;
+export function estimateShorsResources(
+  keyBits: number = 2048,
+  hardware: SurfaceCodeParams = DEFAULT_SURFACE_CODE_PARAMS
+) {
+  const resources = estimateQuantumResources(rsaAlgorithm(keyBits), hardware);
 
   return {
     keyBits,
-    logicalQubits,
-    physicalQubits,
-    tGates,
-    circuitDepth,
-    codeDistance,
-    estimatedRuntimeSeconds,
-    estimatedRuntimeHours: estimatedRuntimeSeconds / 3600
+    logicalQubits: resources.logicalQubits,
+    feasible: resources.feasible,
+    ...(resources.reason !== undefined && { reason: resources.reason }),
+    physicalQubits: resources.physicalQubits,
+    tGates: resources.tCount,
+    circuitDepth: resources.circuitDepth,
+    codeDistance: resources.codeDistance,
+    estimatedRuntimeSeconds: resources.estimatedRuntimeSeconds,
+    estimatedRuntimeHours: resources.estimatedRuntimeHours,
+    surfaceCode: resources.surfaceCode
   };
 }
 
 /**
- * Generate current hardware benchmark comparison
+ * Resources and CRQC score for one algorithm; RSA key sizes outside the
+ * catalog are accepted as `RSA-<bits>` (512-16384 bits)
  */
-export function generateHardwareComparison() {
-  const rsaRequirements = estimateShorsResources(2048);
-
-  const currentHardware = [
-    {
-      name: 'IBM Heron r2 (ibm_fez)',
-      qubits: 156,
-      type: 'Superconducting',
-      t1: '163 μs',
-      t2: '200 μs',
-      gateError: '0.7%',
-      percentOfRequired: (156 / rsaRequirements.physicalQubits) * 100
-    },
-    {
-      name: 'IBM Condor',
-      qubits: 1121,
-      type: 'Superconducting',
-      t1: '~100 μs',
-      t2: '~150 μs',
-      gateError: '~1%',
-      percentOfRequired: (1121 / rsaRequirements.physicalQubits) * 100
-    },
-    {
-      name: 'Google Willow',
-      qubits: 105,
-      type: 'Superconducting',
-      t1: '~70 μs',
-      t2: '~100 μs',
-      gateError: '<0.5%',
-      percentOfRequired: (105 / rsaRequirements.physicalQubits) * 100
-    },
-    {
-      name: 'IonQ Forte',
-      qubits: 36,
-      type: 'Trapped Ion',
-      t1: '>10 min',
-      t2: '>1 s',
-      gateError: '0.3%',
-      percentOfRequired: (36 / rsaRequirements.physicalQubits) * 100
-    },
-    {
-      name: 'Quantinuum H2',
-      qubits: 56,
-      type: 'Trapped Ion',
-      t1: '>30 min',
-      t2: '>1 s',
-      gateError: '0.1%',
-      percentOfRequired: (56 / rsaRequirements.physicalQubits) * 100
-    }
-  ];
+export function assessAlgorithm(
+  algorithmId: string,
+  metrics: CRQCMetrics,
+  hardware: SurfaceCodeParams = DEFAULT_SURFACE_CODE_PARAMS
+): AlgorithmThreat | null {
+  const rsaMatch = algorithmId.trim().match(/^RSA-(\d+)$/i);
+  const rsaBits = rsaMatch ? parseInt(rsaMatch[1]) : 0;
+  const algorithm = getCryptoAlgorithm(algorithmId) ||
+    (rsaBits >= MIN_RSA_BITS && rsaBits <= MAX_RSA_BITS ? rsaAlgorithm(rsaBits) : undefined);
+  if (!algorithm) return null;
+
+  const resources = estimateQuantumResources(algorithm, hardware);
+  return {
+    algorithm: algorithm.id,
+    family: algorithm.family,
+    description: algorithm.description,
+    resources,
+    crqcScore: calculateCRQCScore(metrics, resources)
+  };
+}
+
+/**
+ * Threat comparison across algorithms (default: the whole catalog), soonest
+ * Q-Day first
+ */
+export function compareAlgorithms(
+  metrics: CRQCMetrics,
+  algorithmIds?: string[],
+  hardware: SurfaceCodeParams = DEFAULT_SURFACE_CODE_PARAMS
+): AlgorithmThreat[] {
+  const ids = algorithmIds && algorithmIds.length > 0 ? algorithmIds : CRYPTO_ALGORITHMS.map(algorithm => algorithm.id);
+  return ids
+    .map(id => assessAlgorithm(id, metrics, hardware))
+    .filter((threat): threat is AlgorithmThreat => threat !== null)
+    .sort((a, b) => a.crqcScore.estimatedQDay - b.crqcScore.estimatedQDay || b.crqcScore.score - a.crqcScore.score);
+}
 
+// Surface code parameters per device: two-qubit error, one syndrome
+// round, native coupling graph
+const HARDWARE_PROFILES = [
+  {
+    name: 'IBM Heron r2 (ibm_fez)',
+    qubits: 156,
+    type: 'Superconducting',
+    t1: '163 μs',
+    t2: '200 μs',
+    gateError: '0.7%',
+    physicalErrorRate: 7e-3,
+    cycleTimeNs: 2000,
+    connectivity: 'heavy-hex' as Connectivity
+  },
+  {
+    name: 'IBM Condor',
+    qubits: 1121,
+    type: 'Superconducting',
+    t1: '~100 μs',
+    t2: '~150 μs',
+    gateError: '~1%',
+    physicalErrorRate: 1e-2,
+    cycleTimeNs: 2000,
+    connectivity: 'heavy-hex' as Connectivity
+  },
+  {
+    name: 'Google Willow',
+    qubits: 105,
+    type: 'Superconducting',
+    t1: '~70 μs',
+    t2: '~100 μs',
+    gateError: '<0.5%',
+    physicalErrorRate: 3e-3,
+    cycleTimeNs: 1100,
+    connectivity: 'square-grid' as Connectivity
+  },
+  {
+    name: 'IonQ Forte',
+    qubits: 36,
+    type: 'Trapped Ion',
+    t1: '>10 min',
+    t2: '>1 s',
+    gateError: '0.3%',
+    physicalErrorRate: 3e-3,
+    cycleTimeNs: 2e6,
+    connectivity: 'all-to-all' as Connectivity
+  },
+  {
+    name: 'Quantinuum H2',
+    qubits: 56,
+    type: 'Trapped Ion',
+    t1: '>30 min',
+    t2: '>1 s',
+    gateError: '0.1%',
+    physicalErrorRate: 1e-3,
+    cycleTimeNs: 1e6,
+    connectivity: 'all-to-all' as Connectivity
+  }
+];
+
+/**
+ * Generate current hardware benchmark comparison against a target (default
+ * RSA-2048). Each device gets its own surface code requirement from its
+ * error rate, cycle time and connectivity; factory layout and failure
+ * target come from `base`
+ */
+export function generateHardwareComparison(
+  target: QuantumResourceEstimate = RSA_2048_RESOURCES,
+  base: SurfaceCodeParams = DEFAULT_SURFACE_CODE_PARAMS
+) {
+  const workload = { logicalQubits: target.logicalQubits, tCount: target.tCount, logicalDepth: target.circuitDepth };
+
+  const currentHardware = HARDWARE_PROFILES.map(({ physicalErrorRate, cycleTimeNs, connectivity, ...device }) => {
+    const requirement = estimateSurfaceCode(workload, { ...base, physicalErrorRate, cycleTimeNs, connectivity });
+    return {
+      ...device,
+      physicalErrorRate,
+      cycleTimeNs,
+      connectivity,
+      requirement,
+      percentOfRequired: requirement.feasible ? (device.qubits / requirement.space.physicalQubits) * 100 : 0
+    };
+  });
+
+  // No gap to close when the target's own hardware cannot run the attack
+  const required = target.physicalQubits;
   return {
-    rsaRequirements,
+    requirements: target,
     currentHardware,
-    gapAnalysis: {
-      qubitGap: rsaRequirements.physicalQubits - 1121,
-      qubitGapPercent: ((rsaRequirements.physicalQubits - 1121) / rsaRequirements.physicalQubits) * 100,
-      estimatedYearsToClose: Math.ceil(Math.log2(rsaRequirements.physicalQubits / 1121) * 2)
+    gapAnalysis: required === null ? null : {
+      qubitGap: required - 1121,
+      qubitGapPercent: ((required - 1121) / required) * 100,
+      estimatedYearsToClose: Math.ceil(Math.log2(required / 1121) * 2)
     }
   };
 }
@@ -288,14 +451,53 @@ export function calculateCCCEThreatScore(
   };
 }
 
+const FAMILY_MITIGATIONS: Record<AlgorithmFamily, string[]> = {
+  RSA: [
+    'Deploy CRYSTALS-Kyber for key encapsulation',
+    'Deploy CRYSTALS-Dilithium for signatures',
+    'Implement cryptographic agility framework',
+    'Audit and inventory all RSA dependencies',
+    'Establish hybrid encryption for transition period',
+    'Monitor NIST PQC standardization updates'
+  ],
+  DH: [
+    'Replace finite-field DH key exchange with ML-KEM (Kyber) or a hybrid X25519+ML-KEM group',
+    'Implement cryptographic agility framework',
+    'Audit and inventory all DH group negotiation (TLS, IKE, SSH)',
+    'Establish hybrid key exchange for transition period',
+    'Monitor NIST PQC standardization updates'
+  ],
+  ECC: [
+    'Replace ECDH with ML-KEM (Kyber) or hybrid X25519+ML-KEM key exchange',
+    'Replace ECDSA/EdDSA with ML-DSA (Dilithium) or SLH-DSA (SPHINCS+) signatures',
+    'Implement cryptographic agility framework',
+    'Audit and inventory all elliptic curve dependencies',
+    'Establish hybrid signatures for transition period',
+    'Monitor NIST PQC standardization updates'
+  ],
+  AES: [
+    'Use 256-bit keys (AES-256) for data that must stay confidential past Q-Day',
+    'Protect AES key exchange with ML-KEM; Grover only halves symmetric strength',
+    'Implement cryptographic agility framework',
+    'Monitor quantum circuit depth improvements for Grover'
+  ],
+  SHA: [
+    'Use SHA-384 or SHA-512 where 128-bit post-quantum preimage resistance is required',
+    'Replace hash-based signatures in PKI with ML-DSA or SLH-DSA',
+    'Implement cryptographic agility framework',
+    'Monitor quantum circuit depth improvements for Grover'
+  ]
+};
+
 /**
- * Generate Q-SLICE threat report for RSA-2048
+ * Generate Q-SLICE threat report for the score's target
  */
 export function generateQSliceReport(crqcScore: CRQCScore) {
   const currentYear = Q_DAY_ESTIMATES.currentYear;
+  const family = getCryptoAlgorithm(crqcScore.target)?.family || 'RSA';
 
   return {
-    target: 'RSA-2048',
+    target: crqcScore.target,
     timestamp: new Date().toISOString(),
     crqcScore: crqcScore.score,
     threatLevel: crqcScore.threatLevel,
@@ -333,13 +535,6 @@ export function generateQSliceReport(crqcScore: CRQCScore) {
         impact: 'Migration-phase attacks'
       }
     },
-    mitigations: [
-      'Deploy CRYSTALS-Kyber for key encapsulation',
-      'Deploy CRYSTALS-Dilithium for signatures',
-      'Implement cryptographic agility framework',
-      'Audit and inventory all RSA dependencies',
-      'Establish hybrid encryption for transition period',
-      'Monitor NIST PQC standardization updates'
-    ]
+    mitigations: FAMILY_MITIGATIONS[family]
   };
 }
@@ -0,0 +1,237 @@
+/**
+ * Monte Carlo Q-Day Forecaster
+ *
+ * Each trial samples three rates of progress:
+ *   - qubitDoublingYears     years for logical qubit capacity to double
+ *   - errorHalvingYears      years for the logical error rate to halve,
+ *                            i.e. for the logical ops budget to double
+ *   - algorithmHalvingYears  years for attack cost (spacetime volume) to
+ *                            halve through better circuits
+ * The CRQC score then doubles every 1 / (1/q + 1/e + 1/a) years, so a
+ * target with score s breaks log2(1/s) doublings from now. Throughput is
+ * held at its current value. Algorithms share the rates within a trial,
+ * so their break years stay ordered the way their difficulties are.
+ */
+
+import { AlgorithmThreat, CRQCMetrics, assessAlgorithm, calculateCRQCScore } from './crqc-calculator';
+import type { QuantumResourceEstimate } from './algorithms';
+import { Q_DAY_ESTIMATES } from './constants';
+
+export type Distribution =
+  | { type: 'fixed'; value: number }
+  | { type: 'uniform'; min: number; max: number }
+  | { type: 'triangular'; min: number; mode: number; max: number }
+  | { type: 'lognormal'; median: number; sigma: number };
+
+export interface ForecastOptions {
+  samples: number;
+  horizonYears: number;
+  seed: number;
+  qubitDoublingYears: Distribution;
+  errorHalvingYears: Distribution;
+  algorithmHalvingYears: Distribution;
+}
+
+export interface BreakYearForecast {
+  algorithm: string;
+  currentScore: number;
+  probabilityWithinHorizon: number;
+  percentiles: { p10: number | null; p50: number | null; p90: number | null };   // break year; null beyond the horizon
+  cdf: Array<{ year: number; probability: number }>;                            // P(broken by end of year)
+}
+
+export interface QDayForecast {
+  startYear: number;
+  options: ForecastOptions;
+  algorithms: BreakYearForecast[];
+}
+
+export const MAX_FORECAST_SAMPLES = 100000;
+export const MAX_FORECAST_HORIZON = 200;
+// Forecast cost grows with samples x targets; bound it per request
+export const MAX_FORECAST_WORK = 500000;
+
+const RATE_KEYS = ['qubitDoublingYears', 'errorHalvingYears', 'algorithmHalvingYears'] as const;
+
+export const DEFAULT_FORECAST_OPTIONS: ForecastOptions = {
+  samples: 10000,
+  horizonYears: 50,
+  seed: 1,
+  qubitDoublingYears: { type: 'triangular', min: 1, mode: 2, max: 4 },
+  errorHalvingYears: { type: 'triangular', min: 1.5, mode: 3, max: 6 },
+  algorithmHalvingYears: { type: 'triangular', min: 2, mode: 6, max: 20 }
+};
+
+// mulberry32: small, fast and reproducible for a given seed
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sample(distribution: Distribution, random: () => number): number {
+  switch (distribution.type) {
+    case 'fixed':
+      return distribution.value;
+    case 'uniform':
+      return distribution.min + (distribution.max - distribution.min) * random();
+    case 'triangular': {
+      const { min, mode, max } = distribution;
+      if (max === min) return min;
+      const u = random();
+      const split = (mode - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+    case 'lognormal': {
+      // Box-Muller; 1 - random() keeps the log argument above zero
+      const z = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+      return distribution.median * Math.exp(distribution.sigma * z);
+    }
+  }
+}
+
+function validateDistribution(name: string, input: unknown): Distribution | string {
+  if (!input || typeof input !== 'object') return `${name} must be a distribution object`;
+  const distribution = input as Record<string, unknown>;
+  const positive = (key: string) => typeof distribution[key] === 'number' && (distribution[key] as number) > 0 &&
+    isFinite(distribution[key] as number);
+
+  switch (distribution.type) {
+    case 'fixed':
+      return positive('value') ? { type: 'fixed', value: distribution.value as number }
+        : `${name}.value must be a positive number`;
+    case 'uniform':
+      if (!positive('min') || !positive('max') || (distribution.min as number) > (distribution.max as number)) {
+        return `${name} needs positive min <= max`;
+      }
+      return { type: 'uniform', min: distribution.min as number, max: distribution.max as number };
+    case 'triangular': {
+      if (!positive('min') || !positive('mode') || !positive('max')) return `${name} needs positive min, mode and max`;
+      const { min, mode, max } = distribution as { min: number; mode: number; max: number };
+      if (min > mode || mode > max) return `${name} needs min <= mode <= max`;
+      return { type: 'triangular', min, mode, max };
+    }
+    case 'lognormal':
+      if (!positive('median') || typeof distribution.sigma !== 'number' || distribution.sigma < 0 || distribution.sigma > 5) {
+        return `${name} needs a positive median and sigma between 0 and 5`;
+      }
+      return { type: 'lognormal', median: distribution.median as number, sigma: distribution.sigma };
+    default:
+      return `${name}.type must be fixed, uniform, triangular or lognormal`;
+  }
+}
+
+/**
+ * Check caller-supplied options; returns an error message or the options
+ * merged over the defaults
+ */
+export function validateForecastOptions(input: unknown): ForecastOptions | string {
+  if (input === undefined || input === null) return DEFAULT_FORECAST_OPTIONS;
+  if (typeof input !== 'object') return 'forecast must be an object';
+  const options = input as Partial<Record<keyof ForecastOptions, unknown>>;
+  const merged = { ...DEFAULT_FORECAST_OPTIONS };
+
+  if (options.samples !== undefined) {
+    if (!Number.isInteger(options.samples) || (options.samples as number) < 100 || (options.samples as number) > MAX_FORECAST_SAMPLES) {
+      return `samples must be an integer from 100 to ${MAX_FORECAST_SAMPLES}`;
+    }
+    merged.samples = options.samples as number;
+  }
+  if (options.horizonYears !== undefined) {
+    if (!Number.isInteger(options.horizonYears) || (options.horizonYears as number) < 1 ||
+        (options.horizonYears as number) > MAX_FORECAST_HORIZON) {
+      return `horizonYears must be an integer from 1 to ${MAX_FORECAST_HORIZON}`;
+    }
+    merged.horizonYears = options.horizonYears as number;
+  }
+  if (options.seed !== undefined) {
+    if (!Number.isInteger(options.seed)) return 'seed must be an integer';
+    merged.seed = options.seed as number;
+  }
+  for (const key of RATE_KEYS) {
+    if (options[key] === undefined) continue;
+    const distribution = validateDistribution(key, options[key]);
+    if (typeof distribution === 'string') return distribution;
+    merged[key] = distribution;
+  }
+
+  return merged;
+}
+
+/**
+ * Break-year distribution for each target under the given machine metrics
+ */
+export function forecastQDay(
+  metrics: CRQCMetrics,
+  targets: QuantumResourceEstimate[],
+  options: ForecastOptions = DEFAULT_FORECAST_OPTIONS
+): QDayForecast {
+  const startYear = Q_DAY_ESTIMATES.currentYear;
+  const random = createRandom(options.seed);
+
+  // Doublings of the CRQC score per year, one entry per trial
+  const rates = new Float64Array(options.samples);
+  for (let i = 0; i < options.samples; i++) {
+    rates[i] = RATE_KEYS.reduce((rate, key) => rate + 1 / sample(options[key], random), 0);
+  }
+
+  const algorithms = targets.map(target => {
+    const currentScore = calculateCRQCScore(metrics, target).score;
+    const doublingsNeeded = currentScore >= 1 ? 0 : Math.log2(1 / currentScore);
+
+    // Years until broken in each trial, ascending
+    const years = Array.from(rates, rate => doublingsNeeded / rate).sort((a, b) => a - b);
+
+    let index = 0;
+    const cdf: BreakYearForecast['cdf'] = [];
+    for (let offset = 0; offset <= options.horizonYears; offset++) {
+      while (index < years.length && years[index] <= offset) index++;
+      cdf.push({ year: startYear + offset, probability: index / years.length });
+    }
+
+    const percentile = (fraction: number) => {
+      const value = years[Math.min(years.length - 1, Math.floor(fraction * years.length))];
+      return value <= options.horizonYears ? startYear + Math.ceil(value) : null;
+    };
+
+    return {
+      algorithm: target.algorithm,
+      currentScore,
+      probabilityWithinHorizon: cdf[cdf.length - 1].probability,
+      percentiles: { p10: percentile(0.1), p50: percentile(0.5), p90: percentile(0.9) },
+      cdf
+    };
+  });
+
+  return { startYear, options, algorithms };
+}
+
+/**
+ * Threat and break-year forecast for each distinct algorithm id, for
+ * callers scoring many items that share algorithms; unknown ids are left out
+ */
+export function forecastAlgorithms(
+  algorithmIds: string[],
+  metrics: CRQCMetrics,
+  options: ForecastOptions = DEFAULT_FORECAST_OPTIONS
+): Map<string, { threat: AlgorithmThreat; forecast: BreakYearForecast }> {
+  const threats = new Map<string, AlgorithmThreat>();
+  algorithmIds.forEach(id => {
+    if (threats.has(id)) return;
+    const threat = assessAlgorithm(id, metrics);
+    if (threat) threats.set(id, threat);
+  });
+
+  const ids = Array.from(threats.keys());
+  const forecast = forecastQDay(metrics, ids.map(id => threats.get(id)!.resources), options);
+  const result = new Map<string, { threat: AlgorithmThreat; forecast: BreakYearForecast }>();
+  ids.forEach((id, index) => result.set(id, { threat: threats.get(id)!, forecast: forecast.algorithms[index] }));
+  return result;
+}
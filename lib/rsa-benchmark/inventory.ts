@@ -0,0 +1,273 @@
+/**
+ * Cryptographic Asset Inventory
+ * Systems registered by teams for quantum risk scoring and PQC migration
+ * planning (see migration.ts)
+ *
+ * An asset names the algorithm protecting a system, what it is used for,
+ * how sensitive the data is and how long it must stay protected. Algorithms
+ * are catalog ids (RSA-2048, P-256, AES-128, ...), RSA-<bits>, or a family
+ * name plus keySize (RSA/DH/ECDSA/ECDH/AES/SHA).
+ *
+ * Only the user who registered an asset or clearance 4+ may read or delete
+ * it. The inventory persists to ~/.sovereign/state/crypto-inventory.json
+ * (override with PQC_INVENTORY_PATH; PQC_INVENTORY_STORE=memory disables
+ * persistence).
+ */
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { readJsonFile, writeJsonFile } from '../state/json-store';
+import { AlgorithmFamily, getCryptoAlgorithm } from './algorithms';
+import { assessAlgorithm } from './crqc-calculator';
+import { CURRENT_CRQC_METRICS } from './constants';
+
+const HOMEDIR = process.env.HOME || '/home/dnalang';
+const DEFAULT_INVENTORY_PATH = path.join(HOMEDIR, '.sovereign/state/crypto-inventory.json');
+
+export const MAX_ASSETS_PER_USER = 1000;
+export const MAX_RETENTION_YEARS = 100;
+
+// Clearance needed to read or change assets registered by someone else
+const INVENTORY_ADMIN_CLEARANCE = 4;
+
+export type AssetUsage = 'key-exchange' | 'signature' | 'encryption' | 'hashing';
+
+export type DataSensitivity = 'public' | 'internal' | 'confidential' | 'secret' | 'top-secret';
+
+export const ASSET_USAGES: AssetUsage[] = ['key-exchange', 'signature', 'encryption', 'hashing'];
+export const DATA_SENSITIVITIES: DataSensitivity[] = ['public', 'internal', 'confidential', 'secret', 'top-secret'];
+
+// Usage assumed when none is given
+export const DEFAULT_USAGE: Record<AlgorithmFamily, AssetUsage> = {
+  RSA: 'key-exchange',
+  DH: 'key-exchange',
+  ECC: 'signature',
+  AES: 'encryption',
+  SHA: 'hashing'
+};
+
+// Family names accepted with keySize, mapped to catalog id prefixes
+const FAMILY_ALIASES: Record<string, string> = {
+  rsa: 'RSA-',
+  dh: 'DH-',
+  dhe: 'DH-',
+  ffdhe: 'DH-',
+  ecdsa: 'P-',
+  ecdh: 'P-',
+  ecdhe: 'P-',
+  ec: 'P-',
+  aes: 'AES-',
+  sha: 'SHA-',
+  sha2: 'SHA-'
+};
+
+export interface CryptoAsset {
+  id: string;
+  name: string;                    // system or service
+  description: string;
+  algorithm: string;               // canonical id, e.g. 'RSA-2048'
+  family: AlgorithmFamily;
+  usage: AssetUsage;
+  dataSensitivity: DataSensitivity;
+  retentionYears: number;          // how long the protection must hold
+  constrained: boolean;            // tight key/signature size budget (IoT, cert chains)
+  owner: string;                   // responsible team or contact
+  ownerId: string;                 // user who registered it
+  source?: { path: string; fingerprint: string };   // file the asset was scanned from
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RegisterAssetInput {
+  name?: unknown;
+  description?: unknown;
+  algorithm?: unknown;
+  keySize?: unknown;
+  usage?: unknown;
+  dataSensitivity?: unknown;
+  retentionYears?: unknown;
+  constrained?: unknown;
+  owner?: unknown;
+  source?: unknown;
+}
+
+export interface InventoryActor {
+  userId: string;
+  clearanceLevel: number;
+}
+
+export type AssetResult =
+  | { success: true; asset: CryptoAsset }
+  | { success: false; error: string; status: number };
+
+interface InventoryState {
+  assets: Map<string, CryptoAsset>;
+}
+
+// Route bundles may load this module separately; keep one inventory per process
+const globalForInventory = globalThis as unknown as { __cryptoInventory?: InventoryState };
+
+function getInventoryPath(): string | null {
+  if (process.env.PQC_INVENTORY_STORE === 'memory') return null;
+  return process.env.PQC_INVENTORY_PATH || DEFAULT_INVENTORY_PATH;
+}
+
+function getState(): InventoryState {
+  if (!globalForInventory.__cryptoInventory) {
+    globalForInventory.__cryptoInventory = loadState();
+  }
+  return globalForInventory.__cryptoInventory;
+}
+
+function loadState(): InventoryState {
+  const state: InventoryState = { assets: new Map() };
+  const inventoryPath = getInventoryPath();
+  if (!inventoryPath) return state;
+
+  const data = readJsonFile<{ assets: CryptoAsset[] }>(inventoryPath, '[PQC]', 'crypto inventory');
+  if (data) {
+    data.assets.forEach(asset => state.assets.set(asset.id, asset));
+    console.log(`[PQC] Loaded ${state.assets.size} crypto asset(s) from ${inventoryPath}`);
+  }
+  return state;
+}
+
+function saveState(): void {
+  const inventoryPath = getInventoryPath();
+  if (!inventoryPath) return;
+  writeJsonFile(inventoryPath, { version: 1, assets: Array.from(getState().assets.values()) });
+}
+
+function checkAccess(asset: CryptoAsset | undefined, actor: InventoryActor): { error: string; status: number } | null {
+  if (!asset) return { error: 'Asset not found', status: 404 };
+  if (asset.ownerId !== actor.userId && actor.clearanceLevel < INVENTORY_ADMIN_CLEARANCE) {
+    return { error: 'Only the user who registered the asset or an administrator can access it', status: 403 };
+  }
+  return null;
+}
+
+/**
+ * Canonical algorithm id for an id or a family name plus key size;
+ * undefined when the combination is not one we can estimate
+ */
+export function resolveAssetAlgorithm(algorithm: string, keySize?: number): string | undefined {
+  const trimmed = algorithm.trim();
+  const prefix = FAMILY_ALIASES[trimmed.toLowerCase()];
+  const candidate = prefix && keySize !== undefined ? `${prefix}${keySize}` : trimmed;
+
+  const known = getCryptoAlgorithm(candidate);
+  if (known) return known.id;
+  // RSA outside the catalog is estimated by interpolation
+  return assessAlgorithm(candidate, CURRENT_CRQC_METRICS)?.algorithm;
+}
+
+/**
+ * Register a system in the actor's inventory
+ */
+export function registerAsset(input: RegisterAssetInput, actor: InventoryActor): AssetResult {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > 120) {
+    return { success: false, error: 'name must be 1-120 characters', status: 400 };
+  }
+  if (input.description !== undefined && (typeof input.description !== 'string' || input.description.length > 500)) {
+    return { success: false, error: 'description must be a string of at most 500 characters', status: 400 };
+  }
+  const owner = typeof input.owner === 'string' ? input.owner.trim() : '';
+  if (!owner || owner.length > 120) {
+    return { success: false, error: 'owner must be 1-120 characters', status: 400 };
+  }
+
+  if (typeof input.algorithm !== 'string' || !input.algorithm.trim()) {
+    return { success: false, error: 'algorithm required', status: 400 };
+  }
+  if (input.keySize !== undefined && !(Number.isInteger(input.keySize) && (input.keySize as number) > 0)) {
+    return { success: false, error: 'keySize must be a positive integer', status: 400 };
+  }
+  const algorithmId = resolveAssetAlgorithm(input.algorithm, input.keySize as number | undefined);
+  if (!algorithmId) {
+    const size = input.keySize !== undefined ? ` with keySize ${input.keySize}` : '';
+    return { success: false, error: `Unsupported algorithm "${input.algorithm}"${size}`, status: 400 };
+  }
+  const family = assessAlgorithm(algorithmId, CURRENT_CRQC_METRICS)!.family;
+
+  if (input.usage !== undefined && !ASSET_USAGES.includes(input.usage as AssetUsage)) {
+    return { success: false, error: `usage must be one of ${ASSET_USAGES.join(', ')}`, status: 400 };
+  }
+  if (!DATA_SENSITIVITIES.includes(input.dataSensitivity as DataSensitivity)) {
+    return { success: false, error: `dataSensitivity must be one of ${DATA_SENSITIVITIES.join(', ')}`, status: 400 };
+  }
+  if (typeof input.retentionYears !== 'number' || !(input.retentionYears >= 0 && input.retentionYears <= MAX_RETENTION_YEARS)) {
+    return { success: false, error: `retentionYears must be a number from 0 to ${MAX_RETENTION_YEARS}`, status: 400 };
+  }
+  if (input.constrained !== undefined && typeof input.constrained !== 'boolean') {
+    return { success: false, error: 'constrained must be a boolean', status: 400 };
+  }
+  const source = input.source as { path?: unknown; fingerprint?: unknown } | undefined;
+  if (source !== undefined && (!source || typeof source !== 'object' ||
+      typeof source.path !== 'string' || source.path.length > 1000 ||
+      typeof source.fingerprint !== 'string' || source.fingerprint.length > 200)) {
+    return { success: false, error: 'source must be { path, fingerprint } strings', status: 400 };
+  }
+
+  const state = getState();
+  const owned = Array.from(state.assets.values()).filter(asset => asset.ownerId === actor.userId).length;
+  if (owned >= MAX_ASSETS_PER_USER) {
+    return { success: false, error: `At most ${MAX_ASSETS_PER_USER} assets can be registered per user`, status: 409 };
+  }
+
+  const now = Date.now();
+  const asset: CryptoAsset = {
+    id: `asset_${crypto.randomBytes(8).toString('hex')}`,
+    name,
+    description: (input.description as string | undefined) || '',
+    algorithm: algorithmId,
+    family,
+    usage: (input.usage as AssetUsage | undefined) || DEFAULT_USAGE[family],
+    dataSensitivity: input.dataSensitivity as DataSensitivity,
+    retentionYears: input.retentionYears,
+    constrained: input.constrained === true,
+    owner,
+    ownerId: actor.userId,
+    ...(source ? { source: { path: source.path as string, fingerprint: source.fingerprint as string } } : {}),
+    createdAt: now,
+    updatedAt: now
+  };
+  state.assets.set(asset.id, asset);
+  saveState();
+  return { success: true, asset };
+}
+
+/**
+ * Assets registered by a user, oldest first
+ */
+export function listAssets(ownerId: string): CryptoAsset[] {
+  return Array.from(getState().assets.values())
+    .filter(asset => asset.ownerId === ownerId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * A user's asset scanned from the key with this fingerprint, if any
+ */
+export function findAssetByFingerprint(ownerId: string, fingerprint: string): CryptoAsset | undefined {
+  return Array.from(getState().assets.values())
+    .find(asset => asset.ownerId === ownerId && asset.source?.fingerprint === fingerprint);
+}
+
+export function getAsset(assetId: string, actor: InventoryActor): AssetResult {
+  const asset = getState().assets.get(assetId);
+  const denied = checkAccess(asset, actor);
+  if (denied) return { success: false, ...denied };
+  return { success: true, asset: asset! };
+}
+
+export function deleteAsset(assetId: string, actor: InventoryActor): AssetResult {
+  const state = getState();
+  const asset = state.assets.get(assetId);
+  const denied = checkAccess(asset, actor);
+  if (denied) return { success: false, ...denied };
+
+  state.assets.delete(assetId);
+  saveState();
+  return { success: true, asset: asset! };
+}
@@ -0,0 +1,233 @@
+/**
+ * PQC Migration Planner
+ * Scores inventory assets against the Q-Day forecast and maps each to a
+ * post-quantum replacement
+ *
+ * Exposure is the forecast probability that an asset's algorithm is broken
+ * within its retention period: harvest-now-decrypt-later for key exchange
+ * and encryption, the window in which forgeries still matter for
+ * signatures. Priority is exposure weighted by data sensitivity. Mosca's
+ * inequality gives the latest year migration can start: the pessimistic
+ * (P10) break year minus retention minus the replacement's lead time.
+ */
+
+import { CRQCMetrics, HNDLRisk, calculateHNDLRisk } from './crqc-calculator';
+import { CURRENT_CRQC_METRICS, Q_DAY_ESTIMATES } from './constants';
+import { BreakYearForecast, DEFAULT_FORECAST_OPTIONS, ForecastOptions, forecastAlgorithms } from './forecast';
+import type { CryptoAsset, DataSensitivity } from './inventory';
+
+export type ReplacementKind = 'kem' | 'hybrid-kem' | 'signature' | 'hybrid-signature' | 'symmetric' | 'hash' | 'none';
+
+export interface Replacement {
+  algorithm: string;
+  kind: ReplacementKind;
+  standard: string | null;
+  rationale: string;
+  effort: {
+    personWeeks: number;
+    leadTimeYears: number;         // rollout time counted in Mosca's inequality
+  };
+}
+
+export interface AssetAssessment {
+  rank: number;
+  asset: CryptoAsset;
+  estimatedQDay: number;           // point estimate from the CRQC score
+  breakYear: BreakYearForecast['percentiles'];
+  exposureProbability: number;
+  riskLevel: HNDLRisk['riskLevel'];
+  priorityScore: number;           // 0-100
+  mustStartBy: number | null;      // null when no break is forecast within the horizon
+  overdue: boolean;
+  replacement: Replacement;
+}
+
+export interface MigrationPlan {
+  generatedAt: string;
+  startYear: number;
+  metrics: CRQCMetrics;
+  summary: {
+    assets: number;
+    byRisk: Record<HNDLRisk['riskLevel'], number>;
+    needingMigration: number;
+    overdue: number;
+    totalPersonWeeks: number;
+  };
+  assessments: AssetAssessment[];
+}
+
+const SENSITIVITY_WEIGHT: Record<DataSensitivity, number> = {
+  public: 0.1,
+  internal: 0.35,
+  confidential: 0.6,
+  secret: 0.85,
+  'top-secret': 1
+};
+
+// Extra effort for constrained devices (firmware updates, size budgets)
+const CONSTRAINED_EFFORT_FACTOR = 1.5;
+
+function replacement(
+  algorithm: string,
+  kind: ReplacementKind,
+  standard: string | null,
+  rationale: string,
+  personWeeks: number,
+  leadTimeYears: number
+): Replacement {
+  return { algorithm, kind, standard, rationale, effort: { personWeeks, leadTimeYears } };
+}
+
+/**
+ * Recommended replacement for an asset
+ * Public-key algorithms move to ML-KEM (Kyber) or a signature scheme by
+ * usage; high-sensitivity assets go straight to CNSA 2.0 parameter sets,
+ * the rest to hybrids. AES and SHA only need larger parameters.
+ */
+export function recommendReplacement(asset: CryptoAsset, keyBits: number): Replacement {
+  const high = asset.dataSensitivity === 'secret' || asset.dataSensitivity === 'top-secret';
+  let result: Replacement;
+
+  if (asset.family === 'AES') {
+    result = keyBits < 256
+      ? replacement('AES-256', 'symmetric', 'FIPS 197',
+        'Grover halves symmetric strength; 256-bit keys keep 128-bit quantum security', 1, 0.5)
+      : replacement(asset.algorithm, 'none', null, 'Already at 256-bit keys', 0, 0);
+  } else if (asset.family === 'SHA') {
+    result = high && keyBits < 384
+      ? replacement('SHA-384', 'hash', 'FIPS 180-4', 'CNSA 2.0 requires SHA-384 or larger for national security systems', 2, 1)
+      : replacement(asset.algorithm, 'none', null, 'Grover preimage search leaves at least 128-bit security', 0, 0);
+  } else if (asset.usage === 'signature') {
+    if (asset.constrained) {
+      result = replacement(high ? 'FALCON-1024' : 'FALCON-512', 'signature', 'FIPS 206 (FN-DSA)',
+        'Smallest post-quantum signatures and keys for tight size budgets', 8, 2);
+    } else if (asset.retentionYears >= 20) {
+      result = replacement('SPHINCS+-SHA2-256s', 'signature', 'FIPS 205 (SLH-DSA)',
+        'Hash-based security with no structured assumptions for long-lived roots and firmware', 8, 3);
+    } else if (high) {
+      result = replacement('ML-DSA-87 (Dilithium5)', 'signature', 'FIPS 204',
+        'CNSA 2.0 signature parameter set', 6, 2);
+    } else {
+      result = replacement(`${asset.algorithm} + ML-DSA-65 (Dilithium3)`, 'hybrid-signature', 'FIPS 204',
+        'Composite signatures stay valid while PQC verifiers roll out', 5, 2);
+    }
+  } else {
+    result = high
+      ? replacement('ML-KEM-1024 (Kyber-1024)', 'kem', 'FIPS 203',
+        'CNSA 2.0 key establishment parameter set', 6, 2)
+      : replacement('X25519 + ML-KEM-768 (X25519Kyber768)', 'hybrid-kem', 'FIPS 203',
+        'Hybrid key exchange keeps classical security while PQC implementations mature', 4, 1);
+  }
+
+  if (asset.constrained && result.kind !== 'none') {
+    result.effort.personWeeks = Math.ceil(result.effort.personWeeks * CONSTRAINED_EFFORT_FACTOR);
+  }
+  return result;
+}
+
+/**
+ * Score assets against the forecast and order them for migration, highest
+ * priority first
+ */
+export function planMigration(
+  assets: CryptoAsset[],
+  metrics: CRQCMetrics = CURRENT_CRQC_METRICS,
+  options: ForecastOptions = DEFAULT_FORECAST_OPTIONS
+): MigrationPlan {
+  const startYear = Q_DAY_ESTIMATES.currentYear;
+  const forecasts = forecastAlgorithms(assets.map(asset => asset.algorithm), metrics, options);
+
+  const assessments = assets
+    .filter(asset => forecasts.has(asset.algorithm))
+    .map(asset => {
+      const { threat, forecast: breakForecast } = forecasts.get(asset.algorithm)!;
+      const hndl = calculateHNDLRisk(asset.retentionYears, threat.crqcScore, breakForecast);
+      const exposureProbability = hndl.exposureProbability ?? 0;
+      const recommended = recommendReplacement(asset, threat.resources.keyBits);
+
+      const p10 = breakForecast.percentiles.p10;
+      const mustStartBy = recommended.kind === 'none' || p10 === null
+        ? null
+        : Math.floor(p10 - asset.retentionYears - recommended.effort.leadTimeYears);
+
+      return {
+        rank: 0,
+        asset,
+        estimatedQDay: threat.crqcScore.estimatedQDay,
+        breakYear: breakForecast.percentiles,
+        exposureProbability,
+        riskLevel: recommended.kind === 'none' ? 'LOW' as const : hndl.riskLevel,
+        priorityScore: recommended.kind === 'none'
+          ? 0
+          : Math.round(exposureProbability * SENSITIVITY_WEIGHT[asset.dataSensitivity] * 1000) / 10,
+        mustStartBy,
+        overdue: mustStartBy !== null && mustStartBy < startYear,
+        replacement: recommended
+      };
+    })
+    .sort((a, b) =>
+      b.priorityScore - a.priorityScore ||
+      (a.mustStartBy ?? Infinity) - (b.mustStartBy ?? Infinity) ||
+      a.asset.name.localeCompare(b.asset.name)
+    );
+  assessments.forEach((assessment, index) => { assessment.rank = index + 1; });
+
+  const byRisk: MigrationPlan['summary']['byRisk'] = { CRITICAL: 0, HIGH: 0, MODERATE: 0, LOW: 0 };
+  assessments.forEach(assessment => { byRisk[assessment.riskLevel]++; });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    startYear,
+    metrics,
+    summary: {
+      assets: assessments.length,
+      byRisk,
+      needingMigration: assessments.filter(assessment => assessment.replacement.kind !== 'none').length,
+      overdue: assessments.filter(assessment => assessment.overdue).length,
+      totalPersonWeeks: assessments.reduce((total, assessment) => total + assessment.replacement.effort.personWeeks, 0)
+    },
+    assessments
+  };
+}
+
+const CSV_COLUMNS: Array<[string, (assessment: AssetAssessment) => string | number | boolean | null]> = [
+  ['rank', a => a.rank],
+  ['asset_id', a => a.asset.id],
+  ['name', a => a.asset.name],
+  ['owner', a => a.asset.owner],
+  ['algorithm', a => a.asset.algorithm],
+  ['usage', a => a.asset.usage],
+  ['data_sensitivity', a => a.asset.dataSensitivity],
+  ['retention_years', a => a.asset.retentionYears],
+  ['risk_level', a => a.riskLevel],
+  ['exposure_probability', a => a.exposureProbability],
+  ['priority_score', a => a.priorityScore],
+  ['break_year_p10', a => a.breakYear.p10],
+  ['break_year_p50', a => a.breakYear.p50],
+  ['must_start_by', a => a.mustStartBy],
+  ['overdue', a => a.overdue],
+  ['replacement', a => a.replacement.algorithm],
+  ['replacement_kind', a => a.replacement.kind],
+  ['standard', a => a.replacement.standard],
+  ['effort_person_weeks', a => a.replacement.effort.personWeeks],
+  ['lead_time_years', a => a.replacement.effort.leadTimeYears]
+];
+
+function csvField(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  let text = String(value);
+  // Keep spreadsheets from evaluating user-supplied text as a formula
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Plan as CSV, one row per asset in priority order
+ */
+export function planToCsv(plan: MigrationPlan): string {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const rows = plan.assessments.map(assessment =>
+    CSV_COLUMNS.map(([, value]) => csvField(value(assessment))).join(',')
+  );
+  return [header, ...rows].join('\r\n') + '\r\n';
+}
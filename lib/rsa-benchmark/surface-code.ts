@@ -0,0 +1,311 @@
+/**
+ * Surface Code Resource Estimator
+ *
+ * Turns a logical workload (logical qubits, T count, logical depth) into
+ * physical qubits and runtime on given hardware:
+ *   - logical error per patch per cycle  P_L(d) = 0.1 · (p / 0.01)^((d+1)/2)
+ *   - one logical layer (lattice surgery) takes d code cycles
+ *   - magic states come from 15-to-1 distillation factories stacked
+ *     `levels` deep; each level maps error e to 35·e³, injected states
+ *     start at the physical error rate, and a factory emits one state
+ *     every 5.5·d cycles
+ *   - routing space and physical qubits per patch depend on connectivity
+ *
+ * The target failure probability is split evenly between memory errors in
+ * the data and routing patches and errors in distilled T states. The code
+ * distance is the smallest odd d meeting the memory budget; the factory
+ * count is the smallest that keeps T-state supply off the critical path,
+ * unless the layout fixes it, in which case runtime stretches instead.
+ */
+
+export type Connectivity = 'square-grid' | 'heavy-hex' | 'all-to-all';
+
+export interface FactoryLayout {
+  levels: number | 'auto';         // 15-to-1 distillation levels, 1-4
+  count?: number;                  // fixed factory count; default is enough to not stall
+}
+
+export interface SurfaceCodeParams {
+  physicalErrorRate: number;       // per gate / measurement
+  cycleTimeNs: number;             // one syndrome extraction round
+  connectivity: Connectivity;
+  factory: FactoryLayout;
+  targetFailureProbability: number;
+}
+
+export interface LogicalWorkload {
+  logicalQubits: number;
+  tCount: number;
+  logicalDepth: number;            // logical layers on the critical path
+}
+
+export interface SurfaceCodeEstimate {
+  feasible: boolean;
+  reason?: string;
+  params: SurfaceCodeParams;
+  codeDistance: number;
+  logicalErrorPerCycle: number;
+  physicalQubitsPerPatch: number;
+  factory: {
+    levels: number;
+    count: number;
+    patchesEach: number;
+    outputErrorRate: number;
+    requiredErrorRate: number;
+    secondsPerState: number;
+  };
+  space: {
+    dataPatches: number;
+    routingPatches: number;
+    factoryPatches: number;
+    algorithmPhysicalQubits: number;
+    factoryPhysicalQubits: number;
+    physicalQubits: number;
+  };
+  time: {
+    logicalLayerSeconds: number;
+    depthLimitedSeconds: number;
+    magicStateLimitedSeconds: number;
+    runtimeSeconds: number;
+    runtimeHours: number;
+    bottleneck: 'depth' | 'magic-states';
+  };
+  spacetime: {
+    qubitSeconds: number;
+    factoryShare: number;          // fraction of physical qubits in factories
+  };
+  failure: {
+    target: number;
+    memory: number;
+    distillation: number;
+    total: number;
+  };
+}
+
+export const SURFACE_CODE_THRESHOLD = 0.01;
+const LOGICAL_ERROR_PREFACTOR = 0.1;
+const MAX_CODE_DISTANCE = 255;
+export const MAX_DISTILLATION_LEVELS = 4;
+const FACTORY_CYCLES_PER_STATE = 5.5;     // x d
+const FIRST_LEVEL_FACTORY_PATCHES = 11;
+
+const CONNECTIVITY: Record<Connectivity, { routingFactor: number; physicalPerPatch: (d: number) => number }> = {
+  // Data plus measure qubits on a square lattice
+  'square-grid': { routingFactor: 1.5, physicalPerPatch: d => 2 * d * d - 1 },
+  // Degree-3 lattice needs bridge qubits to measure weight-4 stabilizers
+  'heavy-hex': { routingFactor: 1.5, physicalPerPatch: d => Math.ceil((5 * d * d - 2 * d - 1) / 2) },
+  // Any pair can interact, so fewer routing lanes are needed
+  'all-to-all': { routingFactor: 1.25, physicalPerPatch: d => 2 * d * d - 1 }
+};
+
+export const CONNECTIVITIES = Object.keys(CONNECTIVITY) as Connectivity[];
+
+export const DEFAULT_SURFACE_CODE_PARAMS: SurfaceCodeParams = {
+  physicalErrorRate: 1e-3,
+  cycleTimeNs: 1000,
+  connectivity: 'square-grid',
+  factory: { levels: 'auto' },
+  targetFailureProbability: 0.01
+};
+
+export function logicalErrorPerCycle(physicalErrorRate: number, distance: number): number {
+  return LOGICAL_ERROR_PREFACTOR * Math.pow(physicalErrorRate / SURFACE_CODE_THRESHOLD, (distance + 1) / 2);
+}
+
+export function distilledErrorRate(physicalErrorRate: number, levels: number): number {
+  let error = physicalErrorRate;
+  for (let level = 0; level < levels; level++) {
+    error = 35 * Math.pow(error, 3);
+  }
+  return error;
+}
+
+// Each level consumes 15 outputs of the level below per state it emits
+function factoryPatches(levels: number): number {
+  let patches = FIRST_LEVEL_FACTORY_PATCHES;
+  for (let level = 1; level < levels; level++) {
+    patches = FIRST_LEVEL_FACTORY_PATCHES + 15 * patches;
+  }
+  return patches;
+}
+
+/**
+ * Check caller-supplied parameters; returns an error message or the
+ * parameters merged over the defaults
+ */
+export function validateSurfaceCodeParams(input: unknown): SurfaceCodeParams | string {
+  if (input === undefined || input === null) return DEFAULT_SURFACE_CODE_PARAMS;
+  if (typeof input !== 'object') return 'hardware must be an object';
+  const params = input as Partial<Record<keyof SurfaceCodeParams, unknown>>;
+  const merged = { ...DEFAULT_SURFACE_CODE_PARAMS };
+
+  if (params.physicalErrorRate !== undefined) {
+    if (typeof params.physicalErrorRate !== 'number' || !(params.physicalErrorRate > 0 && params.physicalErrorRate < 1)) {
+      return 'physicalErrorRate must be a number between 0 and 1';
+    }
+    merged.physicalErrorRate = params.physicalErrorRate;
+  }
+  if (params.cycleTimeNs !== undefined) {
+    if (typeof params.cycleTimeNs !== 'number' || !(params.cycleTimeNs > 0) || params.cycleTimeNs > 1e10) {
+      return 'cycleTimeNs must be a positive number of nanoseconds';
+    }
+    merged.cycleTimeNs = params.cycleTimeNs;
+  }
+  if (params.connectivity !== undefined) {
+    if (!CONNECTIVITIES.includes(params.connectivity as Connectivity)) {
+      return `connectivity must be one of ${CONNECTIVITIES.join(', ')}`;
+    }
+    merged.connectivity = params.connectivity as Connectivity;
+  }
+  if (params.targetFailureProbability !== undefined) {
+    if (typeof params.targetFailureProbability !== 'number' ||
+        !(params.targetFailureProbability > 0 && params.targetFailureProbability < 1)) {
+      return 'targetFailureProbability must be a number between 0 and 1';
+    }
+    merged.targetFailureProbability = params.targetFailureProbability;
+  }
+  if (params.factory !== undefined) {
+    const factory = params.factory as Partial<Record<keyof FactoryLayout, unknown>> | null;
+    if (!factory || typeof factory !== 'object') return 'factory must be an object';
+    const levels = factory.levels ?? 'auto';
+    if (levels !== 'auto' && !(Number.isInteger(levels) && (levels as number) >= 1 && (levels as number) <= MAX_DISTILLATION_LEVELS)) {
+      return `factory.levels must be "auto" or an integer from 1 to ${MAX_DISTILLATION_LEVELS}`;
+    }
+    if (factory.count !== undefined && !(Number.isInteger(factory.count) && (factory.count as number) >= 1)) {
+      return 'factory.count must be a positive integer';
+    }
+    merged.factory = { levels: levels as FactoryLayout['levels'], count: factory.count as number | undefined };
+  }
+
+  return merged;
+}
+
+function infeasible(
+  params: SurfaceCodeParams,
+  reason: string,
+  factory: Pick<SurfaceCodeEstimate['factory'], 'requiredErrorRate'> & Partial<SurfaceCodeEstimate['factory']>
+): SurfaceCodeEstimate {
+  return {
+    feasible: false,
+    reason,
+    params,
+    codeDistance: 0,
+    logicalErrorPerCycle: 0,
+    physicalQubitsPerPatch: 0,
+    factory: { levels: 0, count: 0, patchesEach: 0, outputErrorRate: 0, secondsPerState: 0, ...factory },
+    space: { dataPatches: 0, routingPatches: 0, factoryPatches: 0, algorithmPhysicalQubits: 0, factoryPhysicalQubits: 0, physicalQubits: 0 },
+    time: { logicalLayerSeconds: 0, depthLimitedSeconds: 0, magicStateLimitedSeconds: 0, runtimeSeconds: 0, runtimeHours: 0, bottleneck: 'depth' },
+    spacetime: { qubitSeconds: 0, factoryShare: 0 },
+    failure: { target: params.targetFailureProbability, memory: 0, distillation: 0, total: 0 }
+  };
+}
+
+/**
+ * Physical resources for a logical workload on the given hardware
+ */
+export function estimateSurfaceCode(
+  workload: LogicalWorkload,
+  params: SurfaceCodeParams = DEFAULT_SURFACE_CODE_PARAMS
+): SurfaceCodeEstimate {
+  const p = params.physicalErrorRate;
+  const budget = params.targetFailureProbability / 2;
+  const tCount = Math.max(workload.tCount, 1);
+  const requiredErrorRate = budget / tCount;
+
+  if (p >= SURFACE_CODE_THRESHOLD) {
+    return infeasible(params, `Physical error rate ${p} is at or above the surface code threshold (${SURFACE_CODE_THRESHOLD})`, { requiredErrorRate });
+  }
+
+  // Distillation: fewest levels whose output meets the per-state budget
+  let levels: number;
+  if (params.factory.levels === 'auto') {
+    levels = 1;
+    while (levels < MAX_DISTILLATION_LEVELS && distilledErrorRate(p, levels) > requiredErrorRate) levels++;
+  } else {
+    levels = params.factory.levels;
+  }
+  const outputErrorRate = distilledErrorRate(p, levels);
+  if (outputErrorRate > requiredErrorRate) {
+    return infeasible(
+      params,
+      `${levels}-level 15-to-1 distillation reaches ${outputErrorRate.toExponential(2)} per T state; ${requiredErrorRate.toExponential(2)} is required`,
+      { levels, outputErrorRate, requiredErrorRate }
+    );
+  }
+
+  const connectivity = CONNECTIVITY[params.connectivity];
+  const dataPatches = workload.logicalQubits;
+  const routingPatches = Math.ceil(workload.logicalQubits * (connectivity.routingFactor - 1));
+  const memoryPatches = dataPatches + routingPatches;
+
+  // Logical layers of runtime per unit of d: the critical path, or T-state
+  // supply when the factory count is fixed too low
+  const fixedCount = params.factory.count;
+  const layersPerDistance = fixedCount
+    ? Math.max(workload.logicalDepth, tCount * FACTORY_CYCLES_PER_STATE / fixedCount)
+    : workload.logicalDepth;
+
+  let distance = 3;
+  while (
+    distance <= MAX_CODE_DISTANCE &&
+    logicalErrorPerCycle(p, distance) * memoryPatches * layersPerDistance * distance > budget
+  ) {
+    distance += 2;
+  }
+  if (distance > MAX_CODE_DISTANCE) {
+    return infeasible(params, `No code distance up to ${MAX_CODE_DISTANCE} meets the failure budget at p = ${p}`, { levels, outputErrorRate, requiredErrorRate });
+  }
+
+  const cycleSeconds = params.cycleTimeNs * 1e-9;
+  const logicalLayerSeconds = distance * cycleSeconds;
+  const secondsPerState = FACTORY_CYCLES_PER_STATE * distance * cycleSeconds;
+  const depthLimitedSeconds = workload.logicalDepth * logicalLayerSeconds;
+  const count = fixedCount || Math.max(1, Math.ceil(tCount * secondsPerState / Math.max(depthLimitedSeconds, secondsPerState)));
+  const magicStateLimitedSeconds = tCount * secondsPerState / count;
+  const runtimeSeconds = Math.max(depthLimitedSeconds, magicStateLimitedSeconds);
+
+  const physicalQubitsPerPatch = connectivity.physicalPerPatch(distance);
+  const patchesEach = factoryPatches(levels);
+  const algorithmPhysicalQubits = memoryPatches * physicalQubitsPerPatch;
+  const factoryPhysicalQubits = count * patchesEach * physicalQubitsPerPatch;
+  const physicalQubits = algorithmPhysicalQubits + factoryPhysicalQubits;
+
+  const perCycle = logicalErrorPerCycle(p, distance);
+  const memoryFailure = Math.min(1, perCycle * memoryPatches * (runtimeSeconds / cycleSeconds));
+  const distillationFailure = Math.min(1, outputErrorRate * tCount);
+
+  return {
+    feasible: true,
+    params,
+    codeDistance: distance,
+    logicalErrorPerCycle: perCycle,
+    physicalQubitsPerPatch,
+    factory: { levels, count, patchesEach, outputErrorRate, requiredErrorRate, secondsPerState },
+    space: {
+      dataPatches,
+      routingPatches,
+      factoryPatches: count * patchesEach,
+      algorithmPhysicalQubits,
+      factoryPhysicalQubits,
+      physicalQubits
+    },
+    time: {
+      logicalLayerSeconds,
+      depthLimitedSeconds,
+      magicStateLimitedSeconds,
+      runtimeSeconds,
+      runtimeHours: runtimeSeconds / 3600,
+      bottleneck: magicStateLimitedSeconds > depthLimitedSeconds ? 'magic-states' : 'depth'
+    },
+    spacetime: {
+      qubitSeconds: physicalQubits * runtimeSeconds,
+      factoryShare: factoryPhysicalQubits / physicalQubits
+    },
+    failure: {
+      target: params.targetFailureProbability,
+      memory: memoryFailure,
+      distillation: distillationFailure,
+      total: Math.min(1, memoryFailure + distillationFailure)
+    }
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * JSON State Files
+ * Load and save for the stores kept as one JSON document under ~/.sovereign/state
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface WriteJsonOptions {
+  mode?: number; // file permissions, e.g. 0o600 for secrets
+  indent?: number; // 0 writes compact JSON
+}
+
+/**
+ * Read a JSON state file; null if it does not exist yet
+ * Any other failure throws, so a store never starts empty over an unreadable file
+ */
+export function readJsonFile<T>(filePath: string, tag: string, label: string): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw new Error(`${tag} Cannot read ${label} ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Write a JSON state file atomically
+ * Writes to a temp file and renames it, so a crash never leaves a torn file
+ */
+export function writeJsonFile(filePath: string, data: unknown, options: WriteJsonOptions = {}): void {
+  const { mode, indent = 2 } = options;
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, indent), { ...(mode !== undefined && { mode }) });
+  fs.renameSync(tmpPath, filePath);
+}
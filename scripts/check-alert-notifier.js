@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+/**
+ * Alert Notifier Check
+ * Fires and then resolves a rule in the alert engine and asserts that the
+ * webhook notifier delivers both transitions to scripts/mock-webhook.js
+ *
+ * Usage: node scripts/check-alert-notifier.js
+ * Exits non-zero on failure. Stores run in memory and ChatMesh points at a
+ * closed port, so the check touches no state and needs no mesh.
+ */
+
+const path = require('path');
+const { spawn } = require('child_process');
+
+const TIMEOUT_MS = 15000;
+
+function startReceiver() {
+  const child = spawn(process.execPath, [path.join(__dirname, 'mock-webhook.js'), '--port', '0', '--json'], {
+    stdio: ['ignore', 'pipe', 'inherit']
+  });
+  const payloads = [];
+
+  const ready = new Promise((resolve, reject) => {
+    let buffer = '';
+    child.stdout.on('data', (chunk) => {
+      buffer += chunk.toString('utf-8');
+      let newline;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+        const listening = line.match(/^\[WEBHOOK\] listening on (\d+)/);
+        if (listening) resolve(parseInt(listening[1]));
+        else if (line.startsWith('{')) payloads.push(JSON.parse(line));
+      }
+    });
+    child.on('exit', (code) => reject(new Error(`webhook receiver exited ${code}`)));
+  });
+
+  return { child, payloads, ready };
+}
+
+function waitFor(predicate, timeoutMs) {
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve, reject) => {
+    const poll = () => {
+      if (predicate()) resolve();
+      else if (Date.now() > deadline) reject(new Error('timed out waiting for notifications'));
+      else setTimeout(poll, 50);
+    };
+    poll();
+  });
+}
+
+function assert(condition, message) {
+  if (!condition) throw new Error(message);
+}
+
+async function main() {
+  const receiver = startReceiver();
+
+  try {
+    const port = await receiver.ready;
+
+    process.env.ALERTS_STORE = 'memory';
+    process.env.METRICS_HISTORY_STORE = 'memory';
+    process.env.HEAL_HISTORY_STORE = 'memory';
+    process.env.CHATMESH_ENDPOINTS = '127.0.0.1:1';
+    process.env.ALERT_WEBHOOK_URL = `http://127.0.0.1:${port}/alerts`;
+    delete process.env.ALERT_COMMAND;
+
+    require('./ts-register');
+    const engine = require('../lib/alerts/engine');
+
+    const created = engine.createAlertRule({
+      name: 'Notifier check',
+      condition: { type: 'threshold', metric: 'gamma', operator: '>', value: 0.5 },
+      forSeconds: 0,
+      severity: 'critical'
+    }, { userId: 'notifier-check', clearanceLevel: 5 });
+    assert(created.success, `createAlertRule failed: ${created.error}`);
+    const ruleId = created.rule.id;
+
+    const sample = { lambda: 0.9, phi: 0.85, xi: 9, theta: 0, consciousness: 'CONSCIOUS', source: 'chatmesh' };
+    const now = Date.now();
+    engine.evaluateAlertRules({ ...sample, gamma: 0.6, timestamp: now });
+    engine.evaluateAlertRules({ ...sample, gamma: 0.08, timestamp: now + 1000 });
+
+    const forRule = () => receiver.payloads.filter(payload => payload.rule && payload.rule.id === ruleId);
+    await waitFor(() => forRule().length >= 2, TIMEOUT_MS);
+
+    // The two deliveries run concurrently, so they may arrive in either order
+    const firing = forRule().find(payload => payload.event === 'firing');
+    const resolved = forRule().find(payload => payload.event === 'resolved');
+    assert(firing, 'no firing notification was delivered');
+    assert(resolved, 'no resolved notification was delivered');
+    assert(firing.alert.status === 'firing' && firing.alert.value === 0.6, 'firing payload has the wrong alert state');
+    assert(resolved.alert.status === 'resolved' && resolved.alert.resolvedAt === now + 1000,
+      'resolved payload has the wrong alert state');
+    assert(firing.alert.id === resolved.alert.id, 'firing and resolved payloads name different alerts');
+    assert(firing.rule.condition.metric === 'gamma' && firing.rule.severity === 'critical', 'payload rule summary is wrong');
+
+    console.log(`[CHECK] ok: firing and resolved notifications delivered for ${firing.alert.id}`);
+    return 0;
+  } catch (error) {
+    console.error(`[CHECK] FAILED: ${error.message}`);
+    return 1;
+  } finally {
+    receiver.child.kill();
+  }
+}
+
+main().then(code => process.exit(code));
@@ -0,0 +1,111 @@
+#!/usr/bin/env node
+/**
+ * ChatMesh Failover Check
+ * Runs two scripts/mock-chatmesh.js endpoints, kills the preferred one and
+ * asserts that the client's requests and subscription move to the other
+ * while getHealth() reports the killed endpoint down
+ *
+ * Usage: node scripts/check-chatmesh-failover.js
+ * Exits non-zero on failure.
+ */
+
+const path = require('path');
+const { spawn } = require('child_process');
+
+const TIMEOUT_MS = 15000;
+
+function startMock(args) {
+  const child = spawn(process.execPath, [path.join(__dirname, 'mock-chatmesh.js'), '--port', '0', ...args], {
+    stdio: ['ignore', 'pipe', 'inherit']
+  });
+
+  const ready = new Promise((resolve, reject) => {
+    let buffer = '';
+    child.stdout.on('data', (chunk) => {
+      if (buffer === null) return;
+      buffer += chunk.toString('utf-8');
+      const listening = buffer.match(/ChatMesh listening on (\d+)/);
+      if (listening) {
+        buffer = null;
+        resolve(parseInt(listening[1]));
+      }
+    });
+    child.on('exit', (code) => reject(new Error(`mock ChatMesh exited ${code}`)));
+  });
+
+  return { child, ready };
+}
+
+function waitFor(predicate, timeoutMs, what) {
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve, reject) => {
+    const poll = () => {
+      if (predicate()) resolve();
+      else if (Date.now() > deadline) reject(new Error(`timed out waiting for ${what}`));
+      else setTimeout(poll, 50);
+    };
+    poll();
+  });
+}
+
+function assert(condition, message) {
+  if (!condition) throw new Error(message);
+}
+
+async function main() {
+  const primary = startMock(['--gamma', '0.08', '--push-ms', '200']);
+  const secondary = startMock(['--gamma', '0.09', '--push-ms', '200']);
+  let subscription = null;
+
+  try {
+    const [primaryPort, secondaryPort] = await Promise.all([primary.ready, secondary.ready]);
+    const primaryAddress = `127.0.0.1:${primaryPort}`;
+    const secondaryAddress = `127.0.0.1:${secondaryPort}`;
+
+    require('./ts-register');
+    const { ChatMeshClient, parseEndpoints } = require('../lib/chatmesh/client');
+    const client = new ChatMeshClient(parseEndpoints(`${primaryAddress},${secondaryAddress}`));
+
+    const pushed = [];
+    subscription = client.subscribe(['metrics'], {
+      onMessage: (message) => {
+        if (message.type === 'METRICS') pushed.push(subscription.getStatus().endpoint);
+      }
+    }, 2000);
+
+    const before = await client.request({ type: 'GET_METRICS', node: 'check' });
+    assert(before.success && before.endpoint === primaryAddress, `first request did not use the primary: ${JSON.stringify(before)}`);
+    await waitFor(() => pushed.includes(primaryAddress), TIMEOUT_MS, 'metrics pushed by the primary');
+
+    primary.child.kill();
+    await new Promise(resolve => primary.child.once('exit', resolve));
+
+    const after = await client.request({ type: 'GET_METRICS', node: 'check' });
+    assert(after.success && after.endpoint === secondaryAddress, `request did not fail over: ${JSON.stringify(after)}`);
+    assert(after.message.type === 'METRICS' && after.message.metrics.gamma === 0.09,
+      'failed-over reply did not come from the secondary');
+
+    pushed.length = 0;
+    await waitFor(() => pushed.includes(secondaryAddress), TIMEOUT_MS, 'the subscription to fail over');
+
+    const health = client.getHealth();
+    const [primaryHealth, secondaryHealth] = health.endpoints;
+    assert(primaryHealth.state === 'down' && primaryHealth.failures > 0 && primaryHealth.lastError,
+      `killed endpoint not reported down: ${JSON.stringify(primaryHealth)}`);
+    assert(secondaryHealth.state === 'up', `secondary not reported up: ${JSON.stringify(secondaryHealth)}`);
+    assert(health.status === 'degraded', `client status is ${health.status}, expected degraded`);
+    assert(health.subscriptions[0].endpoint === secondaryAddress, 'health does not show the subscription on the secondary');
+
+    console.log(`[CHECK] ok: failed over from ${primaryAddress} (${primaryHealth.lastError}) to ${secondaryAddress}`);
+    return 0;
+  } catch (error) {
+    console.error(`[CHECK] FAILED: ${error.message}`);
+    return 1;
+  } finally {
+    if (subscription) subscription.close();
+    primary.child.kill();
+    secondary.child.kill();
+  }
+}
+
+main().then(code => process.exit(code));
@@ -0,0 +1,159 @@
+#!/usr/bin/env node
+/**
+ * Mock ChatMesh Server
+ * Local stand-in for exercising the ChatMesh client without a mesh
+ *
+ * Usage: node scripts/mock-chatmesh.js [options]
+ *   --port <n>          listen port (default 7777, 0 picks a free one)
+ *   --framing <mode>    newline | length (default newline)
+ *   --lambda/--phi/--gamma <x>
+ *                       metrics to report (defaults 0.91 / 0.85 / 0.08)
+ *   --push-ms <n>       push metrics to subscribers every n ms (default off)
+ *   --heal-every <n>    push a HEAL event to subscribers every n ms
+ *   --drop-after <n>    close every connection n ms after it opens
+ *   --silent            accept connections but never reply
+ *   --garbage           reply with invalid frames
+ *
+ * Point the app at it with CHATMESH_ENDPOINTS=127.0.0.1:<port>.
+ */
+
+const net = require('net');
+
+function parseArgs(argv) {
+  const options = {
+    port: 7777,
+    framing: 'newline',
+    lambda: 0.91,
+    phi: 0.85,
+    gamma: 0.08,
+    pushMs: 0,
+    healEvery: 0,
+    dropAfter: 0,
+    silent: false,
+    garbage: false
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => argv[++i];
+    switch (arg) {
+      case '--port': options.port = parseInt(next()); break;
+      case '--framing': options.framing = next() === 'length' ? 'length' : 'newline'; break;
+      case '--lambda': options.lambda = parseFloat(next()); break;
+      case '--phi': options.phi = parseFloat(next()); break;
+      case '--gamma': options.gamma = parseFloat(next()); break;
+      case '--push-ms': options.pushMs = parseInt(next()); break;
+      case '--heal-every': options.healEvery = parseInt(next()); break;
+      case '--drop-after': options.dropAfter = parseInt(next()); break;
+      case '--silent': options.silent = true; break;
+      case '--garbage': options.garbage = true; break;
+      default:
+        console.error(`Unknown option ${arg}`);
+        process.exit(1);
+    }
+  }
+  return options;
+}
+
+function encode(message, framing) {
+  const body = Buffer.from(typeof message === 'string' ? message : JSON.stringify(message), 'utf-8');
+  if (framing === 'newline') return Buffer.concat([body, Buffer.from('\n')]);
+  const prefix = Buffer.alloc(4);
+  prefix.writeUInt32BE(body.length, 0);
+  return Buffer.concat([prefix, body]);
+}
+
+function createDecoder(framing) {
+  let buffer = Buffer.alloc(0);
+  return (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    const frames = [];
+    if (framing === 'newline') {
+      let newline;
+      while ((newline = buffer.indexOf(0x0a)) !== -1) {
+        const line = buffer.subarray(0, newline).toString('utf-8').trim();
+        buffer = buffer.subarray(newline + 1);
+        if (line) frames.push(line);
+      }
+    } else {
+      while (buffer.length >= 4 && buffer.length >= 4 + buffer.readUInt32BE(0)) {
+        const length = buffer.readUInt32BE(0);
+        frames.push(buffer.subarray(4, 4 + length).toString('utf-8'));
+        buffer = buffer.subarray(4 + length);
+      }
+    }
+    return frames;
+  };
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const metrics = () => ({ lambda: options.lambda, phi: options.phi, gamma: options.gamma });
+  let connections = 0;
+
+  const server = net.createServer((socket) => {
+    const id = ++connections;
+    const decode = createDecoder(options.framing);
+    const timers = [];
+    const send = (message) => {
+      if (!socket.destroyed) socket.write(encode(options.garbage ? '{"lambda": "broken"' : message, options.framing));
+    };
+
+    console.log(`[MOCK] #${id} connected from ${socket.remoteAddress}:${socket.remotePort}`);
+
+    socket.on('data', (chunk) => {
+      decode(chunk).forEach((frame) => {
+        let message;
+        try {
+          message = JSON.parse(frame);
+        } catch {
+          send({ type: 'ERROR', error: 'invalid JSON' });
+          return;
+        }
+
+        console.log(`[MOCK] #${id} ${message.type}`);
+        if (options.silent) return;
+
+        if (message.type === 'GET_METRICS') {
+          send(metrics());
+        } else if (message.type === 'SUBSCRIBE') {
+          send({ type: 'SUBSCRIBED', topics: message.topics || [] });
+          if (options.pushMs > 0) {
+            timers.push(setInterval(() => send({ type: 'METRICS', metrics: metrics() }), options.pushMs));
+          }
+          if (options.healEvery > 0) {
+            timers.push(setInterval(() => {
+              const before = options.gamma;
+              options.gamma = Math.round(options.gamma * 0.869 * 10000) / 10000;
+              send({ type: 'HEAL', before, after: options.gamma, metrics: metrics() });
+            }, options.healEvery));
+          }
+        } else {
+          send({ type: 'ERROR', error: `unsupported message ${message.type}` });
+        }
+      });
+    });
+
+    if (options.dropAfter > 0) {
+      timers.push(setTimeout(() => {
+        console.log(`[MOCK] #${id} dropping connection`);
+        socket.destroy();
+      }, options.dropAfter));
+    }
+
+    socket.on('error', () => {});
+    socket.on('close', () => {
+      timers.forEach((timer) => clearInterval(timer));
+      console.log(`[MOCK] #${id} closed`);
+    });
+  });
+
+  server.listen(options.port, () => {
+    console.log(`[MOCK] ChatMesh listening on ${server.address().port} (${options.framing} framing)`);
+  });
+
+  process.on('SIGINT', () => process.exit(0));
+  process.on('SIGTERM', () => process.exit(0));
+}
+
+main();
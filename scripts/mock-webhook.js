@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+/**
+ * Mock Webhook Receiver
+ * Local target for ALERT_WEBHOOK_URL that logs every alert notification
+ *
+ * Usage: node scripts/mock-webhook.js [options]
+ *   --port <n>          listen port (default 7780, 0 picks a free one)
+ *   --status <n>        HTTP status to answer with (default 204)
+ *   --json              print each payload as one JSON line instead of a summary
+ *
+ * Point the app at it with ALERT_WEBHOOK_URL=http://127.0.0.1:<port>/alerts.
+ */
+
+const http = require('http');
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+function parseArgs(argv) {
+  const options = {
+    port: 7780,
+    status: 204,
+    json: false
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => argv[++i];
+    switch (arg) {
+      case '--port': options.port = parseInt(next()); break;
+      case '--status': options.status = parseInt(next()); break;
+      case '--json': options.json = true; break;
+      default:
+        console.error(`Unknown option ${arg}`);
+        process.exit(1);
+    }
+  }
+  return options;
+}
+
+function summarize(payload) {
+  const alert = payload.alert || {};
+  return `${payload.event} ${alert.ruleName} (${alert.severity}) ${alert.id}: ${alert.message}`;
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  const server = http.createServer((request, response) => {
+    if (request.method !== 'POST') {
+      response.writeHead(405).end();
+      return;
+    }
+
+    let body = '';
+    request.on('data', (chunk) => {
+      body += chunk.toString('utf-8');
+      if (body.length > MAX_BODY_BYTES) request.destroy();
+    });
+    request.on('end', () => {
+      let payload;
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        console.log(`[WEBHOOK] ${request.url} invalid JSON body`);
+        response.writeHead(400).end();
+        return;
+      }
+
+      console.log(options.json ? JSON.stringify(payload) : `[WEBHOOK] ${request.url} ${summarize(payload)}`);
+      response.writeHead(options.status).end();
+    });
+  });
+
+  server.listen(options.port, '127.0.0.1', () => {
+    console.log(`[WEBHOOK] listening on ${server.address().port} (answering ${options.status})`);
+  });
+
+  process.on('SIGINT', () => process.exit(0));
+  process.on('SIGTERM', () => process.exit(0));
+}
+
+main();
@@ -0,0 +1,24 @@
+/**
+ * TypeScript Require Hook
+ * Lets the check scripts load lib/ modules directly, without a build
+ *
+ * Each .ts file is transpiled on require with the project's typescript
+ * package. Nothing is type checked here; tsc --noEmit covers that.
+ *
+ * Usage: require('./ts-register') before requiring any lib/ module.
+ */
+
+const fs = require('fs');
+const ts = require('typescript');
+
+const COMPILER_OPTIONS = {
+  module: ts.ModuleKind.CommonJS,
+  target: ts.ScriptTarget.ES2020,
+  esModuleInterop: true
+};
+
+require.extensions['.ts'] = (module, filename) => {
+  const source = fs.readFileSync(filename, 'utf-8');
+  const { outputText } = ts.transpileModule(source, { fileName: filename, compilerOptions: COMPILER_OPTIONS });
+  module._compile(outputText, filename);
+};